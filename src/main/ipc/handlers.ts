@@ -1,4 +1,5 @@
-import { BrowserWindow, ipcMain } from 'electron';
+import { BrowserWindow, dialog, ipcMain } from 'electron';
+import * as path from 'path';
 import { AuthService } from '../services/auth';
 import { GitHubService } from '../services/github';
 import { DashboardService } from '../services/dashboard';
@@ -7,19 +8,62 @@ import { WorkflowService } from '../services/workflow';
 import { DatabaseManagementService } from '../services/databaseManagement';
 import { serverManagementService } from '../services/serverManagement';
 import { sshKeyService } from '../services/sshKeyService';
+import { DockerService } from '../services/docker';
+import { DeploymentService } from '../services/deployment';
+import { StackDetectionService } from '../services/stackDetection';
+import { TerminalService } from '../services/terminal';
+import { SftpService } from '../services/sftp';
+import { AuthPromptService } from '../services/authPrompts';
 import {
+    DeploymentConfig,
+    DeploymentConfigInput,
+    DeploymentHistoryFilter,
+    DeployPathHint,
+    DirectDeploymentProgress,
     DirectDeploymentRequest,
     DirectDeploymentResult,
+    GroupDeploymentProgress,
+    GroupDeploymentRequest,
+    GroupDeploymentResult,
     IPCResponse,
+    ProjectStackDetection,
+    RemoteDirectoryListing,
+    RemoteFileContent,
+    RemoteFileEntry,
+    RemoteFileSaveResult,
     ServerStats,
     ServerStatusPayload,
+    StackDetectionTarget,
+    TerminalData,
+    TerminalExit,
+    TerminalOpenOptions,
+    TerminalSession,
     VPSServer,
     SSHKeyGenerationOptions,
     SSHKeyInfo,
+    SSHAuthPrompt,
+    SSHAuthPromptResponse,
     SSHConnectionTestResult,
     SuggestedDeployPath,
     PermissionConfig,
-    GitHubDeployKey
+    GitHubDeployKey,
+    DockerContainer,
+    DockerEndpoint,
+    DockerEngineInfo,
+    DockerExecOptions,
+    DockerImage,
+    DockerInspectDocument,
+    DockerLogOptions,
+    DockerNetwork,
+    DockerResourceKind,
+    DockerStreamData,
+    DockerStreamEnd,
+    DockerVolume,
+    WorkflowFileSaveRequest,
+    WorkflowFileSaveResult,
+    WorkflowDiagnostic,
+    WorkflowProject,
+    WorkflowProjectInput
 } from '../../shared/types';
 
 export function registerIPCHandlers(): void {
@@ -110,9 +154,9 @@ export function registerIPCHandlers(): void {
         }
     });
 
-    ipcMain.handle('repos:analytics', async (_, repoName: string): Promise<IPCResponse> => {
+    ipcMain.handle('repos:analytics', async (_, repoName: string, refresh?: boolean): Promise<IPCResponse> => {
         try {
-            const analytics = await RepositoryService.getRepositoryAnalytics(repoName);
+            const analytics = await RepositoryService.getRepositoryAnalytics(repoName, refresh);
             return { success: true, data: analytics };
         } catch (error) {
             return { success: false, error: (error as Error).message };
@@ -211,10 +255,63 @@ export function registerIPCHandlers(): void {
         }
     });
 
+    ipcMain.handle('workflows:get-job-logs', async (_, owner: string, repo: string, jobId: number, offset?: number): Promise<IPCResponse> => {
+        try {
+            const logs = await WorkflowService.getInstance().getJobLogs(owner, repo, jobId, offset);
+            return { success: true, data: logs };
+        } catch (error) {
+            return { success: false, error: (error as Error).message };
+        }
+    });
+
     ipcMain.handle('workflows:get-yaml', async (_, owner: string, repo: string, workflowId: number): Promise<IPCResponse> => {
         try {
-            const yaml = await WorkflowService.getInstance().getWorkflowYAML(owner, repo, workflowId);
-            return { success: true, data: yaml };
+            const file = await WorkflowService.getInstance().getWorkflowFile(owner, repo, workflowId);
+            return { success: true, data: file };
+        } catch (error) {
+            return { success: false, error: (error as Error).message };
+        }
+    });
+
+    ipcMain.handle('workflows:save-file', async (_, owner: string, repo: string, request: WorkflowFileSaveRequest): Promise<IPCResponse<WorkflowFileSaveResult>> => {
+        try {
+            const result = await WorkflowService.getInstance().saveWorkflowFile(owner, repo, request);
+            return { success: true, data: result };
+        } catch (error) {
+            return { success: false, error: (error as Error).message };
+        }
+    });
+
+    ipcMain.handle('workflows:validate', async (_, content: string): Promise<IPCResponse<WorkflowDiagnostic[]>> => {
+        try {
+            return { success: true, data: WorkflowService.getInstance().validateWorkflowFile(content) };
+        } catch (error) {
+            return { success: false, error: (error as Error).message };
+        }
+    });
+
+    ipcMain.handle('workflows:list-projects', async (): Promise<IPCResponse<WorkflowProject[]>> => {
+        try {
+            const projects = await WorkflowService.getInstance().listWorkflowProjects();
+            return { success: true, data: projects };
+        } catch (error) {
+            return { success: false, error: (error as Error).message };
+        }
+    });
+
+    ipcMain.handle('workflows:save-project', async (_, project: WorkflowProjectInput): Promise<IPCResponse<WorkflowProject>> => {
+        try {
+            const saved = await WorkflowService.getInstance().saveWorkflowProject(project);
+            return { success: true, data: saved };
+        } catch (error) {
+            return { success: false, error: (error as Error).message };
+        }
+    });
+
+    ipcMain.handle('workflows:delete-project', async (_, id: string): Promise<IPCResponse> => {
+        try {
+            await WorkflowService.getInstance().deleteWorkflowProject(id);
+            return { success: true };
         } catch (error) {
             return { success: false, error: (error as Error).message };
         }
@@ -338,9 +435,9 @@ export function registerIPCHandlers(): void {
         }
     });
 
-    ipcMain.handle('database:open-external', async (_, connectionId: string): Promise<IPCResponse> => {
+    ipcMain.handle('database:open-external', async (_, connectionId: string, options?: { includePassword?: boolean }): Promise<IPCResponse> => {
         try {
-            const result = await DatabaseManagementService.getInstance().openDatabaseInExternal(connectionId);
+            const result = await DatabaseManagementService.getInstance().openDatabaseInExternal(connectionId, options);
             return result;
         } catch (error) {
             return { success: false, error: (error as Error).message };
@@ -440,7 +537,121 @@ export function registerIPCHandlers(): void {
 
     ipcMain.handle('servers:direct-deploy', async (_, payload: DirectDeploymentRequest): Promise<IPCResponse<DirectDeploymentResult>> => {
         try {
-            const result = await serverManagementService.directDeploy(payload);
+            const result = await DeploymentService.getInstance().deploy(payload);
+            if (result.success) {
+                return { success: true, data: result };
+            }
+            return { success: false, data: result, error: result.error };
+        } catch (error) {
+            return { success: false, error: (error as Error).message };
+        }
+    });
+
+    // Deployment history handlers
+    ipcMain.handle('deploy:history', async (_, filter?: DeploymentHistoryFilter): Promise<IPCResponse<DirectDeploymentResult[]>> => {
+        try {
+            const history = await DeploymentService.getInstance().getHistory(filter);
+            return { success: true, data: history };
+        } catch (error) {
+            return { success: false, error: (error as Error).message };
+        }
+    });
+
+    // Saved deployment configuration handlers
+    ipcMain.handle('deploy:list', async (_, serverId?: string): Promise<IPCResponse<DeploymentConfig[]>> => {
+        try {
+            const configs = await DeploymentService.getInstance().listConfigs(serverId);
+            return { success: true, data: configs };
+        } catch (error) {
+            return { success: false, error: (error as Error).message };
+        }
+    });
+
+    ipcMain.handle('deploy:create', async (_, config: DeploymentConfigInput): Promise<IPCResponse<DeploymentConfig>> => {
+        try {
+            const created = await DeploymentService.getInstance().createConfig(config);
+            return { success: true, data: created };
+        } catch (error) {
+            return { success: false, error: (error as Error).message };
+        }
+    });
+
+    ipcMain.handle('deploy:update', async (_, configId: string, updates: Partial<DeploymentConfigInput>): Promise<IPCResponse<DeploymentConfig>> => {
+        try {
+            const updated = await DeploymentService.getInstance().updateConfig(configId, updates);
+            return { success: true, data: updated };
+        } catch (error) {
+            return { success: false, error: (error as Error).message };
+        }
+    });
+
+    ipcMain.handle('deploy:delete', async (_, configId: string): Promise<IPCResponse> => {
+        try {
+            await DeploymentService.getInstance().deleteConfig(configId);
+            return { success: true };
+        } catch (error) {
+            return { success: false, error: (error as Error).message };
+        }
+    });
+
+    ipcMain.handle('deploy:run', async (_, configId: string): Promise<IPCResponse<DirectDeploymentResult>> => {
+        try {
+            const result = await DeploymentService.getInstance().runConfig(configId);
+            if (result.success) {
+                return { success: true, data: result };
+            }
+            return { success: false, data: result, error: result.error };
+        } catch (error) {
+            return { success: false, error: (error as Error).message };
+        }
+    });
+
+    ipcMain.handle('deploy:cancel', async (_, deploymentId: string): Promise<IPCResponse> => {
+        try {
+            if (!serverManagementService.cancelDeployment(deploymentId)) {
+                throw new Error('Deployment is not running');
+            }
+            return { success: true };
+        } catch (error) {
+            return { success: false, error: (error as Error).message };
+        }
+    });
+
+    ipcMain.handle('deploy:group', async (_, request: GroupDeploymentRequest): Promise<IPCResponse<GroupDeploymentResult>> => {
+        try {
+            const result = await DeploymentService.getInstance().deployGroup(request);
+            if (result.success) {
+                return { success: true, data: result };
+            }
+            return { success: false, data: result, error: result.error };
+        } catch (error) {
+            return { success: false, error: (error as Error).message };
+        }
+    });
+
+    ipcMain.handle('deploy:cancel-group', async (_, groupId: string): Promise<IPCResponse> => {
+        try {
+            if (!DeploymentService.getInstance().cancelGroup(groupId)) {
+                throw new Error('Group deployment is not running');
+            }
+            return { success: true };
+        } catch (error) {
+            return { success: false, error: (error as Error).message };
+        }
+    });
+
+    ipcMain.handle('deploy:detect-stack', async (_, target: StackDetectionTarget): Promise<IPCResponse<ProjectStackDetection>> => {
+        try {
+            const detection = await StackDetectionService.detect(target);
+            return { success: true, data: detection };
+        } catch (error) {
+            return { success: false, error: (error as Error).message };
+        }
+    });
+
+    ipcMain.handle('deploy:rollback', async (_, deploymentId: string): Promise<IPCResponse<DirectDeploymentResult>> => {
+        try {
+            const result = await DeploymentService.getInstance().rollback(deploymentId);
             if (result.success) {
                 return { success: true, data: result };
             }
@@ -460,6 +671,33 @@ export function registerIPCHandlers(): void {
         }
     });
 
+    ipcMain.handle('servers:auth-prompt-response', async (_, promptId: string, response: SSHAuthPromptResponse | null): Promise<IPCResponse> => {
+        try {
+            AuthPromptService.getInstance().respond(promptId, response);
+            return { success: true };
+        } catch (error) {
+            return { success: false, error: (error as Error).message };
+        }
+    });
+
+    ipcMain.handle('servers:import-known-host-key', async (_, serverId: string): Promise<IPCResponse<VPSServer>> => {
+        try {
+            const server = await serverManagementService.importKnownHostKey(serverId);
+            return { success: true, data: server };
+        } catch (error) {
+            return { success: false, error: (error as Error).message };
+        }
+    });
+
+    ipcMain.handle('servers:forget-host-key', async (_, serverId: string): Promise<IPCResponse<VPSServer>> => {
+        try {
+            const server = await serverManagementService.forgetHostKey(serverId);
+            return { success: true, data: server };
+        } catch (error) {
+            return { success: false, error: (error as Error).message };
+        }
+    });
+
     ipcMain.handle('servers:upload-public-key', async (_, serverId: string, publicKey: string): Promise<IPCResponse> => {
         try {
             const result = await serverManagementService.uploadPublicKeyToServer(serverId, publicKey);
@@ -469,9 +707,9 @@ export function registerIPCHandlers(): void {
         }
     });
 
-    ipcMain.handle('servers:detect-deploy-paths', async (_, serverId: string): Promise<IPCResponse<SuggestedDeployPath[]>> => {
+    ipcMain.handle('servers:detect-deploy-paths', async (_, serverId: string, hint?: DeployPathHint): Promise<IPCResponse<SuggestedDeployPath[]>> => {
         try {
-            const paths = await serverManagementService.detectDeployPaths(serverId);
+            const paths = await serverManagementService.detectDeployPaths(serverId, hint);
             return { success: true, data: paths };
         } catch (error) {
             return { success: false, error: (error as Error).message };
@@ -575,6 +813,301 @@ export function registerIPCHandlers(): void {
         }
     });
 
+    // Docker Engine handlers
+    ipcMain.handle('docker:ping', async (_, endpoint: DockerEndpoint): Promise<IPCResponse<DockerEngineInfo>> => {
+        try {
+            const info = await DockerService.getInstance().getEngineInfo(endpoint);
+            return { success: true, data: info };
+        } catch (error) {
+            return { success: false, error: (error as Error).message };
+        }
+    });
+
+    ipcMain.handle('docker:list', async (_, endpoint: DockerEndpoint, kind: DockerResourceKind): Promise<IPCResponse<DockerContainer[] | DockerImage[] | DockerNetwork[] | DockerVolume[]>> => {
+        try {
+            const resources = await DockerService.getInstance().list(endpoint, kind);
+            return { success: true, data: resources };
+        } catch (error) {
+            return { success: false, error: (error as Error).message };
+        }
+    });
+
+    ipcMain.handle('docker:inspect', async (_, endpoint: DockerEndpoint, kind: DockerResourceKind, id: string): Promise<IPCResponse<DockerInspectDocument>> => {
+        try {
+            const details = await DockerService.getInstance().inspect(endpoint, kind, id);
+            return { success: true, data: details };
+        } catch (error) {
+            return { success: false, error: (error as Error).message };
+        }
+    });
+
+    ipcMain.handle('docker:remove', async (_, endpoint: DockerEndpoint, kind: DockerResourceKind, id: string, force?: boolean): Promise<IPCResponse> => {
+        try {
+            await DockerService.getInstance().remove(endpoint, kind, id, force);
+            return { success: true };
+        } catch (error) {
+            return { success: false, error: (error as Error).message };
+        }
+    });
+
+    ipcMain.handle('docker:start-container', async (_, endpoint: DockerEndpoint, id: string): Promise<IPCResponse> => {
+        try {
+            await DockerService.getInstance().startContainer(endpoint, id);
+            return { success: true };
+        } catch (error) {
+            return { success: false, error: (error as Error).message };
+        }
+    });
+
+    ipcMain.handle('docker:stop-container', async (_, endpoint: DockerEndpoint, id: string): Promise<IPCResponse> => {
+        try {
+            await DockerService.getInstance().stopContainer(endpoint, id);
+            return { success: true };
+        } catch (error) {
+            return { success: false, error: (error as Error).message };
+        }
+    });
+
+    ipcMain.handle('docker:restart-container', async (_, endpoint: DockerEndpoint, id: string): Promise<IPCResponse> => {
+        try {
+            await DockerService.getInstance().restartContainer(endpoint, id);
+            return { success: true };
+        } catch (error) {
+            return { success: false, error: (error as Error).message };
+        }
+    });
+
+    // Docker log/exec streams are closed when the window that opened them goes away
+    ipcMain.handle('docker:logs-subscribe', async (event, endpoint: DockerEndpoint, containerId: string, options?: DockerLogOptions): Promise<IPCResponse<string>> => {
+        try {
+            const docker = DockerService.getInstance();
+            const streamId = await docker.subscribeLogs(endpoint, containerId, options);
+            docker.closeWhenDestroyed(streamId, event.sender);
+            return { success: true, data: streamId };
+        } catch (error) {
+            return { success: false, error: (error as Error).message };
+        }
+    });
+
+    ipcMain.handle('docker:exec-start', async (event, endpoint: DockerEndpoint, containerId: string, options?: DockerExecOptions): Promise<IPCResponse<string>> => {
+        try {
+            const docker = DockerService.getInstance();
+            const streamId = await docker.startExec(endpoint, containerId, options);
+            docker.closeWhenDestroyed(streamId, event.sender);
+            return { success: true, data: streamId };
+        } catch (error) {
+            return { success: false, error: (error as Error).message };
+        }
+    });
+
+    ipcMain.handle('docker:stream-input', async (_, streamId: string, data: string): Promise<IPCResponse> => {
+        try {
+            DockerService.getInstance().writeStream(streamId, data);
+            return { success: true };
+        } catch (error) {
+            return { success: false, error: (error as Error).message };
+        }
+    });
+
+    ipcMain.handle('docker:stream-resize', async (_, streamId: string, cols: number, rows: number): Promise<IPCResponse> => {
+        try {
+            await DockerService.getInstance().resizeStream(streamId, cols, rows);
+            return { success: true };
+        } catch (error) {
+            return { success: false, error: (error as Error).message };
+        }
+    });
+
+    ipcMain.handle('docker:stream-unsubscribe', async (_, streamId: string): Promise<IPCResponse> => {
+        try {
+            DockerService.getInstance().unsubscribe(streamId);
+            return { success: true };
+        } catch (error) {
+            return { success: false, error: (error as Error).message };
+        }
+    });
+
+    // Terminal handlers
+    ipcMain.handle('terminal:open', async (event, serverId: string, options: TerminalOpenOptions): Promise<IPCResponse<TerminalSession>> => {
+        try {
+            const terminal = TerminalService.getInstance();
+            const session = await terminal.open(serverId, options);
+            terminal.closeWhenDestroyed(session.id, event.sender);
+            return { success: true, data: session };
+        } catch (error) {
+            return { success: false, error: (error as Error).message };
+        }
+    });
+
+    ipcMain.handle('terminal:write', async (_, sessionId: string, data: string): Promise<IPCResponse> => {
+        try {
+            TerminalService.getInstance().write(sessionId, data);
+            return { success: true };
+        } catch (error) {
+            return { success: false, error: (error as Error).message };
+        }
+    });
+
+    ipcMain.handle('terminal:resize', async (_, sessionId: string, cols: number, rows: number): Promise<IPCResponse> => {
+        try {
+            TerminalService.getInstance().resize(sessionId, cols, rows);
+            return { success: true };
+        } catch (error) {
+            return { success: false, error: (error as Error).message };
+        }
+    });
+
+    ipcMain.handle('terminal:close', async (_, sessionId: string): Promise<IPCResponse> => {
+        try {
+            TerminalService.getInstance().close(sessionId);
+            return { success: true };
+        } catch (error) {
+            return { success: false, error: (error as Error).message };
+        }
+    });
+
+    ipcMain.handle('terminal:save-transcript', async (event, sessionId: string): Promise<IPCResponse<string | null>> => {
+        try {
+            const terminal = TerminalService.getInstance();
+            const session = terminal.getSession(sessionId);
+            const server = (await serverManagementService.getServers()).find(item => item.id === session.serverId);
+            const timestamp = session.startedAt.replace(/[:.]/g, '-');
+            const defaultName = `${(server?.name || 'terminal').replace(/[^A-Za-z0-9_.-]/g, '-')}-${timestamp}.log`;
+
+            const owner = BrowserWindow.fromWebContents(event.sender);
+            const saveOptions = {
+                title: 'Save terminal transcript',
+                defaultPath: defaultName,
+                filters: [{ name: 'Log files', extensions: ['log', 'txt'] }]
+            };
+            const result = owner ? await dialog.showSaveDialog(owner, saveOptions) : await dialog.showSaveDialog(saveOptions);
+            if (result.canceled || !result.filePath) {
+                return { success: true, data: null };
+            }
+
+            await terminal.saveTranscript(sessionId, result.filePath);
+            return { success: true, data: result.filePath };
+        } catch (error) {
+            return { success: false, error: (error as Error).message };
+        }
+    });
+
+    // SFTP handlers
+    ipcMain.handle('sftp:list', async (_, serverId: string, dirPath: string): Promise<IPCResponse<RemoteDirectoryListing>> => {
+        try {
+            const listing = await SftpService.list(serverId, dirPath);
+            return { success: true, data: listing };
+        } catch (error) {
+            return { success: false, error: (error as Error).message };
+        }
+    });
+
+    ipcMain.handle('sftp:stat', async (_, serverId: string, filePath: string): Promise<IPCResponse<RemoteFileEntry>> => {
+        try {
+            const entry = await SftpService.stat(serverId, filePath);
+            return { success: true, data: entry };
+        } catch (error) {
+            return { success: false, error: (error as Error).message };
+        }
+    });
+
+    ipcMain.handle('sftp:read-file', async (_, serverId: string, filePath: string): Promise<IPCResponse<RemoteFileContent>> => {
+        try {
+            const file = await SftpService.readTextFile(serverId, filePath);
+            return { success: true, data: file };
+        } catch (error) {
+            return { success: false, error: (error as Error).message };
+        }
+    });
+
+    ipcMain.handle('sftp:write-file', async (_, serverId: string, filePath: string, content: string, expectedHash?: string): Promise<IPCResponse<RemoteFileSaveResult>> => {
+        try {
+            const result = await SftpService.writeTextFile(serverId, filePath, content, expectedHash);
+            return { success: true, data: result };
+        } catch (error) {
+            return { success: false, error: (error as Error).message };
+        }
+    });
+
+    ipcMain.handle('sftp:download', async (event, serverId: string, remotePath: string): Promise<IPCResponse<string | null>> => {
+        try {
+            const owner = BrowserWindow.fromWebContents(event.sender);
+            const saveOptions = {
+                title: 'Download file',
+                defaultPath: remotePath.split('/').pop() || 'download'
+            };
+            const result = owner ? await dialog.showSaveDialog(owner, saveOptions) : await dialog.showSaveDialog(saveOptions);
+            if (result.canceled || !result.filePath) {
+                return { success: true, data: null };
+            }
+
+            await SftpService.download(serverId, remotePath, result.filePath);
+            return { success: true, data: result.filePath };
+        } catch (error) {
+            return { success: false, error: (error as Error).message };
+        }
+    });
+
+    ipcMain.handle('sftp:upload', async (event, serverId: string, remoteDir: string): Promise<IPCResponse<string[]>> => {
+        try {
+            const owner = BrowserWindow.fromWebContents(event.sender);
+            const openOptions: Electron.OpenDialogOptions = {
+                title: 'Upload files',
+                properties: ['openFile', 'multiSelections']
+            };
+            const result = owner ? await dialog.showOpenDialog(owner, openOptions) : await dialog.showOpenDialog(openOptions);
+            if (result.canceled) {
+                return { success: true, data: [] };
+            }
+
+            const uploaded: string[] = [];
+            for (const localPath of result.filePaths) {
+                const remotePath = `${remoteDir.replace(/\/+$/, '')}/${path.basename(localPath)}`;
+                await SftpService.upload(serverId, localPath, remotePath);
+                uploaded.push(remotePath);
+            }
+            return { success: true, data: uploaded };
+        } catch (error) {
+            return { success: false, error: (error as Error).message };
+        }
+    });
+
+    ipcMain.handle('sftp:rename', async (_, serverId: string, fromPath: string, toPath: string): Promise<IPCResponse> => {
+        try {
+            await SftpService.rename(serverId, fromPath, toPath);
+            return { success: true };
+        } catch (error) {
+            return { success: false, error: (error as Error).message };
+        }
+    });
+
+    ipcMain.handle('sftp:delete', async (_, serverId: string, targetPath: string, recursive?: boolean): Promise<IPCResponse> => {
+        try {
+            await SftpService.delete(serverId, targetPath, recursive);
+            return { success: true };
+        } catch (error) {
+            return { success: false, error: (error as Error).message };
+        }
+    });
+
+    ipcMain.handle('sftp:chmod', async (_, serverId: string, targetPath: string, mode: string): Promise<IPCResponse> => {
+        try {
+            await SftpService.chmod(serverId, targetPath, mode);
+            return { success: true };
+        } catch (error) {
+            return { success: false, error: (error as Error).message };
+        }
+    });
+
+    ipcMain.handle('sftp:mkdir', async (_, serverId: string, dirPath: string): Promise<IPCResponse> => {
+        try {
+            await SftpService.mkdir(serverId, dirPath);
+            return { success: true };
+        } catch (error) {
+            return { success: false, error: (error as Error).message };
+        }
+    });
+
     const broadcast = (channel: string, payload: any) => {
         BrowserWindow.getAllWindows().forEach(window => {
             window.webContents.send(channel, payload);
@@ -608,5 +1141,37 @@ export function registerIPCHandlers(): void {
         broadcast('servers:deployment-finished', payload);
     });
 
+    serverManagementService.on('server-deployment-progress', (payload: DirectDeploymentProgress) => {
+        broadcast('servers:deployment-progress', payload);
+    });
+
+    DeploymentService.getInstance().on('group-progress', (payload: GroupDeploymentProgress) => {
+        broadcast('deploy:group-progress', payload);
+    });
+
+    AuthPromptService.getInstance().on('prompt', (prompt: SSHAuthPrompt) => {
+        broadcast('servers:auth-prompt', prompt);
+    });
+
+    AuthPromptService.getInstance().on('closed', (promptId: string) => {
+        broadcast('servers:auth-prompt-closed', promptId);
+    });
+
+    TerminalService.getInstance().on('data', (payload: TerminalData) => {
+        broadcast('terminal:data', payload);
+    });
+
+    TerminalService.getInstance().on('exit', (payload: TerminalExit) => {
+        broadcast('terminal:exit', payload);
+    });
+
+    DockerService.getInstance().on('stream-data', (payload: DockerStreamData) => {
+        broadcast('docker:stream-data', payload);
+    });
+
+    DockerService.getInstance().on('stream-end', (payload: DockerStreamEnd) => {
+        broadcast('docker:stream-end', payload);
+    });
+
     console.log('IPC handlers registered');
 }
@@ -2,7 +2,7 @@ import { app, BrowserWindow, Menu } from 'electron';
 import { join } from 'path';
 import { isDev } from './utils/env';
 import { registerIPCHandlers } from './ipc/handlers';
-import { initializeServices } from './services';
+import { initializeServices, shutdownServices } from './services';
 
 const createWindow = (): void => {
     // Create the browser window
@@ -136,6 +136,8 @@ app.on('window-all-closed', () => {
     if (process.platform !== 'darwin') app.quit();
 });
 
+app.on('before-quit', shutdownServices);
+
 // Security: Prevent new window creation and navigation
 app.on('web-contents-created', (_, contents) => {
     contents.setWindowOpenHandler(() => {
@@ -1,5 +1,36 @@
-import { contextBridge, ipcRenderer } from 'electron';
-import { IPCResponse } from '../shared/types';
+import { contextBridge, ipcRenderer, IpcRendererEvent } from 'electron';
+import {
+    DeploymentConfig,
+    DeploymentConfigInput,
+    DeploymentHistoryFilter,
+    DeployPathHint,
+    DirectDeploymentResult,
+    DockerEndpoint,
+    DockerEngineInfo,
+    DockerExecOptions,
+    DockerInspectDocument,
+    DockerLogOptions,
+    DockerResourceKind,
+    GroupDeploymentRequest,
+    GroupDeploymentResult,
+    IPCResponse,
+    ProjectStackDetection,
+    RemoteDirectoryListing,
+    RemoteFileContent,
+    RemoteFileEntry,
+    RemoteFileSaveResult,
+    SSHAuthPromptResponse,
+    StackDetectionTarget,
+    TerminalOpenOptions,
+    TerminalSession,
+    WorkflowFile,
+    WorkflowFileSaveRequest,
+    WorkflowFileSaveResult,
+    WorkflowDiagnostic,
+    WorkflowProject,
+    WorkflowProjectInput,
+    WorkflowJobLogs
+} from '../shared/types';
 
 // Input validation helpers
 const validators = {
@@ -55,7 +86,8 @@ contextBridge.exposeInMainWorld('electronAPI', {
         search: secureInvoke('repos:search', ([query, filters]) =>
             validators.isString(query) && (filters === undefined || validators.isObject(filters))
         ),
-        analytics: secureInvoke('repos:analytics', ([repoName]) => validators.isString(repoName)),
+        analytics: secureInvoke('repos:analytics', ([repoName, refresh]) => validators.isString(repoName) &&
+            (refresh === undefined || typeof refresh === 'boolean')),
         workflows: secureInvoke('repos:workflows', ([repoName]) => validators.isString(repoName)),
         openBrowser: secureInvoke('repos:open-browser', ([htmlUrl]) => validators.isString(htmlUrl)),
         checkLocal: secureInvoke('repos:check-local', ([localPath]) => validators.isString(localPath)),
@@ -84,10 +116,15 @@ contextBridge.exposeInMainWorld('electronAPI', {
             validators.isValidId(serverId) && (lines === undefined || validators.isNumber(lines))),
         testConnection: secureInvoke('servers:test-connection', ([serverData]) => validators.isObject(serverData)),
         testConnectionDetailed: secureInvoke('servers:test-connection-detailed', ([serverId]) => validators.isValidId(serverId)),
+        respondToAuthPrompt: secureInvoke('servers:auth-prompt-response', ([promptId, response]) =>
+            validators.isValidId(promptId) && (response === null || validators.isObject(response))),
+        importKnownHostKey: secureInvoke('servers:import-known-host-key', ([serverId]) => validators.isValidId(serverId)),
+        forgetHostKey: secureInvoke('servers:forget-host-key', ([serverId]) => validators.isValidId(serverId)),
         directDeploy: secureInvoke('servers:direct-deploy', ([payload]) => validators.isObject(payload)),
         uploadPublicKey: secureInvoke('servers:upload-public-key', ([serverId, publicKey]) =>
             validators.isValidId(serverId) && validators.isString(publicKey)),
-        detectDeployPaths: secureInvoke('servers:detect-deploy-paths', ([serverId]) => validators.isValidId(serverId)),
+        detectDeployPaths: secureInvoke('servers:detect-deploy-paths', ([serverId, hint]) =>
+            validators.isValidId(serverId) && (hint === undefined || validators.isObject(hint))),
         setupPermissions: secureInvoke('servers:setup-permissions', ([serverId, targetPath, config]) =>
             validators.isValidId(serverId) && validators.isString(targetPath) && validators.isObject(config)),
         createGitHooks: secureInvoke('servers:create-git-hooks', ([serverId, repoPath, hooks]) =>
@@ -104,11 +141,86 @@ contextBridge.exposeInMainWorld('electronAPI', {
             validators.isString(name) && validators.isString(privateKeyPath)),
     },
 
+    // Docker Engine methods
+    docker: {
+        ping: secureInvoke('docker:ping', ([endpoint]) => validators.isObject(endpoint)),
+        list: secureInvoke('docker:list', ([endpoint, kind]) =>
+            validators.isObject(endpoint) && validators.isString(kind)),
+        inspect: secureInvoke('docker:inspect', ([endpoint, kind, id]) =>
+            validators.isObject(endpoint) && validators.isString(kind) && validators.isString(id)),
+        remove: secureInvoke('docker:remove', ([endpoint, kind, id, force]) =>
+            validators.isObject(endpoint) && validators.isString(kind) && validators.isString(id) &&
+            (force === undefined || typeof force === 'boolean')),
+        startContainer: secureInvoke('docker:start-container', ([endpoint, id]) =>
+            validators.isObject(endpoint) && validators.isString(id)),
+        stopContainer: secureInvoke('docker:stop-container', ([endpoint, id]) =>
+            validators.isObject(endpoint) && validators.isString(id)),
+        restartContainer: secureInvoke('docker:restart-container', ([endpoint, id]) =>
+            validators.isObject(endpoint) && validators.isString(id)),
+        subscribeLogs: secureInvoke('docker:logs-subscribe', ([endpoint, containerId, options]) =>
+            validators.isObject(endpoint) && validators.isString(containerId) &&
+            (options === undefined || validators.isObject(options))),
+        startExec: secureInvoke('docker:exec-start', ([endpoint, containerId, options]) =>
+            validators.isObject(endpoint) && validators.isString(containerId) &&
+            (options === undefined || validators.isObject(options))),
+        writeStream: secureInvoke('docker:stream-input', ([streamId, data]) =>
+            validators.isValidId(streamId) && validators.isString(data)),
+        resizeStream: secureInvoke('docker:stream-resize', ([streamId, cols, rows]) =>
+            validators.isValidId(streamId) && validators.isNumber(cols) && validators.isNumber(rows)),
+        unsubscribe: secureInvoke('docker:stream-unsubscribe', ([streamId]) => validators.isValidId(streamId)),
+    },
+
+    // Interactive SSH terminal methods
+    terminal: {
+        open: secureInvoke('terminal:open', ([serverId, options]) =>
+            validators.isValidId(serverId) && validators.isObject(options)),
+        write: secureInvoke('terminal:write', ([sessionId, data]) =>
+            validators.isValidId(sessionId) && validators.isString(data)),
+        resize: secureInvoke('terminal:resize', ([sessionId, cols, rows]) =>
+            validators.isValidId(sessionId) && validators.isNumber(cols) && validators.isNumber(rows)),
+        close: secureInvoke('terminal:close', ([sessionId]) => validators.isValidId(sessionId)),
+        saveTranscript: secureInvoke('terminal:save-transcript', ([sessionId]) => validators.isValidId(sessionId)),
+    },
+
+    // SFTP file methods
+    sftp: {
+        list: secureInvoke('sftp:list', ([serverId, dirPath]) =>
+            validators.isValidId(serverId) && validators.isString(dirPath)),
+        stat: secureInvoke('sftp:stat', ([serverId, filePath]) =>
+            validators.isValidId(serverId) && validators.isString(filePath)),
+        readFile: secureInvoke('sftp:read-file', ([serverId, filePath]) =>
+            validators.isValidId(serverId) && validators.isString(filePath)),
+        writeFile: secureInvoke('sftp:write-file', ([serverId, filePath, content, expectedHash]) =>
+            validators.isValidId(serverId) && validators.isString(filePath) && validators.isString(content) &&
+            (expectedHash === undefined || validators.isString(expectedHash))),
+        download: secureInvoke('sftp:download', ([serverId, remotePath]) =>
+            validators.isValidId(serverId) && validators.isString(remotePath)),
+        upload: secureInvoke('sftp:upload', ([serverId, remoteDir]) =>
+            validators.isValidId(serverId) && validators.isString(remoteDir)),
+        rename: secureInvoke('sftp:rename', ([serverId, fromPath, toPath]) =>
+            validators.isValidId(serverId) && validators.isString(fromPath) && validators.isString(toPath)),
+        delete: secureInvoke('sftp:delete', ([serverId, targetPath, recursive]) =>
+            validators.isValidId(serverId) && validators.isString(targetPath) &&
+            (recursive === undefined || typeof recursive === 'boolean')),
+        chmod: secureInvoke('sftp:chmod', ([serverId, targetPath, mode]) =>
+            validators.isValidId(serverId) && validators.isString(targetPath) && validators.isString(mode)),
+        mkdir: secureInvoke('sftp:mkdir', ([serverId, dirPath]) =>
+            validators.isValidId(serverId) && validators.isString(dirPath)),
+    },
+
     // Deployment methods
     deploy: {
+        list: secureInvoke('deploy:list', ([serverId]) => serverId === undefined || validators.isValidId(serverId)),
         create: secureInvoke('deploy:create', ([config]) => validators.isObject(config)),
-        run: secureInvoke('deploy:run', ([deploymentId]) => validators.isValidId(deploymentId)),
-        history: secureInvoke('deploy:history', ([deploymentId]) => validators.isValidId(deploymentId)),
+        update: secureInvoke('deploy:update', ([configId, updates]) => validators.isValidId(configId) && validators.isObject(updates)),
+        delete: secureInvoke('deploy:delete', ([configId]) => validators.isValidId(configId)),
+        run: secureInvoke('deploy:run', ([configId]) => validators.isValidId(configId)),
+        cancel: secureInvoke('deploy:cancel', ([deploymentId]) => validators.isValidId(deploymentId)),
+        deployGroup: secureInvoke('deploy:group', ([request]) => validators.isObject(request)),
+        cancelGroup: secureInvoke('deploy:cancel-group', ([groupId]) => validators.isValidId(groupId)),
+        detectStack: secureInvoke('deploy:detect-stack', ([target]) => validators.isObject(target)),
+        history: secureInvoke('deploy:history', ([filter]) => filter === undefined || validators.isObject(filter)),
+        rollback: secureInvoke('deploy:rollback', ([deploymentId]) => validators.isValidId(deploymentId)),
     },
 
     // Settings methods
@@ -170,9 +282,20 @@ contextBridge.exposeInMainWorld('electronAPI', {
         getJobs: secureInvoke('workflows:get-jobs', ([owner, repo, runId]) =>
             validators.isString(owner) && validators.isString(repo) && validators.isNumber(runId)
         ),
+        getJobLogs: secureInvoke('workflows:get-job-logs', ([owner, repo, jobId, offset]) =>
+            validators.isString(owner) && validators.isString(repo) && validators.isNumber(jobId) &&
+            (offset === undefined || validators.isNumber(offset))
+        ),
         getYAML: secureInvoke('workflows:get-yaml', ([owner, repo, workflowId]) =>
             validators.isString(owner) && validators.isString(repo) && validators.isNumber(workflowId)
         ),
+        saveFile: secureInvoke('workflows:save-file', ([owner, repo, request]) =>
+            validators.isString(owner) && validators.isString(repo) && validators.isObject(request)
+        ),
+        validate: secureInvoke('workflows:validate', ([content]) => validators.isString(content)),
+        listProjects: secureInvoke('workflows:list-projects'),
+        saveProject: secureInvoke('workflows:save-project', ([project]) => validators.isObject(project)),
+        deleteProject: secureInvoke('workflows:delete-project', ([id]) => validators.isString(id)),
         cancel: secureInvoke('workflows:cancel', ([owner, repo, runId]) =>
             validators.isString(owner) && validators.isString(repo) && validators.isNumber(runId)
         ),
@@ -198,15 +321,20 @@ contextBridge.exposeInMainWorld('electronAPI', {
         exportData: secureInvoke('database:export-data', ([connectionId, format]) =>
             validators.isString(connectionId) && validators.isString(format)
         ),
-        openExternal: secureInvoke('database:open-external', ([connectionId]) => validators.isString(connectionId)),
+        openExternal: secureInvoke('database:open-external', ([connectionId, options]) =>
+            validators.isString(connectionId) && (options === undefined || validators.isObject(options))),
     },
 
-    // Event listener methods with channel validation
+    // Event listener methods with channel validation; on returns a function removing just this listener
     on: (channel: string, func: (...args: any[]) => void) => {
         if (!validators.isString(channel) || !/^[a-zA-Z0-9:-]+$/.test(channel)) {
             throw new Error('Invalid channel name');
         }
-        ipcRenderer.on(channel, (event, ...args) => func(...args));
+        const listener = (_event: IpcRendererEvent, ...args: any[]) => func(...args);
+        ipcRenderer.on(channel, listener);
+        return () => {
+            ipcRenderer.removeListener(channel, listener);
+        };
     },
     removeAllListeners: (channel: string) => {
         if (!validators.isString(channel) || !/^[a-zA-Z0-9:-]+$/.test(channel)) {
@@ -233,7 +361,7 @@ export interface ElectronAPI {
         get: (repoName: string) => Promise<IPCResponse>;
         clone: (repoUrl: string, localPath: string) => Promise<IPCResponse>;
         search: (query: string, filters?: any) => Promise<IPCResponse>;
-        analytics: (repoName: string) => Promise<IPCResponse>;
+        analytics: (repoName: string, refresh?: boolean) => Promise<IPCResponse>;
         workflows: (repoName: string) => Promise<IPCResponse>;
         openBrowser: (htmlUrl: string) => Promise<IPCResponse>;
         checkLocal: (localPath: string) => Promise<IPCResponse>;
@@ -253,9 +381,12 @@ export interface ElectronAPI {
         getLogs: (serverId: string, lines?: number) => Promise<IPCResponse>;
         testConnection: (server: any) => Promise<IPCResponse>;
         testConnectionDetailed: (serverId: string) => Promise<IPCResponse>;
+        respondToAuthPrompt: (promptId: string, response: SSHAuthPromptResponse | null) => Promise<IPCResponse>;
+        importKnownHostKey: (serverId: string) => Promise<IPCResponse>;
+        forgetHostKey: (serverId: string) => Promise<IPCResponse>;
         directDeploy: (payload: any) => Promise<IPCResponse>;
         uploadPublicKey: (serverId: string, publicKey: string) => Promise<IPCResponse>;
-        detectDeployPaths: (serverId: string) => Promise<IPCResponse>;
+        detectDeployPaths: (serverId: string, hint?: DeployPathHint) => Promise<IPCResponse>;
         setupPermissions: (serverId: string, targetPath: string, config: any) => Promise<IPCResponse>;
         createGitHooks: (serverId: string, repoPath: string, hooks: { name: string; script: string }[]) => Promise<IPCResponse>;
     };
@@ -266,10 +397,51 @@ export interface ElectronAPI {
         delete: (name: string) => Promise<IPCResponse>;
         import: (name: string, privateKeyPath: string) => Promise<IPCResponse>;
     };
+    docker: {
+        ping: (endpoint: DockerEndpoint) => Promise<IPCResponse<DockerEngineInfo>>;
+        list: (endpoint: DockerEndpoint, kind: DockerResourceKind) => Promise<IPCResponse>;
+        inspect: (endpoint: DockerEndpoint, kind: DockerResourceKind, id: string) => Promise<IPCResponse<DockerInspectDocument>>;
+        remove: (endpoint: DockerEndpoint, kind: DockerResourceKind, id: string, force?: boolean) => Promise<IPCResponse>;
+        startContainer: (endpoint: DockerEndpoint, id: string) => Promise<IPCResponse>;
+        stopContainer: (endpoint: DockerEndpoint, id: string) => Promise<IPCResponse>;
+        restartContainer: (endpoint: DockerEndpoint, id: string) => Promise<IPCResponse>;
+        subscribeLogs: (endpoint: DockerEndpoint, containerId: string, options?: DockerLogOptions) => Promise<IPCResponse<string>>;
+        startExec: (endpoint: DockerEndpoint, containerId: string, options?: DockerExecOptions) => Promise<IPCResponse<string>>;
+        writeStream: (streamId: string, data: string) => Promise<IPCResponse>;
+        resizeStream: (streamId: string, cols: number, rows: number) => Promise<IPCResponse>;
+        unsubscribe: (streamId: string) => Promise<IPCResponse>;
+    };
+    terminal: {
+        open: (serverId: string, options: TerminalOpenOptions) => Promise<IPCResponse<TerminalSession>>;
+        write: (sessionId: string, data: string) => Promise<IPCResponse>;
+        resize: (sessionId: string, cols: number, rows: number) => Promise<IPCResponse>;
+        close: (sessionId: string) => Promise<IPCResponse>;
+        saveTranscript: (sessionId: string) => Promise<IPCResponse<string | null>>;
+    };
+    sftp: {
+        list: (serverId: string, dirPath: string) => Promise<IPCResponse<RemoteDirectoryListing>>;
+        stat: (serverId: string, filePath: string) => Promise<IPCResponse<RemoteFileEntry>>;
+        readFile: (serverId: string, filePath: string) => Promise<IPCResponse<RemoteFileContent>>;
+        writeFile: (serverId: string, filePath: string, content: string, expectedHash?: string) => Promise<IPCResponse<RemoteFileSaveResult>>;
+        download: (serverId: string, remotePath: string) => Promise<IPCResponse<string | null>>;
+        upload: (serverId: string, remoteDir: string) => Promise<IPCResponse<string[]>>;
+        rename: (serverId: string, fromPath: string, toPath: string) => Promise<IPCResponse>;
+        delete: (serverId: string, targetPath: string, recursive?: boolean) => Promise<IPCResponse>;
+        chmod: (serverId: string, targetPath: string, mode: string) => Promise<IPCResponse>;
+        mkdir: (serverId: string, dirPath: string) => Promise<IPCResponse>;
+    };
     deploy: {
-        create: (config: any) => Promise<IPCResponse>;
-        run: (deploymentId: string) => Promise<IPCResponse>;
-        history: (deploymentId: string) => Promise<IPCResponse>;
+        list: (serverId?: string) => Promise<IPCResponse<DeploymentConfig[]>>;
+        create: (config: DeploymentConfigInput) => Promise<IPCResponse<DeploymentConfig>>;
+        update: (configId: string, updates: Partial<DeploymentConfigInput>) => Promise<IPCResponse<DeploymentConfig>>;
+        delete: (configId: string) => Promise<IPCResponse>;
+        run: (configId: string) => Promise<IPCResponse<DirectDeploymentResult>>;
+        cancel: (deploymentId: string) => Promise<IPCResponse>;
+        deployGroup: (request: GroupDeploymentRequest) => Promise<IPCResponse<GroupDeploymentResult>>;
+        cancelGroup: (groupId: string) => Promise<IPCResponse>;
+        detectStack: (target: StackDetectionTarget) => Promise<IPCResponse<ProjectStackDetection>>;
+        history: (filter?: DeploymentHistoryFilter) => Promise<IPCResponse<DirectDeploymentResult[]>>;
+        rollback: (deploymentId: string) => Promise<IPCResponse<DirectDeploymentResult>>;
     };
     settings: {
         get: () => Promise<IPCResponse>;
@@ -307,7 +479,13 @@ export interface ElectronAPI {
         listAll: () => Promise<IPCResponse>;
         listRepo: (owner: string, repo: string) => Promise<IPCResponse>;
         getJobs: (owner: string, repo: string, runId: number) => Promise<IPCResponse>;
-        getYAML: (owner: string, repo: string, workflowId: number) => Promise<IPCResponse>;
+        getJobLogs: (owner: string, repo: string, jobId: number, offset?: number) => Promise<IPCResponse<WorkflowJobLogs>>;
+        getYAML: (owner: string, repo: string, workflowId: number) => Promise<IPCResponse<WorkflowFile>>;
+        saveFile: (owner: string, repo: string, request: WorkflowFileSaveRequest) => Promise<IPCResponse<WorkflowFileSaveResult>>;
+        validate: (content: string) => Promise<IPCResponse<WorkflowDiagnostic[]>>;
+        listProjects: () => Promise<IPCResponse<WorkflowProject[]>>;
+        saveProject: (project: WorkflowProjectInput) => Promise<IPCResponse<WorkflowProject>>;
+        deleteProject: (id: string) => Promise<IPCResponse>;
         cancel: (owner: string, repo: string, runId: number) => Promise<IPCResponse>;
         rerun: (owner: string, repo: string, runId: number) => Promise<IPCResponse>;
         openBrowser: (htmlUrl: string) => Promise<IPCResponse>;
@@ -323,9 +501,9 @@ export interface ElectronAPI {
         getHealth: () => Promise<IPCResponse>;
         getQueryHistory: () => Promise<IPCResponse>;
         exportData: (connectionId: string, format: string) => Promise<IPCResponse>;
-        openExternal: (connectionId: string) => Promise<IPCResponse>;
+        openExternal: (connectionId: string, options?: { includePassword?: boolean }) => Promise<IPCResponse>;
     };
-    on: (channel: string, func: (...args: any[]) => void) => void;
+    on: (channel: string, func: (...args: any[]) => void) => () => void;
     removeAllListeners: (channel: string) => void;
     platform: string;
 }
@@ -28,16 +28,32 @@ export interface StorageMetadata {
 export class SecureStorageService {
     private readonly storageDir: string;
     private readonly backupDir: string;
-    private readonly isEncryptionAvailable: boolean;
+    private static instance: SecureStorageService | null = null;
 
     constructor() {
         this.storageDir = join(app.getPath('userData'), 'secure-storage');
         this.backupDir = join(this.storageDir, 'backups');
-        this.isEncryptionAvailable = safeStorage.isEncryptionAvailable();
 
         this.initializeStorage();
     }
 
+    /**
+     * Shared instance, created on first use so that it is never set up before the app is ready
+     */
+    static getInstance(): SecureStorageService {
+        if (!SecureStorageService.instance) {
+            SecureStorageService.instance = new SecureStorageService();
+        }
+        return SecureStorageService.instance;
+    }
+
+    /**
+     * Asked on every call: safeStorage reports no encryption until the app is ready
+     */
+    private isEncryptionAvailable(): boolean {
+        return app.isReady() && safeStorage.isEncryptionAvailable();
+    }
+
     /**
      * Initialize storage directories
      */
@@ -64,6 +80,12 @@ export class SecureStorageService {
             // Validate key
             this.validateKey(key);
 
+            // Never fall back to writing data that was meant to be encrypted in plain text
+            const encrypted = encrypt && this.isEncryptionAvailable();
+            if (encrypt && !encrypted) {
+                throw new Error('Encryption not available on this system');
+            }
+
             // Serialize data
             let serializedData = JSON.stringify(data);
 
@@ -74,7 +96,7 @@ export class SecureStorageService {
 
             // Create metadata
             const metadata: StorageMetadata = {
-                encrypted: encrypt && this.isEncryptionAvailable,
+                encrypted,
                 compressed: compress,
                 timestamp: Date.now(),
                 version: app.getVersion(),
@@ -83,14 +105,14 @@ export class SecureStorageService {
 
             // Encrypt if requested and available
             let finalData: Buffer | string = serializedData;
-            if (encrypt && this.isEncryptionAvailable) {
+            if (encrypted) {
                 finalData = safeStorage.encryptString(serializedData);
             }
 
             // Create storage object
             const storageObject = {
                 metadata,
-                data: encrypt && this.isEncryptionAvailable ? finalData.toString('base64') : finalData
+                data: encrypted ? finalData.toString('base64') : finalData
             };
 
             // Save to file
@@ -129,7 +151,7 @@ export class SecureStorageService {
             // Decrypt if encrypted
             let serializedData: string;
             if (metadata.encrypted) {
-                if (!this.isEncryptionAvailable) {
+                if (!this.isEncryptionAvailable()) {
                     throw new Error('Encryption not available on this system');
                 }
                 const encryptedBuffer = Buffer.from(data, 'base64');
@@ -259,7 +281,7 @@ export class SecureStorageService {
         return {
             totalKeys: keys.length,
             totalSize,
-            encryptionAvailable: this.isEncryptionAvailable,
+            encryptionAvailable: this.isEncryptionAvailable(),
             lastModified
         };
     }
@@ -345,7 +367,3 @@ export class SecureStorageService {
     }
 }
 
-/**
- * Global secure storage instance
- */
-export const secureStorage = new SecureStorageService();
@@ -0,0 +1,100 @@
+import * as crypto from 'crypto';
+import { EventEmitter } from 'events';
+import { SSHAuthPrompt, SSHAuthPromptResponse } from '../../shared/types';
+
+// Unanswered prompts fail the login rather than hanging it
+export const PROMPT_TIMEOUT_MS = 2 * 60 * 1000;
+export const PASSPHRASE_CACHE_TTL_MS = 15 * 60 * 1000;
+
+interface PendingPrompt {
+    resolve: (response: SSHAuthPromptResponse | null) => void;
+    timer: NodeJS.Timeout;
+}
+
+/**
+ * Key passphrases the user chose to remember, kept in memory only and forgotten after a while
+ */
+export class PassphraseCache {
+    private entries: Map<string, { passphrase: string; expiresAt: number }> = new Map();
+
+    constructor(private readonly ttlMs: number = PASSPHRASE_CACHE_TTL_MS, private readonly now: () => number = Date.now) {}
+
+    get(keyId: string): string | undefined {
+        const entry = this.entries.get(keyId);
+        if (!entry) {
+            return undefined;
+        }
+        if (entry.expiresAt <= this.now()) {
+            this.entries.delete(keyId);
+            return undefined;
+        }
+        return entry.passphrase;
+    }
+
+    set(keyId: string, passphrase: string): void {
+        this.entries.set(keyId, { passphrase, expiresAt: this.now() + this.ttlMs });
+    }
+
+    delete(keyId: string): void {
+        this.entries.delete(keyId);
+    }
+
+    clear(): void {
+        this.entries.clear();
+    }
+}
+
+/**
+ * Routes login prompts to the renderer. Prompts are emitted as 'prompt' events and
+ * 'closed' is emitted when a prompt is answered elsewhere or times out.
+ */
+export class AuthPromptService extends EventEmitter {
+    private static instance: AuthPromptService;
+    private pending: Map<string, PendingPrompt> = new Map();
+
+    private constructor() {
+        super();
+    }
+
+    public static getInstance(): AuthPromptService {
+        if (!AuthPromptService.instance) {
+            AuthPromptService.instance = new AuthPromptService();
+        }
+        return AuthPromptService.instance;
+    }
+
+    public static initialize(): void {
+        console.log('AuthPromptService initialized');
+    }
+
+    /**
+     * Ask the user and wait for the answer; resolves to null when the prompt is cancelled or times out
+     */
+    ask(prompt: Omit<SSHAuthPrompt, 'id'>): Promise<SSHAuthPromptResponse | null> {
+        const id = crypto.randomUUID();
+
+        return new Promise(resolve => {
+            const timer = setTimeout(() => this.finish(id, null), PROMPT_TIMEOUT_MS);
+            this.pending.set(id, { resolve, timer });
+            this.emit('prompt', { ...prompt, id } as SSHAuthPrompt);
+        });
+    }
+
+    respond(promptId: string, response: SSHAuthPromptResponse | null): void {
+        if (!this.pending.has(promptId)) {
+            throw new Error('Prompt is no longer waiting for an answer');
+        }
+        this.finish(promptId, response);
+    }
+
+    private finish(promptId: string, response: SSHAuthPromptResponse | null): void {
+        const entry = this.pending.get(promptId);
+        if (!entry) {
+            return;
+        }
+        this.pending.delete(promptId);
+        clearTimeout(entry.timer);
+        entry.resolve(response);
+        this.emit('closed', promptId);
+    }
+}
@@ -1,11 +1,25 @@
 import sqlite3 from 'sqlite3';
 import mysql from 'mysql2/promise';
-import { Client as PgClient } from 'pg';
+import { Client as PgClient, Pool as PgPool, PoolClient } from 'pg';
 import { MongoClient } from 'mongodb';
 import redis from 'redis';
 import * as path from 'path';
 import * as fs from 'fs';
-import { app, shell } from 'electron';
+import { app, clipboard, shell } from 'electron';
+import { SecureStorageService } from '../security/secureStorage';
+import { serverManagementService } from './serverManagement';
+import { LocalTunnel, openLocalTunnel } from './sshTunnels';
+import { transactionStatement } from './databaseSessions';
+
+// Connection passwords by connection id, in SecureStorageService instead of the SQLite file
+const CREDENTIALS_STORAGE_KEY = 'database-credentials';
+// Connection strings copied with a password are wiped from the clipboard after this long
+const CLIPBOARD_CLEAR_MS = 30 * 1000;
+// Clients kept open per connection, and how long they may sit unused before being closed
+const POOL_SIZE = 5;
+const POOL_IDLE_TIMEOUT_MS = 5 * 60 * 1000;
+// An open transaction holds locks, so it is rolled back when abandoned for this long
+const TRANSACTION_IDLE_TIMEOUT_MS = 15 * 60 * 1000;
 
 interface DatabaseConnection {
     id: string;
@@ -19,6 +33,8 @@ interface DatabaseConnection {
     status: 'connected' | 'disconnected' | 'connecting' | 'error';
     lastConnected?: string;
     ssl: boolean;
+    // Reach host:port from this saved server instead of directly
+    sshTunnel?: { serverId: string };
     connectionString?: string;
     metadata?: any;
     createdAt: string;
@@ -43,8 +59,30 @@ interface QueryResult {
     query: string;
     timestamp: string;
     error?: string;
+    // Whether the connection is inside a transaction after this query
+    inTransaction?: boolean;
 }
 
+type RedisClient = ReturnType<typeof redis.createClient>;
+
+// The driver client of a connection; pools also carry the session checked out from BEGIN until COMMIT or ROLLBACK
+type DriverClient =
+    | { type: 'mysql'; client: mysql.Pool; transaction?: mysql.PoolConnection }
+    | { type: 'postgresql'; client: PgPool; transaction?: PoolClient; onTransactionError?: (error: Error) => void }
+    | { type: 'mongodb'; client: MongoClient }
+    | { type: 'redis'; client: RedisClient }
+    | { type: 'sqlite'; client: sqlite3.Database; transaction?: never };
+
+// Driver clients of one connection, reused between queries
+type ActiveConnection = DriverClient & {
+    inTransaction: boolean;
+    // Queries in flight; the idle timer only runs when there are none
+    pending: number;
+    idleTimer?: NodeJS.Timeout;
+};
+
+type SqlConnection = Extract<ActiveConnection, { type: 'mysql' | 'postgresql' | 'sqlite' }>;
+
 interface DatabaseMetrics {
     totalConnections: number;
     activeConnections: number;
@@ -74,12 +112,16 @@ export class DatabaseManagementService {
     private static instance: DatabaseManagementService;
     private localDb: sqlite3.Database | null = null;
     private connections: Map<string, DatabaseConnection> = new Map();
-    private activeConnections: Map<string, any> = new Map();
+    private activeConnections: Map<string, ActiveConnection> = new Map();
+    private openingConnections: Map<string, Promise<ActiveConnection>> = new Map();
+    // Forwarded local ports by connection id, kept open until the connection is closed
+    private tunnels: Map<string, Promise<LocalTunnel>> = new Map();
     private queryHistory: QueryResult[] = [];
     private startTime: number = Date.now();
     private queryCount: number = 0;
     private totalQueryTime: number = 0;
     private errorCount: number = 0;
+    private clipboardTimer: NodeJS.Timeout | null = null;
 
     private constructor() {
         this.initializeLocalDatabase();
@@ -127,6 +169,12 @@ export class DatabaseManagementService {
                 )
             `);
 
+            // Databases created before SSH tunnel support lack the column
+            const columns = await this.executeLocalQuery(`SELECT name FROM pragma_table_info('connections')`);
+            if (!columns.some((column: { name: string }) => column.name === 'ssh_tunnel_server_id')) {
+                await this.executeLocalQuery('ALTER TABLE connections ADD COLUMN ssh_tunnel_server_id TEXT');
+            }
+
             // Create query history table
             await this.executeLocalQuery(`
                 CREATE TABLE IF NOT EXISTS query_history (
@@ -172,9 +220,60 @@ export class DatabaseManagementService {
         });
     }
 
+    private async loadCredentials(): Promise<Record<string, string>> {
+        return (await SecureStorageService.getInstance().retrieve(CREDENTIALS_STORAGE_KEY)) ?? {};
+    }
+
+    private async saveCredentials(credentials: Record<string, string>): Promise<void> {
+        await SecureStorageService.getInstance().store(CREDENTIALS_STORAGE_KEY, credentials, { backup: false });
+    }
+
+    private async setPassword(connectionId: string, password?: string): Promise<void> {
+        const credentials = await this.loadCredentials();
+        if (password) {
+            credentials[connectionId] = password;
+        } else {
+            delete credentials[connectionId];
+        }
+        await this.saveCredentials(credentials);
+    }
+
+    /**
+     * Move passwords from the connections table to secure storage. The column is only cleared
+     * once the stored passwords have been read back, so a failed write never loses them.
+     */
+    private async migratePasswords(rows: { id: string; password: string }[], credentials: Record<string, string>): Promise<void> {
+        try {
+            rows.forEach(row => {
+                credentials[row.id] = credentials[row.id] ?? row.password;
+            });
+            await this.saveCredentials(credentials);
+
+            const stored = await this.loadCredentials();
+            const migrated = rows.filter(row => stored[row.id] === credentials[row.id]);
+            if (migrated.length !== rows.length) {
+                throw new Error('Stored passwords do not match the ones written');
+            }
+            for (const row of migrated) {
+                await this.executeLocalQuery('UPDATE connections SET password = NULL WHERE id = ?', [row.id]);
+            }
+            console.log(`Migrated ${migrated.length} database passwords to secure storage`);
+        } catch (error) {
+            // The passwords stay in the column and are used from there; the next start tries again
+            console.warn('Database passwords are still stored in plain text, migrating them to secure storage failed:', error);
+        }
+    }
+
     private async loadConnections(): Promise<void> {
         try {
             const rows = await this.executeLocalQuery('SELECT * FROM connections');
+            const credentials = await this.loadCredentials();
+
+            // Older versions kept passwords in the password column
+            const plaintextRows = rows.filter((row: any) => row.password);
+            if (plaintextRows.length > 0) {
+                await this.migratePasswords(plaintextRows, credentials);
+            }
 
             for (const row of rows) {
                 const connection: DatabaseConnection = {
@@ -185,8 +284,9 @@ export class DatabaseManagementService {
                     port: row.port,
                     database: row.database_name,
                     username: row.username,
-                    password: row.password,
+                    password: credentials[row.id] ?? row.password ?? undefined,
                     ssl: Boolean(row.ssl),
+                    sshTunnel: row.ssh_tunnel_server_id ? { serverId: row.ssh_tunnel_server_id } : undefined,
                     metadata: row.metadata ? JSON.parse(row.metadata) : {},
                     status: 'disconnected',
                     createdAt: row.created_at,
@@ -228,20 +328,25 @@ export class DatabaseManagementService {
                 createdAt: now,
                 updatedAt: now
             };
+            if (connection.sshTunnel && connection.type === 'sqlite') {
+                return { success: false, error: 'SQLite databases are local files and cannot be reached through an SSH tunnel' };
+            }
 
             // Test connection first
             const testResult = await this.testConnection(connection, false);
             if (!testResult.success) {
+                await this.closeTunnel(connection.id);
                 return {
                     success: false,
                     error: `Connection test failed: ${testResult.error}`
                 };
             }
 
-            // Save to local database
+            // Save to local database; the password goes to secure storage
+            await this.setPassword(connection.id, connection.password);
             await this.executeLocalQuery(
-                `INSERT INTO connections (id, name, type, host, port, database_name, username, password, ssl, metadata, created_at, updated_at) 
-                 VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+                `INSERT INTO connections (id, name, type, host, port, database_name, username, password, ssl, ssh_tunnel_server_id, metadata, created_at, updated_at) 
+                 VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
                 [
                     connection.id,
                     connection.name,
@@ -250,8 +355,9 @@ export class DatabaseManagementService {
                     connection.port,
                     connection.database,
                     connection.username,
-                    connection.password,
+                    null,
                     connection.ssl ? 1 : 0,
+                    connection.sshTunnel?.serverId ?? null,
                     JSON.stringify(connection.metadata || {}),
                     connection.createdAt,
                     connection.updatedAt
@@ -290,21 +396,22 @@ export class DatabaseManagementService {
             const startTime = Date.now();
 
             try {
+                const target = await this.resolveEndpoint(connection);
                 switch (connection.type) {
                     case 'mysql':
-                        testResult = await this.testMySQLConnection(connection);
+                        testResult = await this.testMySQLConnection(target);
                         break;
                     case 'postgresql':
-                        testResult = await this.testPostgreSQLConnection(connection);
+                        testResult = await this.testPostgreSQLConnection(target);
                         break;
                     case 'mongodb':
-                        testResult = await this.testMongoDBConnection(connection);
+                        testResult = await this.testMongoDBConnection(target);
                         break;
                     case 'redis':
-                        testResult = await this.testRedisConnection(connection);
+                        testResult = await this.testRedisConnection(target);
                         break;
                     case 'sqlite':
-                        testResult = await this.testSQLiteConnection(connection);
+                        testResult = await this.testSQLiteConnection(target);
                         break;
                     default:
                         throw new Error(`Unsupported database type: ${connection.type}`);
@@ -357,20 +464,58 @@ export class DatabaseManagementService {
         }
     }
 
-    private async testMySQLConnection(connection: DatabaseConnection): Promise<any> {
+    private mysqlConfig(connection: DatabaseConnection): any {
         const config: any = {
             host: connection.host,
             port: connection.port,
             user: connection.username,
             password: connection.password,
-            database: connection.database
+            database: connection.database,
+            connectTimeout: 10000
         };
 
         if (connection.ssl) {
             config.ssl = {};
         }
+        return config;
+    }
 
-        const mysqlConnection = await mysql.createConnection(config);
+    private postgresConfig(connection: DatabaseConnection) {
+        return {
+            host: connection.host,
+            port: connection.port,
+            user: connection.username,
+            password: connection.password,
+            database: connection.database,
+            ssl: connection.ssl ? { rejectUnauthorized: false } : false,
+            connectionTimeoutMillis: 10000
+        };
+    }
+
+    private mongoUri(connection: DatabaseConnection): string {
+        const credentials = `${encodeURIComponent(connection.username)}:${encodeURIComponent(connection.password || '')}`;
+        const uri = `mongodb://${credentials}@${connection.host}:${connection.port}/${connection.database}`;
+        return connection.ssl ? `${uri}?ssl=true` : uri;
+    }
+
+    private redisOptions(connection: DatabaseConnection) {
+        return {
+            socket: {
+                host: connection.host,
+                port: connection.port,
+                connectTimeout: 10000
+            },
+            username: connection.username,
+            password: connection.password
+        };
+    }
+
+    private sqlitePath(connection: DatabaseConnection): string {
+        return path.isAbsolute(connection.host) ? connection.host : path.join(process.cwd(), connection.host);
+    }
+
+    private async testMySQLConnection(connection: DatabaseConnection): Promise<any> {
+        const mysqlConnection = await mysql.createConnection(this.mysqlConfig(connection));
 
         try {
             const [rows] = await mysqlConnection.execute('SELECT VERSION() as version, DATABASE() as database_name');
@@ -381,15 +526,7 @@ export class DatabaseManagementService {
     }
 
     private async testPostgreSQLConnection(connection: DatabaseConnection): Promise<any> {
-        const client = new PgClient({
-            host: connection.host,
-            port: connection.port,
-            user: connection.username,
-            password: connection.password,
-            database: connection.database,
-            ssl: connection.ssl ? { rejectUnauthorized: false } : false,
-            connectionTimeoutMillis: 10000
-        });
+        const client = new PgClient(this.postgresConfig(connection));
 
         try {
             await client.connect();
@@ -401,11 +538,7 @@ export class DatabaseManagementService {
     }
 
     private async testMongoDBConnection(connection: DatabaseConnection): Promise<any> {
-        const uri = connection.ssl
-            ? `mongodb://${connection.username}:${connection.password}@${connection.host}:${connection.port}/${connection.database}?ssl=true`
-            : `mongodb://${connection.username}:${connection.password}@${connection.host}:${connection.port}/${connection.database}`;
-
-        const client = new MongoClient(uri, {
+        const client = new MongoClient(this.mongoUri(connection), {
             serverSelectionTimeoutMS: 10000,
             connectTimeoutMS: 10000
         });
@@ -424,15 +557,7 @@ export class DatabaseManagementService {
     }
 
     private async testRedisConnection(connection: DatabaseConnection): Promise<any> {
-        const client = redis.createClient({
-            socket: {
-                host: connection.host,
-                port: connection.port,
-                connectTimeout: 10000
-            },
-            username: connection.username,
-            password: connection.password
-        });
+        const client = redis.createClient(this.redisOptions(connection));
 
         try {
             await client.connect();
@@ -446,7 +571,7 @@ export class DatabaseManagementService {
 
     private async testSQLiteConnection(connection: DatabaseConnection): Promise<any> {
         return new Promise((resolve, reject) => {
-            const dbPath = path.isAbsolute(connection.host) ? connection.host : path.join(process.cwd(), connection.host);
+            const dbPath = this.sqlitePath(connection);
 
             if (!fs.existsSync(dbPath)) {
                 reject(new Error(`SQLite database file not found: ${dbPath}`));
@@ -473,14 +598,13 @@ export class DatabaseManagementService {
 
     public async deleteConnection(connectionId: string): Promise<{ success: boolean; error?: string }> {
         try {
-            // Close active connection if exists
-            if (this.activeConnections.has(connectionId)) {
-                await this.closeConnection(connectionId);
-            }
+            // Close active connection and tunnel if they exist
+            await this.closeConnection(connectionId);
 
             // Remove from local database
             await this.executeLocalQuery('DELETE FROM connections WHERE id = ?', [connectionId]);
             await this.executeLocalQuery('DELETE FROM query_history WHERE connection_id = ?', [connectionId]);
+            await this.setPassword(connectionId);
 
             // Remove from memory
             this.connections.delete(connectionId);
@@ -495,229 +619,394 @@ export class DatabaseManagementService {
         }
     }
 
-    private async closeConnection(connectionId: string): Promise<void> {
-        const activeConnection = this.activeConnections.get(connectionId);
-        if (!activeConnection) return;
+    /**
+     * The open clients of a connection, created on first use through resolveEndpoint so they
+     * share its SSH tunnel
+     */
+    private async getActiveConnection(connection: DatabaseConnection): Promise<ActiveConnection> {
+        const active = this.activeConnections.get(connection.id);
+        if (active) {
+            return active;
+        }
 
-        try {
-            const connection = this.connections.get(connectionId);
-            if (!connection) return;
+        let opening = this.openingConnections.get(connection.id);
+        if (!opening) {
+            opening = (async () => {
+                const driver = await this.openClient(await this.resolveEndpoint(connection));
+                const session: ActiveConnection = { ...driver, inTransaction: false, pending: 0 };
+                this.activeConnections.set(connection.id, session);
+                return session;
+            })();
+            this.openingConnections.set(connection.id, opening);
+            opening.then(
+                () => this.openingConnections.delete(connection.id),
+                () => this.openingConnections.delete(connection.id)
+            );
+        }
+        return opening;
+    }
 
-            switch (connection.type) {
-                case 'mysql':
-                    await activeConnection.end();
-                    break;
-                case 'postgresql':
-                    await activeConnection.end();
-                    break;
-                case 'mongodb':
-                    await activeConnection.close();
-                    break;
-                case 'redis':
-                    await activeConnection.quit();
-                    break;
-                // SQLite connections are closed immediately after use
+    private async openClient(connection: DatabaseConnection): Promise<DriverClient> {
+        switch (connection.type) {
+            case 'mysql':
+                return {
+                    type: 'mysql',
+                    client: mysql.createPool({
+                        ...this.mysqlConfig(connection),
+                        connectionLimit: POOL_SIZE,
+                        maxIdle: POOL_SIZE,
+                        idleTimeout: POOL_IDLE_TIMEOUT_MS,
+                        enableKeepAlive: true
+                    })
+                };
+            case 'postgresql': {
+                const pool = new PgPool({ ...this.postgresConfig(connection), max: POOL_SIZE, idleTimeoutMillis: POOL_IDLE_TIMEOUT_MS });
+                // Idle clients whose server went away are dropped by the pool; this only keeps the error from crashing the app
+                pool.on('error', error => console.error(`PostgreSQL pool error for ${connection.name}:`, error.message));
+                return { type: 'postgresql', client: pool };
             }
-        } catch (error) {
-            console.error('Error closing connection:', error);
-        } finally {
-            this.activeConnections.delete(connectionId);
+            case 'mongodb': {
+                const client = new MongoClient(this.mongoUri(connection), {
+                    maxPoolSize: POOL_SIZE,
+                    maxIdleTimeMS: POOL_IDLE_TIMEOUT_MS,
+                    serverSelectionTimeoutMS: 10000,
+                    connectTimeoutMS: 10000
+                });
+                try {
+                    await client.connect();
+                } catch (error) {
+                    await client.close().catch(() => undefined);
+                    throw error;
+                }
+                return { type: 'mongodb', client };
+            }
+            case 'redis': {
+                const client = redis.createClient(this.redisOptions(connection));
+                client.on('error', (error: Error) => console.error(`Redis client error for ${connection.name}:`, error.message));
+                try {
+                    await client.connect();
+                } catch (error) {
+                    client.destroy();
+                    throw error;
+                }
+                return { type: 'redis', client };
+            }
+            case 'sqlite':
+                return new Promise<DriverClient>((resolve, reject) => {
+                    const db = new sqlite3.Database(this.sqlitePath(connection), sqlite3.OPEN_READWRITE, (err) => {
+                        if (err) {
+                            reject(err);
+                        } else {
+                            resolve({ type: 'sqlite', client: db });
+                        }
+                    });
+                });
+            default:
+                throw new Error(`Unsupported database type: ${connection.type}`);
         }
     }
 
-    // Query execution and table management
-    public async getConnectionTables(connectionId: string): Promise<{ success: boolean; data?: TableInfo[]; error?: string }> {
+    /**
+     * Run work against a connection's open clients, keeping them from being evicted while it runs
+     */
+    private async withActiveConnection<T>(connection: DatabaseConnection, work: (session: ActiveConnection) => Promise<T>): Promise<T> {
+        const session = await this.getActiveConnection(connection);
+        session.pending++;
+        if (session.idleTimer) {
+            clearTimeout(session.idleTimer);
+            session.idleTimer = undefined;
+        }
+
         try {
-            const connection = this.connections.get(connectionId);
-            if (!connection) {
-                return { success: false, error: 'Connection not found' };
+            return await work(session);
+        } finally {
+            session.pending--;
+            if (session.pending === 0 && this.activeConnections.get(connection.id) === session) {
+                const timeout = session.inTransaction ? TRANSACTION_IDLE_TIMEOUT_MS : POOL_IDLE_TIMEOUT_MS;
+                session.idleTimer = setTimeout(() => {
+                    if (session.inTransaction) {
+                        console.warn(`Rolling back idle transaction on ${connection.name}`);
+                    }
+                    this.closeConnection(connection.id);
+                }, timeout);
             }
+        }
+    }
 
-            let tables: TableInfo[];
+    /**
+     * Run a SQL statement on the pool, or on the session holding the connection's open transaction.
+     * BEGIN checks a session out of the pool (via acquire) and COMMIT or ROLLBACK returns it, so
+     * the statements in between all run on the same database connection.
+     */
+    private async runStatement<S extends SqlConnection, T>(
+        session: S,
+        query: string,
+        run: (client: S['client'] | NonNullable<S['transaction']>) => Promise<T>,
+        acquire?: () => Promise<NonNullable<S['transaction']>>
+    ): Promise<T> {
+        const statement = transactionStatement(query);
+        const begins = statement === 'begin' && !session.inTransaction;
+
+        if (begins && acquire) {
+            session.transaction = await acquire();
+        }
 
-            switch (connection.type) {
-                case 'mysql':
-                    tables = await this.getMySQLTables(connection);
-                    break;
-                case 'postgresql':
-                    tables = await this.getPostgreSQLTables(connection);
-                    break;
-                case 'mongodb':
-                    tables = await this.getMongoDBCollections(connection);
-                    break;
-                case 'redis':
-                    tables = await this.getRedisKeys(connection);
-                    break;
-                case 'sqlite':
-                    tables = await this.getSQLiteTables(connection);
-                    break;
-                default:
-                    return { success: false, error: `Unsupported database type: ${connection.type}` };
+        try {
+            const result = await run(session.transaction ?? session.client);
+            if (begins) {
+                session.inTransaction = true;
+            } else if (statement === 'end') {
+                this.endTransaction(session);
             }
-
-            return { success: true, data: tables };
+            return result;
         } catch (error) {
-            console.error('Error getting tables:', error);
-            return {
-                success: false,
-                error: error instanceof Error ? error.message : 'Failed to get database tables'
-            };
+            if (begins) {
+                this.endTransaction(session);
+            }
+            throw error;
         }
     }
 
-    private async getMySQLTables(connection: DatabaseConnection): Promise<TableInfo[]> {
-        const config: any = {
-            host: connection.host,
-            port: connection.port,
-            user: connection.username,
-            password: connection.password,
-            database: connection.database
+    /**
+     * Check a PostgreSQL client out of the pool for a transaction. The pool only watches idle clients,
+     * so a checked out client needs its own error listener or a dropped connection crashes the app.
+     * The server rolls back a transaction whose connection is gone, so the session leaves it too.
+     */
+    private async checkOutTransactionClient(session: Extract<ActiveConnection, { type: 'postgresql' }>): Promise<PoolClient> {
+        const client = await session.client.connect();
+        session.onTransactionError = error => {
+            console.error('PostgreSQL transaction connection error:', error.message);
+            if (session.transaction === client) {
+                this.endTransaction(session, true);
+            }
         };
+        client.on('error', session.onTransactionError);
+        return client;
+    }
 
-        if (connection.ssl) {
-            config.ssl = {};
-        }
-
-        const mysqlConnection = await mysql.createConnection(config);
+    private endTransaction(session: ActiveConnection, discard: boolean = false): void {
+        session.inTransaction = false;
 
-        try {
-            const [tables] = await mysqlConnection.execute(`
-                SELECT 
-                    TABLE_NAME as name,
-                    TABLE_ROWS as \`rows\`,
-                    ROUND(((DATA_LENGTH + INDEX_LENGTH) / 1024 / 1024), 2) as size_mb,
-                    TABLE_TYPE as type,
-                    TABLE_SCHEMA as schema_name,
-                    UPDATE_TIME as last_modified
-                FROM information_schema.TABLES 
-                WHERE TABLE_SCHEMA = ?
-                ORDER BY TABLE_NAME
-            `, [connection.database]);
-
-            return (tables as any[]).map(table => ({
-                name: table.name,
-                rows: table.rows || 0,
-                size: `${table.size_mb || 0} MB`,
-                type: table.type?.toLowerCase().includes('view') ? 'view' : 'table',
-                schema: table.schema_name,
-                lastModified: table.last_modified?.toISOString()
-            }));
-        } finally {
-            await mysqlConnection.end();
+        // A session still inside a transaction must not go back to the pool
+        if (session.type === 'postgresql') {
+            const transaction = session.transaction;
+            session.transaction = undefined;
+            if (transaction && session.onTransactionError) {
+                transaction.off('error', session.onTransactionError);
+            }
+            session.onTransactionError = undefined;
+            transaction?.release(discard);
+        } else if (session.type === 'mysql') {
+            const transaction = session.transaction;
+            session.transaction = undefined;
+            if (discard) {
+                transaction?.destroy();
+            } else {
+                transaction?.release();
+            }
         }
     }
 
-    private async getPostgreSQLTables(connection: DatabaseConnection): Promise<TableInfo[]> {
-        const client = new PgClient({
-            host: connection.host,
-            port: connection.port,
-            user: connection.username,
-            password: connection.password,
-            database: connection.database,
-            ssl: connection.ssl ? { rejectUnauthorized: false } : false
-        });
+    private async closeConnection(connectionId: string): Promise<void> {
+        const session = this.activeConnections.get(connectionId);
+        this.activeConnections.delete(connectionId);
 
-        try {
-            await client.connect();
-            const result = await client.query(`
-                SELECT 
-                    t.table_name as name,
-                    COALESCE(s.n_tup_ins + s.n_tup_upd + s.n_tup_del, 0) as "rows",
-                    pg_size_pretty(pg_total_relation_size(c.oid)) as size,
-                    t.table_type as type,
-                    t.table_schema as schema_name
-                FROM information_schema.tables t
-                LEFT JOIN pg_class c ON c.relname = t.table_name
-                LEFT JOIN pg_stat_user_tables s ON s.relname = t.table_name
-                WHERE t.table_schema NOT IN ('information_schema', 'pg_catalog')
-                ORDER BY t.table_name
-            `);
+        if (session) {
+            if (session.idleTimer) {
+                clearTimeout(session.idleTimer);
+            }
 
-            return result.rows.map(table => ({
-                name: table.name,
-                rows: parseInt(table.rows) || 0,
-                size: table.size || '0 bytes',
-                type: table.type?.toLowerCase().includes('view') ? 'view' : 'table',
-                schema: table.schema_name
-            }));
-        } finally {
-            await client.end();
+            try {
+                this.endTransaction(session, true);
+
+                switch (session.type) {
+                    case 'mysql':
+                    case 'postgresql':
+                        await session.client.end();
+                        break;
+                    case 'mongodb':
+                        await session.client.close();
+                        break;
+                    case 'redis':
+                        await session.client.quit();
+                        break;
+                    case 'sqlite':
+                        await new Promise<void>((resolve, reject) => session.client.close(err => (err ? reject(err) : resolve())));
+                        break;
+                }
+            } catch (error) {
+                console.error('Error closing connection:', error);
+            }
         }
+
+        await this.closeTunnel(connectionId);
     }
 
-    private async getMongoDBCollections(connection: DatabaseConnection): Promise<TableInfo[]> {
-        const uri = connection.ssl
-            ? `mongodb://${connection.username}:${connection.password}@${connection.host}:${connection.port}/${connection.database}?ssl=true`
-            : `mongodb://${connection.username}:${connection.password}@${connection.host}:${connection.port}/${connection.database}`;
+    /**
+     * Where the driver should connect: the configured host, or a local port tunnelled through
+     * the SSH server. The tunnel is opened once and reused by later queries.
+     */
+    private async resolveEndpoint(connection: DatabaseConnection): Promise<DatabaseConnection> {
+        if (!connection.sshTunnel) {
+            return connection;
+        }
 
-        const client = new MongoClient(uri);
+        let tunnel = this.tunnels.get(connection.id);
+        if (!tunnel) {
+            const { serverId } = connection.sshTunnel;
+            const forward = () => serverManagementService.forwardOut(serverId, connection.host, connection.port);
+            tunnel = (async () => {
+                // Report an unreachable database with the SSH error instead of a reset socket
+                (await forward()).destroy();
+                return openLocalTunnel(forward);
+            })();
+            this.tunnels.set(connection.id, tunnel);
+            tunnel.catch(() => this.tunnels.delete(connection.id));
+        }
+
+        const { host, port } = await tunnel;
+        return { ...connection, host, port };
+    }
 
+    private async closeTunnel(connectionId: string): Promise<void> {
+        const tunnel = this.tunnels.get(connectionId);
+        if (!tunnel) {
+            return;
+        }
+        this.tunnels.delete(connectionId);
         try {
-            await client.connect();
-            const db = client.db(connection.database);
-            const collections = await db.listCollections().toArray();
+            await (await tunnel).close();
+        } catch (error) {
+            console.error('Error closing SSH tunnel:', error);
+        }
+    }
 
-            const tablesInfo: TableInfo[] = [];
+    // Query execution and table management
+    public async getConnectionTables(connectionId: string): Promise<{ success: boolean; data?: TableInfo[]; error?: string }> {
+        try {
+            const connection = this.connections.get(connectionId);
+            if (!connection) {
+                return { success: false, error: 'Connection not found' };
+            }
 
-            for (const collection of collections) {
-                try {
-                    const count = await db.collection(collection.name).countDocuments();
-                    tablesInfo.push({
-                        name: collection.name,
-                        rows: count || 0,
-                        size: 'N/A',
-                        type: 'collection',
-                        schema: connection.database
-                    });
-                } catch (error) {
-                    tablesInfo.push({
-                        name: collection.name,
-                        rows: 0,
-                        size: 'N/A',
-                        type: 'collection',
-                        schema: connection.database
-                    });
+            const tables = await this.withActiveConnection(connection, session => {
+                switch (session.type) {
+                    case 'mysql':
+                        return this.getMySQLTables(session.client, connection);
+                    case 'postgresql':
+                        return this.getPostgreSQLTables(session.client);
+                    case 'mongodb':
+                        return this.getMongoDBCollections(session.client, connection);
+                    case 'redis':
+                        return this.getRedisKeys(session.client);
+                    case 'sqlite':
+                        return this.getSQLiteTables(session.client);
                 }
-            }
+            });
 
-            return tablesInfo;
-        } finally {
-            await client.close();
+            return { success: true, data: tables };
+        } catch (error) {
+            console.error('Error getting tables:', error);
+            return {
+                success: false,
+                error: error instanceof Error ? error.message : 'Failed to get database tables'
+            };
         }
     }
 
-    private async getRedisKeys(connection: DatabaseConnection): Promise<TableInfo[]> {
-        const client = redis.createClient({
-            socket: {
-                host: connection.host,
-                port: connection.port
-            },
-            username: connection.username,
-            password: connection.password
-        });
+    private async getMySQLTables(pool: mysql.Pool, connection: DatabaseConnection): Promise<TableInfo[]> {
+        const [tables] = await pool.execute(`
+            SELECT 
+                TABLE_NAME as name,
+                TABLE_ROWS as \`rows\`,
+                ROUND(((DATA_LENGTH + INDEX_LENGTH) / 1024 / 1024), 2) as size_mb,
+                TABLE_TYPE as type,
+                TABLE_SCHEMA as schema_name,
+                UPDATE_TIME as last_modified
+            FROM information_schema.TABLES 
+            WHERE TABLE_SCHEMA = ?
+            ORDER BY TABLE_NAME
+        `, [connection.database]);
+
+        return (tables as any[]).map(table => ({
+            name: table.name,
+            rows: table.rows || 0,
+            size: `${table.size_mb || 0} MB`,
+            type: table.type?.toLowerCase().includes('view') ? 'view' : 'table',
+            schema: table.schema_name,
+            lastModified: table.last_modified?.toISOString()
+        }));
+    }
 
-        try {
-            await client.connect();
-            const keys = await client.keys('*');
-            const keyTypes = await Promise.all(keys.map(key => client.type(key)));
-
-            return keys.slice(0, 100).map((key, index) => ({
-                name: key,
-                rows: 1,
-                size: 'N/A',
-                type: 'key',
-                schema: keyTypes[index]
-            }));
-        } finally {
-            await client.quit();
+    private async getPostgreSQLTables(pool: PgPool): Promise<TableInfo[]> {
+        const result = await pool.query(`
+            SELECT 
+                t.table_name as name,
+                COALESCE(s.n_tup_ins + s.n_tup_upd + s.n_tup_del, 0) as "rows",
+                pg_size_pretty(pg_total_relation_size(c.oid)) as size,
+                t.table_type as type,
+                t.table_schema as schema_name
+            FROM information_schema.tables t
+            LEFT JOIN pg_class c ON c.relname = t.table_name
+            LEFT JOIN pg_stat_user_tables s ON s.relname = t.table_name
+            WHERE t.table_schema NOT IN ('information_schema', 'pg_catalog')
+            ORDER BY t.table_name
+        `);
+
+        return result.rows.map(table => ({
+            name: table.name,
+            rows: parseInt(table.rows) || 0,
+            size: table.size || '0 bytes',
+            type: table.type?.toLowerCase().includes('view') ? 'view' : 'table',
+            schema: table.schema_name
+        }));
+    }
+
+    private async getMongoDBCollections(client: MongoClient, connection: DatabaseConnection): Promise<TableInfo[]> {
+        const db = client.db(connection.database);
+        const collections = await db.listCollections().toArray();
+
+        const tablesInfo: TableInfo[] = [];
+
+        for (const collection of collections) {
+            try {
+                const count = await db.collection(collection.name).countDocuments();
+                tablesInfo.push({
+                    name: collection.name,
+                    rows: count || 0,
+                    size: 'N/A',
+                    type: 'collection',
+                    schema: connection.database
+                });
+            } catch (error) {
+                tablesInfo.push({
+                    name: collection.name,
+                    rows: 0,
+                    size: 'N/A',
+                    type: 'collection',
+                    schema: connection.database
+                });
+            }
         }
+
+        return tablesInfo;
     }
 
-    private async getSQLiteTables(connection: DatabaseConnection): Promise<TableInfo[]> {
-        return new Promise((resolve, reject) => {
-            const dbPath = path.isAbsolute(connection.host) ? connection.host : path.join(process.cwd(), connection.host);
-            const db = new sqlite3.Database(dbPath, sqlite3.OPEN_READONLY);
+    private async getRedisKeys(client: RedisClient): Promise<TableInfo[]> {
+        const keys: string[] = await client.keys('*');
+        const keyTypes = await Promise.all(keys.map(key => client.type(key)));
+
+        return keys.slice(0, 100).map((key, index) => ({
+            name: key,
+            rows: 1,
+            size: 'N/A',
+            type: 'key',
+            schema: keyTypes[index]
+        }));
+    }
 
+    private async getSQLiteTables(db: sqlite3.Database): Promise<TableInfo[]> {
+        return new Promise((resolve, reject) => {
             db.all(`
                 SELECT 
                     name,
@@ -728,7 +1017,6 @@ export class DatabaseManagementService {
                 ORDER BY name
             `, (err, rows: any[]) => {
                 if (err) {
-                    db.close();
                     reject(err);
                     return;
                 }
@@ -741,7 +1029,6 @@ export class DatabaseManagementService {
                     schema: 'main'
                 }));
 
-                db.close();
                 resolve(tables);
             });
         });
@@ -758,28 +1045,27 @@ export class DatabaseManagementService {
                 return { success: false, error: 'Connection not found' };
             }
 
-            let result: QueryResult;
-
-            switch (connection.type) {
-                case 'mysql':
-                    result = await this.executeMySQLQuery(connection, query);
-                    break;
-                case 'postgresql':
-                    result = await this.executePostgreSQLQuery(connection, query);
-                    break;
-                case 'mongodb':
-                    result = await this.executeMongoDBQuery(connection, query);
-                    break;
-                case 'redis':
-                    result = await this.executeRedisQuery(connection, query);
-                    break;
-                case 'sqlite':
-                    result = await this.executeSQLiteQuery(connection, query);
-                    break;
-                default:
-                    this.errorCount++;
-                    return { success: false, error: `Unsupported database type: ${connection.type}` };
-            }
+            const result = await this.withActiveConnection(connection, async session => {
+                let queryResult: QueryResult;
+                switch (session.type) {
+                    case 'mysql':
+                        queryResult = await this.executeMySQLQuery(session, query);
+                        break;
+                    case 'postgresql':
+                        queryResult = await this.executePostgreSQLQuery(session, query);
+                        break;
+                    case 'mongodb':
+                        queryResult = await this.executeMongoDBQuery(session.client, connection, query);
+                        break;
+                    case 'redis':
+                        queryResult = await this.executeRedisQuery(session.client, query);
+                        break;
+                    case 'sqlite':
+                        queryResult = await this.executeSQLiteQuery(session, query);
+                        break;
+                }
+                return { ...queryResult, inTransaction: session.inTransaction };
+            });
 
             const executionTime = Date.now() - startTime;
             this.totalQueryTime += executionTime;
@@ -816,7 +1102,8 @@ export class DatabaseManagementService {
                 rowsAffected: 0,
                 query,
                 timestamp: new Date().toISOString(),
-                error: errorMessage
+                error: errorMessage,
+                inTransaction: this.activeConnections.get(connectionId)?.inTransaction
             };
 
             this.queryHistory.unshift(errorResult);
@@ -837,174 +1124,124 @@ export class DatabaseManagementService {
         }
     }
 
-    private async executeMySQLQuery(connection: DatabaseConnection, query: string): Promise<QueryResult> {
-        const config: any = {
-            host: connection.host,
-            port: connection.port,
-            user: connection.username,
-            password: connection.password,
-            database: connection.database
-        };
-
-        if (connection.ssl) {
-            config.ssl = {};
-        }
-
-        const mysqlConnection = await mysql.createConnection(config);
-
-        try {
-            const [results, fields] = await mysqlConnection.execute(query);
-
-            if (Array.isArray(results)) {
-                return {
-                    columns: fields?.map(field => field.name) || [],
-                    rows: results.map(row => Object.values(row)),
-                    executionTime: 0,
-                    rowsAffected: results.length,
-                    query,
-                    timestamp: ''
-                };
-            } else {
-                return {
-                    columns: [],
-                    rows: [],
-                    executionTime: 0,
-                    rowsAffected: (results as any).affectedRows || 0,
-                    query,
-                    timestamp: ''
-                };
-            }
-        } finally {
-            await mysqlConnection.end();
-        }
-    }
-
-    private async executePostgreSQLQuery(connection: DatabaseConnection, query: string): Promise<QueryResult> {
-        const client = new PgClient({
-            host: connection.host,
-            port: connection.port,
-            user: connection.username,
-            password: connection.password,
-            database: connection.database,
-            ssl: connection.ssl ? { rejectUnauthorized: false } : false
-        });
-
-        try {
-            await client.connect();
-            const result = await client.query(query);
+    private async executeMySQLQuery(session: Extract<ActiveConnection, { type: 'mysql' }>, query: string): Promise<QueryResult> {
+        // Transaction control is not supported by the prepared statement protocol
+        const [results, fields] = await this.runStatement(
+            session,
+            query,
+            (client: mysql.Pool | mysql.PoolConnection) => (transactionStatement(query) ? client.query(query) : client.execute(query)),
+            () => session.client.getConnection()
+        );
 
+        if (Array.isArray(results)) {
             return {
-                columns: result.fields.map(field => field.name),
-                rows: result.rows.map(row => Object.values(row)),
+                columns: fields?.map(field => field.name) || [],
+                rows: results.map(row => Object.values(row)),
                 executionTime: 0,
-                rowsAffected: result.rowCount || 0,
+                rowsAffected: results.length,
                 query,
                 timestamp: ''
             };
-        } finally {
-            await client.end();
-        }
-    }
-
-    private async executeMongoDBQuery(connection: DatabaseConnection, query: string): Promise<QueryResult> {
-        // For MongoDB, we'll expect JSON queries
-        const uri = connection.ssl
-            ? `mongodb://${connection.username}:${connection.password}@${connection.host}:${connection.port}/${connection.database}?ssl=true`
-            : `mongodb://${connection.username}:${connection.password}@${connection.host}:${connection.port}/${connection.database}`;
-
-        const client = new MongoClient(uri);
-
-        try {
-            await client.connect();
-            const db = client.db(connection.database);
-
-            // Parse MongoDB query (expecting JSON format)
-            const queryObj = JSON.parse(query);
-            const collection = db.collection(queryObj.collection);
-
-            let results;
-            if (queryObj.operation === 'find') {
-                results = await collection.find(queryObj.filter || {}).limit(queryObj.limit || 100).toArray();
-            } else if (queryObj.operation === 'aggregate') {
-                results = await collection.aggregate(queryObj.pipeline || []).toArray();
-            } else {
-                throw new Error('Unsupported MongoDB operation');
-            }
-
-            const columns = results.length > 0 ? Object.keys(results[0]) : [];
-
+        } else {
             return {
-                columns,
-                rows: results.map(doc => columns.map(col => doc[col])),
+                columns: [],
+                rows: [],
                 executionTime: 0,
-                rowsAffected: results.length,
+                rowsAffected: results.affectedRows || 0,
                 query,
                 timestamp: ''
             };
-        } finally {
-            await client.close();
         }
     }
 
-    private async executeRedisQuery(connection: DatabaseConnection, query: string): Promise<QueryResult> {
-        const client = redis.createClient({
-            socket: {
-                host: connection.host,
-                port: connection.port
-            },
-            username: connection.username,
-            password: connection.password
-        });
-
-        try {
-            await client.connect();
+    private async executePostgreSQLQuery(session: Extract<ActiveConnection, { type: 'postgresql' }>, query: string): Promise<QueryResult> {
+        const result = await this.runStatement(
+            session,
+            query,
+            (client: PgPool | PoolClient) => client.query(query),
+            () => this.checkOutTransactionClient(session)
+        );
+
+        return {
+            columns: result.fields.map(field => field.name),
+            rows: result.rows.map(row => Object.values(row)),
+            executionTime: 0,
+            rowsAffected: result.rowCount || 0,
+            query,
+            timestamp: ''
+        };
+    }
 
-            // Parse Redis command
-            const parts = query.trim().split(' ');
-            const command = parts[0].toUpperCase();
-            const args = parts.slice(1);
+    private async executeMongoDBQuery(client: MongoClient, connection: DatabaseConnection, query: string): Promise<QueryResult> {
+        // For MongoDB, we'll expect JSON queries
+        const db = client.db(connection.database);
+
+        // Parse MongoDB query (expecting JSON format)
+        const queryObj = JSON.parse(query);
+        const collection = db.collection(queryObj.collection);
+
+        let results;
+        if (queryObj.operation === 'find') {
+            results = await collection.find(queryObj.filter || {}).limit(queryObj.limit || 100).toArray();
+        } else if (queryObj.operation === 'aggregate') {
+            results = await collection.aggregate(queryObj.pipeline || []).toArray();
+        } else {
+            throw new Error('Unsupported MongoDB operation');
+        }
 
-            let result;
-            switch (command) {
-                case 'GET':
-                    result = await client.get(args[0]);
-                    break;
-                case 'SET':
-                    result = await client.set(args[0], args[1]);
-                    break;
-                case 'KEYS':
-                    result = await client.keys(args[0] || '*');
-                    break;
-                case 'DEL':
-                    result = await client.del(args);
-                    break;
-                default:
-                    throw new Error(`Unsupported Redis command: ${command}`);
-            }
+        const columns = results.length > 0 ? Object.keys(results[0]) : [];
 
-            const resultArray = Array.isArray(result) ? result : [result];
+        return {
+            columns,
+            rows: results.map(doc => columns.map(col => doc[col])),
+            executionTime: 0,
+            rowsAffected: results.length,
+            query,
+            timestamp: ''
+        };
+    }
 
-            return {
-                columns: ['Result'],
-                rows: resultArray.map(r => [r]),
-                executionTime: 0,
-                rowsAffected: resultArray.length,
-                query,
-                timestamp: ''
-            };
-        } finally {
-            await client.quit();
+    private async executeRedisQuery(client: RedisClient, query: string): Promise<QueryResult> {
+        // Parse Redis command
+        const parts = query.trim().split(' ');
+        const command = parts[0].toUpperCase();
+        const args = parts.slice(1);
+
+        let result;
+        switch (command) {
+            case 'GET':
+                result = await client.get(args[0]);
+                break;
+            case 'SET':
+                result = await client.set(args[0], args[1]);
+                break;
+            case 'KEYS':
+                result = await client.keys(args[0] || '*');
+                break;
+            case 'DEL':
+                result = await client.del(args);
+                break;
+            default:
+                throw new Error(`Unsupported Redis command: ${command}`);
         }
-    }
 
-    private async executeSQLiteQuery(connection: DatabaseConnection, query: string): Promise<QueryResult> {
-        return new Promise((resolve, reject) => {
-            const dbPath = path.isAbsolute(connection.host) ? connection.host : path.join(process.cwd(), connection.host);
-            const db = new sqlite3.Database(dbPath);
+        const resultArray = Array.isArray(result) ? result : [result];
 
+        return {
+            columns: ['Result'],
+            rows: resultArray.map(r => [r]),
+            executionTime: 0,
+            rowsAffected: resultArray.length,
+            query,
+            timestamp: ''
+        };
+    }
+
+    private async executeSQLiteQuery(session: Extract<ActiveConnection, { type: 'sqlite' }>, query: string): Promise<QueryResult> {
+        // One database handle per connection, so its transactions carry over between queries
+        return this.runStatement(session, query, (db: sqlite3.Database) => new Promise<QueryResult>((resolve, reject) => {
             if (query.trim().toUpperCase().startsWith('SELECT')) {
                 db.all(query, (err, rows: any[]) => {
-                    db.close();
                     if (err) {
                         reject(err);
                         return;
@@ -1022,7 +1259,6 @@ export class DatabaseManagementService {
                 });
             } else {
                 db.run(query, function (err) {
-                    db.close();
                     if (err) {
                         reject(err);
                         return;
@@ -1038,7 +1274,7 @@ export class DatabaseManagementService {
                     });
                 });
             }
-        });
+        }));
     }
 
     // Metrics and monitoring
@@ -1164,36 +1400,49 @@ export class DatabaseManagementService {
         }
     }
 
-    public async openDatabaseInExternal(connectionId: string): Promise<{ success: boolean; error?: string }> {
+    public async openDatabaseInExternal(
+        connectionId: string,
+        options: { includePassword?: boolean } = {}
+    ): Promise<{ success: boolean; data?: { copied: boolean; clearAfterMs?: number }; error?: string }> {
         try {
             const connection = this.connections.get(connectionId);
             if (!connection) {
                 return { success: false, error: 'Connection not found' };
             }
 
+            const { includePassword = true } = options;
+            const userInfo = includePassword && connection.password
+                ? `${encodeURIComponent(connection.username)}:${encodeURIComponent(connection.password)}`
+                : encodeURIComponent(connection.username);
+            const credentials = userInfo ? `${userInfo}@` : '';
+
             // Create a connection string for external tools
             let connectionString = '';
             switch (connection.type) {
                 case 'mysql':
-                    connectionString = `mysql://${connection.username}:${connection.password}@${connection.host}:${connection.port}/${connection.database}`;
+                    connectionString = `mysql://${credentials}${connection.host}:${connection.port}/${connection.database}`;
                     break;
                 case 'postgresql':
-                    connectionString = `postgresql://${connection.username}:${connection.password}@${connection.host}:${connection.port}/${connection.database}`;
+                    connectionString = `postgresql://${credentials}${connection.host}:${connection.port}/${connection.database}`;
                     break;
                 case 'mongodb':
-                    connectionString = `mongodb://${connection.username}:${connection.password}@${connection.host}:${connection.port}/${connection.database}`;
+                    connectionString = `mongodb://${credentials}${connection.host}:${connection.port}/${connection.database}`;
                     break;
                 case 'sqlite':
                     await shell.openPath(connection.host);
-                    return { success: true };
+                    return { success: true, data: { copied: false } };
                 default:
                     return { success: false, error: `External tools not supported for ${connection.type}` };
             }
 
             // Copy to clipboard for now
-            require('electron').clipboard.writeText(connectionString);
+            clipboard.writeText(connectionString);
+            if (!includePassword || !connection.password) {
+                return { success: true, data: { copied: true } };
+            }
 
-            return { success: true };
+            this.scheduleClipboardClear(connectionString);
+            return { success: true, data: { copied: true, clearAfterMs: CLIPBOARD_CLEAR_MS } };
         } catch (error) {
             console.error('Error opening database in external tool:', error);
             return {
@@ -1202,4 +1451,19 @@ export class DatabaseManagementService {
             };
         }
     }
+
+    /**
+     * Wipe a copied secret from the clipboard, unless something else was copied since
+     */
+    private scheduleClipboardClear(copied: string): void {
+        if (this.clipboardTimer) {
+            clearTimeout(this.clipboardTimer);
+        }
+        this.clipboardTimer = setTimeout(() => {
+            this.clipboardTimer = null;
+            if (clipboard.readText() === copied) {
+                clipboard.clear();
+            }
+        }, CLIPBOARD_CLEAR_MS);
+    }
 }
@@ -0,0 +1,26 @@
+// Statements that open or finish a transaction spanning several executes
+export type TransactionStatement = 'begin' | 'end';
+
+const LEADING_COMMENTS = /^(\s*(--[^\n]*(\n|$)|\/\*[\s\S]*?\*\/))*\s*/;
+
+/**
+ * Classify a single SQL statement as starting or ending a transaction. Savepoint statements
+ * (ROLLBACK TO, RELEASE) and scripts with several statements stay with the current session.
+ */
+export function transactionStatement(query: string): TransactionStatement | null {
+    const statement = query.replace(LEADING_COMMENTS, '').replace(/;\s*$/, '').trim().toUpperCase();
+
+    if (statement.includes(';')) {
+        return null;
+    }
+    if (/^(BEGIN|START\s+TRANSACTION)\b/.test(statement)) {
+        return 'begin';
+    }
+    if (/^(COMMIT|END|ABORT)\b/.test(statement)) {
+        return 'end';
+    }
+    if (/^ROLLBACK\b/.test(statement) && !/\bTO\b/.test(statement)) {
+        return 'end';
+    }
+    return null;
+}
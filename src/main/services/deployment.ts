@@ -0,0 +1,573 @@
+import sqlite3 from 'sqlite3';
+import { EventEmitter } from 'events';
+import * as path from 'path';
+import * as fs from 'fs';
+import { app } from 'electron';
+import * as crypto from 'crypto';
+import {
+    DeploymentConfig,
+    DeploymentConfigInput,
+    DeploymentHistoryFilter,
+    DirectDeploymentRequest,
+    DirectDeploymentResult,
+    GroupDeploymentProgress,
+    GroupDeploymentRequest,
+    GroupDeploymentResult
+} from '../../shared/types';
+import { SecureStorageService } from '../security/secureStorage';
+import { serverManagementService } from './serverManagement';
+import { planDeploymentBatches, selectGroupServers } from './deploymentGroups';
+import { DashboardService } from './dashboard';
+
+const DEFAULT_HISTORY_LIMIT = 50;
+// Environment variables often hold secrets, so they are kept in secure storage under this
+// prefix and the id of their configuration or deployment, one entry each, rather than in the SQLite file
+const ENV_VARS_STORAGE_PREFIX = 'deployment-env-';
+
+interface DeploymentConfigRow {
+    id: string;
+    name: string;
+    server_id: string;
+    repository_id: number;
+    branch: string;
+    deploy_path: string;
+    is_active: number;
+    created_at: string;
+    updated_at: string;
+    config_json: string;
+}
+
+// Request fields kept with each history entry so it can be replayed for a rollback.
+// Environment variable values go to secure storage instead.
+type StoredDeploymentRequest = Omit<DirectDeploymentRequest, 'environmentVariables' | 'commitSha' | 'rollbackOf' | 'existingRelease' | 'groupId'>;
+
+export class DeploymentService extends EventEmitter {
+    private static instance: DeploymentService;
+    private db: sqlite3.Database | null = null;
+    private ready: Promise<void>;
+    private activeGroups: Map<string, AbortController> = new Map();
+
+    private constructor() {
+        super();
+        this.ready = this.initializeDatabase();
+        // Failures surface to callers awaiting `ready`
+        this.ready.catch(() => undefined);
+    }
+
+    public static getInstance(): DeploymentService {
+        if (!DeploymentService.instance) {
+            DeploymentService.instance = new DeploymentService();
+        }
+        return DeploymentService.instance;
+    }
+
+    public static initialize(): void {
+        DeploymentService.getInstance();
+        console.log('DeploymentService initialized');
+    }
+
+    private async initializeDatabase(): Promise<void> {
+        try {
+            const dbPath = path.join(app.getPath('userData'), 'deployments.db');
+
+            const dbDir = path.dirname(dbPath);
+            if (!fs.existsSync(dbDir)) {
+                fs.mkdirSync(dbDir, { recursive: true });
+            }
+
+            this.db = new sqlite3.Database(dbPath);
+
+            await this.run(`
+                CREATE TABLE IF NOT EXISTS deployment_history (
+                    id TEXT PRIMARY KEY,
+                    server_id TEXT NOT NULL,
+                    repository TEXT NOT NULL,
+                    branch TEXT NOT NULL,
+                    target_path TEXT NOT NULL,
+                    success INTEGER NOT NULL,
+                    commit_sha TEXT,
+                    commit_message TEXT,
+                    triggered_by TEXT,
+                    rollback_of TEXT,
+                    error TEXT,
+                    started_at TEXT NOT NULL,
+                    finished_at TEXT NOT NULL,
+                    duration_ms INTEGER NOT NULL,
+                    result_json TEXT NOT NULL,
+                    request_json TEXT NOT NULL
+                )
+            `);
+            await this.run('CREATE INDEX IF NOT EXISTS idx_deployment_history_server ON deployment_history (server_id, started_at)');
+            await this.run('CREATE INDEX IF NOT EXISTS idx_deployment_history_repository ON deployment_history (repository, started_at)');
+            await this.run(`
+                CREATE TABLE IF NOT EXISTS deployment_configs (
+                    id TEXT PRIMARY KEY,
+                    name TEXT NOT NULL,
+                    server_id TEXT NOT NULL,
+                    repository_id INTEGER NOT NULL,
+                    branch TEXT NOT NULL,
+                    deploy_path TEXT NOT NULL,
+                    is_active INTEGER NOT NULL DEFAULT 1,
+                    created_at TEXT NOT NULL,
+                    updated_at TEXT NOT NULL,
+                    config_json TEXT NOT NULL
+                )
+            `);
+        } catch (error) {
+            console.error('Failed to initialize deployment database:', error);
+            throw error;
+        }
+    }
+
+    private async loadEnvVars(ownerId: string): Promise<Record<string, string>> {
+        return (await SecureStorageService.getInstance().retrieve(`${ENV_VARS_STORAGE_PREFIX}${ownerId}`)) ?? {};
+    }
+
+    private async saveEnvVars(ownerId: string, envVars: Record<string, string> | undefined): Promise<void> {
+        const storage = SecureStorageService.getInstance();
+        const key = `${ENV_VARS_STORAGE_PREFIX}${ownerId}`;
+        if (envVars && Object.keys(envVars).length > 0) {
+            await storage.store(key, envVars, { backup: false });
+        } else if (storage.exists(key)) {
+            await storage.delete(key);
+        }
+    }
+
+    private run(query: string, params: any[] = []): Promise<void> {
+        return new Promise((resolve, reject) => {
+            if (!this.db) {
+                reject(new Error('Deployment database not initialized'));
+                return;
+            }
+            this.db.run(query, params, (err) => {
+                if (err) reject(err);
+                else resolve();
+            });
+        });
+    }
+
+    private all<T = any>(query: string, params: any[] = []): Promise<T[]> {
+        return new Promise((resolve, reject) => {
+            if (!this.db) {
+                reject(new Error('Deployment database not initialized'));
+                return;
+            }
+            this.db.all(query, params, (err, rows) => {
+                if (err) reject(err);
+                else resolve(rows as T[]);
+            });
+        });
+    }
+
+    /**
+     * Run a direct deployment and persist its outcome
+     */
+    async deploy(request: DirectDeploymentRequest): Promise<DirectDeploymentResult> {
+        const result = await serverManagementService.directDeploy(request);
+
+        try {
+            await this.recordDeployment(request, result);
+        } catch (error) {
+            console.error('Failed to record deployment history:', error);
+        }
+
+        DashboardService.addActivity({
+            type: 'deployment',
+            title: result.rollbackOf ? 'Rollback' : 'Deployment',
+            description: `${result.repository.fullName}@${result.commitSha ? result.commitSha.slice(0, 7) : result.branch} → ${result.targetPath}${result.autoRollback?.success ? ' (rolled back after failed health check)' : ''}`,
+            status: result.success ? 'success' : 'error',
+            repository: result.repository.fullName,
+            server: result.serverId
+        });
+
+        return result;
+    }
+
+    private async recordDeployment(request: DirectDeploymentRequest, result: DirectDeploymentResult): Promise<void> {
+        await this.ready;
+
+        const {
+            environmentVariables: _env,
+            commitSha: _sha,
+            rollbackOf: _rollback,
+            existingRelease: _release,
+            groupId: _group,
+            ...storedRequest
+        } = request;
+
+        await this.run(
+            `INSERT INTO deployment_history (
+                id, server_id, repository, branch, target_path, success, commit_sha, commit_message,
+                triggered_by, rollback_of, error, started_at, finished_at, duration_ms, result_json, request_json
+            ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+            [
+                result.id,
+                result.serverId,
+                result.repository.fullName,
+                result.branch,
+                result.targetPath,
+                result.success ? 1 : 0,
+                result.commitSha ?? null,
+                result.commitMessage ?? null,
+                result.triggeredBy ?? null,
+                result.rollbackOf ?? null,
+                result.error ?? null,
+                result.startedAt,
+                result.finishedAt,
+                result.durationMs,
+                JSON.stringify(result),
+                JSON.stringify(storedRequest)
+            ]
+        );
+
+        try {
+            await this.saveEnvVars(result.id, request.environmentVariables);
+        } catch (error) {
+            console.warn(`Environment variables of deployment ${result.id} were not kept, a rollback to it runs without them:`, error);
+        }
+    }
+
+    /**
+     * List recorded deployments, newest first
+     */
+    async getHistory(filter: DeploymentHistoryFilter = {}): Promise<DirectDeploymentResult[]> {
+        await this.ready;
+
+        const conditions: string[] = [];
+        const params: any[] = [];
+
+        if (filter.serverId) {
+            conditions.push('server_id = ?');
+            params.push(filter.serverId);
+        }
+        if (filter.repository) {
+            conditions.push('repository = ?');
+            params.push(filter.repository);
+        }
+
+        const where = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
+        params.push(filter.limit && filter.limit > 0 ? filter.limit : DEFAULT_HISTORY_LIMIT);
+
+        const rows = await this.all<{ result_json: string }>(
+            `SELECT result_json FROM deployment_history ${where} ORDER BY started_at DESC LIMIT ?`,
+            params
+        );
+        return rows.map(row => JSON.parse(row.result_json) as DirectDeploymentResult);
+    }
+
+    /**
+     * Redeploy the commit recorded for a previous deployment to the same target.
+     * Release-based deployments repoint `current` at the old release when it is still on disk.
+     */
+    async rollback(deploymentId: string): Promise<DirectDeploymentResult> {
+        await this.ready;
+
+        const [row] = await this.all<{ commit_sha: string | null; request_json: string; result_json: string }>(
+            'SELECT commit_sha, request_json, result_json FROM deployment_history WHERE id = ?',
+            [deploymentId]
+        );
+        if (!row) {
+            throw new Error('Deployment not found');
+        }
+        if (!row.commit_sha) {
+            throw new Error('Deployment has no recorded commit to roll back to');
+        }
+
+        const storedRequest = JSON.parse(row.request_json) as StoredDeploymentRequest;
+        const previous = JSON.parse(row.result_json) as DirectDeploymentResult;
+        // The scripts of the rolled back deployment ran with these
+        const environmentVariables = await this.loadEnvVars(deploymentId);
+        return this.deploy({
+            ...storedRequest,
+            environmentVariables: Object.keys(environmentVariables).length > 0 ? environmentVariables : undefined,
+            // Never wipe the target on rollback; the recorded commit is checked out in place
+            clean: false,
+            commitSha: row.commit_sha,
+            existingRelease: previous.strategy === 'releases' ? previous.release : undefined,
+            rollbackOf: deploymentId
+        });
+    }
+
+    /**
+     * Deploy one request to every server in a group, batch by batch.
+     * The rollout stops after the first batch in which a server failed, including failed health checks.
+     */
+    async deployGroup(request: GroupDeploymentRequest): Promise<GroupDeploymentResult> {
+        const { strategy, pauseMs = 0, deployment } = request;
+        if (!Number.isInteger(pauseMs) || pauseMs < 0) {
+            throw new Error('Pause between batches must be zero or more milliseconds');
+        }
+        // Batches only stop at a failed server, and without a health check a broken build still deploys successfully
+        if (strategy !== 'all' && !deployment.healthCheck?.probes.length) {
+            throw new Error('Rolling and canary deployments require a health check');
+        }
+
+        const servers = selectGroupServers(await serverManagementService.getServers(), request.group);
+        if (servers.length === 0) {
+            throw new Error('No servers match the selected group');
+        }
+        const serverNames = new Map(servers.map(server => [server.id, server.name]));
+        const batches = planDeploymentBatches(servers.map(server => server.id), request);
+
+        const groupId = crypto.randomUUID();
+        const controller = new AbortController();
+        this.activeGroups.set(groupId, controller);
+        const startedAt = new Date();
+        const results: DirectDeploymentResult[] = [];
+        let error: string | undefined;
+        const emitProgress = (progress: GroupDeploymentProgress) => this.emit('group-progress', progress);
+        emitProgress({ type: 'started', groupId, strategy, batches, startedAt: startedAt.toISOString() });
+
+        try {
+            for (const [index, batch] of batches.entries()) {
+                if (index > 0 && pauseMs > 0) {
+                    emitProgress({ type: 'paused', groupId, until: new Date(Date.now() + pauseMs).toISOString() });
+                    await new Promise<void>(resolve => {
+                        const done = () => {
+                            clearTimeout(timer);
+                            controller.signal.removeEventListener('abort', done);
+                            resolve();
+                        };
+                        const timer = setTimeout(done, pauseMs);
+                        controller.signal.addEventListener('abort', done, { once: true });
+                    });
+                }
+                if (controller.signal.aborted) {
+                    error = 'Group deployment cancelled';
+                    break;
+                }
+
+                emitProgress({ type: 'batch-start', groupId, batch: index, serverIds: batch });
+                const batchResults = await Promise.all(batch.map(async serverId => {
+                    const result = await this.deployGroupMember({ ...deployment, serverId, groupId });
+                    emitProgress({ type: 'server-finished', groupId, result });
+                    return result;
+                }));
+                results.push(...batchResults);
+
+                const failed = batchResults.find(result => !result.success);
+                if (failed) {
+                    error = controller.signal.aborted
+                        ? 'Group deployment cancelled'
+                        : `Rollout stopped: ${serverNames.get(failed.serverId) || failed.serverId} failed${failed.error ? ` (${failed.error})` : ''}`;
+                    break;
+                }
+            }
+        } finally {
+            this.activeGroups.delete(groupId);
+        }
+
+        const finishedAt = new Date();
+        const deployed = new Set(results.map(result => result.serverId));
+        const result: GroupDeploymentResult = {
+            id: groupId,
+            success: !error,
+            strategy,
+            batches,
+            results,
+            skippedServerIds: batches.flat().filter(serverId => !deployed.has(serverId)),
+            startedAt: startedAt.toISOString(),
+            finishedAt: finishedAt.toISOString(),
+            durationMs: finishedAt.getTime() - startedAt.getTime(),
+            cancelled: controller.signal.aborted || undefined,
+            error
+        };
+        emitProgress({ type: 'finished', groupId, result });
+
+        DashboardService.addActivity({
+            type: 'deployment',
+            title: 'Group deployment',
+            description: `${deployment.repository.fullName} → ${results.filter(entry => entry.success).length}/${batches.flat().length} servers (${strategy})`,
+            status: result.success ? 'success' : 'error',
+            repository: deployment.repository.fullName
+        });
+
+        return result;
+    }
+
+    /**
+     * Stop a group rollout: no further batches start and running deployments are cancelled
+     */
+    cancelGroup(groupId: string): boolean {
+        const controller = this.activeGroups.get(groupId);
+        if (!controller) {
+            return false;
+        }
+        controller.abort();
+        serverManagementService.cancelGroupDeployments(groupId);
+        return true;
+    }
+
+    // Connection and validation errors become a failed result so they stop the rollout like any other failure
+    private async deployGroupMember(request: DirectDeploymentRequest): Promise<DirectDeploymentResult> {
+        try {
+            return await this.deploy(request);
+        } catch (error) {
+            const now = new Date().toISOString();
+            return {
+                id: crypto.randomUUID(),
+                success: false,
+                serverId: request.serverId,
+                repository: request.repository,
+                branch: request.branch,
+                targetPath: request.targetPath,
+                steps: [],
+                startedAt: now,
+                finishedAt: now,
+                durationMs: 0,
+                strategy: request.strategy,
+                groupId: request.groupId,
+                error: (error as Error).message
+            };
+        }
+    }
+
+    /**
+     * List saved deployment configurations, optionally for a single server
+     */
+    async listConfigs(serverId?: string): Promise<DeploymentConfig[]> {
+        await this.ready;
+
+        const rows = serverId
+            ? await this.all<DeploymentConfigRow>('SELECT * FROM deployment_configs WHERE server_id = ? ORDER BY name', [serverId])
+            : await this.all<DeploymentConfigRow>('SELECT * FROM deployment_configs ORDER BY name');
+        return Promise.all(rows.map(row => this.mapConfigRow(row)));
+    }
+
+    async getConfig(configId: string): Promise<DeploymentConfig> {
+        await this.ready;
+
+        const [row] = await this.all<DeploymentConfigRow>('SELECT * FROM deployment_configs WHERE id = ?', [configId]);
+        if (!row) {
+            throw new Error('Deployment configuration not found');
+        }
+        return this.mapConfigRow(row);
+    }
+
+    async createConfig(input: DeploymentConfigInput): Promise<DeploymentConfig> {
+        await this.ready;
+
+        const now = new Date().toISOString();
+        const config = this.validateConfig({
+            ...input,
+            id: crypto.randomUUID(),
+            createdAt: now,
+            updatedAt: now
+        });
+        await this.saveConfig(config, true);
+        return config;
+    }
+
+    async updateConfig(configId: string, updates: Partial<DeploymentConfigInput>): Promise<DeploymentConfig> {
+        const existing = await this.getConfig(configId);
+        const config = this.validateConfig({
+            ...existing,
+            ...updates,
+            id: existing.id,
+            createdAt: existing.createdAt,
+            updatedAt: new Date().toISOString()
+        });
+        await this.saveConfig(config, false);
+        return config;
+    }
+
+    async deleteConfig(configId: string): Promise<void> {
+        await this.getConfig(configId);
+        await this.run('DELETE FROM deployment_configs WHERE id = ?', [configId]);
+        await this.saveEnvVars(configId, undefined);
+    }
+
+    /**
+     * Deploy a saved configuration through the direct deployment pipeline
+     */
+    async runConfig(configId: string): Promise<DirectDeploymentResult> {
+        const config = await this.getConfig(configId);
+        if (!config.isActive) {
+            throw new Error(`Deployment configuration "${config.name}" is disabled`);
+        }
+
+        return this.deploy({
+            serverId: config.serverId,
+            repository: config.repository,
+            branch: config.branch || config.repository.defaultBranch,
+            targetPath: config.deployPath,
+            useGitHubPat: config.useGitHubPat,
+            installDependencies: config.installDependencies,
+            reuseUnchangedDependencies: config.reuseUnchangedDependencies,
+            buildCommand: config.buildCommand,
+            migrateCommand: config.migrateCommand,
+            cacheClearCommand: config.cacheClearCommand,
+            preDeployScript: config.preDeployScript,
+            postDeployScript: config.postDeployScript,
+            permissions: config.permissions,
+            healthCheck: config.healthCheck,
+            environmentVariables: config.envVars,
+            strategy: config.strategy,
+            sharedPaths: config.sharedPaths,
+            keepReleases: config.keepReleases,
+            stepTimeoutMs: config.stepTimeoutMs,
+            timeoutMs: config.timeoutMs
+        });
+    }
+
+    private validateConfig(config: DeploymentConfig): DeploymentConfig {
+        const name = config.name?.trim();
+        const deployPath = config.deployPath?.trim();
+        if (!name) {
+            throw new Error('Deployment configuration name is required');
+        }
+        if (!config.serverId) {
+            throw new Error('Deployment configuration requires a server');
+        }
+        if (!config.repository?.cloneUrl || !config.repository.fullName) {
+            throw new Error('Deployment configuration requires a repository');
+        }
+        if (!deployPath || !deployPath.startsWith('/')) {
+            throw new Error('Deploy path must be an absolute path');
+        }
+        return { ...config, name, deployPath, envVars: config.envVars || {} };
+    }
+
+    private async saveConfig(config: DeploymentConfig, isNew: boolean): Promise<void> {
+        const { id, name, serverId, repositoryId, branch, deployPath, isActive, createdAt, updatedAt } = config;
+        const { envVars, ...stored } = config;
+        const configJson = JSON.stringify(stored);
+
+        // Secrets first, so a failure never leaves a configuration without them
+        await this.saveEnvVars(id, envVars);
+
+        if (isNew) {
+            await this.run(
+                `INSERT INTO deployment_configs (
+                    id, name, server_id, repository_id, branch, deploy_path, is_active, created_at, updated_at, config_json
+                ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+                [id, name, serverId, repositoryId, branch, deployPath, isActive ? 1 : 0, createdAt, updatedAt, configJson]
+            );
+            return;
+        }
+
+        await this.run(
+            `UPDATE deployment_configs
+             SET name = ?, server_id = ?, repository_id = ?, branch = ?, deploy_path = ?, is_active = ?, updated_at = ?, config_json = ?
+             WHERE id = ?`,
+            [name, serverId, repositoryId, branch, deployPath, isActive ? 1 : 0, updatedAt, configJson, id]
+        );
+    }
+
+    private async mapConfigRow(row: DeploymentConfigRow): Promise<DeploymentConfig> {
+        const stored = JSON.parse(row.config_json) as DeploymentConfig;
+        return {
+            ...stored,
+            envVars: await this.loadEnvVars(row.id),
+            id: row.id,
+            name: row.name,
+            serverId: row.server_id,
+            repositoryId: row.repository_id,
+            branch: row.branch,
+            deployPath: row.deploy_path,
+            isActive: row.is_active === 1,
+            createdAt: row.created_at,
+            updatedAt: row.updated_at
+        };
+    }
+}
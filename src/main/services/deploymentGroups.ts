@@ -0,0 +1,64 @@
+import { GroupDeploymentRequest, ServerGroupSelector, VPSServer } from '../../shared/types';
+
+const STRATEGIES: GroupDeploymentRequest['strategy'][] = ['all', 'rolling', 'canary'];
+
+/**
+ * Resolve a group selector to its servers, ordered by name so batches are predictable
+ */
+export function selectGroupServers(servers: VPSServer[], group: ServerGroupSelector): VPSServer[] {
+    const tag = group.tag?.trim().toLowerCase();
+    const serverIds = group.serverIds?.filter(Boolean) ?? [];
+    if (serverIds.length === 0 && !group.environment && !tag) {
+        throw new Error('Select servers by environment, tag or id');
+    }
+
+    const matches = serverIds.length > 0
+        ? servers.filter(server => serverIds.includes(server.id))
+        : servers.filter(server =>
+            (!group.environment || server.environment === group.environment) &&
+            (!tag || server.tags.some(serverTag => serverTag.toLowerCase() === tag))
+        );
+
+    return [...matches].sort((a, b) => a.name.localeCompare(b.name));
+}
+
+/**
+ * Split a group into the batches a strategy deploys, one batch after another
+ */
+export function planDeploymentBatches(
+    serverIds: string[],
+    request: Pick<GroupDeploymentRequest, 'strategy' | 'batchSize' | 'canaryServerId'>
+): string[][] {
+    const { strategy, batchSize, canaryServerId } = request;
+    if (!STRATEGIES.includes(strategy)) {
+        throw new Error(`Unknown rollout strategy: ${strategy}`);
+    }
+    if (batchSize !== undefined && (!Number.isInteger(batchSize) || batchSize < 1)) {
+        throw new Error('Batch size must be a positive integer');
+    }
+    if (serverIds.length === 0) {
+        return [];
+    }
+
+    const chunk = (ids: string[], size: number): string[][] => {
+        const batches: string[][] = [];
+        for (let index = 0; index < ids.length; index += size) {
+            batches.push(ids.slice(index, index + size));
+        }
+        return batches;
+    };
+
+    if (strategy === 'all') {
+        return [serverIds];
+    }
+    if (strategy === 'rolling') {
+        return chunk(serverIds, batchSize ?? 1);
+    }
+
+    if (canaryServerId && !serverIds.includes(canaryServerId)) {
+        throw new Error('The canary server is not part of the selected group');
+    }
+    const canary = canaryServerId ?? serverIds[0];
+    const rest = serverIds.filter(id => id !== canary);
+    return rest.length > 0 ? [[canary], ...chunk(rest, batchSize ?? rest.length)] : [[canary]];
+}
@@ -0,0 +1,640 @@
+import * as crypto from 'crypto';
+import * as http from 'http';
+import { EventEmitter } from 'events';
+import { Duplex } from 'stream';
+import { StringDecoder } from 'string_decoder';
+import {
+    DockerContainer,
+    DockerEndpoint,
+    DockerEngineInfo,
+    DockerExecOptions,
+    DockerImage,
+    DockerInspectDocument,
+    DockerLogOptions,
+    DockerNetwork,
+    DockerResourceKind,
+    DockerStreamData,
+    DockerStreamEnd,
+    DockerVolume
+} from '../../shared/types';
+import { serverManagementService } from './serverManagement';
+
+const DEFAULT_SOCKET_PATH = '/var/run/docker.sock';
+const WINDOWS_PIPE_PATH = '//./pipe/docker_engine';
+const REQUEST_TIMEOUT = 30000;
+const DEFAULT_LOG_TAIL = 200;
+const DEFAULT_EXEC_COMMAND = ['/bin/sh', '-c', 'if command -v bash >/dev/null 2>&1; then exec bash; else exec sh; fi'];
+
+type QueryParams = Record<string, string | number | boolean | undefined>;
+
+interface EngineRequestOptions {
+    method?: 'GET' | 'POST' | 'DELETE';
+    query?: QueryParams;
+    body?: unknown;
+}
+
+interface ActiveStream {
+    kind: 'logs' | 'exec';
+    endpoint: DockerEndpoint;
+    source: Duplex | http.IncomingMessage;
+    execId?: string;
+    // Stops watching whatever closes the stream early, once it has ended
+    release?: () => void;
+}
+
+type OutputStream = DockerStreamData['stream'];
+
+/**
+ * Split Docker's multiplexed attach/logs stream into stdout and stderr frames.
+ * Each frame has an 8 byte header: stream type, three padding bytes and a big-endian payload size.
+ */
+export function createFrameDecoder(onFrame: (stream: OutputStream, payload: Buffer) => void): (chunk: Buffer) => void {
+    let buffer: Buffer = Buffer.alloc(0);
+
+    return (chunk: Buffer) => {
+        buffer = buffer.length === 0 ? chunk : Buffer.concat([buffer, chunk]);
+
+        while (buffer.length >= 8) {
+            const size = buffer.readUInt32BE(4);
+            if (buffer.length < 8 + size) {
+                break;
+            }
+            onFrame(buffer[0] === 2 ? 'stderr' : 'stdout', buffer.subarray(8, 8 + size));
+            buffer = buffer.subarray(8 + size);
+        }
+    };
+}
+
+// Engine API responses, with only the fields the app reads
+interface EngineVersion {
+    Version: string;
+    ApiVersion: string;
+    Os: string;
+    Arch: string;
+    KernelVersion?: string;
+}
+
+interface EngineContainer {
+    Id: string;
+    Names?: string[];
+    Image: string;
+    ImageID: string;
+    Command?: string;
+    State: DockerContainer['state'];
+    Status?: string;
+    Ports?: { IP?: string; PrivatePort: number; PublicPort?: number; Type: string }[];
+    Labels?: Record<string, string> | null;
+    Mounts?: { Name?: string; Source?: string; Destination: string; RW?: boolean }[];
+    NetworkSettings?: { Networks?: Record<string, unknown> };
+    Created?: number;
+}
+
+interface EngineImage {
+    Id: string;
+    RepoTags?: string[] | null;
+    Size?: number;
+    Containers: number;
+    Created?: number;
+}
+
+interface EngineNetwork {
+    Id: string;
+    Name: string;
+    Driver: string;
+    Scope: string;
+    Internal?: boolean;
+    Containers?: Record<string, unknown> | null;
+    Created?: string;
+}
+
+interface EngineVolume {
+    Name: string;
+    Driver: string;
+    Mountpoint: string;
+    Scope: string;
+    Labels?: Record<string, string> | null;
+    CreatedAt?: string;
+}
+
+interface EngineExec {
+    ExitCode: number | null;
+}
+
+export class DockerService extends EventEmitter {
+    private static instance: DockerService;
+    private streams: Map<string, ActiveStream> = new Map();
+
+    private constructor() {
+        super();
+    }
+
+    public static getInstance(): DockerService {
+        if (!DockerService.instance) {
+            DockerService.instance = new DockerService();
+        }
+        return DockerService.instance;
+    }
+
+    public static initialize(): void {
+        DockerService.getInstance();
+        console.log('DockerService initialized');
+    }
+
+    private getSocketPath(endpoint: DockerEndpoint): string {
+        if (endpoint.socketPath) {
+            return endpoint.socketPath;
+        }
+        if (endpoint.type === 'local' && process.platform === 'win32') {
+            return WINDOWS_PIPE_PATH;
+        }
+        return DEFAULT_SOCKET_PATH;
+    }
+
+    private buildPath(apiPath: string, query?: QueryParams): string {
+        if (!query) {
+            return apiPath;
+        }
+
+        const params = new URLSearchParams();
+        Object.entries(query).forEach(([key, value]) => {
+            if (value !== undefined) {
+                params.set(key, String(value));
+            }
+        });
+
+        const search = params.toString();
+        return search ? `${apiPath}?${search}` : apiPath;
+    }
+
+    /**
+     * Build the transport options for a request: a local unix socket / named pipe,
+     * or a stream-local channel forwarded over the server's existing SSH connection.
+     */
+    private async getTransport(endpoint: DockerEndpoint): Promise<Pick<http.RequestOptions, 'socketPath' | 'createConnection'>> {
+        const socketPath = this.getSocketPath(endpoint);
+
+        if (endpoint.type === 'ssh') {
+            const stream = await serverManagementService.openStreamLocal(endpoint.serverId, socketPath);
+            return { createConnection: () => stream };
+        }
+
+        return { socketPath };
+    }
+
+    /**
+     * Open a raw request against the Docker Engine API and return the response stream
+     */
+    public async openRequest(
+        endpoint: DockerEndpoint,
+        apiPath: string,
+        options: EngineRequestOptions = {}
+    ): Promise<http.IncomingMessage> {
+        const { method = 'GET', query, body } = options;
+        const transport = await this.getTransport(endpoint);
+        const payload = body !== undefined ? JSON.stringify(body) : undefined;
+
+        return new Promise((resolve, reject) => {
+            const request = http.request({
+                ...transport,
+                method,
+                path: this.buildPath(apiPath, query),
+                headers: {
+                    Host: 'docker',
+                    ...(payload !== undefined ? {
+                        'Content-Type': 'application/json',
+                        'Content-Length': Buffer.byteLength(payload)
+                    } : {})
+                }
+            });
+
+            request.setTimeout(REQUEST_TIMEOUT, () => {
+                request.destroy(new Error('Docker Engine request timed out'));
+            });
+
+            request.on('response', async (response) => {
+                if ((response.statusCode || 0) >= 400) {
+                    reject(await this.toResponseError(response));
+                    return;
+                }
+                request.setTimeout(0);
+                resolve(response);
+            });
+
+            request.on('error', (error: NodeJS.ErrnoException) => {
+                reject(this.toRequestError(endpoint, error));
+            });
+
+            if (payload !== undefined) {
+                request.write(payload);
+            }
+            request.end();
+        });
+    }
+
+    /**
+     * Open a hijacked connection (used by exec start) and return the raw bidirectional socket
+     */
+    private async openUpgrade(endpoint: DockerEndpoint, apiPath: string, body: unknown): Promise<Duplex> {
+        const transport = await this.getTransport(endpoint);
+        const payload = JSON.stringify(body);
+
+        return new Promise((resolve, reject) => {
+            const request = http.request({
+                ...transport,
+                method: 'POST',
+                path: apiPath,
+                headers: {
+                    Host: 'docker',
+                    'Content-Type': 'application/json',
+                    'Content-Length': Buffer.byteLength(payload),
+                    Connection: 'Upgrade',
+                    Upgrade: 'tcp'
+                }
+            });
+
+            request.on('upgrade', (_response, socket, head) => {
+                if (head && head.length > 0) {
+                    socket.unshift(head);
+                }
+                resolve(socket);
+            });
+
+            request.on('response', async (response) => {
+                reject(await this.toResponseError(response));
+            });
+
+            request.on('error', (error: NodeJS.ErrnoException) => {
+                reject(this.toRequestError(endpoint, error));
+            });
+
+            request.end(payload);
+        });
+    }
+
+    private async toResponseError(response: http.IncomingMessage): Promise<Error> {
+        const text = await this.readBody(response).catch(() => '');
+        return new Error(`Docker API error (${response.statusCode || 0}): ${this.extractErrorMessage(text)}`);
+    }
+
+    private toRequestError(endpoint: DockerEndpoint, error: NodeJS.ErrnoException): Error {
+        if (error.code === 'ENOENT' || error.code === 'ECONNREFUSED') {
+            return new Error(`Docker daemon is not reachable at ${this.getSocketPath(endpoint)}`);
+        }
+        return error;
+    }
+
+    private readBody(response: http.IncomingMessage): Promise<string> {
+        return new Promise((resolve, reject) => {
+            const chunks: Buffer[] = [];
+            response.on('data', (chunk: Buffer) => chunks.push(chunk));
+            response.on('end', () => resolve(Buffer.concat(chunks).toString('utf-8')));
+            response.on('error', reject);
+        });
+    }
+
+    private extractErrorMessage(text: string): string {
+        try {
+            const parsed = JSON.parse(text);
+            return parsed.message || text;
+        } catch {
+            return text.trim() || 'Unknown error';
+        }
+    }
+
+    private async requestJSON<T>(endpoint: DockerEndpoint, apiPath: string, options: EngineRequestOptions = {}): Promise<T> {
+        const response = await this.openRequest(endpoint, apiPath, options);
+        const text = await this.readBody(response);
+        if (!text) {
+            return undefined as T;
+        }
+        return JSON.parse(text) as T;
+    }
+
+    private toISODate(value: number | string | undefined): string {
+        if (value === undefined || value === null || value === '') {
+            return '';
+        }
+        const date = typeof value === 'number' ? new Date(value * 1000) : new Date(value);
+        return Number.isNaN(date.getTime()) ? '' : date.toISOString();
+    }
+
+    private mapContainer(raw: EngineContainer): DockerContainer {
+        const names = raw.Names || [];
+        return {
+            id: raw.Id,
+            name: (names[0] || raw.Id.slice(0, 12)).replace(/^\//, ''),
+            image: raw.Image,
+            imageId: raw.ImageID,
+            command: raw.Command || '',
+            state: raw.State,
+            status: raw.Status || '',
+            ports: (raw.Ports || []).map(port => ({
+                privatePort: port.PrivatePort,
+                publicPort: port.PublicPort,
+                type: port.Type,
+                ip: port.IP
+            })),
+            labels: raw.Labels || {},
+            mounts: (raw.Mounts || []).map(mount => `${mount.Source || mount.Name}:${mount.Destination}${mount.RW === false ? ':ro' : ''}`),
+            networks: Object.keys(raw.NetworkSettings?.Networks || {}),
+            created: this.toISODate(raw.Created)
+        };
+    }
+
+    private mapImage(raw: EngineImage): DockerImage {
+        const repoTags = (raw.RepoTags || []).filter(tag => tag !== '<none>:<none>');
+        const [primary] = repoTags;
+        const separator = primary ? primary.lastIndexOf(':') : -1;
+        return {
+            id: raw.Id,
+            repoTags,
+            repository: primary && separator > 0 ? primary.slice(0, separator) : '<none>',
+            tag: primary && separator > 0 ? primary.slice(separator + 1) : '<none>',
+            size: raw.Size || 0,
+            containers: raw.Containers > 0 ? raw.Containers : 0,
+            created: this.toISODate(raw.Created)
+        };
+    }
+
+    private mapNetwork(raw: EngineNetwork): DockerNetwork {
+        return {
+            id: raw.Id,
+            name: raw.Name,
+            driver: raw.Driver,
+            scope: raw.Scope,
+            internal: Boolean(raw.Internal),
+            containers: Object.keys(raw.Containers || {}).length,
+            created: this.toISODate(raw.Created)
+        };
+    }
+
+    private mapVolume(raw: EngineVolume): DockerVolume {
+        return {
+            name: raw.Name,
+            driver: raw.Driver,
+            mountpoint: raw.Mountpoint,
+            scope: raw.Scope,
+            labels: raw.Labels || {},
+            created: raw.CreatedAt ? this.toISODate(raw.CreatedAt) : undefined
+        };
+    }
+
+    /**
+     * Check that the daemon is reachable and return its version information
+     */
+    async getEngineInfo(endpoint: DockerEndpoint): Promise<DockerEngineInfo> {
+        const version = await this.requestJSON<EngineVersion>(endpoint, '/version');
+        return {
+            version: version.Version,
+            apiVersion: version.ApiVersion,
+            os: version.Os,
+            arch: version.Arch,
+            kernelVersion: version.KernelVersion
+        };
+    }
+
+    async listContainers(endpoint: DockerEndpoint): Promise<DockerContainer[]> {
+        const containers = await this.requestJSON<EngineContainer[]>(endpoint, '/containers/json', { query: { all: true } });
+        return containers.map(container => this.mapContainer(container));
+    }
+
+    async listImages(endpoint: DockerEndpoint): Promise<DockerImage[]> {
+        const images = await this.requestJSON<EngineImage[]>(endpoint, '/images/json');
+        return images.map(image => this.mapImage(image));
+    }
+
+    async listNetworks(endpoint: DockerEndpoint): Promise<DockerNetwork[]> {
+        const networks = await this.requestJSON<EngineNetwork[]>(endpoint, '/networks');
+        return networks.map(network => this.mapNetwork(network));
+    }
+
+    async listVolumes(endpoint: DockerEndpoint): Promise<DockerVolume[]> {
+        const result = await this.requestJSON<{ Volumes: EngineVolume[] | null }>(endpoint, '/volumes');
+        return (result.Volumes || []).map(volume => this.mapVolume(volume));
+    }
+
+    /**
+     * List resources of the given kind
+     */
+    async list(endpoint: DockerEndpoint, kind: DockerResourceKind): Promise<DockerContainer[] | DockerImage[] | DockerNetwork[] | DockerVolume[]> {
+        switch (kind) {
+            case 'container':
+                return this.listContainers(endpoint);
+            case 'image':
+                return this.listImages(endpoint);
+            case 'network':
+                return this.listNetworks(endpoint);
+            case 'volume':
+                return this.listVolumes(endpoint);
+            default:
+                throw new Error(`Unsupported Docker resource: ${kind}`);
+        }
+    }
+
+    /**
+     * Return the raw Engine API inspect document for a resource
+     */
+    async inspect(endpoint: DockerEndpoint, kind: DockerResourceKind, id: string): Promise<DockerInspectDocument> {
+        return this.requestJSON<DockerInspectDocument>(endpoint, `${this.getResourcePath(kind, id)}${kind === 'network' || kind === 'volume' ? '' : '/json'}`);
+    }
+
+    async remove(endpoint: DockerEndpoint, kind: DockerResourceKind, id: string, force: boolean = false): Promise<void> {
+        const query: QueryParams | undefined = kind === 'container' || kind === 'image' ? { force } : undefined;
+        await this.requestJSON<void>(endpoint, this.getResourcePath(kind, id), { method: 'DELETE', query });
+    }
+
+    async startContainer(endpoint: DockerEndpoint, id: string): Promise<void> {
+        await this.requestJSON<void>(endpoint, `${this.getResourcePath('container', id)}/start`, { method: 'POST' });
+    }
+
+    async stopContainer(endpoint: DockerEndpoint, id: string, timeoutSeconds?: number): Promise<void> {
+        await this.requestJSON<void>(endpoint, `${this.getResourcePath('container', id)}/stop`, {
+            method: 'POST',
+            query: { t: timeoutSeconds }
+        });
+    }
+
+    async restartContainer(endpoint: DockerEndpoint, id: string, timeoutSeconds?: number): Promise<void> {
+        await this.requestJSON<void>(endpoint, `${this.getResourcePath('container', id)}/restart`, {
+            method: 'POST',
+            query: { t: timeoutSeconds }
+        });
+    }
+
+    /**
+     * Start streaming a container's logs. Output is emitted as 'stream-data' events
+     * and the returned stream id is used to unsubscribe.
+     */
+    async subscribeLogs(endpoint: DockerEndpoint, containerId: string, options: DockerLogOptions = {}): Promise<string> {
+        const details = await this.inspect(endpoint, 'container', containerId);
+        const since = typeof options.since === 'string'
+            ? Math.floor(new Date(options.since).getTime() / 1000)
+            : options.since;
+
+        const response = await this.openRequest(endpoint, `${this.getResourcePath('container', containerId)}/logs`, {
+            query: {
+                follow: options.follow ?? true,
+                stdout: true,
+                stderr: true,
+                timestamps: options.timestamps ?? false,
+                tail: options.tail ?? DEFAULT_LOG_TAIL,
+                since: since !== undefined && !Number.isNaN(since) ? since : undefined
+            }
+        });
+
+        const streamId = crypto.randomUUID();
+        this.streams.set(streamId, { kind: 'logs', endpoint, source: response });
+        this.pipeOutput(streamId, response, Boolean(details?.Config?.Tty));
+        return streamId;
+    }
+
+    /**
+     * Start an interactive exec session with a TTY inside a running container
+     */
+    async startExec(endpoint: DockerEndpoint, containerId: string, options: DockerExecOptions = {}): Promise<string> {
+        const exec = await this.requestJSON<{ Id: string }>(endpoint, `${this.getResourcePath('container', containerId)}/exec`, {
+            method: 'POST',
+            body: {
+                AttachStdin: true,
+                AttachStdout: true,
+                AttachStderr: true,
+                Tty: true,
+                Cmd: options.cmd && options.cmd.length > 0 ? options.cmd : DEFAULT_EXEC_COMMAND,
+                User: options.user,
+                WorkingDir: options.workingDir,
+                Env: ['TERM=xterm-256color']
+            }
+        });
+
+        const socket = await this.openUpgrade(endpoint, `/exec/${encodeURIComponent(exec.Id)}/start`, { Detach: false, Tty: true });
+        const streamId = crypto.randomUUID();
+        this.streams.set(streamId, { kind: 'exec', endpoint, source: socket, execId: exec.Id });
+        this.pipeOutput(streamId, socket, true);
+
+        if (options.cols && options.rows) {
+            await this.resizeStream(streamId, options.cols, options.rows).catch(() => undefined);
+        }
+
+        return streamId;
+    }
+
+    /**
+     * Send input to an exec session
+     */
+    writeStream(streamId: string, data: string): void {
+        const entry = this.streams.get(streamId);
+        if (!entry || entry.kind !== 'exec') {
+            throw new Error('Exec session not found');
+        }
+        (entry.source as Duplex).write(data);
+    }
+
+    async resizeStream(streamId: string, cols: number, rows: number): Promise<void> {
+        const entry = this.streams.get(streamId);
+        if (!entry || entry.kind !== 'exec' || !entry.execId) {
+            throw new Error('Exec session not found');
+        }
+        await this.requestJSON<void>(entry.endpoint, `/exec/${encodeURIComponent(entry.execId)}/resize`, {
+            method: 'POST',
+            query: { h: Math.max(1, Math.floor(rows)), w: Math.max(1, Math.floor(cols)) }
+        });
+    }
+
+    /**
+     * Stop a log stream or exec session
+     */
+    unsubscribe(streamId: string): void {
+        const entry = this.streams.get(streamId);
+        if (!entry) {
+            return;
+        }
+        entry.source.destroy();
+        void this.finishStream(streamId);
+    }
+
+    /**
+     * Close a stream when owner, such as the webContents that opened it, is destroyed.
+     * The listener is removed again when the stream ends first.
+     */
+    closeWhenDestroyed(streamId: string, owner: EventEmitter): void {
+        const entry = this.streams.get(streamId);
+        if (!entry) {
+            return;
+        }
+        const close = () => this.unsubscribe(streamId);
+        owner.once('destroyed', close);
+        entry.release = () => owner.removeListener('destroyed', close);
+    }
+
+    closeAllStreams(): void {
+        Array.from(this.streams.keys()).forEach(streamId => this.unsubscribe(streamId));
+    }
+
+    private pipeOutput(streamId: string, source: Duplex | http.IncomingMessage, tty: boolean): void {
+        const decoders: Record<OutputStream, StringDecoder> = {
+            stdout: new StringDecoder('utf8'),
+            stderr: new StringDecoder('utf8')
+        };
+        const emitData = (stream: OutputStream, payload: Buffer) => {
+            const data = decoders[stream].write(payload);
+            if (data.length > 0) {
+                this.emit('stream-data', { streamId, stream, data } as DockerStreamData);
+            }
+        };
+
+        source.on('data', tty ? (chunk: Buffer) => emitData('stdout', chunk) : createFrameDecoder(emitData));
+        source.on('error', (error: Error) => {
+            void this.finishStream(streamId, error.message);
+        });
+        source.on('end', () => {
+            void this.finishStream(streamId);
+        });
+        source.on('close', () => {
+            void this.finishStream(streamId);
+        });
+    }
+
+    private async finishStream(streamId: string, error?: string): Promise<void> {
+        const entry = this.streams.get(streamId);
+        if (!entry) {
+            return;
+        }
+        this.streams.delete(streamId);
+        entry.release?.();
+
+        const payload: DockerStreamEnd = { streamId };
+        if (error) {
+            payload.error = error;
+        }
+        if (entry.kind === 'exec' && entry.execId) {
+            try {
+                const details = await this.requestJSON<EngineExec>(entry.endpoint, `/exec/${encodeURIComponent(entry.execId)}/json`);
+                payload.exitCode = details?.ExitCode ?? null;
+            } catch {
+                payload.exitCode = null;
+            }
+        }
+
+        this.emit('stream-end', payload);
+    }
+
+    private getResourcePath(kind: DockerResourceKind, id: string): string {
+        if (!id || id.trim().length === 0) {
+            throw new Error('Docker resource id is required');
+        }
+
+        const encoded = encodeURIComponent(id);
+        switch (kind) {
+            case 'container':
+                return `/containers/${encoded}`;
+            case 'image':
+                return `/images/${encoded}`;
+            case 'network':
+                return `/networks/${encoded}`;
+            case 'volume':
+                return `/volumes/${encoded}`;
+            default:
+                throw new Error(`Unsupported Docker resource: ${kind}`);
+        }
+    }
+}
@@ -1,6 +1,7 @@
 import { Octokit } from '@octokit/rest';
 import { AuthService } from './auth';
 import { GitHubRepository, GitHubDeployKey } from '../../shared/types';
+import { StatsResponse, TrafficSeries, lastPageFromLink, toTrafficSeries } from './repositoryStats';
 
 export class GitHubService {
     private static octokit: Octokit | null = null;
@@ -161,6 +162,159 @@ export class GitHubService {
         });
     }
 
+    /**
+     * List the entries of a repository directory; directory names get a trailing '/'
+     */
+    static async listDirectory(fullName: string, dirPath: string = '', ref?: string): Promise<string[]> {
+        const octokit = await this.getOctokit();
+        const [owner, repo] = fullName.split('/');
+
+        const { data } = await octokit.rest.repos.getContent({ owner, repo, path: dirPath, ref });
+        if (!Array.isArray(data)) {
+            throw new Error(`${dirPath || '/'} is not a directory`);
+        }
+        return data.map(entry => (entry.type === 'dir' ? `${entry.name}/` : entry.name));
+    }
+
+    /**
+     * Read a text file from a repository, or null when it does not exist
+     */
+    static async getFileText(fullName: string, filePath: string, ref?: string): Promise<string | null> {
+        const octokit = await this.getOctokit();
+        const [owner, repo] = fullName.split('/');
+
+        try {
+            const { data } = await octokit.rest.repos.getContent({ owner, repo, path: filePath, ref });
+            if (Array.isArray(data) || data.type !== 'file' || !('content' in data)) {
+                return null;
+            }
+            return Buffer.from(data.content, 'base64').toString('utf8');
+        } catch (error) {
+            if ((error as { status?: number }).status === 404) {
+                return null;
+            }
+            throw error;
+        }
+    }
+
+    /**
+     * Size in KB, default branch and last push of a repository by full name
+     */
+    static async getRepositoryMetadata(fullName: string): Promise<{ size: number; defaultBranch: string; pushedAt: string }> {
+        const octokit = await this.getOctokit();
+        const [owner, repo] = fullName.split('/');
+
+        const { data } = await octokit.rest.repos.get({ owner, repo });
+        return { size: data.size, defaultBranch: data.default_branch, pushedAt: data.pushed_at || '' };
+    }
+
+    /**
+     * Bytes of code per language
+     */
+    static async getLanguages(fullName: string): Promise<Record<string, number>> {
+        const octokit = await this.getOctokit();
+        const [owner, repo] = fullName.split('/');
+
+        const { data } = await octokit.rest.repos.listLanguages({ owner, repo });
+        return data;
+    }
+
+    /**
+     * Number of commits reachable from ref, read from the pagination of a one-per-page listing
+     */
+    static async countCommits(fullName: string, ref: string): Promise<number> {
+        const octokit = await this.getOctokit();
+        const [owner, repo] = fullName.split('/');
+
+        try {
+            const { data, headers } = await octokit.rest.repos.listCommits({ owner, repo, sha: ref, per_page: 1 });
+            return lastPageFromLink(headers.link, data.length);
+        } catch (error) {
+            // Empty repositories answer 409
+            if ((error as { status?: number }).status === 409) {
+                return 0;
+            }
+            throw error;
+        }
+    }
+
+    static async countContributors(fullName: string): Promise<number> {
+        const octokit = await this.getOctokit();
+        const [owner, repo] = fullName.split('/');
+
+        const { data, headers } = await octokit.rest.repos.listContributors({ owner, repo, per_page: 1, anon: 'true' });
+        return lastPageFromLink(headers.link, Array.isArray(data) ? data.length : 0);
+    }
+
+    /**
+     * Files in the tree of ref; truncated when the tree is too large for one response
+     */
+    static async countFiles(fullName: string, ref: string): Promise<{ count: number; truncated: boolean }> {
+        const octokit = await this.getOctokit();
+        const [owner, repo] = fullName.split('/');
+
+        try {
+            const { data } = await octokit.rest.git.getTree({ owner, repo, tree_sha: ref, recursive: 'true' });
+            return { count: data.tree.filter(entry => entry.type === 'blob').length, truncated: data.truncated };
+        } catch (error) {
+            if ((error as { status?: number }).status === 409) {
+                return { count: 0, truncated: false };
+            }
+            throw error;
+        }
+    }
+
+    // Statistics endpoints answer 202 with no data while GitHub computes them; see fetchComputedStats
+
+    static async getCommitActivity(fullName: string): Promise<StatsResponse<{ week: number; total: number }[]>> {
+        const octokit = await this.getOctokit();
+        const [owner, repo] = fullName.split('/');
+
+        const { status, data } = await octokit.rest.repos.getCommitActivityStats({ owner, repo });
+        return { status, data: Array.isArray(data) ? data : [] };
+    }
+
+    static async getCodeFrequency(fullName: string): Promise<StatsResponse<number[][]>> {
+        const octokit = await this.getOctokit();
+        const [owner, repo] = fullName.split('/');
+
+        const { status, data } = await octokit.rest.repos.getCodeFrequencyStats({ owner, repo });
+        return { status, data: Array.isArray(data) ? data : [] };
+    }
+
+    static async getParticipation(fullName: string): Promise<StatsResponse<{ all: number[]; owner: number[] }>> {
+        const octokit = await this.getOctokit();
+        const [owner, repo] = fullName.split('/');
+
+        const { status, data } = await octokit.rest.repos.getParticipationStats({ owner, repo });
+        return { status, data: { all: data?.all ?? [], owner: data?.owner ?? [] } };
+    }
+
+    /**
+     * Daily views and clones for the last 14 days, or null without push access to the repository
+     */
+    static async getTraffic(fullName: string): Promise<{ views: TrafficSeries; clones: TrafficSeries } | null> {
+        const octokit = await this.getOctokit();
+        const [owner, repo] = fullName.split('/');
+
+        try {
+            const [views, clones] = await Promise.all([
+                octokit.rest.repos.getViews({ owner, repo, per: 'day' }),
+                octokit.rest.repos.getClones({ owner, repo, per: 'day' })
+            ]);
+            return {
+                views: toTrafficSeries(views.data, views.data.views),
+                clones: toTrafficSeries(clones.data, clones.data.clones)
+            };
+        } catch (error) {
+            const status = (error as { status?: number }).status;
+            if (status === 403 || status === 404) {
+                return null;
+            }
+            throw error;
+        }
+    }
+
     static resetConnection(): void {
         this.octokit = null;
     }
@@ -0,0 +1,98 @@
+import * as crypto from 'crypto';
+import type { ServerHostKeyAlgorithm } from 'ssh2';
+
+// A public key listed for a host in an OpenSSH known_hosts file
+export interface KnownHostKey {
+    keyType: string;
+    fingerprint: string;
+    revoked: boolean;
+}
+
+interface KnownHostsLine {
+    marker?: string;
+    hosts: string;
+    keyType: string;
+    key: string;
+}
+
+/**
+ * OpenSSH style fingerprint of a public key blob, e.g. SHA256:nThbg6kXUpJWGl7E1IGOCspRomTxdCARLviKw6E5SY8
+ */
+export function fingerprintHostKey(blob: Buffer): string {
+    return `SHA256:${crypto.createHash('sha256').update(blob).digest('base64').replace(/=+$/, '')}`;
+}
+
+/**
+ * Read the key format (the first length-prefixed string) from a public key blob
+ */
+export function readHostKeyType(blob: Buffer): string {
+    if (blob.length < 4) {
+        return 'unknown';
+    }
+    const length = blob.readUInt32BE(0);
+    return length > 0 && 4 + length <= blob.length ? blob.toString('ascii', 4, 4 + length) : 'unknown';
+}
+
+/**
+ * Signature algorithms that verify with a key of the given format, for pinning the negotiation to it
+ */
+export function hostKeyAlgorithmsFor(keyType: string): ServerHostKeyAlgorithm[] {
+    return keyType === 'ssh-rsa' ? ['rsa-sha2-512', 'rsa-sha2-256', 'ssh-rsa'] : [keyType as ServerHostKeyAlgorithm];
+}
+
+const parseLine = (line: string): KnownHostsLine | null => {
+    const fields = line.trim().split(/\s+/);
+    if (!fields[0] || fields[0].startsWith('#')) {
+        return null;
+    }
+    const marker = fields[0].startsWith('@') ? fields.shift() : undefined;
+    const [hosts, keyType, key] = fields;
+    return hosts && keyType && key ? { marker, hosts, keyType, key } : null;
+};
+
+const wildcardToRegExp = (pattern: string) =>
+    new RegExp(`^${pattern.replace(/[.+^${}()|[\]\\]/g, '\\$&').replace(/\*/g, '.*').replace(/\?/g, '.')}$`, 'i');
+
+/**
+ * Whether a known_hosts host field (comma separated patterns, possibly hashed) covers host:port
+ */
+export function matchesKnownHostPattern(hosts: string, host: string, port: number): boolean {
+    // Non-standard ports are written as [host]:port
+    const name = port === 22 ? host.toLowerCase() : `[${host.toLowerCase()}]:${port}`;
+
+    if (hosts.startsWith('|1|')) {
+        const [salt, hash] = hosts.slice(3).split('|');
+        if (!salt || !hash) {
+            return false;
+        }
+        const digest = crypto.createHmac('sha1', Buffer.from(salt, 'base64')).update(name).digest('base64');
+        return digest === hash;
+    }
+
+    let matched = false;
+    for (const pattern of hosts.split(',')) {
+        const negated = pattern.startsWith('!');
+        if (wildcardToRegExp(negated ? pattern.slice(1) : pattern).test(name)) {
+            if (negated) {
+                return false;
+            }
+            matched = true;
+        }
+    }
+    return matched;
+}
+
+/**
+ * Keys listed for host:port in the contents of a known_hosts file. CA entries are skipped
+ * because certificates are not supported.
+ */
+export function findKnownHostKeys(content: string, host: string, port: number): KnownHostKey[] {
+    return content.split(/\r?\n/).flatMap(line => {
+        const entry = parseLine(line);
+        if (!entry || entry.marker === '@cert-authority' || !matchesKnownHostPattern(entry.hosts, host, port)) {
+            return [];
+        }
+        const blob = Buffer.from(entry.key, 'base64');
+        return [{ keyType: entry.keyType, fingerprint: fingerprintHostKey(blob), revoked: entry.marker === '@revoked' }];
+    });
+}
@@ -7,6 +7,12 @@ import { RepositoryService } from './repository';
 import { WorkflowService } from './workflow';
 import { DatabaseManagementService } from './databaseManagement';
 import { serverManagementService } from './serverManagement';
+import { DockerService } from './docker';
+import { DeploymentService } from './deployment';
+import { StackDetectionService } from './stackDetection';
+import { TerminalService } from './terminal';
+import { SftpService } from './sftp';
+import { AuthPromptService } from './authPrompts';
 import { AutoUpdaterService } from './AutoUpdaterService';
 
 // Export auto updater service instance for use in main process
@@ -26,9 +32,15 @@ export async function initializeServices(): Promise<void> {
         RepositoryService.initialize();
         WorkflowService.initialize();
         DatabaseManagementService.initialize();
+        DockerService.initialize();
+        DeploymentService.initialize();
+        StackDetectionService.initialize();
+        TerminalService.initialize();
+        SftpService.initialize();
+        AuthPromptService.initialize();
 
-        // Server management service is automatically initialized via constructor
-        console.log('ServerManagementService initialized');
+        // Loads saved servers, whose credentials need safeStorage and so the app to be ready
+        await serverManagementService.initialize();
 
         // Auto updater service is initialized via constructor (IPC handlers registered)
         console.log('AutoUpdaterService initialized');
@@ -39,3 +51,11 @@ export async function initializeServices(): Promise<void> {
         app.quit();
     }
 }
+
+/**
+ * Close streams and terminal sessions that would otherwise keep connections open while the app quits
+ */
+export function shutdownServices(): void {
+    DockerService.getInstance().closeAllStreams();
+    TerminalService.getInstance().closeAll();
+}
@@ -0,0 +1,75 @@
+import { JumpHost, VPSServer } from '../../shared/types';
+
+const MAX_JUMP_HOPS = 8;
+
+// Where and how to log in for one hop of a connection
+export type SSHEndpoint = Pick<VPSServer, 'host' | 'port' | 'username' | 'privateKeyPath' | 'privateKey' | 'password' | 'useAgent' | 'hostKey'> & {
+    label: string;
+    // Where a newly trusted host key is saved: the server itself or one of its inline jump hosts
+    pinTo?: { serverId: string; jumpHostIndex?: number };
+};
+
+interface JumpTarget {
+    id?: string;
+    name?: string;
+    jumpHosts?: JumpHost[];
+}
+
+export const toEndpoint = (server: VPSServer): SSHEndpoint => ({
+    label: server.name,
+    host: server.host,
+    port: server.port,
+    username: server.username,
+    privateKeyPath: server.privateKeyPath,
+    privateKey: server.privateKey,
+    password: server.password,
+    useAgent: server.useAgent,
+    hostKey: server.hostKey,
+    pinTo: { serverId: server.id }
+});
+
+/**
+ * Flatten a server's jump hosts into the hops to connect through, outermost first.
+ * Saved servers used as jump hosts bring their own jump hosts along.
+ */
+export function resolveJumpChain(target: JumpTarget, lookup: (serverId: string) => VPSServer | undefined): SSHEndpoint[] {
+    const visit = (current: JumpTarget, path: string[]): SSHEndpoint[] => (current.jumpHosts ?? []).flatMap((hop, index) => {
+        if (hop.type === 'inline') {
+            if (!hop.host?.trim() || !hop.username?.trim()) {
+                throw new Error('Jump hosts need a host and a username');
+            }
+            if (!Number.isInteger(hop.port) || hop.port < 1 || hop.port > 65535) {
+                throw new Error(`Invalid port for jump host ${hop.host}`);
+            }
+            const host = hop.host.trim();
+            const username = hop.username.trim();
+            return [{
+                label: `${username}@${host}`,
+                host,
+                port: hop.port,
+                username,
+                privateKeyPath: hop.privateKeyPath,
+                privateKey: hop.privateKey,
+                password: hop.password,
+                useAgent: hop.useAgent,
+                hostKey: hop.hostKey,
+                pinTo: current.id ? { serverId: current.id, jumpHostIndex: index } : undefined
+            }];
+        }
+
+        const server = lookup(hop.serverId);
+        if (!server) {
+            throw new Error('Jump host server not found');
+        }
+        if (path.includes(server.id)) {
+            throw new Error(`Jump host chain loops back to ${server.name}`);
+        }
+        return [...visit(server, [...path, server.id]), toEndpoint(server)];
+    });
+
+    const chain = visit(target, target.id ? [target.id] : []);
+    if (chain.length > MAX_JUMP_HOPS) {
+        throw new Error(`Jump host chains are limited to ${MAX_JUMP_HOPS} hops`);
+    }
+    return chain;
+}
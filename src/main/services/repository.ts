@@ -5,6 +5,16 @@ import * as path from 'path';
 import * as fs from 'fs';
 import { spawn } from 'child_process';
 import { GitHubRepository } from '../../shared/types';
+import {
+    AnalyticsCache,
+    TrafficSeries,
+    WeeklyCodeFrequency,
+    WeeklyCommits,
+    fetchComputedStats,
+    languagePercentages,
+    toWeeklyCodeFrequency,
+    toWeeklyCommits
+} from './repositoryStats';
 
 export interface CloneProgress {
     progress: number;
@@ -17,13 +27,27 @@ export interface RepositoryAnalytics {
     contributors: number;
     lastActivity: string;
     fileCount: number;
+    // The tree was too large to list in full, so fileCount is a lower bound
+    fileCountTruncated: boolean;
     size: string;
     mainLanguage: string;
+    // Percentage of code per language, largest first
     languages: Record<string, number>;
+    // Weekly series over the last year, oldest first
+    commitActivity: WeeklyCommits[];
+    codeFrequency: WeeklyCodeFrequency[];
+    // Commits per week over the last 52 weeks, by everyone and by the owner
+    participation: { all: number[]; owner: number[] };
+    // Last 14 days; null without push access to the repository
+    traffic: { views: TrafficSeries; clones: TrafficSeries } | null;
+    // GitHub was still computing some statistics, which are empty until fetched again
+    statsPending: boolean;
+    fetchedAt: string;
 }
 
 export class RepositoryService {
     private static cloneOperations: Map<string, boolean> = new Map();
+    private static analyticsCache = new AnalyticsCache<RepositoryAnalytics>();
 
     static initialize(): void {
         console.log('RepositoryService initialized');
@@ -298,26 +322,52 @@ export class RepositoryService {
     }
 
     /**
-     * Get repository analytics
+     * Get repository analytics from the GitHub API. Results are cached per repository unless
+     * refresh is set; results with statistics GitHub was still computing are not cached.
      */
-    static async getRepositoryAnalytics(repoName: string): Promise<RepositoryAnalytics> {
+    static async getRepositoryAnalytics(repoName: string, refresh: boolean = false): Promise<RepositoryAnalytics> {
         try {
-            // This would typically fetch from GitHub API or local analysis
-            // For now, return mock data
-            return {
-                totalCommits: Math.floor(Math.random() * 1000) + 50,
-                contributors: Math.floor(Math.random() * 20) + 1,
-                lastActivity: new Date(Date.now() - Math.random() * 30 * 24 * 60 * 60 * 1000).toISOString(),
-                fileCount: Math.floor(Math.random() * 500) + 10,
-                size: `${(Math.random() * 100).toFixed(1)} MB`,
-                mainLanguage: 'TypeScript',
-                languages: {
-                    'TypeScript': 65,
-                    'JavaScript': 20,
-                    'CSS': 10,
-                    'HTML': 5
-                }
+            const fullName = repoName.includes('/') ? repoName : `${(await AuthService.getCurrentUser()).login}/${repoName}`;
+
+            const cached = refresh ? undefined : this.analyticsCache.get(fullName);
+            if (cached) {
+                return cached;
+            }
+
+            const metadata = await GitHubService.getRepositoryMetadata(fullName);
+            const [languageBytes, totalCommits, contributors, files, commitActivity, codeFrequency, participation, traffic] = await Promise.all([
+                GitHubService.getLanguages(fullName),
+                GitHubService.countCommits(fullName, metadata.defaultBranch),
+                GitHubService.countContributors(fullName),
+                GitHubService.countFiles(fullName, metadata.defaultBranch),
+                fetchComputedStats(() => GitHubService.getCommitActivity(fullName)),
+                fetchComputedStats(() => GitHubService.getCodeFrequency(fullName)),
+                fetchComputedStats(() => GitHubService.getParticipation(fullName)),
+                GitHubService.getTraffic(fullName)
+            ]);
+            const languages = languagePercentages(languageBytes);
+
+            const analytics: RepositoryAnalytics = {
+                totalCommits,
+                contributors,
+                lastActivity: metadata.pushedAt,
+                fileCount: files.count,
+                fileCountTruncated: files.truncated,
+                size: metadata.size >= 1024 ? `${(metadata.size / 1024).toFixed(1)}MB` : `${metadata.size}KB`,
+                mainLanguage: Object.keys(languages)[0] ?? 'Unknown',
+                languages,
+                commitActivity: toWeeklyCommits(commitActivity ?? []),
+                codeFrequency: toWeeklyCodeFrequency(codeFrequency ?? []),
+                participation: participation ?? { all: [], owner: [] },
+                traffic,
+                statsPending: !commitActivity || !codeFrequency || !participation,
+                fetchedAt: new Date().toISOString()
             };
+
+            if (!analytics.statsPending) {
+                this.analyticsCache.set(fullName, analytics);
+            }
+            return analytics;
         } catch (error) {
             console.error('Error fetching repository analytics:', error);
             throw error;
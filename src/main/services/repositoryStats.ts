@@ -0,0 +1,128 @@
+// GitHub answers 202 while it computes statistics in the background; poll this many times
+export const STATS_RETRY_ATTEMPTS = 4;
+export const STATS_RETRY_DELAY_MS = 2000;
+export const ANALYTICS_CACHE_TTL_MS = 10 * 60 * 1000;
+
+export interface WeeklyCommits {
+    week: string;
+    commits: number;
+}
+
+export interface WeeklyCodeFrequency {
+    week: string;
+    additions: number;
+    deletions: number;
+}
+
+export interface TrafficSeries {
+    count: number;
+    uniques: number;
+    days: { date: string; count: number; uniques: number }[];
+}
+
+export interface StatsResponse<T> {
+    status: number;
+    data: T;
+}
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+/**
+ * Call a statistics endpoint until it stops answering 202, or null when GitHub is still
+ * computing after the last attempt
+ */
+export async function fetchComputedStats<T>(
+    request: () => Promise<StatsResponse<T>>,
+    attempts: number = STATS_RETRY_ATTEMPTS,
+    wait: (ms: number) => Promise<unknown> = sleep
+): Promise<T | null> {
+    for (let attempt = 1; attempt <= attempts; attempt++) {
+        const response = await request();
+        if (response.status !== 202) {
+            return response.data;
+        }
+        if (attempt < attempts) {
+            await wait(STATS_RETRY_DELAY_MS * attempt);
+        }
+    }
+    return null;
+}
+
+/**
+ * The page number of rel="last" in a Link header, which with per_page=1 is the item count
+ */
+export function lastPageFromLink(link: string | undefined, itemsOnPage: number): number {
+    const match = link?.match(/[?&]page=(\d+)[^>]*>;\s*rel="last"/);
+    return match ? parseInt(match[1], 10) : itemsOnPage;
+}
+
+/**
+ * Language byte counts as percentages with one decimal, largest first
+ */
+export function languagePercentages(bytes: Record<string, number>): Record<string, number> {
+    const total = Object.values(bytes).reduce((sum, value) => sum + value, 0);
+    if (total === 0) {
+        return {};
+    }
+    return Object.fromEntries(
+        Object.entries(bytes)
+            .sort(([, a], [, b]) => b - a)
+            .map(([language, value]) => [language, Math.round((value / total) * 1000) / 10])
+    );
+}
+
+const weekOf = (unixSeconds: number) => new Date(unixSeconds * 1000).toISOString().slice(0, 10);
+
+export function toWeeklyCommits(activity: { week: number; total: number }[]): WeeklyCommits[] {
+    return activity.map(({ week, total }) => ({ week: weekOf(week), commits: total }));
+}
+
+// Code frequency rows are [week, additions, deletions] with deletions negative
+export function toWeeklyCodeFrequency(rows: number[][]): WeeklyCodeFrequency[] {
+    return rows.map(([week, additions, deletions]) => ({
+        week: weekOf(week),
+        additions,
+        deletions: Math.abs(deletions)
+    }));
+}
+
+export function toTrafficSeries(
+    totals: { count: number; uniques: number },
+    days: { timestamp: string; count: number; uniques: number }[] = []
+): TrafficSeries {
+    return {
+        count: totals.count,
+        uniques: totals.uniques,
+        days: days.map(day => ({ date: day.timestamp.slice(0, 10), count: day.count, uniques: day.uniques }))
+    };
+}
+
+/**
+ * Analytics by repository, reused until they expire so browsing repositories does not
+ * spend the API rate limit
+ */
+export class AnalyticsCache<T> {
+    private entries: Map<string, { value: T; expiresAt: number }> = new Map();
+
+    constructor(private readonly ttlMs: number = ANALYTICS_CACHE_TTL_MS, private readonly now: () => number = Date.now) {}
+
+    get(key: string): T | undefined {
+        const entry = this.entries.get(key);
+        if (!entry) {
+            return undefined;
+        }
+        if (entry.expiresAt <= this.now()) {
+            this.entries.delete(key);
+            return undefined;
+        }
+        return entry.value;
+    }
+
+    set(key: string, value: T): void {
+        this.entries.set(key, { value, expiresAt: this.now() + this.ttlMs });
+    }
+
+    clear(): void {
+        this.entries.clear();
+    }
+}
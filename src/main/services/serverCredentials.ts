@@ -0,0 +1,88 @@
+import { JumpHost, VPSServer } from '../../shared/types';
+
+// Secrets of one server and its inline jump hosts, kept out of servers.json
+export interface ServerSecrets {
+    password?: string;
+    privateKey?: string;
+    // By position in the server's jump host list
+    jumpHosts?: Record<number, { password?: string; privateKey?: string }>;
+}
+
+export type ServerSecretsMap = Record<string, ServerSecrets>;
+
+const pickSecrets = (source: { password?: string; privateKey?: string }) => {
+    const secrets: { password?: string; privateKey?: string } = {};
+    if (source.password) {
+        secrets.password = source.password;
+    }
+    if (source.privateKey) {
+        secrets.privateKey = source.privateKey;
+    }
+    return Object.keys(secrets).length > 0 ? secrets : undefined;
+};
+
+const stripJumpHost = (hop: JumpHost): JumpHost => {
+    if (hop.type !== 'inline') {
+        return hop;
+    }
+    const { password: _password, privateKey: _privateKey, ...rest } = hop;
+    return rest;
+};
+
+/**
+ * Whether a stored server list still carries secrets in plain text
+ */
+export function hasPlaintextSecrets(servers: VPSServer[]): boolean {
+    return servers.some(server => pickSecrets(server) ||
+        server.jumpHosts?.some(hop => hop.type === 'inline' && pickSecrets(hop)));
+}
+
+/**
+ * Separate servers into metadata that can be written as plain JSON and the secrets to encrypt
+ */
+export function splitServerSecrets(servers: VPSServer[]): { servers: VPSServer[]; secrets: ServerSecretsMap } {
+    const secrets: ServerSecretsMap = {};
+
+    const stripped = servers.map(server => {
+        const { password: _password, privateKey: _privateKey, ...metadata } = server;
+        const serverSecrets: ServerSecrets = { ...pickSecrets(server) };
+
+        server.jumpHosts?.forEach((hop, index) => {
+            const hopSecrets = hop.type === 'inline' ? pickSecrets(hop) : undefined;
+            if (hopSecrets) {
+                serverSecrets.jumpHosts = { ...serverSecrets.jumpHosts, [index]: hopSecrets };
+            }
+        });
+        if (Object.keys(serverSecrets).length > 0) {
+            secrets[server.id] = serverSecrets;
+        }
+
+        return server.jumpHosts ? { ...metadata, jumpHosts: server.jumpHosts.map(stripJumpHost) } : metadata;
+    });
+
+    return { servers: stripped, secrets };
+}
+
+/**
+ * Put decrypted secrets back onto the servers they belong to
+ */
+export function mergeServerSecrets(servers: VPSServer[], secrets: ServerSecretsMap): VPSServer[] {
+    return servers.map(server => {
+        const serverSecrets = secrets[server.id];
+        if (!serverSecrets) {
+            return server;
+        }
+        return {
+            ...server,
+            // Values still in the file win, so a half-finished migration loses nothing
+            password: server.password ?? serverSecrets.password,
+            privateKey: server.privateKey ?? serverSecrets.privateKey,
+            jumpHosts: server.jumpHosts?.map((hop, index) => {
+                const hopSecrets = serverSecrets.jumpHosts?.[index];
+                return hop.type === 'inline' && hopSecrets
+                    ? { ...hop, password: hop.password ?? hopSecrets.password, privateKey: hop.privateKey ?? hopSecrets.privateKey }
+                    : hop;
+            })
+        };
+    });
+}
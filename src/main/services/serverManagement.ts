@@ -1,8 +1,15 @@
 import {
     VPSServer,
     DirectDeploymentRequest,
+    DirectDeploymentProgress,
     DirectDeploymentResult,
     DirectDeploymentStepResult,
+    DependencyManager,
+    DeployPathHint,
+    HealthCheckConfig,
+    HealthCheckProbe,
+    HostKeyPin,
+    ProjectStackType,
     ServerStats,
     SSHConnectionTestResult,
     SuggestedDeployPath,
@@ -12,26 +19,121 @@ import { EventEmitter } from 'events';
 import * as fs from 'fs/promises';
 import * as path from 'path';
 import * as os from 'os';
-import { Client, ClientChannel, ConnectConfig } from 'ssh2';
+import { Client, ClientChannel, ConnectConfig, SFTPWrapper, utils as sshUtils } from 'ssh2';
 import * as crypto from 'crypto';
+import { app } from 'electron';
 import { AuthService } from './auth';
+import { SecureStorageService } from '../security/secureStorage';
+import { resolveJumpChain, SSHEndpoint, toEndpoint } from './jumpHosts';
+import { AuthPromptService, PassphraseCache, PROMPT_TIMEOUT_MS } from './authPrompts';
+import { findKnownHostKeys, fingerprintHostKey, hostKeyAlgorithmsFor, readHostKeyType } from './hostKeys';
+import { hasPlaintextSecrets, mergeServerSecrets, ServerSecretsMap, splitServerSecrets } from './serverCredentials';
+
+const DEFAULT_KEEP_RELEASES = 5;
+const MAX_PASSPHRASE_ATTEMPTS = 3;
+const READY_TIMEOUT_MS = 10000;
+// Encrypted passwords and private keys of all servers, in SecureStorageService
+const CREDENTIALS_STORAGE_KEY = 'server-credentials';
+// Printed by streamed commands so the remote process group can be signalled on cancel
+const REMOTE_PID_MARKER = '__DCC_PID__';
+const CANCEL_GRACE_MS = 5000;
+// Step output without a line break is held back up to this many characters before it is forwarded anyway
+const STEP_OUTPUT_MAX_PENDING = 16 * 1024;
+const DEFAULT_STEP_TIMEOUT_MS = 30 * 60 * 1000;
+const DEFAULT_DEPLOYMENT_TIMEOUT_MS = 2 * 60 * 60 * 1000;
+const DEFAULT_HEALTH_CHECK_ATTEMPTS = 5;
+const DEFAULT_HEALTH_CHECK_DELAY_MS = 5000;
+const DEFAULT_HEALTH_CHECK_BACKOFF_MS = 2000;
+const MAX_HEALTH_CHECK_BACKOFF_MS = 30000;
+const DEFAULT_PROBE_TIMEOUT_MS = 10000;
+
+// Written into a dependency directory with the checksum of the lockfile it was installed from
+const INSTALL_MARKER = '.dcc-lock-sha256';
+
+interface DependencyInstaller {
+    manager: DependencyManager;
+    lockfile: string;
+    command: string;
+    // Directory the install populates; holds the checksum marker used to skip unchanged installs
+    dependencyDir?: string;
+    // Whether the directory can be copied from the previous release instead of reinstalling
+    reusable: boolean;
+}
+
+const DEPENDENCY_INSTALLERS: DependencyInstaller[] = [
+    { manager: 'pnpm', lockfile: 'pnpm-lock.yaml', command: 'pnpm install --frozen-lockfile', dependencyDir: 'node_modules', reusable: true },
+    { manager: 'yarn', lockfile: 'yarn.lock', command: 'yarn install --frozen-lockfile', dependencyDir: 'node_modules', reusable: true },
+    { manager: 'npm', lockfile: 'package-lock.json', command: 'npm ci', dependencyDir: 'node_modules', reusable: true },
+    {
+        manager: 'composer',
+        lockfile: 'composer.lock',
+        command: 'composer install --no-dev --prefer-dist --no-interaction --optimize-autoloader',
+        dependencyDir: 'vendor',
+        reusable: true
+    },
+    {
+        manager: 'pip',
+        lockfile: 'requirements.txt',
+        // Virtualenvs embed absolute paths, so they are never copied between releases
+        command: 'if [ -x .venv/bin/pip ]; then .venv/bin/pip install -r requirements.txt; else python3 -m pip install --user -r requirements.txt; fi',
+        dependencyDir: '.venv',
+        reusable: false
+    }
+];
+
+const formatTimeout = (ms: number): string =>
+    ms % 60000 === 0 ? `${ms / 60000}m` : `${Math.round(ms / 1000)}s`;
+
+const describeProbe = (probe: HealthCheckProbe): string => probe.type === 'http'
+    ? [
+        `${probe.method || 'GET'} ${probe.url}`,
+        probe.expectedStatus ? `expect ${probe.expectedStatus}` : '',
+        probe.bodyContains ? `containing ${JSON.stringify(probe.bodyContains)}` : ''
+    ].filter(Boolean).join(' ')
+    : probe.command;
+
+// Resolves after ms, or rejects as soon as the signal aborts
+const waitFor = (ms: number, signal: AbortSignal): Promise<void> => new Promise((resolve, reject) => {
+    if (signal.aborted) {
+        reject(new Error('Aborted'));
+        return;
+    }
+    const onAbort = () => {
+        clearTimeout(timer);
+        reject(new Error('Aborted'));
+    };
+    const timer = setTimeout(() => {
+        signal.removeEventListener('abort', onAbort);
+        resolve();
+    }, ms);
+    signal.addEventListener('abort', onAbort, { once: true });
+});
 
 export class ServerManagementService extends EventEmitter {
     private servers: Map<string, VPSServer> = new Map();
     private connections: Map<string, Client> = new Map();
+    // One SFTP subsystem per connection, reused by all file operations
+    private sftpSessions: Map<string, { client: Client; sftp: Promise<SFTPWrapper> }> = new Map();
+    private passphrases = new PassphraseCache();
+    // Host keys trusted while testing servers that are not saved yet, by host:port
+    private acceptedHostKeys: Map<string, HostKeyPin> = new Map();
+    private activeDeployments: Map<string, { serverId: string; groupId?: string; controller: AbortController }> = new Map();
     private dbPath: string;
+    // Where servers.json used to be written on every platform
+    private legacyDbPath: string;
+    // Set when saved servers could not be read; saving then would overwrite them
+    private loadError: Error | null = null;
     private statsInterval: NodeJS.Timeout | null = null;
 
     constructor() {
         super();
-        const appDataPath = path.join(os.homedir(), 'AppData', 'Roaming', 'devops-control-center');
-        this.dbPath = path.join(appDataPath, 'servers.json');
-        this.initializeService();
+        this.dbPath = path.join(app.getPath('userData'), 'servers.json');
+        this.legacyDbPath = path.join(os.homedir(), 'AppData', 'Roaming', 'devops-control-center', 'servers.json');
     }
 
     private shellQuote(value: string): string {
         const stringValue = value ?? '';
-        return `'${stringValue.replace(/'/g, `'\''`)}'`;
+        return `'${stringValue.replace(/'/g, `'\\''`)}'`;
     }
 
     private sanitizeTargetPath(targetPath: string): void {
@@ -81,7 +183,11 @@ export class ServerManagementService extends EventEmitter {
         }
     }
 
-    private async initializeService(): Promise<void> {
+    /**
+     * Load saved servers and start monitoring. Called once the app is ready, as reading the
+     * encrypted credentials needs safeStorage.
+     */
+    public async initialize(): Promise<void> {
         try {
             // Ensure directory exists
             const dir = path.dirname(this.dbPath);
@@ -101,17 +207,23 @@ export class ServerManagementService extends EventEmitter {
 
     private async loadServers(): Promise<void> {
         try {
-            const data = await fs.readFile(this.dbPath, 'utf-8');
+            const { data, fromLegacyPath } = await this.readServersFile();
             const serversArray: VPSServer[] = JSON.parse(data);
+            const secrets: ServerSecretsMap = (await SecureStorageService.getInstance().retrieve(CREDENTIALS_STORAGE_KEY)) ?? {};
 
             this.servers.clear();
-            serversArray.forEach(server => {
+            mergeServerSecrets(serversArray, secrets).forEach(server => {
                 // Set initial status as disconnected
                 server.status = 'disconnected';
                 this.servers.set(server.id, server);
             });
 
             console.log(`Loaded ${this.servers.size} servers`);
+
+            // Older versions kept passwords and keys in plain JSON
+            if (fromLegacyPath || hasPlaintextSecrets(serversArray)) {
+                await this.migrateServers(fromLegacyPath);
+            }
         } catch (error) {
             if ((error as any).code === 'ENOENT') {
                 console.log('No existing servers file, starting fresh');
@@ -119,14 +231,45 @@ export class ServerManagementService extends EventEmitter {
                 await this.saveServers();
             } else {
                 console.error('Error loading servers:', error);
+                this.servers.clear();
+                this.loadError = new Error(`Saved servers could not be loaded: ${error instanceof Error ? error.message : String(error)}`);
+            }
+        }
+    }
+
+    private async migrateServers(fromLegacyPath: boolean): Promise<void> {
+        try {
+            await this.saveServers();
+            if (fromLegacyPath) {
+                await fs.unlink(this.legacyDbPath);
+            }
+            console.log('Migrated server credentials to secure storage');
+        } catch (error) {
+            // The old file is left alone, so nothing is lost; the next start tries again
+            console.warn('Server credentials are still stored in plain text, migrating them to secure storage failed:', error);
+        }
+    }
+
+    private async readServersFile(): Promise<{ data: string; fromLegacyPath: boolean }> {
+        try {
+            return { data: await fs.readFile(this.dbPath, 'utf-8'), fromLegacyPath: false };
+        } catch (error) {
+            if ((error as any).code !== 'ENOENT' || path.resolve(this.legacyDbPath) === path.resolve(this.dbPath)) {
+                throw error;
             }
+            return { data: await fs.readFile(this.legacyDbPath, 'utf-8'), fromLegacyPath: true };
         }
     }
 
     private async saveServers(): Promise<void> {
+        if (this.loadError) {
+            throw this.loadError;
+        }
         try {
-            const serversArray = Array.from(this.servers.values());
-            await fs.writeFile(this.dbPath, JSON.stringify(serversArray, null, 2));
+            const { servers, secrets } = splitServerSecrets(Array.from(this.servers.values()));
+            // Secrets first, so a failure never leaves them only in memory
+            await SecureStorageService.getInstance().store(CREDENTIALS_STORAGE_KEY, secrets, { backup: false });
+            await fs.writeFile(this.dbPath, JSON.stringify(servers, null, 2));
         } catch (error) {
             console.error('Error saving servers:', error);
             throw error;
@@ -149,15 +292,21 @@ export class ServerManagementService extends EventEmitter {
     }
 
     public async getServers(): Promise<VPSServer[]> {
+        if (this.loadError) {
+            throw this.loadError;
+        }
         return Array.from(this.servers.values());
     }
 
     public async addServer(serverData: Omit<VPSServer, 'id' | 'status'>): Promise<VPSServer> {
         const server: VPSServer = {
             ...serverData,
+            hostKey: serverData.hostKey ?? this.acceptedHostKeys.get(`${serverData.host}:${serverData.port}`),
             id: crypto.randomUUID(),
             status: 'disconnected'
         };
+        // Fail early on unknown or looping jump hosts
+        resolveJumpChain(server, id => this.servers.get(id));
 
         this.servers.set(server.id, server);
         await this.saveServers();
@@ -173,6 +322,14 @@ export class ServerManagementService extends EventEmitter {
         }
 
         const updatedServer = { ...server, ...updates };
+        // A pinned key belongs to the old address
+        const moved = (updates.host !== undefined && updates.host !== server.host) || (updates.port !== undefined && updates.port !== server.port);
+        if (moved && !('hostKey' in updates)) {
+            delete updatedServer.hostKey;
+        }
+        if (updates.jumpHosts) {
+            resolveJumpChain(updatedServer, id => (id === serverId ? updatedServer : this.servers.get(id)));
+        }
         this.servers.set(serverId, updatedServer);
         await this.saveServers();
 
@@ -186,6 +343,12 @@ export class ServerManagementService extends EventEmitter {
             throw new Error('Server not found');
         }
 
+        const dependants = Array.from(this.servers.values())
+            .filter(other => other.jumpHosts?.some(hop => hop.type === 'server' && hop.serverId === serverId));
+        if (dependants.length > 0) {
+            throw new Error(`${server.name} is the jump host of ${dependants.map(other => other.name).join(', ')}`);
+        }
+
         // Disconnect if connected
         if (server.status === 'connected') {
             await this.disconnectFromServer(serverId);
@@ -223,15 +386,21 @@ export class ServerManagementService extends EventEmitter {
                     resolve({ success: true });
                 });
 
+                // Bastion connections live as long as the connection tunnelled through them
+                let jumpClients: Client[] = [];
+                let hostKeyError: string | undefined;
+                this.attachKeyboardInteractive(client, server.name, server.password);
+
                 client.on('error', async (error: Error) => {
                     server.status = 'error';
                     this.servers.set(serverId, server);
                     this.emit('server-status-changed', { serverId, status: 'error' });
-                    resolve({ success: false, error: error.message });
+                    resolve({ success: false, error: hostKeyError ?? error.message });
                 });
 
                 client.on('close', async () => {
                     this.connections.delete(serverId);
+                    jumpClients.forEach(jumpClient => jumpClient.end());
                     if (server.status === 'connected') {
                         server.status = 'disconnected';
                         this.servers.set(serverId, server);
@@ -240,39 +409,29 @@ export class ServerManagementService extends EventEmitter {
                 });
 
                 // Connection configuration
-                const connectConfig: ConnectConfig = {
-                    host: server.host,
-                    port: server.port,
-                    username: server.username,
-                    readyTimeout: 10000,
-                    keepaliveInterval: 30000
-                };
-
-                if (server.privateKeyPath) {
-                    try {
-                        const privateKey = await fs.readFile(server.privateKeyPath, 'utf-8');
-                        connectConfig.privateKey = privateKey;
-                        client.connect(connectConfig);
-                    } catch (keyError) {
-                        server.status = 'error';
-                        this.servers.set(serverId, server);
-                        this.emit('server-status-changed', { serverId, status: 'error' });
-                        resolve({ success: false, error: `Failed to read private key: ${keyError}` });
-                        return;
+                let connectConfig: ConnectConfig;
+                try {
+                    connectConfig = {
+                        ...(await this.buildAuthConfig(server, server.name)),
+                        ...this.hostKeyConfig(toEndpoint(server), message => { hostKeyError = message; }),
+                        keepaliveInterval: 30000
+                    };
+
+                    const chain = resolveJumpChain(server, id => this.servers.get(id));
+                    if (chain.length > 0) {
+                        const tunnel = await this.openJumpTunnel(chain, server.host, server.port);
+                        jumpClients = tunnel.clients;
+                        connectConfig.sock = tunnel.stream;
                     }
-                } else if (server.privateKey) {
-                    connectConfig.privateKey = server.privateKey;
-                    client.connect(connectConfig);
-                } else if (server.password) {
-                    connectConfig.password = server.password;
-                    client.connect(connectConfig);
-                } else {
+                } catch (setupError) {
                     server.status = 'error';
                     this.servers.set(serverId, server);
                     this.emit('server-status-changed', { serverId, status: 'error' });
-                    resolve({ success: false, error: 'No authentication method provided' });
+                    resolve({ success: false, error: (setupError as Error).message });
                     return;
                 }
+
+                client.connect(connectConfig);
             });
         } catch (error) {
             server.status = 'error';
@@ -282,6 +441,329 @@ export class ServerManagementService extends EventEmitter {
         }
     }
 
+    /**
+     * Build the login part of an SSH config from stored credentials, asking for the
+     * passphrase of an encrypted key when it is not cached
+     */
+    private async buildAuthConfig(endpoint: Omit<SSHEndpoint, 'label'>, label: string): Promise<ConnectConfig> {
+        const config: ConnectConfig = {
+            host: endpoint.host,
+            port: endpoint.port,
+            username: endpoint.username,
+            tryKeyboard: true
+        };
+
+        if (endpoint.privateKeyPath) {
+            try {
+                config.privateKey = await fs.readFile(endpoint.privateKeyPath, 'utf-8');
+            } catch (keyError) {
+                throw new Error(`Failed to read private key: ${keyError}`);
+            }
+        } else if (endpoint.privateKey) {
+            config.privateKey = endpoint.privateKey;
+        } else if (endpoint.password) {
+            config.password = endpoint.password;
+        } else if (!endpoint.useAgent) {
+            throw new Error('No authentication method provided');
+        }
+
+        if (endpoint.useAgent) {
+            config.agent = this.getAgentSocket();
+        }
+        if (typeof config.privateKey === 'string') {
+            config.passphrase = await this.resolvePassphrase(config.privateKey, endpoint.privateKeyPath, label);
+        }
+        return config;
+    }
+
+    private getAgentSocket(): string {
+        const socket = process.env.SSH_AUTH_SOCK || (process.platform === 'win32' ? '\\\\.\\pipe\\openssh-ssh-agent' : undefined);
+        if (!socket) {
+            throw new Error('SSH agent is not available: SSH_AUTH_SOCK is not set');
+        }
+        return socket;
+    }
+
+    /**
+     * Get the passphrase of an encrypted private key from the cache or by asking the user
+     */
+    private async resolvePassphrase(privateKey: string, keyPath: string | undefined, label: string): Promise<string | undefined> {
+        const unlocked = sshUtils.parseKey(privateKey);
+        if (!(unlocked instanceof Error) || !/passphrase/i.test(unlocked.message)) {
+            // Unencrypted, or unreadable in a way a passphrase will not fix; ssh2 reports the latter
+            return undefined;
+        }
+
+        const keyId = keyPath ? `path:${keyPath}` : `key:${crypto.createHash('sha256').update(privateKey).digest('hex')}`;
+        const isValid = (passphrase: string) => !(sshUtils.parseKey(privateKey, passphrase) instanceof Error);
+
+        const cached = this.passphrases.get(keyId);
+        if (cached !== undefined && isValid(cached)) {
+            return cached;
+        }
+        this.passphrases.delete(keyId);
+
+        let error: string | undefined;
+        for (let attempt = 0; attempt < MAX_PASSPHRASE_ATTEMPTS; attempt++) {
+            const answer = await AuthPromptService.getInstance().ask({
+                kind: 'passphrase',
+                target: label,
+                title: `Passphrase for ${keyPath ?? 'the private key'}`,
+                prompts: [{ prompt: 'Passphrase', echo: false }],
+                error,
+                canRemember: true
+            });
+            if (!answer) {
+                throw new Error('Passphrase entry was cancelled');
+            }
+
+            const passphrase = answer.responses[0] ?? '';
+            if (isValid(passphrase)) {
+                if (answer.remember) {
+                    this.passphrases.set(keyId, passphrase);
+                }
+                return passphrase;
+            }
+            error = 'Incorrect passphrase, please try again';
+        }
+        throw new Error('Too many incorrect passphrase attempts');
+    }
+
+    /**
+     * Route keyboard-interactive prompts (e.g. one-time codes) to the user
+     */
+    private attachKeyboardInteractive(client: Client, label: string, password?: string): void {
+        client.on('keyboard-interactive', (name, instructions, _lang, prompts, finish) => {
+            if (prompts.length === 0) {
+                finish([]);
+                return;
+            }
+            // Servers that only allow keyboard-interactive still ask for the stored password this way
+            if (password && prompts.length === 1 && !prompts[0].echo && /password/i.test(prompts[0].prompt)) {
+                finish([password]);
+                return;
+            }
+
+            AuthPromptService.getInstance().ask({
+                kind: 'keyboard-interactive',
+                target: label,
+                title: name || `Login to ${label}`,
+                instructions: instructions || undefined,
+                prompts: prompts.map(prompt => ({ prompt: prompt.prompt, echo: Boolean(prompt.echo) })),
+                canRemember: false
+            }).then(answer => finish(answer ? answer.responses : []));
+        });
+    }
+
+    /**
+     * Connect options that check the host key against the pinned one, falling back to
+     * ~/.ssh/known_hosts and then to asking the user (trust on first use)
+     */
+    private hostKeyConfig(endpoint: SSHEndpoint, onRejected: (message: string) => void): ConnectConfig {
+        const pinned = endpoint.hostKey ?? this.acceptedHostKeys.get(`${endpoint.host}:${endpoint.port}`);
+        return {
+            // Waiting for the user counts against the handshake timeout
+            readyTimeout: pinned ? READY_TIMEOUT_MS : READY_TIMEOUT_MS + PROMPT_TIMEOUT_MS,
+            algorithms: pinned ? { serverHostKey: hostKeyAlgorithmsFor(pinned.keyType) } : undefined,
+            hostVerifier: (key: Buffer, verify: (valid: boolean) => void) => {
+                this.verifyHostKey(endpoint, pinned, key)
+                    .then(() => verify(true))
+                    .catch((error: Error) => {
+                        onRejected(error.message);
+                        verify(false);
+                    });
+            }
+        };
+    }
+
+    private async verifyHostKey(endpoint: SSHEndpoint, pinned: HostKeyPin | undefined, key: Buffer): Promise<void> {
+        const presented = { keyType: readHostKeyType(key), fingerprint: fingerprintHostKey(key) };
+        const known = findKnownHostKeys(await this.readKnownHosts(), endpoint.host, endpoint.port);
+
+        if (known.some(entry => entry.revoked && entry.fingerprint === presented.fingerprint)) {
+            throw new Error(`Host key ${presented.fingerprint} of ${endpoint.label} is marked as revoked in known_hosts`);
+        }
+        if (pinned) {
+            if (pinned.fingerprint !== presented.fingerprint) {
+                this.rejectChangedHostKey(endpoint, presented, pinned.fingerprint);
+            }
+            return;
+        }
+
+        // Like OpenSSH, only a listed key of the same type can conflict
+        const listed = known.filter(entry => !entry.revoked && entry.keyType === presented.keyType);
+        if (listed.some(entry => entry.fingerprint === presented.fingerprint)) {
+            await this.pinHostKey(endpoint, { ...presented, trustedAt: new Date().toISOString(), source: 'known_hosts' });
+            return;
+        }
+        if (listed.length > 0) {
+            this.rejectChangedHostKey(endpoint, presented, listed[0].fingerprint);
+        }
+
+        const answer = await AuthPromptService.getInstance().ask({
+            kind: 'host-key',
+            target: endpoint.label,
+            title: `Trust the host key of ${endpoint.label}?`,
+            instructions: `This is the first connection to ${endpoint.host}:${endpoint.port}. Compare the fingerprint with the one the server's administrator gave you before trusting it.`,
+            prompts: [],
+            canRemember: false,
+            hostKey: presented
+        });
+        if (!answer) {
+            throw new Error(`The host key of ${endpoint.label} was not trusted`);
+        }
+        await this.pinHostKey(endpoint, { ...presented, trustedAt: new Date().toISOString(), source: 'user' });
+    }
+
+    /**
+     * Block a connection whose host key differs from the trusted one. The user is still asked whether
+     * to trust the new key, which only takes effect on the next attempt (e.g. after a server rebuild).
+     */
+    private rejectChangedHostKey(endpoint: SSHEndpoint, presented: { keyType: string; fingerprint: string }, previousFingerprint: string): never {
+        AuthPromptService.getInstance().ask({
+            kind: 'host-key',
+            target: endpoint.label,
+            title: `The host key of ${endpoint.label} has changed`,
+            instructions: 'The connection was blocked. Someone may be intercepting it, or the server was reinstalled. Only trust the new key if you know it was changed.',
+            prompts: [],
+            canRemember: false,
+            hostKey: { ...presented, previousFingerprint }
+        }).then(answer => answer
+            ? this.pinHostKey(endpoint, { ...presented, trustedAt: new Date().toISOString(), source: 'user' })
+            : undefined
+        ).catch(error => console.error('Failed to save host key:', error));
+
+        throw new Error(
+            `Host key verification failed for ${endpoint.label}: expected ${previousFingerprint} but the server presented ${presented.fingerprint}. ` +
+            'The connection was blocked because this could be a man-in-the-middle attack.'
+        );
+    }
+
+    /**
+     * Remember a trusted host key on the server or jump host it belongs to
+     */
+    private async pinHostKey(endpoint: SSHEndpoint, pin: HostKeyPin): Promise<void> {
+        endpoint.hostKey = pin;
+        const server = endpoint.pinTo && this.servers.get(endpoint.pinTo.serverId);
+        if (!endpoint.pinTo || !server) {
+            this.acceptedHostKeys.set(`${endpoint.host}:${endpoint.port}`, pin);
+            return;
+        }
+
+        const { jumpHostIndex } = endpoint.pinTo;
+        if (jumpHostIndex === undefined) {
+            server.hostKey = pin;
+        } else {
+            const hop = server.jumpHosts?.[jumpHostIndex];
+            if (hop?.type !== 'inline' || hop.host.trim() !== endpoint.host || hop.port !== endpoint.port) {
+                return;
+            }
+            hop.hostKey = pin;
+        }
+        await this.saveServers();
+        this.emit('server-updated', server);
+    }
+
+    private async readKnownHosts(): Promise<string> {
+        try {
+            return await fs.readFile(path.join(os.homedir(), '.ssh', 'known_hosts'), 'utf-8');
+        } catch {
+            return '';
+        }
+    }
+
+    /**
+     * Pin a server's host key from ~/.ssh/known_hosts without connecting
+     */
+    public async importKnownHostKey(serverId: string): Promise<VPSServer> {
+        const server = this.servers.get(serverId);
+        if (!server) {
+            throw new Error('Server not found');
+        }
+
+        const known = findKnownHostKeys(await this.readKnownHosts(), server.host, server.port).filter(entry => !entry.revoked);
+        if (known.length === 0) {
+            throw new Error(`No key for ${server.host} in ~/.ssh/known_hosts`);
+        }
+        // Pick the key type ssh2 asks for first, which is the one the server will present
+        const preference = ['ssh-ed25519', 'ecdsa-sha2-nistp256', 'ecdsa-sha2-nistp384', 'ecdsa-sha2-nistp521', 'ssh-rsa'];
+        const rank = (keyType: string) => (preference.includes(keyType) ? preference.indexOf(keyType) : preference.length);
+        const [entry] = [...known].sort((a, b) => rank(a.keyType) - rank(b.keyType));
+
+        server.hostKey = { keyType: entry.keyType, fingerprint: entry.fingerprint, trustedAt: new Date().toISOString(), source: 'known_hosts' };
+        await this.saveServers();
+        this.emit('server-updated', server);
+        return server;
+    }
+
+    /**
+     * Drop a server's pinned host key so the next connection trusts the key it is shown afresh
+     */
+    public async forgetHostKey(serverId: string): Promise<VPSServer> {
+        const server = this.servers.get(serverId);
+        if (!server) {
+            throw new Error('Server not found');
+        }
+
+        delete server.hostKey;
+        this.acceptedHostKeys.delete(`${server.host}:${server.port}`);
+        await this.saveServers();
+        this.emit('server-updated', server);
+        return server;
+    }
+
+    /**
+     * Connect through each jump host in turn and forward a channel to the final host.
+     * The returned clients must stay open for as long as the channel is in use.
+     */
+    private async openJumpTunnel(chain: SSHEndpoint[], host: string, port: number): Promise<{ clients: Client[]; stream: ClientChannel }> {
+        const clients: Client[] = [];
+        let stream: ClientChannel | undefined;
+
+        try {
+            for (let index = 0; index < chain.length; index++) {
+                const hop = chain[index];
+                const next = chain[index + 1] ?? { host, port };
+                const hopClient = new Client();
+                let hostKeyError: string | undefined;
+
+                await new Promise<void>((resolve, reject) => {
+                    // Stays attached so errors after the handshake do not go unhandled
+                    hopClient.on('error', (error: Error) => reject(new Error(`Jump host ${hop.label}: ${hostKeyError ?? error.message}`)));
+                    hopClient.once('ready', () => resolve());
+                    this.attachKeyboardInteractive(hopClient, hop.label, hop.password);
+                    this.buildAuthConfig(hop, hop.label)
+                        .then(config => hopClient.connect({
+                            ...config,
+                            ...this.hostKeyConfig(hop, message => { hostKeyError = message; }),
+                            keepaliveInterval: 30000,
+                            sock: stream
+                        }))
+                        .catch((error: Error) => reject(new Error(`Jump host ${hop.label}: ${error.message}`)));
+                });
+                clients.push(hopClient);
+
+                stream = await new Promise<ClientChannel>((resolve, reject) => {
+                    hopClient.forwardOut('127.0.0.1', 0, next.host, next.port, (err: Error | undefined, channel: ClientChannel) => {
+                        if (err) {
+                            reject(new Error(`Jump host ${hop.label} could not reach ${next.host}:${next.port}: ${err.message}`));
+                            return;
+                        }
+                        resolve(channel);
+                    });
+                });
+            }
+        } catch (error) {
+            clients.forEach(client => client.end());
+            throw error;
+        }
+
+        if (!stream) {
+            throw new Error('No jump hosts configured');
+        }
+        return { clients, stream };
+    }
+
     public async disconnectFromServer(serverId: string): Promise<void> {
         const connection = this.connections.get(serverId);
         const server = this.servers.get(serverId);
@@ -299,7 +781,11 @@ export class ServerManagementService extends EventEmitter {
         }
     }
 
-    public async executeCommand(serverId: string, command: string): Promise<{ stdout: string; stderr: string; code: number }> {
+    public async executeCommand(
+        serverId: string,
+        command: string,
+        options: { timeoutMs?: number } = {}
+    ): Promise<{ stdout: string; stderr: string; code: number }> {
         const connection = this.connections.get(serverId);
         const server = this.servers.get(serverId);
 
@@ -316,8 +802,27 @@ export class ServerManagementService extends EventEmitter {
 
                 let stdout = '';
                 let stderr = '';
+                let timedOut = false;
+                const timer = options.timeoutMs
+                    ? setTimeout(() => {
+                        timedOut = true;
+                        try {
+                            stream.signal('KILL');
+                        } catch {
+                            // Closing the channel is enough to stop waiting on it
+                        }
+                        stream.close();
+                    }, options.timeoutMs)
+                    : null;
 
                 stream.on('close', (code: number) => {
+                    if (timer) {
+                        clearTimeout(timer);
+                    }
+                    if (timedOut && options.timeoutMs) {
+                        reject(new Error(`Command timed out after ${formatTimeout(options.timeoutMs)}`));
+                        return;
+                    }
                     resolve({ stdout, stderr, code });
                 }).on('data', (data: Buffer) => {
                     stdout += data.toString();
@@ -328,6 +833,256 @@ export class ServerManagementService extends EventEmitter {
         });
     }
 
+    /**
+     * Run a command and report its output as it arrives. Aborting the signal or hitting the
+     * timeout terminates the remote process group, so hung steps do not keep running.
+     */
+    public async executeStreaming(
+        serverId: string,
+        command: string,
+        options: {
+            onData?: (stream: 'stdout' | 'stderr', chunk: string) => void;
+            signal?: AbortSignal;
+            timeoutMs?: number;
+        } = {}
+    ): Promise<{ stdout: string; stderr: string; code: number; timedOut: boolean }> {
+        const connection = this.connections.get(serverId);
+        const server = this.servers.get(serverId);
+
+        if (!connection || !server || server.status !== 'connected') {
+            throw new Error('Server not connected');
+        }
+
+        const { onData, signal, timeoutMs } = options;
+        if (signal?.aborted) {
+            throw new Error('Command cancelled');
+        }
+
+        // sshd starts each exec session in its own session, so $$ is also the process group id
+        const wrapped = `echo ${REMOTE_PID_MARKER}$$; ${command}`;
+
+        return new Promise((resolve, reject) => {
+            connection.exec(wrapped, (err: Error | undefined, stream: ClientChannel) => {
+                if (err) {
+                    reject(err);
+                    return;
+                }
+
+                let stdout = '';
+                let stderr = '';
+                let remotePid: number | null = null;
+                let pending = '';
+                let closeTimer: NodeJS.Timeout | null = null;
+                let terminating = false;
+                let timedOut = false;
+
+                const onAbort = () => {
+                    if (terminating) {
+                        return;
+                    }
+                    terminating = true;
+                    if (remotePid) {
+                        this.executeCommand(serverId, `kill -TERM -- -${remotePid} 2>/dev/null || kill -TERM ${remotePid} 2>/dev/null`)
+                            .catch(() => undefined);
+                    }
+                    try {
+                        stream.signal('TERM');
+                    } catch {
+                        // Not every server accepts signal requests; closing the channel below still ends the step
+                    }
+                    if (closeTimer) {
+                        clearTimeout(closeTimer);
+                    }
+                    closeTimer = setTimeout(() => stream.close(), CANCEL_GRACE_MS);
+                };
+                signal?.addEventListener('abort', onAbort, { once: true });
+                const timeoutTimer = timeoutMs
+                    ? setTimeout(() => {
+                        timedOut = true;
+                        onAbort();
+                    }, timeoutMs)
+                    : null;
+
+                stream.on('close', (code: number | null) => {
+                    signal?.removeEventListener('abort', onAbort);
+                    if (closeTimer) {
+                        clearTimeout(closeTimer);
+                    }
+                    if (timeoutTimer) {
+                        clearTimeout(timeoutTimer);
+                    }
+                    if (pending) {
+                        stdout += pending;
+                        onData?.('stdout', pending);
+                    }
+                    resolve({ stdout, stderr, code: typeof code === 'number' ? code : 1, timedOut });
+                }).on('data', (data: Buffer) => {
+                    const text = data.toString();
+                    if (remotePid !== null) {
+                        stdout += text;
+                        onData?.('stdout', text);
+                        return;
+                    }
+
+                    pending += text;
+                    const newline = pending.indexOf('\n');
+                    if (newline === -1) {
+                        return;
+                    }
+                    const firstLine = pending.slice(0, newline);
+                    const rest = pending.slice(newline + 1);
+                    pending = '';
+                    remotePid = firstLine.startsWith(REMOTE_PID_MARKER) ? parseInt(firstLine.slice(REMOTE_PID_MARKER.length), 10) || 0 : 0;
+                    const output = remotePid ? rest : `${firstLine}\n${rest}`;
+                    if (output) {
+                        stdout += output;
+                        onData?.('stdout', output);
+                    }
+                    // A cancel or timeout that fired before the pid arrived still needs the process group killed
+                    if (terminating) {
+                        terminating = false;
+                        onAbort();
+                    }
+                }).stderr.on('data', (data: Buffer) => {
+                    const text = data.toString();
+                    stderr += text;
+                    onData?.('stderr', text);
+                });
+            });
+        });
+    }
+
+    /**
+     * Abort a running direct deployment; the current step's remote process is terminated
+     */
+    public cancelDeployment(deploymentId: string): boolean {
+        const deployment = this.activeDeployments.get(deploymentId);
+        if (!deployment) {
+            return false;
+        }
+        deployment.controller.abort();
+        return true;
+    }
+
+    /**
+     * Cancel every running deployment that belongs to a group rollout
+     */
+    public cancelGroupDeployments(groupId: string): number {
+        let cancelled = 0;
+        this.activeDeployments.forEach(deployment => {
+            if (deployment.groupId === groupId) {
+                deployment.controller.abort();
+                cancelled++;
+            }
+        });
+        return cancelled;
+    }
+
+    /**
+     * Open a channel to a unix socket on the server (e.g. the Docker daemon socket)
+     */
+    public async openStreamLocal(serverId: string, socketPath: string): Promise<ClientChannel> {
+        await this.ensureConnected(serverId);
+
+        const connection = this.connections.get(serverId);
+        if (!connection) {
+            throw new Error('Server not connected');
+        }
+
+        return new Promise((resolve, reject) => {
+            connection.openssh_forwardOutStreamLocal(socketPath, (err: Error | undefined, stream: ClientChannel) => {
+                if (err) {
+                    reject(err);
+                    return;
+                }
+                resolve(stream);
+            });
+        });
+    }
+
+    /**
+     * Get the SFTP subsystem of a server's connection, starting it on first use
+     */
+    public async openSftp(serverId: string): Promise<SFTPWrapper> {
+        await this.ensureConnected(serverId);
+
+        const connection = this.connections.get(serverId);
+        if (!connection) {
+            throw new Error('Server not connected');
+        }
+
+        const cached = this.sftpSessions.get(serverId);
+        if (cached && cached.client === connection) {
+            return cached.sftp;
+        }
+
+        const sftp = new Promise<SFTPWrapper>((resolve, reject) => {
+            connection.sftp((err: Error | undefined, session: SFTPWrapper) => {
+                if (err) {
+                    reject(err);
+                    return;
+                }
+                session.on('close', () => {
+                    if (this.sftpSessions.get(serverId)?.client === connection) {
+                        this.sftpSessions.delete(serverId);
+                    }
+                });
+                resolve(session);
+            });
+        });
+        this.sftpSessions.set(serverId, { client: connection, sftp });
+        sftp.catch(() => {
+            if (this.sftpSessions.get(serverId)?.sftp === sftp) {
+                this.sftpSessions.delete(serverId);
+            }
+        });
+        return sftp;
+    }
+
+    /**
+     * Start an interactive login shell on a pseudo-terminal of the given size
+     */
+    public async openShell(serverId: string, window: { cols: number; rows: number }): Promise<ClientChannel> {
+        await this.ensureConnected(serverId);
+
+        const connection = this.connections.get(serverId);
+        if (!connection) {
+            throw new Error('Server not connected');
+        }
+
+        return new Promise((resolve, reject) => {
+            connection.shell({ term: 'xterm-256color', cols: window.cols, rows: window.rows }, (err: Error | undefined, stream: ClientChannel) => {
+                if (err) {
+                    reject(err);
+                    return;
+                }
+                resolve(stream);
+            });
+        });
+    }
+
+    /**
+     * Open a channel to host:port as seen from the server, e.g. a database listening on its localhost
+     */
+    public async forwardOut(serverId: string, host: string, port: number): Promise<ClientChannel> {
+        await this.ensureConnected(serverId);
+
+        const connection = this.connections.get(serverId);
+        if (!connection) {
+            throw new Error('Server not connected');
+        }
+
+        return new Promise((resolve, reject) => {
+            connection.forwardOut('127.0.0.1', 0, host, port, (err: Error | undefined, stream: ClientChannel) => {
+                if (err) {
+                    reject(new Error(`Server could not reach ${host}:${port}: ${err.message}`));
+                    return;
+                }
+                resolve(stream);
+            });
+        });
+    }
+
     public async getServerStats(serverId: string): Promise<ServerStats> {
         try {
             const commands = {
@@ -422,51 +1177,56 @@ export class ServerManagementService extends EventEmitter {
 
     public async testConnection(serverData: Omit<VPSServer, 'id' | 'status'>): Promise<{ success: boolean; error?: string }> {
         const client = new Client();
+        let jumpClients: Client[] = [];
+        let timedOut = false;
+        let hostKeyError: string | undefined;
+        const closeJumpClients = () => jumpClients.forEach(jumpClient => jumpClient.end());
+        const endpoint: SSHEndpoint = { ...serverData, label: serverData.name || serverData.host };
+        this.attachKeyboardInteractive(client, endpoint.label, serverData.password);
 
         return new Promise((resolve) => {
+            // Jump hosts add a handshake per hop; the first connection may wait for the host key to be trusted
             const timeout = setTimeout(() => {
+                timedOut = true;
                 client.destroy();
+                closeJumpClients();
                 resolve({ success: false, error: 'Connection timeout' });
-            }, 10000);
+            }, READY_TIMEOUT_MS * (1 + (serverData.jumpHosts?.length ?? 0)) + (serverData.hostKey ? 0 : PROMPT_TIMEOUT_MS));
 
             client.on('ready', () => {
                 clearTimeout(timeout);
                 client.end();
+                closeJumpClients();
                 resolve({ success: true });
             });
 
             client.on('error', (error: Error) => {
                 clearTimeout(timeout);
-                resolve({ success: false, error: error.message });
+                closeJumpClients();
+                resolve({ success: false, error: hostKeyError ?? error.message });
             });
 
-            const connectConfig: ConnectConfig = {
-                host: serverData.host,
-                port: serverData.port,
-                username: serverData.username,
-                readyTimeout: 10000
-            };
-
-            if (serverData.privateKeyPath) {
-                fs.readFile(serverData.privateKeyPath, 'utf-8')
-                    .then(privateKey => {
-                        connectConfig.privateKey = privateKey;
-                        client.connect(connectConfig);
-                    })
-                    .catch(keyError => {
-                        clearTimeout(timeout);
-                        resolve({ success: false, error: `Failed to read private key: ${keyError}` });
-                    });
-            } else if (serverData.privateKey) {
-                connectConfig.privateKey = serverData.privateKey;
-                client.connect(connectConfig);
-            } else if (serverData.password) {
-                connectConfig.password = serverData.password;
+            (async () => {
+                const connectConfig: ConnectConfig = {
+                    ...(await this.buildAuthConfig(serverData, endpoint.label)),
+                    ...this.hostKeyConfig(endpoint, message => { hostKeyError = message; })
+                };
+                const chain = resolveJumpChain(serverData, id => this.servers.get(id));
+                if (chain.length > 0) {
+                    const tunnel = await this.openJumpTunnel(chain, serverData.host, serverData.port);
+                    jumpClients = tunnel.clients;
+                    connectConfig.sock = tunnel.stream;
+                }
+                if (timedOut) {
+                    closeJumpClients();
+                    return;
+                }
                 client.connect(connectConfig);
-            } else {
+            })().catch((error: Error) => {
                 clearTimeout(timeout);
-                resolve({ success: false, error: 'No authentication method provided' });
-            }
+                closeJumpClients();
+                resolve({ success: false, error: error.message });
+            });
         });
     }
 
@@ -504,7 +1264,7 @@ export class ServerManagementService extends EventEmitter {
                 success: true,
                 host: server.host,
                 username: server.username,
-                authenticationType: (server.privateKeyPath || server.privateKey) ? 'key' : 'password',
+                authenticationType: (server.privateKeyPath || server.privateKey) ? 'key' : server.useAgent && !server.password ? 'agent' : 'password',
                 osInfo: osInfo.stdout.trim() || undefined,
                 kernelVersion: kernelInfo.stdout.trim() || undefined,
                 homeDirectory: homeDir.stdout.trim() || undefined,
@@ -516,7 +1276,7 @@ export class ServerManagementService extends EventEmitter {
                 success: false,
                 host: server.host,
                 username: server.username,
-                authenticationType: (server.privateKeyPath || server.privateKey) ? 'key' : 'password',
+                authenticationType: (server.privateKeyPath || server.privateKey) ? 'key' : server.useAgent && !server.password ? 'agent' : 'password',
                 error: (error as Error).message,
                 connectionTime: Date.now() - startTime
             };
@@ -568,7 +1328,7 @@ fi
     /**
      * Detect common deployment paths on the server
      */
-    public async detectDeployPaths(serverId: string): Promise<SuggestedDeployPath[]> {
+    public async detectDeployPaths(serverId: string, hint?: DeployPathHint): Promise<SuggestedDeployPath[]> {
         try {
             await this.ensureConnected(serverId);
 
@@ -576,6 +1336,7 @@ fi
 
             // Define common paths to check
             const pathsToCheck = [
+                ...this.stackDeployPaths(hint),
                 { path: '/var/www/html', type: 'webroot' as const, description: 'Apache default webroot' },
                 { path: '/var/www', type: 'webroot' as const, description: 'Common webroot parent' },
                 { path: '/usr/share/nginx/html', type: 'webroot' as const, description: 'Nginx default webroot' },
@@ -618,8 +1379,10 @@ fi
                 });
             }
 
-            // Sort: existing and writable first
+            // Sort: stack suggestions, then existing and writable first
             paths.sort((a, b) => {
+                if (a.type === 'custom' && b.type !== 'custom') return -1;
+                if (b.type === 'custom' && a.type !== 'custom') return 1;
                 if (a.exists && a.writable && (!b.exists || !b.writable)) return -1;
                 if (b.exists && b.writable && (!a.exists || !a.writable)) return 1;
                 if (a.exists && !b.exists) return -1;
@@ -634,45 +1397,97 @@ fi
         }
     }
 
-    /**
-     * Setup file permissions for a deployed application
-     */
-    public async setupPermissions(
-        serverId: string,
-        targetPath: string,
-        config: PermissionConfig
-    ): Promise<{ success: boolean; error?: string }> {
-        try {
-            this.sanitizeTargetPath(targetPath);
-            await this.ensureConnected(serverId);
-
-            const {
-                owner = 'www-data',
-                group = 'www-data',
-                fileMode = '644',
-                dirMode = '755',
-                recursive = true
-            } = config;
+    private buildPermissionsScript(targetPath: string, config: PermissionConfig): string {
+        const {
+            owner = 'www-data',
+            group = 'www-data',
+            fileMode = '644',
+            dirMode = '755',
+            recursive = true,
+            paths = []
+        } = config;
+
+        // Everything below ends up in a sudo shell, so only plain names and octal modes are accepted
+        [owner, group].forEach(name => {
+            if (name && !/^[A-Za-z_][A-Za-z0-9_.-]*$/.test(name)) {
+                throw new Error(`Invalid owner or group: ${name}`);
+            }
+        });
+        [fileMode, dirMode].forEach(mode => {
+            if (mode && !/^[0-7]{3,4}$/.test(mode)) {
+                throw new Error(`Invalid permission mode: ${mode}`);
+            }
+        });
+        paths.forEach(relativePath => this.sanitizeSharedPath(relativePath));
 
-            const commands: string[] = [];
+        const targets = paths.length > 0
+            ? paths.map(relativePath => {
+                const normalized = path.posix.join(targetPath, path.posix.normalize(relativePath.trim()));
+                return this.shellQuote(relativePath.trim().endsWith('/') ? `${normalized}/` : normalized);
+            })
+            : [this.shellQuote(targetPath)];
 
+        const commands: string[] = [];
+        targets.forEach(target => {
             // Change ownership
             if (owner || group) {
                 const ownerGroup = `${owner}:${group}`;
-                commands.push(`chown ${recursive ? '-R' : ''} ${ownerGroup} ${this.shellQuote(targetPath)}`);
+                commands.push(`chown ${recursive ? '-R' : ''} ${ownerGroup} ${target}`);
             }
 
             // Set directory permissions
             if (dirMode && recursive) {
-                commands.push(`find ${this.shellQuote(targetPath)} -type d -exec chmod ${dirMode} {} \\;`);
+                commands.push(`find ${target} -type d -exec chmod ${dirMode} {} \\;`);
             }
 
-            // Set file permissions  
+            // Set file permissions
             if (fileMode && recursive) {
-                commands.push(`find ${this.shellQuote(targetPath)} -type f -exec chmod ${fileMode} {} \\;`);
+                commands.push(`find ${target} -type f -exec chmod ${fileMode} {} \\;`);
             }
+        });
+
+        return `set -e\n${commands.join('\n')}`;
+    }
+
+    private stackDeployPaths(hint?: DeployPathHint): { path: string; type: 'custom'; description: string }[] {
+        if (!hint || hint.stack === 'unknown') {
+            return [];
+        }
+
+        const name = (hint.projectName || 'app').replace(/[^A-Za-z0-9_.-]/g, '-');
+        const base = `/var/www/${name}`;
+        const served = [hint.strategy === 'releases' ? 'current' : '', hint.webRoot || '']
+            .filter(Boolean)
+            .join('/');
+        const serveNote = served ? `; point the web server at ${base}/${served}` : '';
+        const labels: Record<Exclude<ProjectStackType, 'unknown'>, string> = {
+            laravel: 'Laravel application',
+            wordpress: 'WordPress site',
+            node: 'Node.js application',
+            static: 'Static site',
+            docker: 'Docker project'
+        };
+
+        const suggestions = [{ path: base, type: 'custom' as const, description: `${labels[hint.stack]}${serveNote}` }];
+        if (hint.stack === 'wordpress') {
+            suggestions.push({ path: '/var/www/html', type: 'custom' as const, description: 'WordPress in the default Apache webroot' });
+        }
+        return suggestions;
+    }
+
+    /**
+     * Setup file permissions for a deployed application
+     */
+    public async setupPermissions(
+        serverId: string,
+        targetPath: string,
+        config: PermissionConfig
+    ): Promise<{ success: boolean; error?: string }> {
+        try {
+            this.sanitizeTargetPath(targetPath);
+            await this.ensureConnected(serverId);
 
-            const script = `set -e\n${commands.join('\n')}`;
+            const script = this.buildPermissionsScript(targetPath, config);
             const result = await this.executeCommand(serverId, `sudo bash -c ${this.shellQuote(script)}`);
 
             if (result.code !== 0) {
@@ -733,9 +1548,25 @@ chmod +x ${this.shellQuote(hookPath)}
             targetPath,
             clean = false,
             useGitHubPat = true,
+            buildCommand,
+            installDependencies = false,
+            reuseUnchangedDependencies = true,
+            migrateCommand,
+            cacheClearCommand,
             preDeployScript,
             postDeployScript,
-            environmentVariables = {}
+            permissions,
+            healthCheck,
+            environmentVariables = {},
+            commitSha,
+            rollbackOf,
+            groupId,
+            strategy = 'in-place',
+            sharedPaths = [],
+            keepReleases = DEFAULT_KEEP_RELEASES,
+            existingRelease,
+            stepTimeoutMs = DEFAULT_STEP_TIMEOUT_MS,
+            timeoutMs = DEFAULT_DEPLOYMENT_TIMEOUT_MS
         } = request;
 
         const server = this.servers.get(serverId);
@@ -771,16 +1602,92 @@ chmod +x ${this.shellQuote(hookPath)}
             throw new Error(`Invalid environment variable key: ${invalidEnvKey}`);
         }
 
+        if (commitSha && !/^[0-9a-f]{7,40}$/i.test(commitSha)) {
+            throw new Error(`Invalid commit SHA: ${commitSha}`);
+        }
+
+        if (permissions) {
+            // Throws on invalid owners, modes or paths before anything runs
+            this.buildPermissionsScript(targetPath, permissions);
+        }
+
+        if (healthCheck) {
+            this.validateHealthCheck(healthCheck);
+        }
+
+        [stepTimeoutMs, timeoutMs].forEach(value => {
+            if (!Number.isInteger(value) || value < 1000) {
+                throw new Error('Deployment timeouts must be at least one second');
+            }
+        });
+
+        if (strategy === 'releases') {
+            if (!Number.isInteger(keepReleases) || keepReleases < 1) {
+                throw new Error('keepReleases must be a positive integer');
+            }
+            if (existingRelease && !/^[A-Za-z0-9_-][A-Za-z0-9._-]*$/.test(existingRelease)) {
+                throw new Error(`Invalid release name: ${existingRelease}`);
+            }
+            sharedPaths.forEach(sharedPath => this.sanitizeSharedPath(sharedPath));
+        }
+
+        const deploymentId = crypto.randomUUID();
+        const triggeredBy = await this.resolveDeployer(useGitHubPat);
         const steps: DirectDeploymentStepResult[] = [];
         const overallStart = new Date();
+        let deployedCommit: { sha: string; message: string } | undefined;
+        let release: string | undefined;
+        // Set while a new release directory exists but has not been switched live
+        let releaseCreated = false;
+        let healthCheckPassed: boolean | undefined;
+        let autoRollback: DirectDeploymentResult['autoRollback'];
+
+        const controller = new AbortController();
+        this.activeDeployments.set(deploymentId, { serverId, groupId, controller });
+        let deploymentTimedOut = false;
+        const deploymentTimer = setTimeout(() => {
+            deploymentTimedOut = true;
+            controller.abort();
+        }, timeoutMs);
+        const abortError = () => new Error(deploymentTimedOut
+            ? `Deployment timed out after ${formatTimeout(timeoutMs)}`
+            : 'Deployment cancelled');
+        const emitProgress = (progress: DirectDeploymentProgress) => this.emit('server-deployment-progress', progress);
+        emitProgress({ type: 'started', deploymentId, serverId, repository: repository.fullName, startedAt: overallStart.toISOString() });
 
         const runStep = async (name: string, command: string): Promise<void> => {
+            if (controller.signal.aborted) {
+                throw abortError();
+            }
+
+            const stepId = crypto.randomUUID();
             const startedAt = new Date();
-            const result = await this.executeCommand(serverId, command);
+            emitProgress({ type: 'step-start', deploymentId, serverId, stepId, name, startedAt: startedAt.toISOString() });
+
+            // Output is forwarded line by line so a secret is never split across two redacted chunks.
+            // Carriage returns count as line ends too, so progress bars redrawn in place still show up.
+            const partial: Record<'stdout' | 'stderr', string> = { stdout: '', stderr: '' };
+            const forward = (stream: 'stdout' | 'stderr', data: string) => {
+                if (data) {
+                    emitProgress({ type: 'step-output', deploymentId, serverId, stepId, stream, data: this.redactSensitive(data, secrets) });
+                }
+            };
+            const result = await this.executeStreaming(serverId, command, {
+                signal: controller.signal,
+                timeoutMs: stepTimeoutMs,
+                onData: (stream, chunk) => {
+                    const buffered = partial[stream] + chunk;
+                    const forwardable = this.forwardableLength(buffered, secrets);
+                    partial[stream] = buffered.slice(forwardable);
+                    forward(stream, buffered.slice(0, forwardable));
+                }
+            });
+            forward('stdout', partial.stdout);
+            forward('stderr', partial.stderr);
             const finishedAt = new Date();
 
             const step: DirectDeploymentStepResult = {
-                id: crypto.randomUUID(),
+                id: stepId,
                 name,
                 command: this.redactSensitive(command, secrets),
                 stdout: this.redactSensitive(result.stdout, secrets),
@@ -788,63 +1695,381 @@ chmod +x ${this.shellQuote(hookPath)}
                 code: result.code,
                 startedAt: startedAt.toISOString(),
                 finishedAt: finishedAt.toISOString(),
-                success: result.code === 0
+                success: result.code === 0 && !result.timedOut && !controller.signal.aborted,
+                timeoutMs: stepTimeoutMs,
+                timedOut: result.timedOut || undefined,
+                cancelled: (controller.signal.aborted && !deploymentTimedOut) || undefined
             };
 
             steps.push(step);
+            emitProgress({
+                type: 'step-finish',
+                deploymentId,
+                serverId,
+                stepId,
+                code: result.code,
+                success: step.success,
+                timedOut: step.timedOut,
+                finishedAt: step.finishedAt
+            });
 
+            if (controller.signal.aborted) {
+                throw abortError();
+            }
+            if (result.timedOut) {
+                throw new Error(`Step "${name}" timed out after ${formatTimeout(stepTimeoutMs)}`);
+            }
             if (result.code !== 0) {
                 throw new Error(step.stderr || `Step "${name}" failed with exit code ${result.code}`);
             }
         };
 
+        // Records work done by the app itself (rather than one remote command) as a deployment step
+        const runLocalStep = async (
+            name: string,
+            command: string,
+            action: (log: (stream: 'stdout' | 'stderr', line: string) => void) => Promise<void>
+        ): Promise<void> => {
+            if (controller.signal.aborted) {
+                throw abortError();
+            }
+
+            const stepId = crypto.randomUUID();
+            const startedAt = new Date();
+            emitProgress({ type: 'step-start', deploymentId, serverId, stepId, name, startedAt: startedAt.toISOString() });
+
+            const output: Record<'stdout' | 'stderr', string> = { stdout: '', stderr: '' };
+            const log = (stream: 'stdout' | 'stderr', line: string) => {
+                const data = this.redactSensitive(`${line}\n`, secrets);
+                output[stream] += data;
+                emitProgress({ type: 'step-output', deploymentId, serverId, stepId, stream, data });
+            };
+
+            let failure: Error | undefined;
+            try {
+                await action(log);
+            } catch (error) {
+                failure = error as Error;
+            }
+
+            const step: DirectDeploymentStepResult = {
+                id: stepId,
+                name,
+                command: this.redactSensitive(command, secrets),
+                stdout: output.stdout,
+                stderr: output.stderr,
+                code: failure ? 1 : 0,
+                startedAt: startedAt.toISOString(),
+                finishedAt: new Date().toISOString(),
+                success: !failure && !controller.signal.aborted,
+                cancelled: (controller.signal.aborted && !deploymentTimedOut) || undefined
+            };
+            steps.push(step);
+            emitProgress({
+                type: 'step-finish',
+                deploymentId,
+                serverId,
+                stepId,
+                code: step.code,
+                success: step.success,
+                finishedAt: step.finishedAt
+            });
+
+            if (controller.signal.aborted) {
+                throw abortError();
+            }
+            if (failure) {
+                throw failure;
+            }
+        };
+
+        const envExports = Object.entries(environmentVariables)
+            .map(([key, value]) => `export ${key}=${this.shellQuote(value)}`)
+            .join('\n');
+
+        // Prefer passwordless sudo, falling back to the deploy user's own rights like setupPermissions does
+        const runPermissions = async (dir: string): Promise<void> => {
+            if (!permissions) {
+                return;
+            }
+            const script = this.shellQuote(this.buildPermissionsScript(dir, permissions));
+            await runStep('Set permissions', `if sudo -n true 2>/dev/null; then sudo -n bash -c ${script}; else bash -c ${script}; fi`);
+        };
+
+        const runInTree = (name: string, dir: string, script: string) =>
+            runStep(name, `bash -lc ${this.shellQuote(`set -e\n${envExports}\ncd ${this.shellQuote(dir)}\n${script}`)}`);
+
+        // Install, build, migrate and cache clear each run as their own step in the checked-out tree
+        const runBuildPhases = async (dir: string, previousDir?: string): Promise<void> => {
+            if (installDependencies) {
+                const installers = await this.detectDependencyInstallers(serverId, dir, stepTimeoutMs);
+                for (const installer of installers) {
+                    await runInTree(
+                        `Install dependencies (${installer.manager})`,
+                        dir,
+                        this.buildInstallScript(installer, reuseUnchangedDependencies, previousDir)
+                    );
+                }
+            }
+
+            const phases: Array<[string, string | undefined]> = [
+                ['Build', buildCommand],
+                ['Run migrations', migrateCommand],
+                ['Clear caches', cacheClearCommand]
+            ];
+            for (const [name, command] of phases) {
+                if (command && command.trim().length > 0) {
+                    await runInTree(name, dir, command);
+                }
+            }
+        };
+
+        // All probes have to pass in the same attempt; attempts are spaced with a doubling backoff
+        const runHealthCheck = (dir: string, config: HealthCheckConfig) => runLocalStep(
+            'Health check',
+            config.probes.map(describeProbe).join('\n'),
+            async (log) => {
+                const attempts = config.attempts ?? DEFAULT_HEALTH_CHECK_ATTEMPTS;
+                let delay = config.initialDelayMs ?? DEFAULT_HEALTH_CHECK_DELAY_MS;
+                let backoff = config.backoffMs ?? DEFAULT_HEALTH_CHECK_BACKOFF_MS;
+
+                for (let attempt = 1; attempt <= attempts; attempt++) {
+                    if (delay > 0) {
+                        log('stdout', `Waiting ${formatTimeout(delay)} before attempt ${attempt} of ${attempts}`);
+                        await waitFor(delay, controller.signal);
+                    }
+
+                    const failures: string[] = [];
+                    for (const probe of config.probes) {
+                        try {
+                            log('stdout', await this.runHealthProbe(serverId, probe, dir, envExports, controller.signal));
+                        } catch (error) {
+                            failures.push((error as Error).message);
+                            log('stderr', (error as Error).message);
+                        }
+                    }
+                    if (failures.length === 0) {
+                        log('stdout', `Health check passed on attempt ${attempt}`);
+                        return;
+                    }
+                    if (attempt === attempts) {
+                        throw new Error(`Health check failed after ${attempts} attempt${attempts === 1 ? '' : 's'}: ${failures.join('; ')}`);
+                    }
+                    delay = backoff;
+                    backoff = Math.min(backoff * 2, MAX_HEALTH_CHECK_BACKOFF_MS);
+                }
+            }
+        );
+
+        // A failed check reverts to what was live before; the revert steps are part of this deployment
+        const verifyDeployment = async (liveDir: string, revert?: { release?: string; run: () => Promise<void> }): Promise<void> => {
+            if (!healthCheck) {
+                return;
+            }
+            try {
+                await runHealthCheck(liveDir, healthCheck);
+                healthCheckPassed = true;
+            } catch (error) {
+                if (controller.signal.aborted) {
+                    throw error;
+                }
+                healthCheckPassed = false;
+                if (!revert || healthCheck.autoRollback === false) {
+                    throw error;
+                }
+
+                try {
+                    await revert.run();
+                } catch (revertError) {
+                    autoRollback = { success: false, release: revert.release };
+                    throw new Error(`${(error as Error).message}. Automatic rollback failed: ${(revertError as Error).message}`);
+                }
+                const restored = await this.getDeployedCommit(serverId, liveDir, stepTimeoutMs);
+                autoRollback = { success: true, release: revert.release, commitSha: restored?.sha };
+                throw new Error(`${(error as Error).message}. Rolled back to ${revert.release ? `release ${revert.release}` : restored?.sha.slice(0, 7)}`);
+            }
+        };
+
         try {
-            if (clean) {
-                const cleanScript = `set -e\nTARGET=${this.shellQuote(targetPath)}\nif [ -d "$TARGET" ]; then\n  rm -rf "$TARGET"\nfi`;
-                await runStep('Clean target directory', `bash -lc ${this.shellQuote(cleanScript)}`);
-            }
-
-            const ensureDirScript = `set -e\nmkdir -p ${this.shellQuote(targetPath)}`;
-            await runStep('Ensure target directory', `bash -lc ${this.shellQuote(ensureDirScript)}`);
-
-            if (preDeployScript && preDeployScript.trim().length > 0) {
-                const preScript = `set -e\ncd ${this.shellQuote(targetPath)}\n${preDeployScript}`;
-                await runStep('Pre-deploy script', `bash -lc ${this.shellQuote(preScript)}`);
-            }
-
-            const envExports = Object.entries(environmentVariables)
-                .map(([key, value]) => `export ${key}=${this.shellQuote(value)}`)
-                .join('\n');
-
-            const deployScriptLines = [
-                'set -e',
-                envExports,
-                `TARGET=${this.shellQuote(targetPath)}`,
-                `BRANCH=${this.shellQuote(branch)}`,
-                `AUTH_URL=${this.shellQuote(authenticatedCloneUrl)}`,
-                `PLAIN_URL=${this.shellQuote(repository.cloneUrl)}`,
-                'if [ ! -d "$TARGET" ]; then',
-                '  mkdir -p "$TARGET"',
-                'fi',
-                'if [ -d "$TARGET/.git" ]; then',
-                '  git -C "$TARGET" fetch origin',
-                '  git -C "$TARGET" checkout "$BRANCH"',
-                '  git -C "$TARGET" reset --hard "origin/$BRANCH"',
-                'else',
-                '  git clone --branch "$BRANCH" "$AUTH_URL" "$TARGET"',
-                '  git -C "$TARGET" remote set-url origin "$PLAIN_URL"',
-                'fi'
-            ].filter(Boolean).join('\n');
-
-            await runStep('Synchronize repository', `bash -lc ${this.shellQuote(deployScriptLines)}`);
-
-            if (postDeployScript && postDeployScript.trim().length > 0) {
-                const postScript = `set -e\ncd ${this.shellQuote(targetPath)}\n${postDeployScript}`;
-                await runStep('Post-deploy script', `bash -lc ${this.shellQuote(postScript)}`);
+            if (strategy === 'releases') {
+                const releasesDir = path.posix.join(targetPath, 'releases');
+                let reuseRelease = false;
+
+                if (existingRelease) {
+                    const check = await this.executeCommand(
+                        serverId,
+                        `test -d ${this.shellQuote(path.posix.join(releasesDir, existingRelease))}`,
+                        { timeoutMs: stepTimeoutMs }
+                    );
+                    reuseRelease = check.code === 0;
+                    if (!reuseRelease && !commitSha) {
+                        throw new Error(`Release ${existingRelease} no longer exists on the server`);
+                    }
+                }
+
+                release = reuseRelease && existingRelease ? existingRelease : this.formatReleaseName(overallStart);
+                const releasePath = path.posix.join(releasesDir, release);
+
+                if (!reuseRelease) {
+                    const layoutScript = [
+                        'set -e',
+                        envExports,
+                        `TARGET=${this.shellQuote(targetPath)}`,
+                        `RELEASE=${this.shellQuote(releasePath)}`,
+                        `BRANCH=${this.shellQuote(branch)}`,
+                        `AUTH_URL=${this.shellQuote(authenticatedCloneUrl)}`,
+                        `PLAIN_URL=${this.shellQuote(repository.cloneUrl)}`,
+                        'mkdir -p "$TARGET/releases" "$TARGET/shared"',
+                        // Bare mirror of the remote so each release is a fast local clone
+                        'if [ -d "$TARGET/repo" ]; then',
+                        '  git -C "$TARGET/repo" fetch --prune "$AUTH_URL" "+refs/heads/*:refs/heads/*"',
+                        'else',
+                        '  git clone --mirror "$AUTH_URL" "$TARGET/repo"',
+                        '  git -C "$TARGET/repo" remote set-url origin "$PLAIN_URL"',
+                        'fi',
+                        'if [ -e "$RELEASE" ]; then',
+                        '  echo "$RELEASE already exists" >&2',
+                        '  exit 1',
+                        'fi',
+                        // A clone or checkout that fails part way leaves nothing behind under releases/
+                        'trap \'[ $? -eq 0 ] || rm -rf "$RELEASE"\' EXIT',
+                        'git clone --branch "$BRANCH" "$TARGET/repo" "$RELEASE"',
+                        'git -C "$RELEASE" remote set-url origin "$PLAIN_URL"',
+                        commitSha ? `git -C "$RELEASE" checkout --force --detach ${this.shellQuote(commitSha)}` : ''
+                    ].filter(Boolean).join('\n');
+
+                    await runStep(`Create release ${release}`, `bash -lc ${this.shellQuote(layoutScript)}`);
+                    releaseCreated = true;
+
+                    if (sharedPaths.length > 0) {
+                        await runStep('Link shared files', `bash -lc ${this.shellQuote(this.buildSharedLinksScript(targetPath, releasePath, sharedPaths))}`);
+                    }
+
+                    if (preDeployScript && preDeployScript.trim().length > 0) {
+                        await runInTree('Pre-deploy script', releasePath, preDeployScript);
+                    }
+
+                    await runBuildPhases(releasePath, path.posix.join(targetPath, 'current'));
+
+                    // Scripts run inside the new release before it goes live, so a failure never touches `current`
+                    if (postDeployScript && postDeployScript.trim().length > 0) {
+                        const postScript = `set -e\n${envExports}\ncd ${this.shellQuote(releasePath)}\n${postDeployScript}`;
+                        await runStep('Post-deploy script', `bash -lc ${this.shellQuote(postScript)}`);
+                    }
+
+                    await runPermissions(releasePath);
+                }
+
+                deployedCommit = await this.getDeployedCommit(serverId, releasePath, stepTimeoutMs);
+
+                let previousRelease: string | undefined;
+                if (healthCheck) {
+                    const link = await this.executeCommand(serverId, `readlink ${this.shellQuote(path.posix.join(targetPath, 'current'))}`, { timeoutMs: stepTimeoutMs });
+                    const linked = link.code === 0 ? path.posix.basename(link.stdout.trim()) : '';
+                    previousRelease = linked && linked !== release ? linked : undefined;
+                }
+
+                const activateScript = [
+                    'set -e',
+                    `cd ${this.shellQuote(targetPath)}`,
+                    'if [ -e current ] && [ ! -L current ]; then',
+                    '  echo "$(pwd)/current exists and is not a symlink; move it away before using release deployments" >&2',
+                    '  exit 1',
+                    'fi',
+                    `ln -sfn ${this.shellQuote(`releases/${release}`)} current.tmp`,
+                    'mv -Tf current.tmp current'
+                ].join('\n');
+                await runStep('Activate release', `bash -lc ${this.shellQuote(activateScript)}`);
+                releaseCreated = false;
+
+                const failedRelease = reuseRelease ? undefined : release;
+                await verifyDeployment(path.posix.join(targetPath, 'current'), previousRelease ? {
+                    release: previousRelease,
+                    run: async () => {
+                        const revertScript = [
+                            'set -e',
+                            `cd ${this.shellQuote(targetPath)}`,
+                            `ln -sfn ${this.shellQuote(`releases/${previousRelease}`)} current.tmp`,
+                            'mv -Tf current.tmp current',
+                            failedRelease ? `rm -rf -- ${this.shellQuote(`releases/${failedRelease}`)}` : ''
+                        ].filter(Boolean).join('\n');
+                        await runStep(`Roll back to release ${previousRelease}`, `bash -lc ${this.shellQuote(revertScript)}`);
+                    }
+                } : undefined);
+
+                const cleanupScript = [
+                    'set -e',
+                    `cd ${this.shellQuote(releasesDir)}`,
+                    'LIVE=$(basename "$(readlink ../current)")',
+                    `ls -1 | sort -r | tail -n +${keepReleases + 1} | while read -r old; do`,
+                    '  if [ "$old" != "$LIVE" ]; then rm -rf -- "$old"; fi',
+                    'done'
+                ].join('\n');
+                await runStep(`Keep last ${keepReleases} releases`, `bash -lc ${this.shellQuote(cleanupScript)}`);
+            } else {
+                // Read before the tree is touched so a failed health check can return to it
+                const previousCommit = healthCheck ? (await this.getDeployedCommit(serverId, targetPath, stepTimeoutMs))?.sha : undefined;
+
+                const runInPlacePhases = async (): Promise<void> => {
+                    await runBuildPhases(targetPath);
+
+                    if (postDeployScript && postDeployScript.trim().length > 0) {
+                        await runInTree('Post-deploy script', targetPath, postDeployScript);
+                    }
+
+                    await runPermissions(targetPath);
+                };
+
+                if (clean) {
+                    const cleanScript = `set -e\nTARGET=${this.shellQuote(targetPath)}\nif [ -d "$TARGET" ]; then\n  rm -rf "$TARGET"\nfi`;
+                    await runStep('Clean target directory', `bash -lc ${this.shellQuote(cleanScript)}`);
+                }
+
+                const ensureDirScript = `set -e\nmkdir -p ${this.shellQuote(targetPath)}`;
+                await runStep('Ensure target directory', `bash -lc ${this.shellQuote(ensureDirScript)}`);
+
+                if (preDeployScript && preDeployScript.trim().length > 0) {
+                    await runInTree('Pre-deploy script', targetPath, preDeployScript);
+                }
+
+                const deployScriptLines = [
+                    'set -e',
+                    envExports,
+                    `TARGET=${this.shellQuote(targetPath)}`,
+                    `BRANCH=${this.shellQuote(branch)}`,
+                    `AUTH_URL=${this.shellQuote(authenticatedCloneUrl)}`,
+                    `PLAIN_URL=${this.shellQuote(repository.cloneUrl)}`,
+                    'if [ ! -d "$TARGET" ]; then',
+                    '  mkdir -p "$TARGET"',
+                    'fi',
+                    'if [ -d "$TARGET/.git" ]; then',
+                    '  git -C "$TARGET" fetch origin',
+                    '  git -C "$TARGET" checkout "$BRANCH"',
+                    '  git -C "$TARGET" reset --hard "origin/$BRANCH"',
+                    'else',
+                    '  git clone --branch "$BRANCH" "$AUTH_URL" "$TARGET"',
+                    '  git -C "$TARGET" remote set-url origin "$PLAIN_URL"',
+                    'fi',
+                    commitSha ? `git -C "$TARGET" checkout --force --detach ${this.shellQuote(commitSha)}` : ''
+                ].filter(Boolean).join('\n');
+
+                await runStep(commitSha ? `Check out ${commitSha.slice(0, 7)}` : 'Synchronize repository', `bash -lc ${this.shellQuote(deployScriptLines)}`);
+                deployedCommit = await this.getDeployedCommit(serverId, targetPath, stepTimeoutMs);
+
+                await runInPlacePhases();
+
+                await verifyDeployment(targetPath, previousCommit && previousCommit !== deployedCommit?.sha ? {
+                    run: async () => {
+                        const revertScript = `set -e\ngit -C ${this.shellQuote(targetPath)} checkout --force --detach ${this.shellQuote(previousCommit)}`;
+                        await runStep(`Roll back to ${previousCommit.slice(0, 7)}`, `bash -lc ${this.shellQuote(revertScript)}`);
+                        await runInPlacePhases();
+                    }
+                } : undefined);
             }
 
             const overallEnd = new Date();
             const result: DirectDeploymentResult = {
+                id: deploymentId,
                 success: true,
                 serverId,
                 repository,
@@ -852,14 +2077,30 @@ chmod +x ${this.shellQuote(hookPath)}
                 targetPath,
                 steps,
                 startedAt: overallStart.toISOString(),
-                finishedAt: overallEnd.toISOString()
+                finishedAt: overallEnd.toISOString(),
+                durationMs: overallEnd.getTime() - overallStart.getTime(),
+                strategy,
+                release,
+                commitSha: deployedCommit?.sha,
+                commitMessage: deployedCommit?.message,
+                triggeredBy,
+                rollbackOf,
+                groupId,
+                healthCheckPassed
             };
 
             this.emit('server-deployment-finished', result);
             return result;
         } catch (error) {
+            if (releaseCreated && release) {
+                // Best effort: drop the half-built release; the live `current` link was never touched
+                const releasePath = path.posix.join(targetPath, 'releases', release);
+                await this.executeCommand(serverId, `rm -rf ${this.shellQuote(releasePath)}`, { timeoutMs: stepTimeoutMs }).catch(() => undefined);
+            }
+
             const overallEnd = new Date();
             const result: DirectDeploymentResult = {
+                id: deploymentId,
                 success: false,
                 serverId,
                 repository,
@@ -868,12 +2109,298 @@ chmod +x ${this.shellQuote(hookPath)}
                 steps,
                 startedAt: overallStart.toISOString(),
                 finishedAt: overallEnd.toISOString(),
+                durationMs: overallEnd.getTime() - overallStart.getTime(),
+                strategy,
+                release,
+                commitSha: deployedCommit?.sha,
+                commitMessage: deployedCommit?.message,
+                triggeredBy,
+                rollbackOf,
+                groupId,
+                cancelled: (controller.signal.aborted && !deploymentTimedOut) || undefined,
+                timedOut: deploymentTimedOut || steps.some(step => step.timedOut) || undefined,
+                healthCheckPassed,
+                autoRollback,
                 error: (error as Error).message
             };
 
             this.emit('server-deployment-finished', result);
             return result;
+        } finally {
+            clearTimeout(deploymentTimer);
+            this.activeDeployments.delete(deploymentId);
+        }
+    }
+
+    /**
+     * How much of the buffered output of a step can be forwarded: everything up to the last line end,
+     * or once the unfinished line passes STEP_OUTPUT_MAX_PENDING, all but a tail that may hold the start of a secret
+     */
+    private forwardableLength(buffered: string, secrets: string[]): number {
+        const lineEnd = Math.max(buffered.lastIndexOf('\n'), buffered.lastIndexOf('\r')) + 1;
+        if (buffered.length - lineEnd <= STEP_OUTPUT_MAX_PENDING) {
+            return lineEnd;
+        }
+
+        const candidates = secrets.filter(secret => Boolean(secret));
+        const longest = candidates.reduce((max, secret) => Math.max(max, secret.length), 0);
+        let cut = buffered.length - Math.max(longest - 1, 0);
+        let moved = true;
+        // Never cut through a secret, or its two halves would each slip past redaction
+        while (moved) {
+            moved = false;
+            for (const secret of candidates) {
+                const start = buffered.lastIndexOf(secret, cut - 1);
+                if (start !== -1 && start < cut && start + secret.length > cut) {
+                    cut = start;
+                    moved = true;
+                }
+            }
+        }
+        return cut;
+    }
+
+    /**
+     * Find the package managers a checked-out tree uses from its lockfiles
+     */
+    private async detectDependencyInstallers(serverId: string, dir: string, timeoutMs?: number): Promise<DependencyInstaller[]> {
+        const lockfiles = DEPENDENCY_INSTALLERS.map(installer => installer.lockfile);
+        const result = await this.executeCommand(
+            serverId,
+            `cd ${this.shellQuote(dir)} && for f in ${lockfiles.join(' ')}; do [ -f "$f" ] && echo "$f"; done; true`,
+            { timeoutMs }
+        );
+        const present = new Set(result.stdout.split('\n').map(line => line.trim()).filter(Boolean));
+
+        // Only one JavaScript package manager applies; the list is ordered by precedence
+        let hasJavaScript = false;
+        return DEPENDENCY_INSTALLERS.filter(installer => {
+            if (!present.has(installer.lockfile)) {
+                return false;
+            }
+            if (installer.dependencyDir === 'node_modules') {
+                if (hasJavaScript) {
+                    return false;
+                }
+                hasJavaScript = true;
+            }
+            return true;
+        });
+    }
+
+    /**
+     * Install script that records the lockfile checksum inside the dependency directory, so an
+     * unchanged lockfile skips the install (or, for a new release, reuses the live release's copy)
+     */
+    private buildInstallScript(installer: DependencyInstaller, reuseUnchanged: boolean, previousDir?: string): string {
+        const lockfile = this.shellQuote(installer.lockfile);
+        const lines = [`LOCK_HASH=$(sha256sum ${lockfile} | cut -d' ' -f1)`];
+
+        if (installer.dependencyDir) {
+            const depsDir = this.shellQuote(installer.dependencyDir);
+            const marker = `${depsDir}/${INSTALL_MARKER}`;
+
+            if (reuseUnchanged) {
+                lines.push(
+                    `if [ -f ${marker} ] && [ "$(cat ${marker})" = "$LOCK_HASH" ]; then`,
+                    `  echo "${installer.lockfile} unchanged since the last deploy; skipping install"`,
+                    '  exit 0',
+                    'fi'
+                );
+                if (previousDir && installer.reusable) {
+                    const previous = `${this.shellQuote(previousDir)}/${depsDir}`;
+                    lines.push(
+                        `if [ -f ${previous}/${INSTALL_MARKER} ] && [ "$(cat ${previous}/${INSTALL_MARKER})" = "$LOCK_HASH" ]; then`,
+                        `  rm -rf ${depsDir}`,
+                        `  cp -a ${previous} ${depsDir}`,
+                        `  echo "${installer.lockfile} unchanged; reused ${installer.dependencyDir} from the live release"`,
+                        '  exit 0',
+                        'fi'
+                    );
+                }
+            }
+
+            lines.push(installer.command, `if [ -d ${depsDir} ]; then echo "$LOCK_HASH" > ${marker}; fi`);
+        } else {
+            lines.push(installer.command);
+        }
+
+        return lines.join('\n');
+    }
+
+    private validateHealthCheck(config: HealthCheckConfig): void {
+        if (!Array.isArray(config.probes) || config.probes.length === 0) {
+            throw new Error('Health check needs at least one probe');
+        }
+
+        config.probes.forEach(probe => {
+            if (probe.type === 'http') {
+                let url: URL;
+                try {
+                    url = new URL(probe.url);
+                } catch {
+                    throw new Error(`Invalid health check URL: ${probe.url}`);
+                }
+                if (url.protocol !== 'http:' && url.protocol !== 'https:') {
+                    throw new Error(`Health check URL must use http or https: ${probe.url}`);
+                }
+                if (probe.expectedStatus !== undefined && (!Number.isInteger(probe.expectedStatus) || probe.expectedStatus < 100 || probe.expectedStatus > 599)) {
+                    throw new Error(`Invalid expected status: ${probe.expectedStatus}`);
+                }
+            } else if (probe.type === 'command') {
+                if (!probe.command || !probe.command.trim()) {
+                    throw new Error('Health check command cannot be empty');
+                }
+            } else {
+                throw new Error('Unknown health check probe type');
+            }
+            if (probe.timeoutMs !== undefined && (!Number.isInteger(probe.timeoutMs) || probe.timeoutMs < 1000)) {
+                throw new Error('Health check timeouts must be at least one second');
+            }
+        });
+
+        if (config.attempts !== undefined && (!Number.isInteger(config.attempts) || config.attempts < 1 || config.attempts > 20)) {
+            throw new Error('Health check attempts must be between 1 and 20');
+        }
+        [config.initialDelayMs, config.backoffMs].forEach(value => {
+            if (value !== undefined && (!Number.isInteger(value) || value < 0)) {
+                throw new Error('Health check delays must be zero or more milliseconds');
+            }
+        });
+    }
+
+    /**
+     * Run one health check probe, resolving with a summary or rejecting with why it failed.
+     * HTTP probes are sent from the app; command probes run on the server in the live tree.
+     */
+    private async runHealthProbe(serverId: string, probe: HealthCheckProbe, dir: string, envExports: string, signal: AbortSignal): Promise<string> {
+        const timeoutMs = probe.timeoutMs ?? DEFAULT_PROBE_TIMEOUT_MS;
+        const description = describeProbe(probe);
+
+        if (probe.type === 'command') {
+            const script = `set -e\n${envExports}\ncd ${this.shellQuote(dir)}\n${probe.command}`;
+            const result = await this.executeCommand(serverId, `bash -lc ${this.shellQuote(script)}`, { timeoutMs });
+            if (result.code !== 0) {
+                const reason = result.stderr.trim().split('\n').pop();
+                throw new Error(`${description} exited with code ${result.code}${reason ? `: ${reason}` : ''}`);
+            }
+            return `${description} passed`;
+        }
+
+        const controller = new AbortController();
+        const abort = () => controller.abort();
+        const timer = setTimeout(abort, timeoutMs);
+        signal.addEventListener('abort', abort, { once: true });
+
+        try {
+            let response: Response;
+            let body = '';
+            try {
+                response = await fetch(probe.url, { method: probe.method || 'GET', signal: controller.signal });
+                if (probe.bodyContains) {
+                    body = await response.text();
+                } else {
+                    await response.body?.cancel().catch(() => undefined);
+                }
+            } catch (error) {
+                if (controller.signal.aborted && !signal.aborted) {
+                    throw new Error(`${description} timed out after ${formatTimeout(timeoutMs)}`);
+                }
+                const cause = (error as Error & { cause?: Error }).cause;
+                throw new Error(`${description} failed: ${cause?.message || (error as Error).message}`);
+            }
+
+            const statusMatches = probe.expectedStatus
+                ? response.status === probe.expectedStatus
+                : response.status >= 200 && response.status < 400;
+            if (!statusMatches) {
+                throw new Error(`${description} returned ${response.status}`);
+            }
+            if (probe.bodyContains && !body.includes(probe.bodyContains)) {
+                throw new Error(`${description} returned ${response.status} without the expected text`);
+            }
+            return `${description} returned ${response.status}`;
+        } finally {
+            clearTimeout(timer);
+            signal.removeEventListener('abort', abort);
+        }
+    }
+
+    private sanitizeSharedPath(sharedPath: string): void {
+        const normalized = path.posix.normalize(sharedPath.trim());
+        if (!normalized || normalized === '.' || normalized === '/' || normalized.startsWith('/')) {
+            throw new Error(`Shared path must be relative to the release: ${sharedPath}`);
+        }
+        if (normalized.startsWith('..') || normalized.includes('/../')) {
+            throw new Error(`Shared path cannot traverse parent directories: ${sharedPath}`);
+        }
+    }
+
+    // Sortable by start time; the suffix keeps deploys started in the same second apart
+    private formatReleaseName(date: Date): string {
+        const timestamp = date.toISOString().replace(/[-:T]/g, '').slice(0, 14);
+        return `${timestamp}-${crypto.randomBytes(2).toString('hex')}`;
+    }
+
+    /**
+     * Replace shared paths in a release with symlinks into targetPath/shared.
+     * Missing shared files are seeded from the release (or created empty) on first deploy.
+     */
+    private buildSharedLinksScript(targetPath: string, releasePath: string, sharedPaths: string[]): string {
+        const lines = [
+            'set -e',
+            `SHARED=${this.shellQuote(path.posix.join(targetPath, 'shared'))}`,
+            `RELEASE=${this.shellQuote(releasePath)}`
+        ];
+
+        sharedPaths.forEach(sharedPath => {
+            const isDirectory = sharedPath.trim().endsWith('/');
+            const relative = this.shellQuote(path.posix.normalize(sharedPath.trim()).replace(/\/+$/, ''));
+
+            if (isDirectory) {
+                lines.push(
+                    `if [ ! -e "$SHARED"/${relative} ] && [ -d "$RELEASE"/${relative} ]; then mkdir -p "$(dirname "$SHARED"/${relative})"; cp -a "$RELEASE"/${relative} "$SHARED"/${relative}; fi`,
+                    `mkdir -p "$SHARED"/${relative}`
+                );
+            } else {
+                lines.push(
+                    `mkdir -p "$(dirname "$SHARED"/${relative})"`,
+                    `if [ ! -e "$SHARED"/${relative} ]; then if [ -f "$RELEASE"/${relative} ]; then cp "$RELEASE"/${relative} "$SHARED"/${relative}; else touch "$SHARED"/${relative}; fi; fi`
+                );
+            }
+
+            lines.push(
+                `rm -rf "$RELEASE"/${relative}`,
+                `mkdir -p "$(dirname "$RELEASE"/${relative})"`,
+                `ln -s "$SHARED"/${relative} "$RELEASE"/${relative}`
+            );
+        });
+
+        return lines.join('\n');
+    }
+
+    /**
+     * Read the commit currently checked out in a deployment target
+     */
+    private async getDeployedCommit(serverId: string, targetPath: string, timeoutMs?: number): Promise<{ sha: string; message: string } | undefined> {
+        const result = await this.executeCommand(serverId, `git -C ${this.shellQuote(targetPath)} log -1 --format=%H%n%s`, { timeoutMs });
+        if (result.code !== 0) {
+            return undefined;
+        }
+        const [sha, ...message] = result.stdout.trim().split('\n');
+        return sha ? { sha: sha.trim(), message: message.join('\n').trim() } : undefined;
+    }
+
+    private async resolveDeployer(useGitHubPat: boolean): Promise<string> {
+        if (useGitHubPat) {
+            try {
+                const user = await AuthService.getCurrentUser();
+                return user.login;
+            } catch {
+                // Fall back to the local account below
+            }
         }
+        return os.userInfo().username;
     }
 
     public cleanup(): void {
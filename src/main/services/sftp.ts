@@ -0,0 +1,232 @@
+import * as crypto from 'crypto';
+import * as path from 'path';
+import { Attributes, SFTPWrapper } from 'ssh2';
+import {
+    RemoteDirectoryListing,
+    RemoteFileContent,
+    RemoteFileEntry,
+    RemoteFileSaveResult
+} from '../../shared/types';
+import { serverManagementService } from './serverManagement';
+
+// Larger files (typically logs) should be downloaded instead of opened in the editor
+const MAX_EDITABLE_FILE_SIZE = 5 * 1024 * 1024;
+// SFTP status code for a missing file
+const NO_SUCH_FILE = 2;
+
+const S_IFMT = 0o170000;
+const S_IFDIR = 0o040000;
+const S_IFREG = 0o100000;
+const S_IFLNK = 0o120000;
+
+/**
+ * Describe a remote file from its SFTP attributes
+ */
+export function toRemoteEntry(filePath: string, attrs: Attributes, targetIsDirectory?: boolean): RemoteFileEntry {
+    const format = attrs.mode & S_IFMT;
+    const type = format === S_IFDIR ? 'directory' : format === S_IFREG ? 'file' : format === S_IFLNK ? 'symlink' : 'other';
+    return {
+        name: path.posix.basename(filePath) || '/',
+        path: filePath,
+        type,
+        isDirectory: type === 'directory' || (type === 'symlink' && Boolean(targetIsDirectory)),
+        size: attrs.size,
+        permissions: (attrs.mode & 0o7777).toString(8).padStart(3, '0'),
+        modifiedAt: new Date(attrs.mtime * 1000).toISOString()
+    };
+}
+
+const hashContent = (data: Buffer): string => crypto.createHash('sha256').update(data).digest('hex');
+
+const isMissing = (error: unknown): boolean => (error as { code?: unknown })?.code === NO_SUCH_FILE;
+
+// Wrap an SFTP callback API in a promise
+const call = <T = void>(operation: (callback: (err: Error | undefined | null, result?: T) => void) => void): Promise<T> =>
+    new Promise((resolve, reject) => {
+        operation((err, result) => (err ? reject(err) : resolve(result as T)));
+    });
+
+export class SftpService {
+    static initialize(): void {
+        console.log('SftpService initialized');
+    }
+
+    /**
+     * List a directory, directories first. An empty path lists the login user's home directory.
+     */
+    static async list(serverId: string, dirPath: string): Promise<RemoteDirectoryListing> {
+        const sftp = await serverManagementService.openSftp(serverId);
+        const resolved = dirPath.trim() ? this.normalizePath(dirPath) : await call<string>(cb => sftp.realpath('.', cb));
+        const items = await call<{ filename: string; attrs: Attributes }[]>(cb => sftp.readdir(resolved, cb));
+
+        const entries = await Promise.all(items
+            .filter(item => item.filename !== '.' && item.filename !== '..')
+            .map(async item => {
+                const itemPath = path.posix.join(resolved, item.filename);
+                const entry = toRemoteEntry(itemPath, item.attrs);
+                if (entry.type !== 'symlink') {
+                    return entry;
+                }
+                // Broken links stay listed but cannot be opened
+                const target = await call<Attributes>(cb => sftp.stat(itemPath, cb)).catch(() => null);
+                return toRemoteEntry(itemPath, item.attrs, target ? (target.mode & S_IFMT) === S_IFDIR : false);
+            }));
+
+        entries.sort((a, b) => Number(b.isDirectory) - Number(a.isDirectory) || a.name.localeCompare(b.name));
+        return { path: resolved, entries };
+    }
+
+    static async stat(serverId: string, filePath: string): Promise<RemoteFileEntry> {
+        const sftp = await serverManagementService.openSftp(serverId);
+        const normalized = this.normalizePath(filePath);
+        const attrs = await call<Attributes>(cb => sftp.lstat(normalized, cb));
+        const entry = toRemoteEntry(normalized, attrs);
+        if (entry.type !== 'symlink') {
+            return entry;
+        }
+        const target = await call<Attributes>(cb => sftp.stat(normalized, cb)).catch(() => null);
+        return toRemoteEntry(normalized, attrs, target ? (target.mode & S_IFMT) === S_IFDIR : false);
+    }
+
+    /**
+     * Read a text file for editing, along with the hash used to detect conflicting edits on save
+     */
+    static async readTextFile(serverId: string, filePath: string): Promise<RemoteFileContent> {
+        const sftp = await serverManagementService.openSftp(serverId);
+        return this.readText(sftp, this.normalizePath(filePath));
+    }
+
+    /**
+     * Write a text file. When the hash the file had when it was opened is given and the remote
+     * file has changed since, nothing is written and the current remote content is returned instead.
+     */
+    static async writeTextFile(serverId: string, filePath: string, content: string, expectedHash?: string): Promise<RemoteFileSaveResult> {
+        const sftp = await serverManagementService.openSftp(serverId);
+        const normalized = this.normalizePath(filePath);
+
+        if (expectedHash) {
+            let current: RemoteFileContent;
+            try {
+                current = await this.readText(sftp, normalized);
+            } catch (error) {
+                if (isMissing(error)) {
+                    return { saved: false, conflict: null };
+                }
+                throw error;
+            }
+            if (current.hash !== expectedHash) {
+                return { saved: false, conflict: current };
+            }
+        }
+
+        const data = Buffer.from(content, 'utf8');
+        // Writing in place keeps the file's mode and ownership
+        await call(cb => sftp.writeFile(normalized, data, cb));
+        const attrs = await call<Attributes>(cb => sftp.stat(normalized, cb));
+        return {
+            saved: true,
+            file: {
+                path: normalized,
+                size: attrs.size,
+                modifiedAt: new Date(attrs.mtime * 1000).toISOString(),
+                hash: hashContent(data)
+            }
+        };
+    }
+
+    static async download(serverId: string, remotePath: string, localPath: string): Promise<void> {
+        const sftp = await serverManagementService.openSftp(serverId);
+        await call(cb => sftp.fastGet(this.normalizePath(remotePath), localPath, cb));
+    }
+
+    static async upload(serverId: string, localPath: string, remotePath: string): Promise<void> {
+        const sftp = await serverManagementService.openSftp(serverId);
+        await call(cb => sftp.fastPut(localPath, this.normalizePath(remotePath), cb));
+    }
+
+    static async rename(serverId: string, fromPath: string, toPath: string): Promise<void> {
+        const sftp = await serverManagementService.openSftp(serverId);
+        await call(cb => sftp.rename(this.normalizePath(fromPath), this.normalizePath(toPath), cb));
+    }
+
+    /**
+     * Delete a file or symlink. Directories must be empty unless recursive is set.
+     */
+    static async delete(serverId: string, targetPath: string, recursive: boolean = false): Promise<void> {
+        const normalized = this.normalizePath(targetPath);
+        if (normalized === '/') {
+            throw new Error('Refusing to delete the root directory');
+        }
+        const sftp = await serverManagementService.openSftp(serverId);
+        await this.remove(sftp, normalized, recursive);
+    }
+
+    static async chmod(serverId: string, targetPath: string, mode: string): Promise<void> {
+        if (!/^[0-7]{3,4}$/.test(mode)) {
+            throw new Error('Mode must be an octal value such as 644 or 0755');
+        }
+        const sftp = await serverManagementService.openSftp(serverId);
+        await call(cb => sftp.chmod(this.normalizePath(targetPath), parseInt(mode, 8), cb));
+    }
+
+    static async mkdir(serverId: string, dirPath: string): Promise<void> {
+        const sftp = await serverManagementService.openSftp(serverId);
+        await call(cb => sftp.mkdir(this.normalizePath(dirPath), cb));
+    }
+
+    private static normalizePath(remotePath: string): string {
+        if (!remotePath || !remotePath.startsWith('/')) {
+            throw new Error('Path must be absolute');
+        }
+        if (remotePath.includes('\0')) {
+            throw new Error('Path contains invalid characters');
+        }
+        const normalized = path.posix.normalize(remotePath);
+        return normalized.length > 1 ? normalized.replace(/\/+$/, '') : normalized;
+    }
+
+    private static async readText(sftp: SFTPWrapper, filePath: string): Promise<RemoteFileContent> {
+        const attrs = await call<Attributes>(cb => sftp.stat(filePath, cb));
+        if ((attrs.mode & S_IFMT) !== S_IFREG) {
+            throw new Error('Only regular files can be opened');
+        }
+        if (attrs.size > MAX_EDITABLE_FILE_SIZE) {
+            throw new Error('File is larger than 5 MB; download it instead');
+        }
+
+        const data = await call<Buffer>(cb => sftp.readFile(filePath, cb));
+        if (data.includes(0)) {
+            throw new Error('Binary files cannot be opened in the editor');
+        }
+        const content = data.toString('utf8');
+        // Saving writes the text back as UTF-8, which would replace any other encoding for good
+        if (!Buffer.from(content, 'utf8').equals(data)) {
+            throw new Error('Only UTF-8 text files can be opened in the editor; download it instead');
+        }
+        return {
+            path: filePath,
+            content,
+            size: data.length,
+            modifiedAt: new Date(attrs.mtime * 1000).toISOString(),
+            hash: hashContent(data)
+        };
+    }
+
+    private static async remove(sftp: SFTPWrapper, targetPath: string, recursive: boolean): Promise<void> {
+        const attrs = await call<Attributes>(cb => sftp.lstat(targetPath, cb));
+        if ((attrs.mode & S_IFMT) !== S_IFDIR) {
+            await call(cb => sftp.unlink(targetPath, cb));
+            return;
+        }
+
+        if (recursive) {
+            const items = await call<{ filename: string }[]>(cb => sftp.readdir(targetPath, cb));
+            for (const item of items) {
+                if (item.filename !== '.' && item.filename !== '..') {
+                    await this.remove(sftp, path.posix.join(targetPath, item.filename), true);
+                }
+            }
+        }
+        await call(cb => sftp.rmdir(targetPath, cb));
+    }
+}
@@ -0,0 +1,58 @@
+import * as net from 'net';
+import { Duplex } from 'stream';
+
+// A port on this machine whose connections are carried to a remote host over SSH
+export interface LocalTunnel {
+    host: string;
+    port: number;
+    close: () => Promise<void>;
+}
+
+/**
+ * Listen on a free loopback port and pipe every accepted socket into a channel from openChannel,
+ * e.g. an ssh2 forwardOut stream. Channels are opened per socket, so a dropped SSH connection
+ * only affects the sockets that were using it.
+ */
+export function openLocalTunnel(openChannel: () => Promise<Duplex>): Promise<LocalTunnel> {
+    const sockets = new Set<net.Socket>();
+
+    const server = net.createServer(socket => {
+        sockets.add(socket);
+        socket.on('close', () => sockets.delete(socket));
+        socket.on('error', () => socket.destroy());
+        socket.pause();
+
+        openChannel()
+            .then(channel => {
+                if (socket.destroyed) {
+                    channel.destroy();
+                    return;
+                }
+                channel.on('error', () => socket.destroy());
+                channel.on('close', () => socket.destroy());
+                socket.on('close', () => channel.destroy());
+                socket.pipe(channel).pipe(socket);
+                socket.resume();
+            })
+            .catch((error: Error) => {
+                console.error('Failed to open tunnel channel:', error.message);
+                socket.destroy();
+            });
+    });
+
+    return new Promise((resolve, reject) => {
+        server.once('error', reject);
+        server.listen(0, '127.0.0.1', () => {
+            server.off('error', reject);
+            const { port } = server.address() as net.AddressInfo;
+            resolve({
+                host: '127.0.0.1',
+                port,
+                close: () => new Promise<void>(done => {
+                    sockets.forEach(socket => socket.destroy());
+                    server.close(() => done());
+                })
+            });
+        });
+    });
+}
@@ -0,0 +1,208 @@
+import {
+    DeploymentPreset,
+    ProjectStackDetection,
+    ProjectStackType,
+    StackDetectionTarget
+} from '../../shared/types';
+import { GitHubService } from './github';
+import { serverManagementService } from './serverManagement';
+
+// What the detector needs to know about a project tree
+export interface StackProbe {
+    // Root entries; directories end with '/'
+    files: string[];
+    packageJson?: string | null;
+    composerJson?: string | null;
+    // Used to name processes and containers
+    name?: string;
+}
+
+type DetectionResult = Omit<ProjectStackDetection, 'source'>;
+
+const SERVER_FRAMEWORKS: Array<[string, string]> = [
+    ['next', 'Next.js'],
+    ['nuxt', 'Nuxt'],
+    ['@nestjs/core', 'NestJS'],
+    ['@remix-run/serve', 'Remix'],
+    ['@remix-run/node', 'Remix'],
+    ['express', 'Express'],
+    ['fastify', 'Fastify'],
+    ['koa', 'Koa']
+];
+
+// Frameworks that compile to static files, with the directory they write to
+const STATIC_FRAMEWORKS: Array<[string, string, string]> = [
+    ['gatsby', 'Gatsby', 'public'],
+    ['@angular/core', 'Angular', 'dist'],
+    ['react-scripts', 'Create React App', 'build'],
+    ['astro', 'Astro', 'dist'],
+    ['@vue/cli-service', 'Vue CLI', 'dist'],
+    ['vite', 'Vite', 'dist']
+];
+
+const parseJson = (text?: string | null): Record<string, any> | null => {
+    if (!text) {
+        return null;
+    }
+    try {
+        const parsed = JSON.parse(text);
+        return parsed && typeof parsed === 'object' ? parsed : null;
+    } catch {
+        return null;
+    }
+};
+
+const toProcessName = (name?: string): string =>
+    (name || 'app').replace(/^@[^/]+\//, '').replace(/[^A-Za-z0-9_.-]/g, '-') || 'app';
+
+const packageManager = (files: Set<string>): 'pnpm' | 'yarn' | 'npm' =>
+    files.has('pnpm-lock.yaml') ? 'pnpm' : files.has('yarn.lock') ? 'yarn' : 'npm';
+
+const runScriptCommand = (files: Set<string>, script: string): string => {
+    const manager = packageManager(files);
+    return manager === 'yarn' ? `yarn ${script}` : `${manager} run ${script}`;
+};
+
+/**
+ * Classify a project tree and suggest deployment settings for it
+ */
+export function detectProjectStack(probe: StackProbe): DetectionResult {
+    const files = new Set(probe.files);
+    const composer = parseJson(probe.composerJson);
+    const pkg = parseJson(probe.packageJson);
+    const name = toProcessName(probe.name || pkg?.name);
+    const hasDockerfile = files.has('Dockerfile');
+    const composeFile = ['docker-compose.yml', 'docker-compose.yaml', 'compose.yml', 'compose.yaml'].find(file => files.has(file));
+    const packageScripts: Record<string, string> = pkg?.scripts ?? {};
+    const packageDeps: Record<string, string> = { ...pkg?.dependencies, ...pkg?.devDependencies };
+    const evidence = (...candidates: string[]) => candidates.filter(file => files.has(file));
+    const result = (stack: ProjectStackType, found: string[], preset: DeploymentPreset, framework?: string): DetectionResult =>
+        ({ stack, framework, evidence: found, hasDockerfile, preset });
+
+    const composerRequires = { ...composer?.require, ...composer?.['require-dev'] };
+    if (files.has('artisan') || composerRequires['laravel/framework']) {
+        const assetBuild = packageScripts.build ? runScriptCommand(files, 'build') : undefined;
+        return result('laravel', evidence('artisan', 'composer.json'), {
+            strategy: 'releases',
+            sharedPaths: ['.env', 'storage/'],
+            installDependencies: true,
+            buildCommand: assetBuild,
+            migrateCommand: 'php artisan migrate --force',
+            cacheClearCommand: 'php artisan optimize:clear && php artisan config:cache && php artisan route:cache && php artisan view:cache',
+            postDeployScript: 'php artisan storage:link || true',
+            permissions: { owner: 'www-data', group: 'www-data', dirMode: '775', fileMode: '664', recursive: true, paths: ['storage/', 'bootstrap/cache/'] },
+            webRoot: 'public'
+        }, 'Laravel');
+    }
+
+    const wordpressFiles = evidence('wp-config.php', 'wp-config-sample.php', 'wp-login.php', 'wp-content/');
+    if (wordpressFiles.length > 0) {
+        // Plugins and uploads are written by WordPress itself, so the tree is updated in place
+        return result('wordpress', wordpressFiles, {
+            strategy: 'in-place',
+            installDependencies: files.has('composer.lock'),
+            cacheClearCommand: 'if command -v wp >/dev/null 2>&1; then wp cache flush; fi',
+            permissions: { owner: 'www-data', group: 'www-data', dirMode: '755', fileMode: '644', recursive: true, paths: ['wp-content/'] }
+        }, 'WordPress');
+    }
+
+    if (pkg) {
+        const serverFramework = SERVER_FRAMEWORKS.find(([dependency]) => packageDeps[dependency]);
+        const staticFramework = STATIC_FRAMEWORKS.find(([dependency]) => packageDeps[dependency]);
+
+        if (!serverFramework && staticFramework && packageScripts.build) {
+            const [, framework, outputDir] = staticFramework;
+            return result('static', evidence('package.json'), {
+                strategy: 'releases',
+                installDependencies: true,
+                buildCommand: runScriptCommand(files, 'build'),
+                webRoot: outputDir
+            }, framework);
+        }
+
+        if (!composeFile || serverFramework) {
+            // pm2 keeps its working directory, so Node apps are updated in place rather than via release symlinks
+            const postDeployScript = [
+                'if command -v pm2 >/dev/null 2>&1; then',
+                `  pm2 reload ${name} --update-env 2>/dev/null || pm2 start ${packageManager(files)} --name ${name} -- start`,
+                'else',
+                `  echo "pm2 is not installed; restart ${name} with your process manager" >&2`,
+                'fi'
+            ].join('\n');
+            return result('node', evidence('package.json'), {
+                strategy: 'in-place',
+                installDependencies: true,
+                buildCommand: packageScripts.build ? runScriptCommand(files, 'build') : undefined,
+                postDeployScript: packageScripts.start ? postDeployScript : undefined
+            }, serverFramework?.[1]);
+        }
+    }
+
+    if (composeFile || hasDockerfile) {
+        const postDeployScript = composeFile
+            ? 'docker compose up -d --build --remove-orphans'
+            : [
+                `docker build -t ${name} .`,
+                `docker rm -f ${name} 2>/dev/null || true`,
+                `docker run -d --name ${name} --restart unless-stopped ${name}`
+            ].join('\n');
+        return result('docker', evidence('Dockerfile', composeFile || ''), { strategy: 'in-place', postDeployScript }, composeFile ? 'Docker Compose' : 'Docker');
+    }
+
+    if (files.has('index.html')) {
+        return result('static', evidence('index.html'), { strategy: 'releases' });
+    }
+
+    const lockfiles = evidence('composer.lock', 'package-lock.json', 'yarn.lock', 'pnpm-lock.yaml', 'requirements.txt');
+    return result('unknown', lockfiles, { installDependencies: lockfiles.length > 0 });
+}
+
+export class StackDetectionService {
+    static initialize(): void {
+        console.log('StackDetectionService initialized');
+    }
+
+    /**
+     * Detect the stack of a GitHub repository or of a tree already checked out on a server
+     */
+    static async detect(target: StackDetectionTarget): Promise<ProjectStackDetection> {
+        const probe = target.source === 'github'
+            ? await this.probeRepository(target.repository, target.ref)
+            : await this.probeServer(target.serverId, target.path);
+
+        return { ...detectProjectStack(probe), source: target.source };
+    }
+
+    private static async probeRepository(fullName: string, ref?: string): Promise<StackProbe> {
+        const files = await GitHubService.listDirectory(fullName, '', ref);
+        const [packageJson, composerJson] = await Promise.all([
+            files.includes('package.json') ? GitHubService.getFileText(fullName, 'package.json', ref) : null,
+            files.includes('composer.json') ? GitHubService.getFileText(fullName, 'composer.json', ref) : null
+        ]);
+        return { files, packageJson, composerJson, name: fullName.split('/')[1] };
+    }
+
+    private static async probeServer(serverId: string, dir: string): Promise<StackProbe> {
+        if (!dir.startsWith('/')) {
+            throw new Error('Path must be absolute');
+        }
+        const quoted = `'${dir.replace(/'/g, `'\\''`)}'`;
+
+        const listing = await serverManagementService.executeCommand(serverId, `ls -1Ap ${quoted}`, { timeoutMs: 30000 });
+        if (listing.code !== 0) {
+            throw new Error(listing.stderr.trim() || `Cannot read ${dir}`);
+        }
+        const files = listing.stdout.split('\n').map(line => line.trim()).filter(Boolean);
+
+        const readFile = async (file: string) => {
+            if (!files.includes(file)) {
+                return null;
+            }
+            const result = await serverManagementService.executeCommand(serverId, `cat ${quoted}/${file}`, { timeoutMs: 30000 });
+            return result.code === 0 ? result.stdout : null;
+        };
+
+        const [packageJson, composerJson] = await Promise.all([readFile('package.json'), readFile('composer.json')]);
+        return { files, packageJson, composerJson, name: dir.replace(/\/+$/, '').split('/').pop() };
+    }
+}
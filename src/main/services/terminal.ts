@@ -0,0 +1,207 @@
+import * as crypto from 'crypto';
+import * as fs from 'fs/promises';
+import { EventEmitter } from 'events';
+import { StringDecoder } from 'string_decoder';
+import { ClientChannel } from 'ssh2';
+import { TerminalData, TerminalExit, TerminalOpenOptions, TerminalSession } from '../../shared/types';
+import { serverManagementService } from './serverManagement';
+
+// Keep roughly the last 5MB of output per session for transcripts
+const MAX_TRANSCRIPT_LENGTH = 5 * 1024 * 1024;
+
+interface ActiveTerminal {
+    session: TerminalSession;
+    // Cleared once the shell exits; the transcript stays until the session is closed
+    stream: ClientChannel | null;
+    transcript: TranscriptBuffer;
+    // Detaches from the window that would otherwise close the session later
+    release?: () => void;
+}
+
+/**
+ * Output kept as the chunks it arrived in and only joined when read, dropping the oldest output past the limit
+ */
+export class TranscriptBuffer {
+    private chunks: string[] = [];
+    // Index of the oldest chunk still kept, so dropping output does not shift the array
+    private start = 0;
+    private length = 0;
+
+    constructor(private readonly maxLength: number = MAX_TRANSCRIPT_LENGTH) {}
+
+    append(data: string): void {
+        this.chunks.push(data);
+        this.length += data.length;
+        // Whole chunks are dropped here; a partly outdated oldest chunk is trimmed on read
+        while (this.chunks.length - this.start > 1 && this.length - this.chunks[this.start].length >= this.maxLength) {
+            this.length -= this.chunks[this.start].length;
+            this.start++;
+        }
+        if (this.start > this.chunks.length / 2) {
+            this.chunks = this.chunks.slice(this.start);
+            this.start = 0;
+        }
+    }
+
+    toString(): string {
+        const text = this.chunks.slice(this.start).join('');
+        return text.length > this.maxLength ? text.slice(text.length - this.maxLength) : text;
+    }
+}
+
+/**
+ * Turn raw terminal output into plain text: escape sequences are removed,
+ * backspaces applied and lines redrawn with a carriage return keep their last version.
+ */
+export function toTranscriptText(raw: string): string {
+    const stripped = raw
+        .replace(/\x1b\][^\x07\x1b]*(?:\x07|\x1b\\)/g, '')
+        .replace(/\x1b\[[0-9;?<>=!]*[ -/]*[@-~]/g, '')
+        .replace(/\x1b[()#][0-9A-Za-z]/g, '')
+        .replace(/\x1b[@-_]/g, '');
+
+    return stripped
+        .split(/\r?\n/)
+        .map(line => {
+            const redrawn = line.replace(/\r+$/, '').split('\r').pop() ?? '';
+            const chars: string[] = [];
+            for (const char of redrawn) {
+                if (char === '\b') {
+                    chars.pop();
+                } else if (char === '\t' || char >= ' ') {
+                    chars.push(char);
+                }
+            }
+            return chars.join('');
+        })
+        .join('\n');
+}
+
+export class TerminalService extends EventEmitter {
+    private static instance: TerminalService;
+    private sessions: Map<string, ActiveTerminal> = new Map();
+
+    private constructor() {
+        super();
+    }
+
+    public static getInstance(): TerminalService {
+        if (!TerminalService.instance) {
+            TerminalService.instance = new TerminalService();
+        }
+        return TerminalService.instance;
+    }
+
+    public static initialize(): void {
+        console.log('TerminalService initialized');
+    }
+
+    /**
+     * Open an interactive shell on a server. Output is emitted as 'data' events
+     * and 'exit' is emitted once when the shell ends.
+     */
+    async open(serverId: string, options: TerminalOpenOptions): Promise<TerminalSession> {
+        const stream = await serverManagementService.openShell(serverId, {
+            cols: Math.max(1, Math.floor(options.cols)),
+            rows: Math.max(1, Math.floor(options.rows))
+        });
+
+        const session: TerminalSession = { id: crypto.randomUUID(), serverId, startedAt: new Date().toISOString() };
+        const entry: ActiveTerminal = { session, stream, transcript: new TranscriptBuffer() };
+        this.sessions.set(session.id, entry);
+
+        const decoder = new StringDecoder('utf8');
+        const emitData = (chunk: Buffer) => {
+            const data = decoder.write(chunk);
+            if (data.length === 0) {
+                return;
+            }
+            entry.transcript.append(data);
+            this.emit('data', { sessionId: session.id, data } as TerminalData);
+        };
+
+        let exit: TerminalExit = { sessionId: session.id };
+        stream.on('data', emitData);
+        stream.stderr.on('data', emitData);
+        stream.on('exit', (code: number | null, signal?: string) => {
+            exit = { ...exit, code: code ?? null, signal };
+        });
+        stream.on('error', (error: Error) => {
+            exit = { ...exit, error: error.message };
+        });
+        stream.on('close', () => {
+            if (entry.stream) {
+                entry.stream = null;
+                this.emit('exit', exit);
+            }
+        });
+
+        return session;
+    }
+
+    write(sessionId: string, data: string): void {
+        this.getActiveStream(sessionId).write(data);
+    }
+
+    resize(sessionId: string, cols: number, rows: number): void {
+        this.getActiveStream(sessionId).setWindow(Math.max(1, Math.floor(rows)), Math.max(1, Math.floor(cols)), 0, 0);
+    }
+
+    /**
+     * End the shell if it is still running and forget the session's transcript
+     */
+    close(sessionId: string): void {
+        const entry = this.sessions.get(sessionId);
+        if (!entry) {
+            return;
+        }
+        this.sessions.delete(sessionId);
+        entry.release?.();
+        entry.stream?.close();
+    }
+
+    /**
+     * Close a session once owner, such as the webContents that opened it, is destroyed.
+     * Closing the session first stops watching owner.
+     */
+    closeWhenDestroyed(sessionId: string, owner: EventEmitter): void {
+        const entry = this.sessions.get(sessionId);
+        if (!entry) {
+            return;
+        }
+        const close = () => this.close(sessionId);
+        owner.once('destroyed', close);
+        entry.release = () => owner.removeListener('destroyed', close);
+    }
+
+    closeAll(): void {
+        Array.from(this.sessions.keys()).forEach(sessionId => this.close(sessionId));
+    }
+
+    getSession(sessionId: string): TerminalSession {
+        const entry = this.sessions.get(sessionId);
+        if (!entry) {
+            throw new Error('Terminal session not found');
+        }
+        return entry.session;
+    }
+
+    /**
+     * Write the session's output as plain text; this still works after the shell has exited
+     */
+    async saveTranscript(sessionId: string, filePath: string): Promise<void> {
+        const entry = this.sessions.get(sessionId);
+        if (!entry) {
+            throw new Error('Terminal session not found');
+        }
+        await fs.writeFile(filePath, toTranscriptText(entry.transcript.toString()), 'utf8');
+    }
+
+    private getActiveStream(sessionId: string): ClientChannel {
+        const stream = this.sessions.get(sessionId)?.stream;
+        if (!stream) {
+            throw new Error('Terminal session has ended');
+        }
+        return stream;
+    }
+}
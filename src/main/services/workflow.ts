@@ -1,18 +1,41 @@
 import { Octokit } from '@octokit/rest';
 import * as fs from 'fs';
 import * as path from 'path';
-import { WorkflowRun, WorkflowJob } from '../../shared/types';
+import * as crypto from 'crypto';
+import {
+    WorkflowRun,
+    WorkflowJob,
+    WorkflowJobLogs,
+    WorkflowFile,
+    WorkflowFileSaveRequest,
+    WorkflowFileSaveResult,
+    WorkflowDiagnostic,
+    WorkflowProject,
+    WorkflowProjectInput
+} from '../../shared/types';
 import { AuthService } from './auth';
 import { DashboardService } from './dashboard';
+import { validateWorkflow } from './workflowValidation';
 import { app } from 'electron';
 
+// Where GitHub Actions looks for workflow definitions
+const WORKFLOW_PATH = /^\.github\/workflows\/[^/]+\.ya?ml$/;
+
+// The subset of git check-ref-format rules that names typed into a form tend to break
+const isValidBranchName = (name: string) =>
+    /^[A-Za-z0-9._\/-]+$/.test(name) &&
+    !name.startsWith('/') && !name.endsWith('/') && !name.endsWith('.lock') && !name.endsWith('.') &&
+    !name.includes('..') && !name.includes('//') && !name.startsWith('-');
+
 export class WorkflowService {
     private static instance: WorkflowService;
     private octokit: Octokit | null = null;
     private cachePath: string;
+    private projectsPath: string;
 
     private constructor() {
         this.cachePath = path.join(app.getPath('userData'), 'workflows-cache.json');
+        this.projectsPath = path.join(app.getPath('userData'), 'workflow-projects.json');
     }
 
     public static getInstance(): WorkflowService {
@@ -165,35 +188,78 @@ export class WorkflowService {
                 run_id: runId
             });
 
-            const formattedJobs: WorkflowJob[] = jobsData.jobs.map((job: any) => ({
-                id: job.id,
-                run_id: job.run_id,
-                name: job.name,
-                status: job.status as 'queued' | 'in_progress' | 'completed' | 'waiting',
-                conclusion: job.conclusion as 'success' | 'failure' | 'neutral' | 'cancelled' | 'skipped' | 'timed_out' | undefined,
-                started_at: job.started_at,
-                completed_at: job.completed_at,
-                html_url: job.html_url,
-                steps: (job.steps || []).map((step: any) => ({
-                    name: step.name,
-                    status: step.status as 'queued' | 'in_progress' | 'completed',
-                    conclusion: step.conclusion as 'success' | 'failure' | 'neutral' | 'cancelled' | 'skipped' | 'timed_out' | undefined,
-                    number: step.number,
-                    started_at: step.started_at,
-                    completed_at: step.completed_at
-                }))
-            }));
-
-            return formattedJobs;
+            return jobsData.jobs.map((job: any) => this.formatJob(job));
         } catch (error) {
             throw new Error(`Failed to fetch jobs for workflow run ${runId}: ${error}`);
         }
     }
 
     /**
-     * Get workflow YAML content
+     * Get the log of a job from offset onwards. The API only serves whole logs, so callers
+     * polling a running job pass the size they already have to receive just the new text.
      */
-    async getWorkflowYAML(owner: string, repo: string, workflowId: number): Promise<string> {
+    async getJobLogs(owner: string, repo: string, jobId: number, offset: number = 0): Promise<WorkflowJobLogs> {
+        try {
+            const octokit = await this.getOctokit();
+
+            const { data: job } = await octokit.rest.actions.getJobForWorkflowRun({
+                owner,
+                repo,
+                job_id: jobId
+            });
+
+            let log = '';
+            try {
+                const { data } = await octokit.rest.actions.downloadJobLogsForWorkflowRun({
+                    owner,
+                    repo,
+                    job_id: jobId
+                });
+                log = typeof data === 'string' ? data : Buffer.from(data as ArrayBuffer).toString('utf-8');
+            } catch (error) {
+                // Jobs that have not started yet have no log
+                if ((error as { status?: number }).status !== 404) {
+                    throw error;
+                }
+            }
+
+            const reset = log.length < offset;
+            return {
+                text: reset ? log : log.slice(offset),
+                size: log.length,
+                reset,
+                job: this.formatJob(job)
+            };
+        } catch (error) {
+            throw new Error(`Failed to fetch logs for job ${jobId}: ${error}`);
+        }
+    }
+
+    private formatJob(job: any): WorkflowJob {
+        return {
+            id: job.id,
+            run_id: job.run_id,
+            name: job.name,
+            status: job.status as 'queued' | 'in_progress' | 'completed' | 'waiting',
+            conclusion: job.conclusion as 'success' | 'failure' | 'neutral' | 'cancelled' | 'skipped' | 'timed_out' | undefined,
+            started_at: job.started_at,
+            completed_at: job.completed_at,
+            html_url: job.html_url,
+            steps: (job.steps || []).map((step: any) => ({
+                name: step.name,
+                status: step.status as 'queued' | 'in_progress' | 'completed',
+                conclusion: step.conclusion as 'success' | 'failure' | 'neutral' | 'cancelled' | 'skipped' | 'timed_out' | undefined,
+                number: step.number,
+                started_at: step.started_at,
+                completed_at: step.completed_at
+            }))
+        };
+    }
+
+    /**
+     * Get the workflow file from the default branch, with the SHA needed to update it
+     */
+    async getWorkflowFile(owner: string, repo: string, workflowId: number): Promise<WorkflowFile> {
         try {
             const octokit = await this.getOctokit();
 
@@ -203,19 +269,23 @@ export class WorkflowService {
                 repo,
                 workflow_id: workflowId
             });
-
-            const workflowPath = workflow.path;
+            const { data: repository } = await octokit.rest.repos.get({ owner, repo });
 
             // Get the file content
             const { data: fileData } = await octokit.rest.repos.getContent({
                 owner,
                 repo,
-                path: workflowPath
+                path: workflow.path,
+                ref: repository.default_branch
             });
 
-            if ('content' in fileData) {
-                const content = Buffer.from(fileData.content, 'base64').toString('utf-8');
-                return content;
+            if (!Array.isArray(fileData) && 'content' in fileData) {
+                return {
+                    path: workflow.path,
+                    sha: fileData.sha,
+                    content: Buffer.from(fileData.content, 'base64').toString('utf-8'),
+                    branch: repository.default_branch
+                };
             } else {
                 throw new Error('Workflow file not found');
             }
@@ -224,6 +294,105 @@ export class WorkflowService {
         }
     }
 
+    /**
+     * Check workflow YAML before it is committed, for markers in the editor
+     */
+    validateWorkflowFile(content: string): WorkflowDiagnostic[] {
+        return validateWorkflow(content);
+    }
+
+    /**
+     * Write a workflow file through the contents API, either straight to the base branch or to
+     * a new branch with a pull request. The update names the SHA the edit started from, so it
+     * fails instead of overwriting a version committed in the meantime.
+     */
+    async saveWorkflowFile(owner: string, repo: string, request: WorkflowFileSaveRequest): Promise<WorkflowFileSaveResult> {
+        if (!WORKFLOW_PATH.test(request.path)) {
+            throw new Error('Workflow files must be .yml or .yaml files in .github/workflows');
+        }
+        if (!request.message.trim()) {
+            throw new Error('A commit message is required');
+        }
+        const errors = this.validateWorkflowFile(request.content).filter(diagnostic => diagnostic.severity === 'error');
+        if (errors.length > 0) {
+            throw new Error(`The workflow has ${errors.length} error(s); line ${errors[0].line}: ${errors[0].message}`);
+        }
+
+        const octokit = await this.getOctokit();
+        const toPullRequest = request.mode === 'pull-request';
+        const branch = toPullRequest ? request.branch?.trim() : request.baseBranch;
+        if (!branch || (toPullRequest && !isValidBranchName(branch))) {
+            throw new Error(`Invalid branch name: ${request.branch ?? ''}`);
+        }
+
+        if (toPullRequest) {
+            const { data: base } = await octokit.rest.git.getRef({ owner, repo, ref: `heads/${request.baseBranch}` });
+            try {
+                await octokit.rest.git.createRef({ owner, repo, ref: `refs/heads/${branch}`, sha: base.object.sha });
+            } catch (error) {
+                if ((error as { status?: number }).status === 422) {
+                    throw new Error(`Branch ${branch} already exists`);
+                }
+                throw new Error(`Failed to create branch ${branch}: ${error}`);
+            }
+        }
+
+        let commit;
+        try {
+            const { data } = await octokit.rest.repos.createOrUpdateFileContents({
+                owner,
+                repo,
+                path: request.path,
+                message: request.message,
+                content: Buffer.from(request.content, 'utf-8').toString('base64'),
+                sha: request.sha,
+                branch
+            });
+            commit = data;
+        } catch (error) {
+            if (toPullRequest) {
+                await octokit.rest.git.deleteRef({ owner, repo, ref: `heads/${branch}` }).catch(() => undefined);
+            }
+            if ((error as { status?: number }).status === 409) {
+                throw new Error(`${request.path} was changed on ${request.baseBranch} since it was loaded. Reload it and apply your edits again.`);
+            }
+            throw new Error(`Failed to commit ${request.path}: ${error}`);
+        }
+
+        const result: WorkflowFileSaveResult = {
+            file: { path: request.path, sha: commit.content?.sha ?? request.sha, content: request.content, branch },
+            commitUrl: commit.commit.html_url ?? ''
+        };
+
+        if (toPullRequest) {
+            try {
+                const { data: pullRequest } = await octokit.rest.pulls.create({
+                    owner,
+                    repo,
+                    head: branch,
+                    base: request.baseBranch,
+                    title: request.pullRequestTitle?.trim() || request.message,
+                    body: request.pullRequestBody
+                });
+                result.pullRequest = { number: pullRequest.number, url: pullRequest.html_url };
+            } catch (error) {
+                throw new Error(`Committed to ${branch}, but the pull request could not be opened: ${error}`);
+            }
+        }
+
+        DashboardService.addActivity({
+            type: 'workflow',
+            title: toPullRequest ? 'Workflow Change Proposed' : 'Workflow Updated',
+            description: toPullRequest
+                ? `Opened pull request #${result.pullRequest!.number} for ${request.path}`
+                : `Committed ${request.path} to ${branch}`,
+            status: 'success',
+            repository: `${owner}/${repo}`
+        });
+
+        return result;
+    }
+
     /**
      * Cancel a workflow run
      */
@@ -289,6 +458,71 @@ export class WorkflowService {
         });
     }
 
+    /**
+     * Visual builder projects, most recently changed first
+     */
+    async listWorkflowProjects(): Promise<WorkflowProject[]> {
+        const projects = await this.readProjects();
+        return projects.sort((a, b) => b.updatedAt.localeCompare(a.updatedAt));
+    }
+
+    /**
+     * Create a project, or replace the graph of an existing one when the input has its id
+     */
+    async saveWorkflowProject(input: WorkflowProjectInput): Promise<WorkflowProject> {
+        const name = input.name?.trim();
+        if (!name) {
+            throw new Error('A project name is required');
+        }
+        if (!Array.isArray(input.nodes) || !Array.isArray(input.connections)) {
+            throw new Error('A project needs a list of nodes and connections');
+        }
+
+        const projects = await this.readProjects();
+        if (projects.some(project => project.id !== input.id && project.name.toLowerCase() === name.toLowerCase())) {
+            throw new Error(`A project named ${name} already exists`);
+        }
+
+        const now = new Date().toISOString();
+        const existing = input.id ? projects.find(project => project.id === input.id) : undefined;
+        if (input.id && !existing) {
+            throw new Error('Workflow project not found');
+        }
+        const project: WorkflowProject = {
+            id: existing?.id ?? crypto.randomUUID(),
+            name,
+            nodes: input.nodes,
+            connections: input.connections,
+            createdAt: existing?.createdAt ?? now,
+            updatedAt: now
+        };
+
+        await this.writeProjects(existing
+            ? projects.map(item => (item.id === project.id ? project : item))
+            : [...projects, project]);
+        return project;
+    }
+
+    async deleteWorkflowProject(id: string): Promise<void> {
+        const projects = await this.readProjects();
+        await this.writeProjects(projects.filter(project => project.id !== id));
+    }
+
+    private async readProjects(): Promise<WorkflowProject[]> {
+        try {
+            return JSON.parse(await fs.promises.readFile(this.projectsPath, 'utf-8'));
+        } catch (error) {
+            if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+                return [];
+            }
+            throw new Error(`Failed to read workflow projects: ${error}`);
+        }
+    }
+
+    private async writeProjects(projects: WorkflowProject[]): Promise<void> {
+        await fs.promises.writeFile(this.projectsPath, JSON.stringify(projects, null, 2));
+    }
+
     private saveToCache(workflows: WorkflowRun[]): void {
         try {
             const cacheData = {
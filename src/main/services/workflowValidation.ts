@@ -0,0 +1,571 @@
+import { WorkflowDiagnostic } from '../../shared/types';
+import { YamlMap, YamlNode, YamlPair, YamlRange, YamlScalar, mapGet, parseYaml } from './yamlDocument';
+
+const WORKFLOW_KEYS = ['name', 'run-name', 'on', 'permissions', 'env', 'defaults', 'concurrency', 'jobs'];
+
+const EVENTS = [
+    'branch_protection_rule', 'check_run', 'check_suite', 'create', 'delete', 'deployment', 'deployment_status',
+    'discussion', 'discussion_comment', 'fork', 'gollum', 'issue_comment', 'issues', 'label', 'merge_group',
+    'milestone', 'page_build', 'public', 'pull_request', 'pull_request_review', 'pull_request_review_comment',
+    'pull_request_target', 'push', 'registry_package', 'release', 'repository_dispatch', 'schedule', 'status',
+    'watch', 'workflow_call', 'workflow_dispatch', 'workflow_run'
+];
+
+// Keys each event accepts under it; events not listed only take activity types
+const EVENT_KEYS: Record<string, string[]> = {
+    push: ['branches', 'branches-ignore', 'tags', 'tags-ignore', 'paths', 'paths-ignore'],
+    pull_request: ['types', 'branches', 'branches-ignore', 'paths', 'paths-ignore'],
+    pull_request_target: ['types', 'branches', 'branches-ignore', 'paths', 'paths-ignore'],
+    workflow_run: ['workflows', 'types', 'branches', 'branches-ignore'],
+    workflow_dispatch: ['inputs'],
+    workflow_call: ['inputs', 'outputs', 'secrets']
+};
+
+const JOB_KEYS = [
+    'name', 'permissions', 'needs', 'if', 'runs-on', 'environment', 'concurrency', 'outputs', 'env', 'defaults',
+    'steps', 'timeout-minutes', 'strategy', 'continue-on-error', 'container', 'services', 'uses', 'with', 'secrets'
+];
+// Jobs that call a reusable workflow run nothing themselves
+const CALLER_JOB_KEYS = ['name', 'uses', 'with', 'secrets', 'needs', 'if', 'permissions', 'strategy', 'concurrency'];
+
+const STEP_KEYS = ['id', 'if', 'name', 'uses', 'run', 'shell', 'with', 'env', 'continue-on-error', 'timeout-minutes', 'working-directory'];
+
+const PERMISSION_SCOPES = [
+    'actions', 'attestations', 'checks', 'contents', 'deployments', 'discussions', 'id-token', 'issues', 'models',
+    'packages', 'pages', 'pull-requests', 'repository-projects', 'security-events', 'statuses'
+];
+
+const CONTEXTS = ['github', 'env', 'vars', 'job', 'jobs', 'steps', 'runner', 'secrets', 'strategy', 'matrix', 'needs', 'inputs'];
+const FUNCTIONS = ['contains', 'startswith', 'endswith', 'format', 'join', 'tojson', 'fromjson', 'hashfiles', 'success', 'always', 'cancelled', 'failure'];
+const LITERALS = ['true', 'false', 'null', 'nan', 'infinity'];
+
+const JOB_ID = /^[A-Za-z_][A-Za-z0-9_-]*$/;
+const EXPRESSION_TOKEN = /\s+|'(?:[^']|'')*'?|-?\d+(\.\d+)?(e[-+]?\d+)?|0x[0-9a-f]+|[A-Za-z_][A-Za-z0-9_-]*|==|!=|<=|>=|&&|\|\||[<>!()[\].,*]|=|./gi;
+
+const isString = (node: YamlNode | undefined): node is YamlScalar & { value: string } =>
+    node?.kind === 'scalar' && typeof node.value === 'string';
+
+const isExpression = (node: YamlNode | undefined) =>
+    isString(node) && /^\s*\$\{\{[\s\S]*\}\}\s*$/.test(node.value);
+
+const describeNode = (node: YamlNode) =>
+    node.kind === 'map' ? 'a mapping' : node.kind === 'seq' ? 'a list' : node.value === null ? 'empty' : `'${node.value}'`;
+
+/**
+ * Check the syntax of the text inside ${{ }}: balanced brackets, terminated strings, known
+ * contexts and functions. Returns the first problem found.
+ */
+export function checkExpression(expression: string): string | null {
+    if (!expression.trim()) {
+        return 'Empty expression';
+    }
+
+    const tokens = (expression.match(EXPRESSION_TOKEN) ?? []).filter(token => !/^\s+$/.test(token));
+    const open: string[] = [];
+
+    for (let i = 0; i < tokens.length; i++) {
+        const token = tokens[i];
+        if (token.startsWith("'") && !/^'(?:[^']|'')*'$/.test(token)) {
+            return 'Unterminated string in expression';
+        }
+        if (token === '=') {
+            return "Use '==' to compare values";
+        }
+        if (token === '(' || token === '[') {
+            open.push(token === '(' ? ')' : ']');
+        } else if (token === ')' || token === ']') {
+            if (open.pop() !== token) {
+                return `Unexpected '${token}' in expression`;
+            }
+        } else if (/^[A-Za-z_]/.test(token)) {
+            const name = token.toLowerCase();
+            if (tokens[i - 1] === '.') {
+                continue;
+            }
+            if (tokens[i + 1] === '(') {
+                if (!FUNCTIONS.includes(name)) {
+                    return `Unknown function '${token}'`;
+                }
+            } else if (!CONTEXTS.includes(name) && !LITERALS.includes(name)) {
+                return `Unknown context '${token}'`;
+            }
+        } else if (!/^('|-?\d|0x|==|!=|<=|>=|&&|\|\||[<>!.,*])/i.test(token)) {
+            return `Unexpected '${token}' in expression`;
+        }
+    }
+
+    return open.length > 0 ? `Missing '${open[open.length - 1]}' in expression` : null;
+}
+
+class WorkflowChecker {
+    readonly diagnostics: WorkflowDiagnostic[] = [];
+    private sourceLines: string[];
+
+    constructor(text: string) {
+        this.sourceLines = text.split(/\r?\n/);
+    }
+
+    report(severity: WorkflowDiagnostic['severity'], message: string, range: YamlRange) {
+        this.diagnostics.push({ severity, message, ...range });
+    }
+
+    checkWorkflow(root: YamlNode | null) {
+        const start: YamlRange = { line: 1, column: 1, endLine: 1, endColumn: Math.max(this.sourceLines[0]?.length ?? 0, 1) + 1 };
+        if (!root) {
+            this.report('error', 'The workflow file is empty', start);
+            return;
+        }
+        if (root.kind !== 'map') {
+            this.report('error', 'A workflow must be a mapping of keys such as on and jobs', root.range);
+            return;
+        }
+
+        this.checkKeys(root, WORKFLOW_KEYS, 'the workflow');
+        this.checkExpressions(root);
+
+        const on = mapGet(root, 'on');
+        if (on) {
+            this.checkTriggers(on);
+        } else {
+            this.report('error', "The workflow is missing the 'on' key that says when it runs", start);
+        }
+
+        this.checkPermissions(mapGet(root, 'permissions'));
+        this.checkConcurrency(mapGet(root, 'concurrency'));
+
+        const jobs = mapGet(root, 'jobs');
+        if (!jobs) {
+            this.report('error', "The workflow is missing the 'jobs' key", start);
+        } else if (jobs.value.kind !== 'map' || jobs.value.pairs.length === 0) {
+            this.report('error', 'jobs must define at least one job', jobs.keyRange);
+        } else {
+            this.checkJobs(jobs.value);
+        }
+    }
+
+    private checkKeys(node: YamlMap, allowed: string[], owner: string) {
+        for (const pair of node.pairs) {
+            if (!allowed.includes(pair.key)) {
+                this.report('error', `Unknown key '${pair.key}' in ${owner}`, pair.keyRange);
+            }
+        }
+    }
+
+    private checkTriggers(on: YamlPair) {
+        const knownEvent = (name: string, range: YamlRange) => {
+            if (!EVENTS.includes(name)) {
+                this.report('error', `Unknown event '${name}'`, range);
+                return false;
+            }
+            return true;
+        };
+
+        const node = on.value;
+        if (isString(node)) {
+            knownEvent(node.value, node.range);
+        } else if (node.kind === 'seq') {
+            node.items.forEach(item => (isString(item) ? knownEvent(item.value, item.range) : this.report('error', 'Events must be names', item.range)));
+        } else if (node.kind === 'map') {
+            for (const pair of node.pairs) {
+                if (knownEvent(pair.key, pair.keyRange)) {
+                    this.checkEvent(pair);
+                }
+            }
+        } else {
+            this.report('error', "'on' must name at least one event", on.keyRange);
+        }
+    }
+
+    private checkEvent(event: YamlPair) {
+        const config = event.value;
+        if (event.key === 'schedule') {
+            if (config.kind !== 'seq') {
+                this.report('error', "schedule must be a list of '- cron:' entries", event.keyRange);
+                return;
+            }
+            for (const item of config.items) {
+                const cron = mapGet(item, 'cron');
+                if (!cron || !isString(cron.value)) {
+                    this.report('error', "Each schedule entry needs a 'cron' string", item.range);
+                } else if (cron.value.value.trim().split(/\s+/).length !== 5) {
+                    this.report('error', 'Cron schedules have five fields: minute, hour, day of month, month and day of week', cron.value.range);
+                }
+            }
+            return;
+        }
+        if (config.kind === 'scalar' && config.value === null) {
+            return;
+        }
+        if (config.kind !== 'map') {
+            this.report('error', `The '${event.key}' event must be configured with a mapping, not ${describeNode(config)}`, config.range);
+            return;
+        }
+
+        this.checkKeys(config, EVENT_KEYS[event.key] ?? ['types'], `the '${event.key}' event`);
+        for (const [include, exclude] of [['branches', 'branches-ignore'], ['tags', 'tags-ignore'], ['paths', 'paths-ignore']]) {
+            const excluded = mapGet(config, exclude);
+            if (mapGet(config, include) && excluded) {
+                this.report('error', `'${include}' and '${exclude}' cannot be used together for the same event`, excluded.keyRange);
+            }
+        }
+        for (const pair of config.pairs) {
+            if (pair.key !== 'inputs' && pair.key !== 'outputs' && pair.key !== 'secrets' && pair.value.kind === 'map') {
+                this.report('error', `'${pair.key}' must be a name or a list of names`, pair.value.range);
+            }
+        }
+
+        const inputs = mapGet(config, 'inputs');
+        if (inputs && (event.key === 'workflow_dispatch' || event.key === 'workflow_call')) {
+            this.checkInputs(inputs, event.key === 'workflow_dispatch'
+                ? ['string', 'boolean', 'choice', 'number', 'environment']
+                : ['string', 'boolean', 'number'], event.key === 'workflow_call');
+        }
+    }
+
+    private checkInputs(inputs: YamlPair, types: string[], typeRequired: boolean) {
+        if (inputs.value.kind !== 'map') {
+            this.report('error', 'inputs must be a mapping of input names', inputs.keyRange);
+            return;
+        }
+        for (const input of inputs.value.pairs) {
+            if (input.value.kind !== 'map') {
+                this.report('error', `Input '${input.key}' must be a mapping`, input.keyRange);
+                continue;
+            }
+            this.checkKeys(input.value, ['description', 'required', 'default', 'type', 'options', 'deprecationMessage'], `input '${input.key}'`);
+            const type = mapGet(input.value, 'type');
+            if (!type) {
+                if (typeRequired) {
+                    this.report('error', `Input '${input.key}' needs a type`, input.keyRange);
+                }
+            } else if (!isString(type.value) || !types.includes(type.value.value)) {
+                this.report('error', `Input type must be one of ${types.join(', ')}`, type.value.range);
+            } else if (type.value.value === 'choice' && mapGet(input.value, 'options')?.value.kind !== 'seq') {
+                this.report('error', `Choice input '${input.key}' needs a list of options`, input.keyRange);
+            }
+        }
+    }
+
+    private checkPermissions(permissions: YamlPair | undefined) {
+        if (!permissions) {
+            return;
+        }
+        const node = permissions.value;
+        if (isString(node)) {
+            if (node.value !== 'read-all' && node.value !== 'write-all') {
+                this.report('error', "permissions must be 'read-all', 'write-all' or a mapping of scopes", node.range);
+            }
+            return;
+        }
+        if (node.kind !== 'map') {
+            this.report('error', "permissions must be 'read-all', 'write-all' or a mapping of scopes", permissions.keyRange);
+            return;
+        }
+        for (const scope of node.pairs) {
+            if (!PERMISSION_SCOPES.includes(scope.key)) {
+                this.report('error', `Unknown permission scope '${scope.key}'`, scope.keyRange);
+            } else if (!isString(scope.value) || !['read', 'write', 'none'].includes(scope.value.value)) {
+                this.report('error', "Permission levels are 'read', 'write' or 'none'", scope.value.range);
+            }
+        }
+    }
+
+    private checkConcurrency(concurrency: YamlPair | undefined) {
+        if (!concurrency || isString(concurrency.value)) {
+            return;
+        }
+        if (concurrency.value.kind !== 'map') {
+            this.report('error', 'concurrency must be a group name or a mapping with group', concurrency.keyRange);
+            return;
+        }
+        this.checkKeys(concurrency.value, ['group', 'cancel-in-progress'], 'concurrency');
+        if (!mapGet(concurrency.value, 'group')) {
+            this.report('error', "concurrency needs a 'group'", concurrency.keyRange);
+        }
+    }
+
+    private checkJobs(jobs: YamlMap) {
+        const ids = jobs.pairs.map(pair => pair.key);
+        const needs = new Map<string, YamlScalar[]>();
+
+        for (const job of jobs.pairs) {
+            if (!JOB_ID.test(job.key)) {
+                this.report('error', `Job ID '${job.key}' must start with a letter or _ and contain only letters, numbers, - and _`, job.keyRange);
+            }
+            if (job.value.kind !== 'map') {
+                this.report('error', `Job '${job.key}' must be a mapping`, job.keyRange);
+                continue;
+            }
+
+            const dependencies = this.checkNeeds(job, ids);
+            needs.set(job.key, dependencies);
+            this.checkJob(job.key, job.keyRange, job.value);
+        }
+
+        this.checkCycles(needs);
+    }
+
+    private checkNeeds(job: YamlPair, ids: string[]): YamlScalar[] {
+        const needs = mapGet(job.value, 'needs');
+        if (!needs) {
+            return [];
+        }
+        const items = needs.value.kind === 'seq' ? needs.value.items : [needs.value];
+        const dependencies: YamlScalar[] = [];
+        for (const item of items) {
+            if (!isString(item)) {
+                this.report('error', 'needs must be a job ID or a list of job IDs', item.range);
+            } else if (item.value === job.key) {
+                this.report('error', `Job '${job.key}' cannot need itself`, item.range);
+            } else if (!ids.includes(item.value)) {
+                this.report('error', `Job '${job.key}' needs '${item.value}', which is not a job in this workflow`, item.range);
+            } else {
+                dependencies.push(item);
+            }
+        }
+        return dependencies;
+    }
+
+    private checkCycles(needs: Map<string, YamlScalar[]>) {
+        const state = new Map<string, 'visiting' | 'done'>();
+        const path: string[] = [];
+
+        const visit = (id: string) => {
+            state.set(id, 'visiting');
+            path.push(id);
+            for (const dependency of needs.get(id) ?? []) {
+                const target = dependency.value as string;
+                if (state.get(target) === 'visiting') {
+                    const cycle = [...path.slice(path.indexOf(target)), target];
+                    this.report('error', `Circular job dependency: ${cycle.join(' → ')}`, dependency.range);
+                } else if (!state.has(target)) {
+                    visit(target);
+                }
+            }
+            path.pop();
+            state.set(id, 'done');
+        };
+
+        for (const id of needs.keys()) {
+            if (!state.has(id)) {
+                visit(id);
+            }
+        }
+    }
+
+    private checkJob(id: string, keyRange: YamlRange, job: YamlMap) {
+        this.checkCondition(mapGet(job, 'if'));
+
+        const uses = mapGet(job, 'uses');
+        if (uses) {
+            this.checkKeys(job, CALLER_JOB_KEYS, `job '${id}', which calls a reusable workflow`);
+            this.checkWorkflowReference(uses.value);
+            return;
+        }
+
+        this.checkKeys(job, JOB_KEYS, `job '${id}'`);
+        this.checkPermissions(mapGet(job, 'permissions'));
+        this.checkConcurrency(mapGet(job, 'concurrency'));
+
+        const runsOn = mapGet(job, 'runs-on');
+        if (!runsOn) {
+            this.report('error', `Job '${id}' is missing 'runs-on'`, keyRange);
+        } else {
+            this.checkRunsOn(runsOn);
+        }
+
+        const timeout = mapGet(job, 'timeout-minutes');
+        if (timeout && typeof (timeout.value as YamlScalar).value !== 'number' && !isExpression(timeout.value)) {
+            this.report('error', 'timeout-minutes must be a number', timeout.value.range);
+        }
+
+        const strategy = mapGet(job, 'strategy');
+        if (strategy) {
+            if (strategy.value.kind !== 'map') {
+                this.report('error', 'strategy must be a mapping', strategy.keyRange);
+            } else {
+                this.checkKeys(strategy.value, ['matrix', 'fail-fast', 'max-parallel'], 'strategy');
+                const matrix = mapGet(strategy.value, 'matrix');
+                if (matrix && matrix.value.kind !== 'map' && !isExpression(matrix.value)) {
+                    this.report('error', 'matrix must be a mapping or an expression', matrix.value.range);
+                }
+            }
+        }
+
+        const steps = mapGet(job, 'steps');
+        if (!steps) {
+            this.report('error', `Job '${id}' has no steps`, keyRange);
+        } else if (steps.value.kind !== 'seq' || steps.value.items.length === 0) {
+            this.report('error', 'steps must be a list with at least one step', steps.keyRange);
+        } else {
+            this.checkSteps(steps.value.items);
+        }
+    }
+
+    private checkRunsOn(runsOn: YamlPair) {
+        const node = runsOn.value;
+        if (isString(node)) {
+            if (!node.value.trim()) {
+                this.report('error', 'runs-on needs a runner label', node.range);
+            }
+        } else if (node.kind === 'seq') {
+            if (node.items.length === 0) {
+                this.report('error', 'runs-on needs at least one runner label', node.range);
+            }
+            node.items.filter(item => !isString(item)).forEach(item => this.report('error', 'Runner labels must be strings', item.range));
+        } else if (node.kind === 'map') {
+            this.checkKeys(node, ['group', 'labels'], 'runs-on');
+        } else {
+            this.report('error', 'runs-on needs a runner label such as ubuntu-latest', runsOn.keyRange);
+        }
+    }
+
+    private checkSteps(steps: YamlNode[]) {
+        const ids = new Set<string>();
+
+        steps.forEach((step, index) => {
+            if (step.kind !== 'map') {
+                this.report('error', `Step ${index + 1} must be a mapping`, step.range);
+                return;
+            }
+            this.checkKeys(step, STEP_KEYS, `step ${index + 1}`);
+            this.checkCondition(mapGet(step, 'if'));
+
+            const uses = mapGet(step, 'uses');
+            const run = mapGet(step, 'run');
+            if (uses && run) {
+                this.report('error', "A step cannot have both 'uses' and 'run'", run.keyRange);
+            } else if (!uses && !run) {
+                this.report('error', `Step ${index + 1} needs either 'uses' or 'run'`, step.pairs[0].keyRange);
+            }
+            if (uses) {
+                this.checkActionReference(uses.value);
+                for (const key of ['shell', 'working-directory']) {
+                    const pair = mapGet(step, key);
+                    if (pair) {
+                        this.report('warning', `'${key}' only applies to 'run' steps`, pair.keyRange);
+                    }
+                }
+            }
+
+            const id = mapGet(step, 'id');
+            if (id && isString(id.value)) {
+                if (ids.has(id.value.value)) {
+                    this.report('error', `Step ID '${id.value.value}' is already used in this job`, id.value.range);
+                }
+                ids.add(id.value.value);
+            }
+        });
+    }
+
+    private checkActionReference(node: YamlNode) {
+        if (!isString(node)) {
+            this.report('error', 'uses must name an action', node.range);
+            return;
+        }
+        const reference = node.value.trim();
+        if (reference.startsWith('./') || reference.startsWith('docker://')) {
+            return;
+        }
+        const [action, version] = reference.split('@');
+        if (!/^[\w.-]+\/[\w.-]+(\/[^\s@]+)?$/.test(action)) {
+            this.report('error', `'${reference}' is not an action reference like owner/repo@v1`, node.range);
+        } else if (version === undefined) {
+            this.report('error', `Action '${action}' is missing a version, e.g. ${action}@v4`, node.range);
+        } else if (!version) {
+            this.report('error', `Action '${action}' has an empty version after @`, node.range);
+        } else if (version === 'main' || version === 'master') {
+            this.report('warning', `Action '${action}' follows the ${version} branch; pin a release tag or commit SHA`, node.range);
+        }
+    }
+
+    private checkWorkflowReference(node: YamlNode) {
+        if (!isString(node)) {
+            this.report('error', 'uses must name a reusable workflow', node.range);
+            return;
+        }
+        const reference = node.value.trim();
+        const local = reference.startsWith('./');
+        const [path, version] = reference.split('@');
+        if (!/\.github\/workflows\/[^/]+\.ya?ml$/.test(path)) {
+            this.report('error', `'${reference}' is not a reusable workflow in .github/workflows`, node.range);
+        } else if (!local && !version) {
+            this.report('error', `Reusable workflow '${path}' is missing a version, e.g. ${path}@main`, node.range);
+        }
+    }
+
+    // if: is evaluated as an expression even without ${{ }}
+    private checkCondition(condition: YamlPair | undefined) {
+        if (!condition || !isString(condition.value)) {
+            return;
+        }
+        const value = condition.value.value.trim();
+        if (!value.includes('${{')) {
+            const problem = checkExpression(value);
+            if (problem) {
+                this.report('error', problem, condition.value.range);
+            }
+        } else if (!isExpression(condition.value)) {
+            this.report('warning', 'Text outside ${{ }} makes this condition always true', condition.value.range);
+        }
+    }
+
+    private checkExpressions(node: YamlNode) {
+        if (node.kind === 'map') {
+            node.pairs.forEach(pair => this.checkExpressions(pair.value));
+        } else if (node.kind === 'seq') {
+            node.items.forEach(item => this.checkExpressions(item));
+        } else if (isString(node)) {
+            this.checkScalarExpressions(node);
+        }
+    }
+
+    private checkScalarExpressions(scalar: YamlScalar & { value: string }) {
+        const text = scalar.value;
+        let cursor = { line: scalar.range.line, column: scalar.range.column - 1 };
+        let index = text.indexOf('${{');
+
+        while (index >= 0) {
+            const end = text.indexOf('}}', index + 3);
+            const source = end < 0 ? text.slice(index, index + 3) : text.slice(index, end + 2);
+            const range = this.locate(source, cursor, scalar.range);
+            cursor = { line: range.line, column: range.endColumn - 1 };
+
+            if (end < 0) {
+                this.report('error', "Expression is missing its closing '}}'", range);
+                return;
+            }
+            const problem = checkExpression(text.slice(index + 3, end));
+            if (problem) {
+                this.report('error', problem, range);
+            }
+            index = text.indexOf('${{', end + 2);
+        }
+    }
+
+    // Find text from a scalar in the source so the marker covers just that part
+    private locate(fragment: string, from: { line: number; column: number }, within: YamlRange): YamlRange {
+        for (let line = from.line; line <= within.endLine; line++) {
+            const column = (this.sourceLines[line - 1] ?? '').indexOf(fragment, line === from.line ? from.column : 0);
+            if (column >= 0) {
+                return { line, column: column + 1, endLine: line, endColumn: column + 1 + fragment.length };
+            }
+        }
+        return within;
+    }
+}
+
+/**
+ * Check a GitHub Actions workflow file against the workflow syntax: YAML errors, unknown keys,
+ * triggers, runners, the needs graph, action versions and ${{ }} expressions
+ */
+export function validateWorkflow(text: string): WorkflowDiagnostic[] {
+    const { root, error } = parseYaml(text);
+    if (error) {
+        return [{ severity: 'error', message: error.message, ...error.range }];
+    }
+
+    const checker = new WorkflowChecker(text);
+    checker.checkWorkflow(root);
+    return checker.diagnostics.sort((a, b) => a.line - b.line || a.column - b.column);
+}
@@ -0,0 +1,593 @@
+// Positions are 1-based; endColumn is the column just after the last character, as Monaco expects
+export interface YamlRange {
+    line: number;
+    column: number;
+    endLine: number;
+    endColumn: number;
+}
+
+export interface YamlScalar {
+    kind: 'scalar';
+    value: string | number | boolean | null;
+    // Quoted and block scalars are always strings; plain ones resolve to numbers, booleans and null
+    style: 'plain' | 'quoted' | 'block';
+    range: YamlRange;
+}
+
+export interface YamlPair {
+    key: string;
+    keyRange: YamlRange;
+    value: YamlNode;
+}
+
+export interface YamlMap {
+    kind: 'map';
+    pairs: YamlPair[];
+    range: YamlRange;
+}
+
+export interface YamlSeq {
+    kind: 'seq';
+    items: YamlNode[];
+    range: YamlRange;
+}
+
+export type YamlNode = YamlScalar | YamlMap | YamlSeq;
+
+export interface YamlParseError {
+    message: string;
+    range: YamlRange;
+}
+
+export interface YamlParseResult {
+    root: YamlNode | null;
+    error: YamlParseError | null;
+}
+
+interface SourceLine {
+    number: number;
+    raw: string;
+    // Column (0-based) where text starts; a "- " item is re-read as a line starting after the dash
+    indent: number;
+    text: string;
+}
+
+class YamlSyntaxError extends Error {
+    constructor(message: string, public range: YamlRange, public incomplete: boolean = false) {
+        super(message);
+    }
+}
+
+const KEY_END = /:(\s|$)/;
+const BLOCK_HEADER = /^[|>]([+-]?[1-9]?|[1-9][+-])$/;
+const DOUBLE_ESCAPES: Record<string, string> = { n: '\n', t: '\t', r: '\r', '0': '\0', '"': '"', '\\': '\\', '/': '/', ' ': ' ' };
+
+const rangeOf = (line: number, column: number, length: number): YamlRange =>
+    ({ line, column, endLine: line, endColumn: column + Math.max(length, 1) });
+
+const spanning = (start: YamlRange, end: YamlRange): YamlRange =>
+    ({ line: start.line, column: start.column, endLine: end.endLine, endColumn: end.endColumn });
+
+const isSequenceItem = (text: string) => text === '-' || text.startsWith('- ');
+
+/**
+ * Drop a trailing comment. Quotes only count when they open a scalar, so apostrophes inside
+ * plain text do not hide a comment.
+ */
+function stripComment(text: string): string {
+    let quote: string | null = null;
+    for (let i = 0; i < text.length; i++) {
+        const char = text[i];
+        if (quote) {
+            if (quote === '"' && char === '\\') {
+                i++;
+            } else if (char === quote) {
+                if (quote === "'" && text[i + 1] === "'") {
+                    i++;
+                } else {
+                    quote = null;
+                }
+            }
+        } else if ((char === '"' || char === "'") && (i === 0 || /[\s[{,]/.test(text[i - 1]))) {
+            quote = char;
+        } else if (char === '#' && (i === 0 || /\s/.test(text[i - 1]))) {
+            return text.slice(0, i).trimEnd();
+        }
+    }
+    return text.trimEnd();
+}
+
+function resolvePlain(text: string): YamlScalar['value'] {
+    if (text === '' || text === '~' || /^(null|Null|NULL)$/.test(text)) {
+        return null;
+    }
+    if (/^(true|True|TRUE)$/.test(text)) {
+        return true;
+    }
+    if (/^(false|False|FALSE)$/.test(text)) {
+        return false;
+    }
+    if (/^[-+]?\d+$/.test(text) || /^0x[0-9a-fA-F]+$/.test(text)) {
+        return Number(text);
+    }
+    if (/^[-+]?(\d+\.\d*|\.\d+)([eE][-+]?\d+)?$/.test(text) || /^[-+]?\d+[eE][-+]?\d+$/.test(text)) {
+        return Number(text);
+    }
+    return text;
+}
+
+/**
+ * Reads one inline value (a quoted or plain scalar or a flow collection) from a single string
+ */
+class InlineReader {
+    private index = 0;
+
+    constructor(private text: string, private line: number, private column: number) { }
+
+    // A quoted scalar at the start of the text and the number of characters it takes up
+    readQuotedPrefix(): { value: string; length: number } {
+        const node = this.readQuoted(this.text[0]);
+        return { value: node.value as string, length: this.index };
+    }
+
+    read(): YamlNode {
+        this.skipProperties();
+        const node = this.readNode(false);
+        this.skipSpaces();
+        if (this.index < this.text.length) {
+            throw this.error(`Unexpected '${this.text.slice(this.index)}' after value`, this.text.length - this.index);
+        }
+        return node;
+    }
+
+    private readNode(inFlow: boolean): YamlNode {
+        this.skipSpaces();
+        const char = this.text[this.index];
+        if (char === '[') {
+            return this.readSequence();
+        }
+        if (char === '{') {
+            return this.readMap();
+        }
+        if (char === '"' || char === "'") {
+            return this.readQuoted(char);
+        }
+        return this.readPlain(inFlow);
+    }
+
+    private readSequence(): YamlSeq {
+        const start = this.index;
+        const items: YamlNode[] = [];
+        this.index++;
+        for (;;) {
+            this.skipSpaces();
+            if (this.index >= this.text.length) {
+                throw this.error('Unterminated flow sequence', 1, start, true);
+            }
+            if (this.text[this.index] === ']') {
+                this.index++;
+                return { kind: 'seq', items, range: this.rangeFrom(start) };
+            }
+            items.push(this.readNode(true));
+            this.skipSeparator(']');
+        }
+    }
+
+    private readMap(): YamlMap {
+        const start = this.index;
+        const pairs: YamlPair[] = [];
+        this.index++;
+        for (;;) {
+            this.skipSpaces();
+            if (this.index >= this.text.length) {
+                throw this.error('Unterminated flow mapping', 1, start, true);
+            }
+            if (this.text[this.index] === '}') {
+                this.index++;
+                return { kind: 'map', pairs, range: this.rangeFrom(start) };
+            }
+            const key = this.readNode(true);
+            if (key.kind !== 'scalar') {
+                throw this.error('Mapping keys must be scalars', 1);
+            }
+            this.skipSpaces();
+            let value: YamlNode = { kind: 'scalar', value: null, style: 'plain', range: key.range };
+            if (this.text[this.index] === ':') {
+                this.index++;
+                value = this.readNode(true);
+            }
+            pairs.push({ key: String(key.value), keyRange: key.range, value });
+            this.skipSeparator('}');
+        }
+    }
+
+    private readQuoted(quote: string): YamlScalar {
+        const start = this.index;
+        let value = '';
+        this.index++;
+        while (this.index < this.text.length) {
+            const char = this.text[this.index];
+            if (char === quote) {
+                if (quote === "'" && this.text[this.index + 1] === "'") {
+                    value += "'";
+                    this.index += 2;
+                    continue;
+                }
+                this.index++;
+                return { kind: 'scalar', value, style: 'quoted', range: this.rangeFrom(start) };
+            }
+            if (quote === '"' && char === '\\') {
+                const escape = this.text[this.index + 1];
+                if (escape === 'u' || escape === 'x') {
+                    const length = escape === 'u' ? 4 : 2;
+                    const hex = this.text.slice(this.index + 2, this.index + 2 + length);
+                    if (!new RegExp(`^[0-9a-fA-F]{${length}}$`).test(hex)) {
+                        throw this.error(`Invalid escape '\\${escape}${hex}'`, 2 + length);
+                    }
+                    value += String.fromCharCode(parseInt(hex, 16));
+                    this.index += 2 + length;
+                    continue;
+                }
+                if (!(escape in DOUBLE_ESCAPES)) {
+                    throw this.error(`Invalid escape '\\${escape ?? ''}'`, 2);
+                }
+                value += DOUBLE_ESCAPES[escape];
+                this.index += 2;
+                continue;
+            }
+            value += char;
+            this.index++;
+        }
+        throw this.error('Unterminated quoted string', 1, start, true);
+    }
+
+    private readPlain(inFlow: boolean): YamlScalar {
+        const start = this.index;
+        const rest = this.text.slice(this.index);
+        const match = inFlow ? rest.match(/[,\]}]|:(\s|$|[,\]}])/) : null;
+        const raw = (match ? rest.slice(0, match.index) : rest).trimEnd();
+        this.index += raw.length;
+        return { kind: 'scalar', value: resolvePlain(raw), style: 'plain', range: rangeOf(this.line, this.column + start, raw.length) };
+    }
+
+    private skipSeparator(close: string) {
+        this.skipSpaces();
+        if (this.text[this.index] === ',') {
+            this.index++;
+        } else if (this.text[this.index] !== close && this.index < this.text.length) {
+            throw this.error(`Expected ',' or '${close}'`, 1);
+        }
+    }
+
+    // Anchors and tags carry no meaning for the checks made here
+    private skipProperties() {
+        const match = this.text.slice(this.index).match(/^([&!][^\s]*\s+)+/);
+        if (match) {
+            this.index += match[0].length;
+        }
+    }
+
+    private skipSpaces() {
+        while (this.text[this.index] === ' ' || this.text[this.index] === '\t') {
+            this.index++;
+        }
+    }
+
+    private rangeFrom(start: number): YamlRange {
+        return rangeOf(this.line, this.column + start, this.index - start);
+    }
+
+    private error(message: string, length: number, at: number = this.index, incomplete: boolean = false) {
+        return new YamlSyntaxError(message, rangeOf(this.line, this.column + at, length), incomplete);
+    }
+}
+
+/**
+ * Parser for the block-structured YAML that workflow files are written in, keeping the position
+ * of every key and value so problems can be pointed at. Supports block and flow collections,
+ * quoted, plain and block scalars; anchors and tags are skipped, and a file holds one document.
+ */
+class BlockParser {
+    private lines: SourceLine[];
+    private pos = 0;
+
+    constructor(text: string) {
+        this.lines = text.replace(/^\uFEFF/, '').split(/\r?\n/).map((raw, index) => {
+            const indent = raw.length - raw.trimStart().length;
+            return { number: index + 1, raw, indent, text: raw.slice(indent) };
+        });
+    }
+
+    parse(): YamlNode | null {
+        this.skipBlank(true);
+        if (this.pos >= this.lines.length) {
+            return null;
+        }
+        const root = this.parseValue(this.current().indent, -1);
+        this.skipBlank();
+        if (this.pos < this.lines.length) {
+            const line = this.current();
+            if (line.text.startsWith('---')) {
+                throw this.lineError('Only one YAML document is allowed in a workflow file', line);
+            }
+            throw this.lineError(line.indent > 0 ? 'Unexpected indentation' : 'Unexpected content after the document', line);
+        }
+        return root;
+    }
+
+    private current(): SourceLine {
+        return this.lines[this.pos];
+    }
+
+    private structural(line: SourceLine): string {
+        return stripComment(line.text);
+    }
+
+    // Move past blank and comment-only lines (and the document start marker at the top)
+    private skipBlank(atStart: boolean = false) {
+        while (this.pos < this.lines.length) {
+            const line = this.current();
+            const text = this.structural(line);
+            const marker = atStart && line.indent === 0 && (/^---(\s|$)/.test(line.text) || line.text.startsWith('%'));
+            if (text !== '' && !marker && !(line.indent === 0 && text === '...')) {
+                break;
+            }
+            this.pos++;
+        }
+    }
+
+    private checkIndent(line: SourceLine) {
+        const indentation = line.raw.slice(0, line.raw.length - line.raw.trimStart().length);
+        if (indentation.includes('\t')) {
+            throw this.lineError('Tabs are not allowed for indentation', line);
+        }
+    }
+
+    private parseValue(indent: number, parentIndent: number): YamlNode {
+        const line = this.current();
+        this.checkIndent(line);
+        const text = this.structural(line);
+        if (isSequenceItem(text)) {
+            return this.parseSequence(indent);
+        }
+        if (this.splitKey(text)) {
+            return this.parseMap(indent);
+        }
+        return this.parseInlineValue(text, line, parentIndent);
+    }
+
+    private parseMap(indent: number): YamlMap {
+        const pairs: YamlPair[] = [];
+
+        for (;;) {
+            this.skipBlank();
+            if (this.pos >= this.lines.length || this.current().indent < indent) {
+                break;
+            }
+            const line = this.current();
+            this.checkIndent(line);
+            const text = this.structural(line);
+            if (line.indent > indent) {
+                throw this.lineError('Unexpected indentation', line);
+            }
+            const split = this.splitKey(text);
+            if (!split) {
+                throw this.lineError(isSequenceItem(text) ? 'A list item cannot follow a key of the same mapping' : "Expected 'key: value'", line);
+            }
+
+            const keyRange = rangeOf(line.number, line.indent + 1 + split.keyStart, split.keyLength);
+            if (pairs.some(pair => pair.key === split.key)) {
+                throw new YamlSyntaxError(`Duplicate key '${split.key}'`, keyRange);
+            }
+
+            let value: YamlNode;
+            const rest = text.slice(split.valueStart);
+            if (rest === '' || /^[&!][^\s]*$/.test(rest)) {
+                this.pos++;
+                this.skipBlank();
+                const next = this.pos < this.lines.length ? this.current() : null;
+                if (next && (next.indent > indent || (next.indent === indent && isSequenceItem(this.structural(next))))) {
+                    value = this.parseValue(next.indent, indent);
+                } else {
+                    value = { kind: 'scalar', value: null, style: 'plain', range: { ...keyRange, column: keyRange.endColumn, endColumn: keyRange.endColumn + 1 } };
+                }
+            } else {
+                const valueLine = { ...line, indent: line.indent + split.valueStart, text: line.text.slice(split.valueStart) };
+                value = this.parseInlineValue(rest, valueLine, indent);
+            }
+            pairs.push({ key: split.key, keyRange, value });
+        }
+
+        return { kind: 'map', pairs, range: spanning(pairs[0].keyRange, pairs[pairs.length - 1].value.range) };
+    }
+
+    private parseSequence(indent: number): YamlSeq {
+        const items: YamlNode[] = [];
+
+        for (;;) {
+            this.skipBlank();
+            if (this.pos >= this.lines.length || this.current().indent < indent) {
+                break;
+            }
+            const line = this.current();
+            this.checkIndent(line);
+            const text = this.structural(line);
+            if (line.indent > indent) {
+                throw this.lineError('Unexpected indentation', line);
+            }
+            if (!isSequenceItem(text)) {
+                break;
+            }
+
+            const rest = text.slice(1).trimStart();
+            if (rest === '') {
+                this.pos++;
+                this.skipBlank();
+                const next = this.pos < this.lines.length ? this.current() : null;
+                items.push(next && next.indent > indent
+                    ? this.parseValue(next.indent, indent)
+                    : { kind: 'scalar', value: null, style: 'plain', range: rangeOf(line.number, line.indent + 1, 1) });
+            } else {
+                // Read the item as if it started on its own line after the dash
+                const offset = line.text.length - line.text.slice(1).trimStart().length;
+                this.lines[this.pos] = { ...line, indent: line.indent + offset, text: line.text.slice(offset) };
+                items.push(this.parseValue(line.indent + offset, indent));
+            }
+        }
+
+        const start = rangeOf(items[0].range.line, indent + 1, 1);
+        return { kind: 'seq', items, range: spanning(start, items[items.length - 1].range) };
+    }
+
+    /**
+     * A scalar or flow collection starting on the current line. Plain scalars continue onto
+     * more indented lines, quoted strings and flow collections until they are closed.
+     */
+    private parseInlineValue(text: string, line: SourceLine, parentIndent: number): YamlNode {
+        if (BLOCK_HEADER.test(text.replace(/^([&!][^\s]*\s+)+/, ''))) {
+            return this.parseBlockScalar(text.replace(/^([&!][^\s]*\s+)+/, ''), line, parentIndent);
+        }
+        if (/^[|>]/.test(text)) {
+            throw this.lineError(`Invalid block scalar header '${text}'`, line);
+        }
+
+        let joined = text;
+        for (;;) {
+            try {
+                const node = new InlineReader(joined, line.number, line.indent + 1).read();
+                this.pos++;
+                if (node.kind === 'scalar' && node.style === 'plain' && typeof node.value === 'string') {
+                    return this.continuePlain(node, parentIndent);
+                }
+                return node;
+            } catch (error) {
+                const next = this.lines[this.pos + 1];
+                if (!(error instanceof YamlSyntaxError) || !error.incomplete || !next || (next.indent <= parentIndent && next.text !== '')) {
+                    throw error;
+                }
+                // Multi-line quoted strings and flow collections are read as one line; positions
+                // after the first line are approximate
+                this.pos++;
+                joined += ' ' + this.structural(next).trim();
+            }
+        }
+    }
+
+    private continuePlain(node: YamlScalar, parentIndent: number): YamlScalar {
+        let value = node.value as string;
+        let range = node.range;
+        for (;;) {
+            const start = this.pos;
+            this.skipBlank();
+            const next = this.pos < this.lines.length ? this.current() : null;
+            if (!next || next.indent <= parentIndent || this.splitKey(this.structural(next)) || isSequenceItem(this.structural(next))) {
+                this.pos = start;
+                return { ...node, value, range };
+            }
+            const text = this.structural(next).trim();
+            value += ' ' + text;
+            range = spanning(range, rangeOf(next.number, next.indent + 1, text.length));
+            this.pos++;
+        }
+    }
+
+    private parseBlockScalar(header: string, line: SourceLine, parentIndent: number): YamlScalar {
+        const chomping = header.includes('-') ? 'strip' : header.includes('+') ? 'keep' : 'clip';
+        const explicit = header.match(/[1-9]/);
+        let contentIndent = explicit ? Math.max(parentIndent, 0) + Number(explicit[0]) : -1;
+        const content: string[] = [];
+        let last = line.number;
+        this.pos++;
+
+        while (this.pos < this.lines.length) {
+            const next = this.current();
+            const blank = next.raw.trim() === '';
+            if (!blank && next.indent <= parentIndent) {
+                break;
+            }
+            if (!blank && contentIndent < 0) {
+                contentIndent = next.indent;
+            }
+            if (!blank && next.indent < contentIndent) {
+                throw this.lineError('Block scalar lines must be indented at least as much as the first line', next);
+            }
+            content.push(blank ? next.raw.slice(Math.max(contentIndent, 0)) : next.raw.slice(contentIndent));
+            if (!blank) {
+                last = next.number;
+            }
+            this.pos++;
+        }
+
+        while (content.length > 0 && content[content.length - 1].trim() === '' && chomping !== 'keep') {
+            content.pop();
+        }
+        let value = header.startsWith('>')
+            ? content.reduce((text, part, index) => {
+                if (index === 0) {
+                    return part;
+                }
+                const previous = content[index - 1];
+                const literal = part === '' || previous === '' || /^\s/.test(part) || /^\s/.test(previous);
+                return text + (literal ? '\n' : ' ') + part;
+            }, '')
+            : content.join('\n');
+        if (chomping !== 'strip' && content.length > 0) {
+            value += '\n';
+        }
+
+        return {
+            kind: 'scalar',
+            value,
+            style: 'block',
+            range: { line: line.number, column: line.indent + 1, endLine: last, endColumn: (this.lines[last - 1]?.raw.length ?? 0) + 1 }
+        };
+    }
+
+    private splitKey(text: string): { key: string; keyStart: number; keyLength: number; valueStart: number } | null {
+        if (text.startsWith('"') || text.startsWith("'")) {
+            let key: { value: string; length: number };
+            try {
+                key = new InlineReader(text, 0, 0).readQuotedPrefix();
+            } catch {
+                return null;
+            }
+            const after = text.slice(key.length).match(/^\s*:(\s+|$)/);
+            return after ? { key: key.value, keyStart: 0, keyLength: key.length, valueStart: key.length + after[0].length } : null;
+        }
+        if (/^[[{?|>!&*%@`]/.test(text) || isSequenceItem(text)) {
+            return null;
+        }
+        const match = text.match(KEY_END);
+        if (!match || match.index === 0) {
+            return null;
+        }
+        const key = text.slice(0, match.index).trimEnd();
+        const value = text.slice(match.index! + 1);
+        return { key, keyStart: 0, keyLength: key.length, valueStart: text.length - value.trimStart().length };
+    }
+
+    private lineError(message: string, line: SourceLine) {
+        return new YamlSyntaxError(message, rangeOf(line.number, line.indent + 1, this.structural(line).length));
+    }
+}
+
+/**
+ * Parse a YAML document, stopping at the first syntax error
+ */
+export function parseYaml(text: string): YamlParseResult {
+    try {
+        return { root: new BlockParser(text).parse(), error: null };
+    } catch (error) {
+        if (error instanceof YamlSyntaxError) {
+            return { root: null, error: { message: error.message, range: error.range } };
+        }
+        throw error;
+    }
+}
+
+/**
+ * Value of a key in a mapping node, if the node is a mapping that has it
+ */
+export function mapGet(node: YamlNode | null | undefined, key: string): YamlPair | undefined {
+    return node?.kind === 'map' ? node.pairs.find(pair => pair.key === key) : undefined;
+}
@@ -0,0 +1,116 @@
+import { useEffect } from 'react';
+import { useAppDispatch, useAppSelector } from '../../hooks/redux';
+import {
+    clearConfigErrors,
+    deleteDeploymentConfig,
+    fetchDeploymentConfigs,
+    runDeploymentConfig,
+    updateDeploymentConfig
+} from '../../store/slices/deploymentsSlice';
+import { DeploymentConfig } from '../../../shared/types';
+
+interface DeploymentConfigsProps {
+    serverId: string;
+    disabled?: boolean;
+    onEdit: (config: DeploymentConfig) => void;
+}
+
+export default function DeploymentConfigs({ serverId, disabled = false, onEdit }: DeploymentConfigsProps) {
+    const dispatch = useAppDispatch();
+    const { configs, configsLoading, configsError, runningConfigId, runError } = useAppSelector((state) => state.deployments);
+    const serverConfigs = configs.filter(config => config.serverId === serverId);
+
+    useEffect(() => {
+        dispatch(fetchDeploymentConfigs(serverId));
+    }, [dispatch, serverId]);
+
+    const handleDelete = (config: DeploymentConfig) => {
+        if (!window.confirm(`Delete deployment configuration "${config.name}"?`)) {
+            return;
+        }
+        dispatch(deleteDeploymentConfig(config.id));
+    };
+
+    const error = runError ? `Deployment failed: ${runError}` : configsError;
+
+    return (
+        <div className="card">
+            <div className="flex items-center justify-between mb-4">
+                <h3 className="text-lg font-semibold text-gray-900">Saved Deployments</h3>
+                <button
+                    onClick={() => dispatch(fetchDeploymentConfigs(serverId))}
+                    disabled={configsLoading}
+                    className="px-3 py-1 text-sm bg-gray-100 text-gray-700 rounded-lg hover:bg-gray-200 disabled:opacity-50 transition-colors"
+                >
+                    {configsLoading ? 'Loading...' : 'Refresh'}
+                </button>
+            </div>
+
+            {error && (
+                <div className="mb-3 rounded-md border border-red-200 bg-red-50 p-3 text-sm text-red-700 flex items-center justify-between">
+                    <span>{error}</span>
+                    <button onClick={() => dispatch(clearConfigErrors())} className="text-red-600 hover:text-red-800">Dismiss</button>
+                </div>
+            )}
+
+            {serverConfigs.length === 0 ? (
+                <p className="text-sm text-gray-500">
+                    {configsLoading ? 'Loading saved deployments...' : 'No saved deployments. Use "Save Configuration" in the deploy dialog to add one.'}
+                </p>
+            ) : (
+                <div className="divide-y divide-gray-200">
+                    {serverConfigs.map(config => (
+                        <div key={config.id} className="py-3 flex items-center justify-between">
+                            <div className="min-w-0">
+                                <div className="flex items-center space-x-2">
+                                    <span className="text-sm font-medium text-gray-900 truncate">{config.name}</span>
+                                    {config.strategy === 'releases' && (
+                                        <span className="inline-flex items-center px-2 py-0.5 rounded-full text-xs font-semibold bg-purple-100 text-purple-800">
+                                            Releases
+                                        </span>
+                                    )}
+                                    {!config.isActive && (
+                                        <span className="inline-flex items-center px-2 py-0.5 rounded-full text-xs font-semibold bg-gray-100 text-gray-600">
+                                            Disabled
+                                        </span>
+                                    )}
+                                </div>
+                                <div className="mt-1 text-xs text-gray-500 space-x-3">
+                                    <span>{config.repository.fullName}@{config.branch || config.repository.defaultBranch}</span>
+                                    <span className="font-mono truncate">{config.deployPath}</span>
+                                </div>
+                            </div>
+                            <div className="flex items-center space-x-2 ml-3 flex-shrink-0">
+                                <button
+                                    onClick={() => dispatch(runDeploymentConfig(config.id))}
+                                    disabled={disabled || !config.isActive || runningConfigId !== null}
+                                    className="px-3 py-1 text-xs bg-primary-600 text-white rounded hover:bg-primary-700 disabled:opacity-50 transition-colors"
+                                >
+                                    {runningConfigId === config.id ? 'Deploying...' : 'Deploy'}
+                                </button>
+                                <button
+                                    onClick={() => onEdit(config)}
+                                    className="px-3 py-1 text-xs bg-gray-100 text-gray-700 rounded hover:bg-gray-200 transition-colors"
+                                >
+                                    Edit
+                                </button>
+                                <button
+                                    onClick={() => dispatch(updateDeploymentConfig({ id: config.id, updates: { isActive: !config.isActive } }))}
+                                    className="px-3 py-1 text-xs bg-gray-100 text-gray-700 rounded hover:bg-gray-200 transition-colors"
+                                >
+                                    {config.isActive ? 'Disable' : 'Enable'}
+                                </button>
+                                <button
+                                    onClick={() => handleDelete(config)}
+                                    className="px-3 py-1 text-xs bg-red-50 text-red-700 rounded hover:bg-red-100 transition-colors"
+                                >
+                                    Delete
+                                </button>
+                            </div>
+                        </div>
+                    ))}
+                </div>
+            )}
+        </div>
+    );
+}
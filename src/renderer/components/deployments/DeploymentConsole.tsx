@@ -0,0 +1,85 @@
+import { useEffect, useRef, useState } from 'react';
+import { useAppDispatch, useAppSelector } from '../../hooks/redux';
+import { cancelServerDeployment } from '../../store/slices/serversSlice';
+
+interface DeploymentConsoleProps {
+    serverId: string;
+}
+
+const statusStyles = {
+    running: 'text-blue-600',
+    succeeded: 'text-green-600',
+    failed: 'text-red-600'
+} as const;
+
+export default function DeploymentConsole({ serverId }: DeploymentConsoleProps) {
+    const dispatch = useAppDispatch();
+    const deployment = useAppSelector((state) => state.servers.deployments[serverId]);
+    const [collapsed, setCollapsed] = useState<Record<string, boolean>>({});
+    const outputRef = useRef<HTMLDivElement>(null);
+
+    const steps = deployment?.liveSteps ?? [];
+    const isRunning = deployment?.status === 'running';
+    const outputSize = steps.reduce((total, step) => total + step.output.length, 0);
+
+    // Follow the output while the deployment is running
+    useEffect(() => {
+        if (isRunning && outputRef.current) {
+            outputRef.current.scrollTop = outputRef.current.scrollHeight;
+        }
+    }, [isRunning, outputSize, steps.length]);
+
+    if (!deployment?.deploymentId || (steps.length === 0 && !isRunning)) {
+        return null;
+    }
+
+    const handleCancel = () => {
+        if (!deployment.deploymentId || !window.confirm('Cancel this deployment? The running step will be terminated on the server.')) {
+            return;
+        }
+        dispatch(cancelServerDeployment({ serverId, deploymentId: deployment.deploymentId }));
+    };
+
+    return (
+        <div className="rounded-lg border border-gray-200">
+            <div className="flex items-center justify-between px-3 py-2 border-b border-gray-200 bg-gray-50">
+                <span className="text-sm font-medium text-gray-900">
+                    {isRunning ? 'Live output' : deployment.result?.cancelled ? 'Deployment cancelled' : 'Deployment output'}
+                </span>
+                {isRunning && (
+                    <button
+                        onClick={handleCancel}
+                        disabled={deployment.cancelling}
+                        className="px-3 py-1 text-xs bg-red-50 text-red-700 rounded hover:bg-red-100 disabled:opacity-50 transition-colors"
+                    >
+                        {deployment.cancelling ? 'Cancelling...' : 'Cancel deployment'}
+                    </button>
+                )}
+            </div>
+            <div ref={outputRef} className="max-h-80 overflow-y-auto p-3 space-y-2">
+                {steps.length === 0 && <p className="text-xs text-gray-500">Preparing deployment...</p>}
+                {steps.map(step => (
+                    <div key={step.id}>
+                        <button
+                            type="button"
+                            onClick={() => setCollapsed({ ...collapsed, [step.id]: !collapsed[step.id] })}
+                            className="w-full flex items-center justify-between text-xs"
+                        >
+                            <span className="font-medium text-gray-900">{step.name}</span>
+                            <span className={statusStyles[step.status]}>
+                                {step.status === 'running' ? 'Running...' : step.status === 'succeeded' ? 'Success' : step.timedOut ? 'Timed out' : `Exit ${step.code}`}
+                            </span>
+                        </button>
+                        {!collapsed[step.id] && step.output.length > 0 && (
+                            <pre className="mt-1 rounded-md bg-gray-900 p-2 text-xs whitespace-pre-wrap break-all">
+                                {step.output.map((chunk, index) => (
+                                    <span key={index} className={chunk.stream === 'stderr' ? 'text-red-200' : 'text-gray-100'}>{chunk.data}</span>
+                                ))}
+                            </pre>
+                        )}
+                    </div>
+                ))}
+            </div>
+        </div>
+    );
+}
@@ -0,0 +1,194 @@
+import { useEffect, useMemo, useState } from 'react';
+import { useAppDispatch, useAppSelector } from '../../hooks/redux';
+import { clearRollbackError, fetchDeploymentHistory, rollbackDeployment } from '../../store/slices/deploymentsSlice';
+import { DirectDeploymentResult } from '../../../shared/types';
+
+interface DeploymentHistoryProps {
+    serverId: string;
+}
+
+const formatDuration = (ms: number): string => {
+    if (!ms || ms < 1000) {
+        return `${ms || 0}ms`;
+    }
+    const seconds = Math.round(ms / 1000);
+    if (seconds < 60) {
+        return `${seconds}s`;
+    }
+    return `${Math.floor(seconds / 60)}m ${seconds % 60}s`;
+};
+
+export default function DeploymentHistory({ serverId }: DeploymentHistoryProps) {
+    const dispatch = useAppDispatch();
+    const { history, historyLoading, historyError, rollingBack, rollbackError } = useAppSelector((state) => state.deployments);
+    const [repository, setRepository] = useState('');
+    const [expandedId, setExpandedId] = useState<string | null>(null);
+
+    useEffect(() => {
+        dispatch(fetchDeploymentHistory({ serverId, repository: repository || undefined }));
+    }, [dispatch, serverId, repository]);
+
+    const repositories = useMemo(
+        () => Array.from(new Set([...history.map(entry => entry.repository.fullName), repository].filter(Boolean))).sort(),
+        [history, repository]
+    );
+
+    // The newest successful deployment per target is what is currently live
+    const liveIds = useMemo(() => {
+        const seen = new Set<string>();
+        const ids = new Set<string>();
+        history.forEach(entry => {
+            const key = `${entry.repository.fullName}:${entry.targetPath}`;
+            if (entry.success && !seen.has(key)) {
+                seen.add(key);
+                ids.add(entry.id);
+            }
+        });
+        return ids;
+    }, [history]);
+
+    const handleRollback = (entry: DirectDeploymentResult) => {
+        if (!entry.commitSha) {
+            return;
+        }
+        if (!window.confirm(`Roll back ${entry.repository.fullName} on ${entry.targetPath} to ${entry.commitSha.slice(0, 7)}?`)) {
+            return;
+        }
+        dispatch(rollbackDeployment(entry.id));
+    };
+
+    return (
+        <div className="card">
+            <div className="flex items-center justify-between mb-4">
+                <h3 className="text-lg font-semibold text-gray-900">Deployment History</h3>
+                <div className="flex items-center space-x-2">
+                    <select
+                        value={repository}
+                        onChange={(e) => setRepository(e.target.value)}
+                        className="rounded-lg border border-gray-300 px-2 py-1 text-sm focus:outline-none focus:ring-2 focus:ring-primary-500"
+                    >
+                        <option value="">All repositories</option>
+                        {repositories.map(name => (
+                            <option key={name} value={name}>{name}</option>
+                        ))}
+                    </select>
+                    <button
+                        onClick={() => dispatch(fetchDeploymentHistory({ serverId, repository: repository || undefined }))}
+                        disabled={historyLoading}
+                        className="px-3 py-1 text-sm bg-gray-100 text-gray-700 rounded-lg hover:bg-gray-200 disabled:opacity-50 transition-colors"
+                    >
+                        {historyLoading ? 'Loading...' : 'Refresh'}
+                    </button>
+                </div>
+            </div>
+
+            {historyError && (
+                <div className="mb-3 rounded-md border border-red-200 bg-red-50 p-3 text-sm text-red-700">{historyError}</div>
+            )}
+            {rollbackError && (
+                <div className="mb-3 rounded-md border border-red-200 bg-red-50 p-3 text-sm text-red-700 flex items-center justify-between">
+                    <span>Rollback failed: {rollbackError}</span>
+                    <button onClick={() => dispatch(clearRollbackError())} className="text-red-600 hover:text-red-800">Dismiss</button>
+                </div>
+            )}
+
+            {history.length === 0 ? (
+                <p className="text-sm text-gray-500">{historyLoading ? 'Loading deployment history...' : 'No deployments recorded yet.'}</p>
+            ) : (
+                <div className="divide-y divide-gray-200">
+                    {history.map(entry => (
+                        <div key={entry.id} className="py-3">
+                            <div className="flex items-center justify-between">
+                                <div className="min-w-0">
+                                    <div className="flex items-center space-x-2">
+                                        <span className={`inline-flex items-center px-2 py-0.5 rounded-full text-xs font-semibold ${entry.success ? 'bg-green-100 text-green-800' : 'bg-red-100 text-red-800'}`}>
+                                            {entry.success ? 'Succeeded' : 'Failed'}
+                                        </span>
+                                        {entry.timedOut && (
+                                            <span className="inline-flex items-center px-2 py-0.5 rounded-full text-xs font-semibold bg-orange-100 text-orange-800">
+                                                Timed out
+                                            </span>
+                                        )}
+                                        {entry.cancelled && (
+                                            <span className="inline-flex items-center px-2 py-0.5 rounded-full text-xs font-semibold bg-gray-100 text-gray-700">
+                                                Cancelled
+                                            </span>
+                                        )}
+                                        {entry.healthCheckPassed === false && (
+                                            <span className="inline-flex items-center px-2 py-0.5 rounded-full text-xs font-semibold bg-red-100 text-red-800">
+                                                Health check failed
+                                            </span>
+                                        )}
+                                        {entry.autoRollback && (
+                                            <span className={`inline-flex items-center px-2 py-0.5 rounded-full text-xs font-semibold ${entry.autoRollback.success ? 'bg-yellow-100 text-yellow-800' : 'bg-red-100 text-red-800'}`}>
+                                                {entry.autoRollback.success ? 'Auto rolled back' : 'Auto rollback failed'}
+                                            </span>
+                                        )}
+                                        {entry.rollbackOf && (
+                                            <span className="inline-flex items-center px-2 py-0.5 rounded-full text-xs font-semibold bg-yellow-100 text-yellow-800">
+                                                Rollback
+                                            </span>
+                                        )}
+                                        {liveIds.has(entry.id) && (
+                                            <span className="inline-flex items-center px-2 py-0.5 rounded-full text-xs font-semibold bg-blue-100 text-blue-800">
+                                                Live
+                                            </span>
+                                        )}
+                                        <span className="text-sm font-medium text-gray-900 truncate">{entry.repository.fullName}</span>
+                                        <span className="text-xs text-gray-500">{entry.branch}</span>
+                                    </div>
+                                    <div className="mt-1 text-xs text-gray-500 space-x-3">
+                                        {entry.commitSha && <code className="text-gray-700">{entry.commitSha.slice(0, 7)}</code>}
+                                        {entry.commitMessage && <span className="truncate">{entry.commitMessage}</span>}
+                                        {entry.release && <span className="font-mono">release {entry.release}</span>}
+                                    </div>
+                                    <div className="mt-1 text-xs text-gray-400 space-x-3">
+                                        <span>{new Date(entry.startedAt).toLocaleString()}</span>
+                                        <span>{formatDuration(entry.durationMs)}</span>
+                                        {entry.triggeredBy && <span>by {entry.triggeredBy}</span>}
+                                        <span className="truncate">{entry.targetPath}</span>
+                                    </div>
+                                </div>
+                                <div className="flex items-center space-x-2 ml-3 flex-shrink-0">
+                                    <button
+                                        onClick={() => setExpandedId(expandedId === entry.id ? null : entry.id)}
+                                        className="px-3 py-1 text-xs bg-gray-100 text-gray-700 rounded hover:bg-gray-200 transition-colors"
+                                    >
+                                        {expandedId === entry.id ? 'Hide steps' : 'Steps'}
+                                    </button>
+                                    {entry.success && entry.commitSha && !liveIds.has(entry.id) && (
+                                        <button
+                                            onClick={() => handleRollback(entry)}
+                                            disabled={rollingBack !== null}
+                                            className="px-3 py-1 text-xs bg-yellow-100 text-yellow-800 rounded hover:bg-yellow-200 disabled:opacity-50 transition-colors"
+                                        >
+                                            {rollingBack === entry.id ? 'Rolling back...' : 'Roll back to this'}
+                                        </button>
+                                    )}
+                                </div>
+                            </div>
+                            {entry.error && <p className="mt-2 text-xs text-red-600">{entry.error}</p>}
+                            {expandedId === entry.id && (
+                                <div className="mt-3 space-y-2">
+                                    {entry.steps.map(step => (
+                                        <div key={step.id} className="rounded-lg border border-gray-200 bg-gray-50 p-2">
+                                            <div className="flex items-center justify-between text-xs">
+                                                <span className="font-medium text-gray-900">{step.name}</span>
+                                                <span className={step.success ? 'text-green-600' : 'text-red-600'}>
+                                                    {step.success ? 'Success' : step.timedOut ? 'Timed out' : step.cancelled ? 'Cancelled' : `Exit ${step.code}`}
+                                                </span>
+                                            </div>
+                                            {step.stderr && !step.success && (
+                                                <pre className="mt-2 max-h-32 overflow-y-auto rounded-md bg-gray-900 p-2 text-xs text-red-200 whitespace-pre-wrap">{step.stderr.trim()}</pre>
+                                            )}
+                                        </div>
+                                    ))}
+                                </div>
+                            )}
+                        </div>
+                    ))}
+                </div>
+            )}
+        </div>
+    );
+}
@@ -0,0 +1,117 @@
+import { useState } from 'react';
+import { useAppDispatch, useAppSelector } from '../../hooks/redux';
+import { cancelGroupDeployment } from '../../store/slices/deploymentsSlice';
+
+const strategyLabels = {
+    all: 'All at once',
+    rolling: 'Rolling',
+    canary: 'Canary first'
+} as const;
+
+const serverStatusStyles = {
+    pending: 'text-gray-500',
+    running: 'text-blue-600',
+    succeeded: 'text-green-600',
+    failed: 'text-red-600',
+    skipped: 'text-gray-400'
+} as const;
+
+export default function GroupDeploymentStatus() {
+    const dispatch = useAppDispatch();
+    const group = useAppSelector((state) => state.deployments.groupDeployment);
+    const servers = useAppSelector((state) => state.servers.servers);
+    const [expandedServerId, setExpandedServerId] = useState<string | null>(null);
+
+    if (!group) {
+        return null;
+    }
+
+    const isRunning = group.status === 'running';
+    const serverName = (serverId: string) => servers.find(server => server.id === serverId)?.name || serverId;
+    const serverStatus = (serverId: string, batchIndex: number): keyof typeof serverStatusStyles => {
+        const result = group.results[serverId];
+        if (result) {
+            return result.success ? 'succeeded' : 'failed';
+        }
+        if (group.result?.skippedServerIds.includes(serverId)) {
+            return 'skipped';
+        }
+        return isRunning && batchIndex === group.currentBatch && !group.pausedUntil ? 'running' : 'pending';
+    };
+
+    const handleCancel = () => {
+        if (!window.confirm('Stop this rollout? Running deployments are cancelled and remaining batches are skipped.')) {
+            return;
+        }
+        dispatch(cancelGroupDeployment(group.id));
+    };
+
+    return (
+        <div className="rounded-lg border border-gray-200">
+            <div className="flex items-center justify-between px-3 py-2 border-b border-gray-200 bg-gray-50">
+                <span className="text-sm font-medium text-gray-900">
+                    {strategyLabels[group.strategy]} rollout
+                    <span className={`ml-2 text-xs ${serverStatusStyles[group.status]}`}>
+                        {isRunning ? 'Running...' : group.status === 'succeeded' ? 'Succeeded' : group.result?.cancelled ? 'Cancelled' : 'Failed'}
+                    </span>
+                </span>
+                {isRunning && (
+                    <button
+                        onClick={handleCancel}
+                        disabled={group.cancelling}
+                        className="px-3 py-1 text-xs bg-red-50 text-red-700 rounded hover:bg-red-100 disabled:opacity-50 transition-colors"
+                    >
+                        {group.cancelling ? 'Cancelling...' : 'Cancel rollout'}
+                    </button>
+                )}
+            </div>
+            <div className="p-3 space-y-3">
+                {group.pausedUntil && (
+                    <p className="text-xs text-gray-500">Pausing until {new Date(group.pausedUntil).toLocaleTimeString()} before the next batch.</p>
+                )}
+                {group.batches.map((batch, batchIndex) => (
+                    <div key={batchIndex}>
+                        <p className="text-xs font-medium text-gray-700 mb-1">
+                            {group.strategy === 'canary' && batchIndex === 0 ? 'Canary' : `Batch ${batchIndex + 1}`}
+                        </p>
+                        <div className="space-y-1">
+                            {batch.map(serverId => {
+                                const status = serverStatus(serverId, batchIndex);
+                                const result = group.results[serverId];
+                                return (
+                                    <div key={serverId} className="rounded border border-gray-200">
+                                        <button
+                                            type="button"
+                                            onClick={() => setExpandedServerId(expandedServerId === serverId ? null : serverId)}
+                                            disabled={!result}
+                                            className="w-full flex items-center justify-between px-2 py-1 text-xs"
+                                        >
+                                            <span className="font-medium text-gray-900">{serverName(serverId)}</span>
+                                            <span className={serverStatusStyles[status]}>
+                                                {status === 'running' ? 'Deploying...' : status.charAt(0).toUpperCase() + status.slice(1)}
+                                            </span>
+                                        </button>
+                                        {result && expandedServerId === serverId && (
+                                            <div className="border-t border-gray-200 px-2 py-1 space-y-1">
+                                                {result.steps.map(step => (
+                                                    <div key={step.id} className="flex items-center justify-between text-xs">
+                                                        <span className="text-gray-700">{step.name}</span>
+                                                        <span className={step.success ? 'text-green-600' : 'text-red-600'}>
+                                                            {step.success ? 'Success' : step.timedOut ? 'Timed out' : step.cancelled ? 'Cancelled' : `Exit ${step.code}`}
+                                                        </span>
+                                                    </div>
+                                                ))}
+                                                {result.error && <p className="text-xs text-red-600">{result.error}</p>}
+                                            </div>
+                                        )}
+                                    </div>
+                                );
+                            })}
+                        </div>
+                    </div>
+                ))}
+                {group.result?.error && <p className="text-xs text-red-600">{group.result.error}</p>}
+            </div>
+        </div>
+    );
+}
@@ -0,0 +1,208 @@
+import { useEffect, useRef, useState } from 'react';
+import { DockerContainer, DockerEndpoint, DockerLogOptions, DockerStreamData } from '../../../shared/types';
+import { listenToDockerStream } from '../../utils/dockerStreams';
+
+interface ContainerLogsModalProps {
+    endpoint: DockerEndpoint;
+    container: DockerContainer;
+    onClose: () => void;
+}
+
+interface LogChunk {
+    id: number;
+    stream: DockerStreamData['stream'];
+    text: string;
+}
+
+// Keep the DOM bounded when following chatty containers
+const MAX_CHUNKS = 2000;
+
+const SINCE_OPTIONS = [
+    { value: '', label: 'All time' },
+    { value: '300', label: 'Last 5 minutes' },
+    { value: '3600', label: 'Last hour' },
+    { value: '86400', label: 'Last 24 hours' }
+];
+
+const stripAnsi = (text: string) => text.replace(/\x1b\[[0-9;?]*[A-Za-z]/g, '');
+
+export default function ContainerLogsModal({ endpoint, container, onClose }: ContainerLogsModalProps) {
+    const [chunks, setChunks] = useState<LogChunk[]>([]);
+    const [tail, setTail] = useState<string>('200');
+    const [since, setSince] = useState<string>('');
+    const [timestamps, setTimestamps] = useState(false);
+    const [follow, setFollow] = useState(true);
+    const [autoScroll, setAutoScroll] = useState(true);
+    const [streaming, setStreaming] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+    const streamIdRef = useRef<string | null>(null);
+    const chunkIdRef = useRef(0);
+    const outputRef = useRef<HTMLDivElement>(null);
+
+    useEffect(() => {
+        let cancelled = false;
+        const options: DockerLogOptions = {
+            follow,
+            timestamps,
+            tail: tail === 'all' ? 'all' : Number(tail),
+            since: since ? Math.floor(Date.now() / 1000) - Number(since) : undefined
+        };
+
+        setChunks([]);
+        setError(null);
+        setStreaming(true);
+
+        const stream = listenToDockerStream({
+            onData: payload => {
+                chunkIdRef.current += 1;
+                const chunk = { id: chunkIdRef.current, stream: payload.stream, text: stripAnsi(payload.data) };
+                setChunks(prev => {
+                    const next = [...prev, chunk];
+                    return next.length > MAX_CHUNKS ? next.slice(next.length - MAX_CHUNKS) : next;
+                });
+            },
+            onEnd: payload => {
+                streamIdRef.current = null;
+                setStreaming(false);
+                if (payload.error) {
+                    setError(payload.error);
+                }
+            }
+        });
+
+        window.electronAPI.docker.subscribeLogs(endpoint, container.id, options)
+            .then(response => {
+                if (!response.success || !response.data) {
+                    throw new Error(response.error || 'Failed to stream logs');
+                }
+                if (cancelled) {
+                    window.electronAPI.docker.unsubscribe(response.data);
+                    return;
+                }
+                streamIdRef.current = response.data;
+                stream.attach(response.data);
+            })
+            .catch(err => {
+                stream.dispose();
+                if (!cancelled) {
+                    setStreaming(false);
+                    setError(err instanceof Error ? err.message : 'Failed to stream logs');
+                }
+            });
+
+        return () => {
+            cancelled = true;
+            stream.dispose();
+            if (streamIdRef.current) {
+                window.electronAPI.docker.unsubscribe(streamIdRef.current);
+                streamIdRef.current = null;
+            }
+        };
+    }, [endpoint, container.id, tail, since, timestamps, follow]);
+
+    useEffect(() => {
+        if (autoScroll && outputRef.current) {
+            outputRef.current.scrollTop = outputRef.current.scrollHeight;
+        }
+    }, [chunks, autoScroll]);
+
+    const handleStop = () => {
+        if (streamIdRef.current) {
+            window.electronAPI.docker.unsubscribe(streamIdRef.current);
+        }
+    };
+
+    return (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+            <div className="bg-white rounded-xl shadow-xl w-full max-w-5xl mx-4 h-[85vh] flex flex-col">
+                <div className="p-6 border-b border-gray-200">
+                    <div className="flex items-center justify-between">
+                        <div>
+                            <h3 className="text-lg font-semibold text-gray-900">Container Logs</h3>
+                            <p className="text-sm text-gray-500 mt-1">
+                                {container.name}
+                                {streaming && <span className="ml-2 text-green-600">● streaming</span>}
+                            </p>
+                        </div>
+                        <button
+                            onClick={onClose}
+                            className="text-gray-400 hover:text-gray-600"
+                        >
+                            <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+                            </svg>
+                        </button>
+                    </div>
+                    <div className="flex flex-wrap items-center gap-4 mt-4 text-sm">
+                        <label className="flex items-center space-x-2">
+                            <span className="text-gray-600">Tail</span>
+                            <select
+                                value={tail}
+                                onChange={(e) => setTail(e.target.value)}
+                                className="border border-gray-300 rounded px-2 py-1"
+                            >
+                                <option value="100">100 lines</option>
+                                <option value="200">200 lines</option>
+                                <option value="1000">1000 lines</option>
+                                <option value="all">All</option>
+                            </select>
+                        </label>
+                        <label className="flex items-center space-x-2">
+                            <span className="text-gray-600">Since</span>
+                            <select
+                                value={since}
+                                onChange={(e) => setSince(e.target.value)}
+                                className="border border-gray-300 rounded px-2 py-1"
+                            >
+                                {SINCE_OPTIONS.map(option => (
+                                    <option key={option.value} value={option.value}>{option.label}</option>
+                                ))}
+                            </select>
+                        </label>
+                        <label className="flex items-center space-x-2">
+                            <input type="checkbox" checked={timestamps} onChange={(e) => setTimestamps(e.target.checked)} />
+                            <span className="text-gray-600">Timestamps</span>
+                        </label>
+                        <label className="flex items-center space-x-2">
+                            <input type="checkbox" checked={follow} onChange={(e) => setFollow(e.target.checked)} />
+                            <span className="text-gray-600">Follow</span>
+                        </label>
+                        <label className="flex items-center space-x-2">
+                            <input type="checkbox" checked={autoScroll} onChange={(e) => setAutoScroll(e.target.checked)} />
+                            <span className="text-gray-600">Auto-scroll</span>
+                        </label>
+                        <div className="flex-1" />
+                        {streaming && (
+                            <button
+                                onClick={handleStop}
+                                className="px-3 py-1 text-xs bg-red-100 text-red-700 rounded hover:bg-red-200 transition-colors"
+                            >
+                                Stop
+                            </button>
+                        )}
+                        <button
+                            onClick={() => setChunks([])}
+                            className="px-3 py-1 text-xs bg-gray-100 text-gray-700 rounded hover:bg-gray-200 transition-colors"
+                        >
+                            Clear
+                        </button>
+                    </div>
+                    {error && <p className="text-sm text-red-600 mt-3">{error}</p>}
+                </div>
+                <div className="flex-1 p-6 overflow-hidden">
+                    <div
+                        ref={outputRef}
+                        className="bg-gray-900 text-gray-100 rounded-lg p-4 h-full overflow-y-auto font-mono text-xs whitespace-pre-wrap break-all"
+                    >
+                        {chunks.length === 0 && !streaming && <span className="text-gray-500">No log output</span>}
+                        {chunks.map(chunk => (
+                            <span key={chunk.id} className={chunk.stream === 'stderr' ? 'text-red-300' : undefined}>
+                                {chunk.text}
+                            </span>
+                        ))}
+                    </div>
+                </div>
+            </div>
+        </div>
+    );
+}
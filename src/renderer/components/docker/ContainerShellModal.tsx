@@ -0,0 +1,165 @@
+import { FormEvent, useEffect, useRef, useState } from 'react';
+import { DockerContainer, DockerEndpoint } from '../../../shared/types';
+import { listenToDockerStream } from '../../utils/dockerStreams';
+
+interface ContainerShellModalProps {
+    endpoint: DockerEndpoint;
+    container: DockerContainer;
+    onClose: () => void;
+}
+
+// Keep roughly the last 200KB of terminal output
+const MAX_OUTPUT_LENGTH = 200000;
+
+// The exec session runs with a TTY, so normalise its control sequences for a plain text view
+const toPlainText = (text: string) => text
+    .replace(/\x1b\][^\x07]*\x07/g, '')
+    .replace(/\x1b\[[0-9;?]*[A-Za-z]/g, '')
+    .replace(/\r\n/g, '\n')
+    .replace(/\r/g, '');
+
+export default function ContainerShellModal({ endpoint, container, onClose }: ContainerShellModalProps) {
+    const [output, setOutput] = useState('');
+    const [input, setInput] = useState('');
+    const [status, setStatus] = useState<'connecting' | 'open' | 'closed'>('connecting');
+    const [exitCode, setExitCode] = useState<number | null>(null);
+    const [error, setError] = useState<string | null>(null);
+    const streamIdRef = useRef<string | null>(null);
+    const outputRef = useRef<HTMLDivElement>(null);
+    const inputRef = useRef<HTMLInputElement>(null);
+
+    useEffect(() => {
+        let cancelled = false;
+
+        const stream = listenToDockerStream({
+            onData: payload => {
+                setOutput(prev => {
+                    const next = prev + toPlainText(payload.data);
+                    return next.length > MAX_OUTPUT_LENGTH ? next.slice(next.length - MAX_OUTPUT_LENGTH) : next;
+                });
+            },
+            onEnd: payload => {
+                streamIdRef.current = null;
+                setStatus('closed');
+                setExitCode(payload.exitCode ?? null);
+                if (payload.error) {
+                    setError(payload.error);
+                }
+            }
+        });
+
+        window.electronAPI.docker.startExec(endpoint, container.id, { cols: 120, rows: 32 })
+            .then(response => {
+                if (!response.success || !response.data) {
+                    throw new Error(response.error || 'Failed to start shell');
+                }
+                if (cancelled) {
+                    window.electronAPI.docker.unsubscribe(response.data);
+                    return;
+                }
+                streamIdRef.current = response.data;
+                setStatus('open');
+                stream.attach(response.data);
+                inputRef.current?.focus();
+            })
+            .catch(err => {
+                stream.dispose();
+                if (!cancelled) {
+                    setStatus('closed');
+                    setError(err instanceof Error ? err.message : 'Failed to start shell');
+                }
+            });
+
+        return () => {
+            cancelled = true;
+            stream.dispose();
+            if (streamIdRef.current) {
+                window.electronAPI.docker.unsubscribe(streamIdRef.current);
+                streamIdRef.current = null;
+            }
+        };
+    }, [endpoint, container.id]);
+
+    useEffect(() => {
+        if (outputRef.current) {
+            outputRef.current.scrollTop = outputRef.current.scrollHeight;
+        }
+    }, [output]);
+
+    const send = (data: string) => {
+        if (streamIdRef.current) {
+            window.electronAPI.docker.writeStream(streamIdRef.current, data);
+        }
+    };
+
+    const handleSubmit = (e: FormEvent) => {
+        e.preventDefault();
+        send(`${input}\r`);
+        setInput('');
+    };
+
+    return (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+            <div className="bg-white rounded-xl shadow-xl w-full max-w-5xl mx-4 h-[85vh] flex flex-col">
+                <div className="p-6 border-b border-gray-200">
+                    <div className="flex items-center justify-between">
+                        <div>
+                            <h3 className="text-lg font-semibold text-gray-900">Shell: {container.name}</h3>
+                            <p className="text-sm text-gray-500 mt-1">
+                                {status === 'connecting' && 'Starting exec session...'}
+                                {status === 'open' && 'Connected'}
+                                {status === 'closed' && `Session ended${exitCode !== null ? ` (exit code ${exitCode})` : ''}`}
+                            </p>
+                        </div>
+                        <button
+                            onClick={onClose}
+                            className="text-gray-400 hover:text-gray-600"
+                        >
+                            <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+                            </svg>
+                        </button>
+                    </div>
+                    {error && <p className="text-sm text-red-600 mt-3">{error}</p>}
+                </div>
+                <div className="flex-1 p-6 overflow-hidden flex flex-col">
+                    <div
+                        ref={outputRef}
+                        onClick={() => inputRef.current?.focus()}
+                        className="flex-1 bg-gray-900 text-gray-100 rounded-t-lg p-4 overflow-y-auto font-mono text-xs whitespace-pre-wrap break-all"
+                    >
+                        {output}
+                    </div>
+                    <form onSubmit={handleSubmit} className="flex items-center bg-gray-800 rounded-b-lg px-4 py-2 space-x-2">
+                        <span className="text-green-400 font-mono text-xs">$</span>
+                        <input
+                            ref={inputRef}
+                            value={input}
+                            onChange={(e) => setInput(e.target.value)}
+                            onKeyDown={(e) => {
+                                if (e.ctrlKey && e.key === 'c') {
+                                    e.preventDefault();
+                                    send('\x03');
+                                } else if (e.ctrlKey && e.key === 'd') {
+                                    e.preventDefault();
+                                    send('\x04');
+                                }
+                            }}
+                            disabled={status !== 'open'}
+                            className="flex-1 bg-transparent text-gray-100 font-mono text-xs focus:outline-none"
+                            placeholder={status === 'open' ? 'Type a command and press Enter' : ''}
+                        />
+                        <button
+                            type="button"
+                            onClick={() => send('\x03')}
+                            disabled={status !== 'open'}
+                            className="px-2 py-1 text-xs bg-gray-700 text-gray-200 rounded hover:bg-gray-600 disabled:opacity-50"
+                        >
+                            Ctrl+C
+                        </button>
+                    </form>
+                </div>
+            </div>
+        </div>
+    );
+}
@@ -11,6 +11,7 @@ import Monitoring from '../../views/Monitoring';
 import Docker from '../../views/Docker';
 import Database from '../../views/Database';
 import AutoUpdater from '../AutoUpdater';
+import SSHAuthPromptModal from '../servers/SSHAuthPromptModal';
 
 export default function MainLayout() {
     const [currentView, setCurrentView] = useState<string>('dashboard');
@@ -62,6 +63,9 @@ export default function MainLayout() {
 
             {/* Auto-updater component */}
             <AutoUpdater />
+
+            {/* Passphrase and two-factor prompts from SSH logins */}
+            <SSHAuthPromptModal />
         </div>
     );
 }
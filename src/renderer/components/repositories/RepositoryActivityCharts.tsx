@@ -0,0 +1,117 @@
+import { RepositoryAnalytics, TrafficSeries } from '../../store/slices/repositoriesSlice';
+
+interface RepositoryActivityChartsProps {
+    analytics: RepositoryAnalytics;
+}
+
+// Weeks of code frequency shown; the full history is usually too dense to read
+const CODE_FREQUENCY_WEEKS = 26;
+
+const formatWeek = (week: string) => new Date(week).toLocaleDateString(undefined, { month: 'short', day: 'numeric' });
+
+function CommitActivityChart({ weeks }: { weeks: RepositoryAnalytics['commitActivity'] }) {
+    const max = Math.max(1, ...weeks.map(week => week.commits));
+    const total = weeks.reduce((sum, week) => sum + week.commits, 0);
+
+    return (
+        <div>
+            <div className="flex items-center justify-between mb-2">
+                <h4 className="text-sm font-medium text-gray-900">Commits per Week</h4>
+                <span className="text-xs text-gray-500">{total} in the last year</span>
+            </div>
+            <div className="flex items-end h-20 gap-px">
+                {weeks.map(week => (
+                    <div
+                        key={week.week}
+                        title={`${formatWeek(week.week)}: ${week.commits} commits`}
+                        className="flex-1 bg-primary-500 rounded-t-sm min-h-[1px]"
+                        style={{ height: `${(week.commits / max) * 100}%` }}
+                    />
+                ))}
+            </div>
+            {weeks.length > 0 && (
+                <div className="flex justify-between text-xs text-gray-400 mt-1">
+                    <span>{formatWeek(weeks[0].week)}</span>
+                    <span>{formatWeek(weeks[weeks.length - 1].week)}</span>
+                </div>
+            )}
+        </div>
+    );
+}
+
+function CodeFrequencyChart({ weeks }: { weeks: RepositoryAnalytics['codeFrequency'] }) {
+    const recent = weeks.slice(-CODE_FREQUENCY_WEEKS);
+    const max = Math.max(1, ...recent.map(week => Math.max(week.additions, week.deletions)));
+
+    return (
+        <div>
+            <div className="flex items-center justify-between mb-2">
+                <h4 className="text-sm font-medium text-gray-900">Code Frequency</h4>
+                <span className="text-xs text-gray-500">
+                    <span className="text-green-600">additions</span> / <span className="text-red-600">deletions</span>
+                </span>
+            </div>
+            <div className="flex h-24 gap-px">
+                {recent.map(week => (
+                    <div
+                        key={week.week}
+                        title={`${formatWeek(week.week)}: +${week.additions} −${week.deletions}`}
+                        className="flex-1 flex flex-col"
+                    >
+                        <div className="flex-1 flex items-end">
+                            <div className="w-full bg-green-500" style={{ height: `${(week.additions / max) * 100}%` }} />
+                        </div>
+                        <div className="flex-1">
+                            <div className="w-full bg-red-400" style={{ height: `${(week.deletions / max) * 100}%` }} />
+                        </div>
+                    </div>
+                ))}
+            </div>
+        </div>
+    );
+}
+
+function TrafficChart({ label, series, color }: { label: string; series: TrafficSeries; color: string }) {
+    const max = Math.max(1, ...series.days.map(day => day.count));
+    const points = series.days.map((day, index) => {
+        const x = series.days.length > 1 ? (index / (series.days.length - 1)) * 100 : 50;
+        const y = 100 - (day.count / max) * 100;
+        return `${x},${y}`;
+    }).join(' ');
+
+    return (
+        <div>
+            <div className="flex items-center justify-between mb-2">
+                <h4 className="text-sm font-medium text-gray-900">{label}</h4>
+                <span className="text-xs text-gray-500">{series.count} total • {series.uniques} unique</span>
+            </div>
+            <div className="h-16">
+                <svg className="w-full h-full" viewBox="0 0 100 100" preserveAspectRatio="none">
+                    <polyline fill="none" stroke={color} strokeWidth="2" points={points} />
+                </svg>
+            </div>
+        </div>
+    );
+}
+
+export default function RepositoryActivityCharts({ analytics }: RepositoryActivityChartsProps) {
+    return (
+        <div className="space-y-6">
+            {analytics.statsPending && (
+                <p className="text-xs text-yellow-700 bg-yellow-50 border border-yellow-200 rounded-lg p-2">
+                    GitHub is still computing statistics for this repository. Refresh in a minute to see the full history.
+                </p>
+            )}
+            {analytics.commitActivity.length > 0 && <CommitActivityChart weeks={analytics.commitActivity} />}
+            {analytics.codeFrequency.length > 0 && <CodeFrequencyChart weeks={analytics.codeFrequency} />}
+            {analytics.traffic ? (
+                <div className="grid grid-cols-2 gap-4">
+                    <TrafficChart label="Views (14 days)" series={analytics.traffic.views} color="#3B82F6" />
+                    <TrafficChart label="Clones (14 days)" series={analytics.traffic.clones} color="#10B981" />
+                </div>
+            ) : (
+                <p className="text-xs text-gray-500">Traffic is only available with push access to the repository.</p>
+            )}
+        </div>
+    );
+}
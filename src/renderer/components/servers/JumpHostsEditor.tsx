@@ -0,0 +1,130 @@
+import { JumpHost, VPSServer } from '../../../shared/types';
+
+interface JumpHostsEditorProps {
+    value: JumpHost[];
+    onChange: (jumpHosts: JumpHost[]) => void;
+    // Saved servers that can be used as bastions
+    servers: VPSServer[];
+}
+
+const inputClassName = 'w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-primary-500 focus:border-transparent';
+
+/**
+ * Check that every hop can be connected to before saving
+ */
+export const isJumpHostListComplete = (jumpHosts: JumpHost[]): boolean => jumpHosts.every(hop =>
+    hop.type === 'server'
+        ? Boolean(hop.serverId)
+        : Boolean(hop.host.trim() && hop.username.trim() && (hop.useAgent || hop.privateKeyPath?.trim() || hop.privateKey?.trim() || hop.password))
+);
+
+export default function JumpHostsEditor({ value, onChange, servers }: JumpHostsEditorProps) {
+    const update = (index: number, hop: JumpHost) => onChange(value.map((item, i) => (i === index ? hop : item)));
+
+    const move = (index: number, offset: number) => {
+        const next = [...value];
+        const [hop] = next.splice(index, 1);
+        next.splice(index + offset, 0, hop);
+        onChange(next);
+    };
+
+    return (
+        <div className="space-y-3">
+            {value.length === 0 && (
+                <p className="text-xs text-gray-500">Connect directly. Add a jump host if the server is only reachable through a bastion.</p>
+            )}
+            {value.map((hop, index) => (
+                <div key={index} className="rounded-lg border border-gray-200 p-3 space-y-2">
+                    <div className="flex items-center justify-between">
+                        <div className="flex items-center space-x-2">
+                            <span className="text-xs font-medium text-gray-500">Hop {index + 1}</span>
+                            <select
+                                value={hop.type}
+                                onChange={(e) => update(index, e.target.value === 'server'
+                                    ? { type: 'server', serverId: servers[0]?.id ?? '' }
+                                    : { type: 'inline', host: '', port: 22, username: '' })}
+                                className="px-2 py-1 border border-gray-300 rounded text-xs"
+                            >
+                                <option value="server">Saved server</option>
+                                <option value="inline">Custom host</option>
+                            </select>
+                        </div>
+                        <div className="flex items-center space-x-1 text-xs">
+                            <button type="button" onClick={() => move(index, -1)} disabled={index === 0} className="px-2 py-1 text-gray-500 hover:text-gray-800 disabled:opacity-30">↑</button>
+                            <button type="button" onClick={() => move(index, 1)} disabled={index === value.length - 1} className="px-2 py-1 text-gray-500 hover:text-gray-800 disabled:opacity-30">↓</button>
+                            <button type="button" onClick={() => onChange(value.filter((_, i) => i !== index))} className="px-2 py-1 text-red-600 hover:text-red-800">Remove</button>
+                        </div>
+                    </div>
+
+                    {hop.type === 'server' ? (
+                        <select
+                            value={hop.serverId}
+                            onChange={(e) => update(index, { type: 'server', serverId: e.target.value })}
+                            className={inputClassName}
+                        >
+                            {servers.length === 0 && <option value="">No other servers saved</option>}
+                            {servers.map(server => (
+                                <option key={server.id} value={server.id}>{server.name} ({server.username}@{server.host})</option>
+                            ))}
+                        </select>
+                    ) : (
+                        <>
+                            <div className="grid grid-cols-3 gap-2">
+                                <input
+                                    value={hop.host}
+                                    onChange={(e) => update(index, { ...hop, host: e.target.value })}
+                                    placeholder="bastion.example.com"
+                                    className={`${inputClassName} col-span-2`}
+                                />
+                                <input
+                                    type="number"
+                                    value={hop.port}
+                                    onChange={(e) => update(index, { ...hop, port: Number(e.target.value) || 22 })}
+                                    className={inputClassName}
+                                />
+                            </div>
+                            <input
+                                value={hop.username}
+                                onChange={(e) => update(index, { ...hop, username: e.target.value })}
+                                placeholder="Username"
+                                className={inputClassName}
+                            />
+                            <div className="grid grid-cols-2 gap-2">
+                                <input
+                                    value={hop.privateKeyPath ?? ''}
+                                    onChange={(e) => update(index, { ...hop, privateKeyPath: e.target.value || undefined })}
+                                    placeholder="Private key path"
+                                    className={inputClassName}
+                                />
+                                <input
+                                    type="password"
+                                    value={hop.password ?? ''}
+                                    onChange={(e) => update(index, { ...hop, password: e.target.value || undefined })}
+                                    placeholder="or password"
+                                    className={inputClassName}
+                                />
+                            </div>
+                            <label className="inline-flex items-center space-x-2 text-xs text-gray-700">
+                                <input
+                                    type="checkbox"
+                                    checked={Boolean(hop.useAgent)}
+                                    onChange={(e) => update(index, { ...hop, useAgent: e.target.checked || undefined })}
+                                />
+                                <span>Use SSH agent</span>
+                            </label>
+                        </>
+                    )}
+                </div>
+            ))}
+            <button
+                type="button"
+                onClick={() => onChange([...value, servers.length > 0
+                    ? { type: 'server', serverId: servers[0].id }
+                    : { type: 'inline', host: '', port: 22, username: '' }])}
+                className="px-3 py-1.5 text-sm bg-gray-100 text-gray-700 rounded-lg hover:bg-gray-200 transition-colors"
+            >
+                Add Jump Host
+            </button>
+        </div>
+    );
+}
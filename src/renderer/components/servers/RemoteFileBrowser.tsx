@@ -0,0 +1,412 @@
+import { FormEvent, ReactElement, useEffect, useState } from 'react';
+import { RemoteFileEntry, VPSServer } from '../../../shared/types';
+import RemoteFileEditor from './RemoteFileEditor';
+
+interface RemoteFileBrowserProps {
+    server: VPSServer;
+}
+
+const formatSize = (bytes: number): string => {
+    if (bytes < 1024) {
+        return `${bytes} B`;
+    }
+    const units = ['KB', 'MB', 'GB'];
+    let value = bytes / 1024;
+    let unit = 0;
+    while (value >= 1024 && unit < units.length - 1) {
+        value /= 1024;
+        unit += 1;
+    }
+    return `${value.toFixed(1)} ${units[unit]}`;
+};
+
+const parentPath = (remotePath: string): string => remotePath.replace(/\/[^/]+\/?$/, '') || '/';
+
+const joinPath = (dir: string, name: string): string => `${dir.replace(/\/+$/, '')}/${name}`;
+
+// Electron has no window.prompt, so names and modes are asked for inline
+interface PendingInput {
+    kind: 'mkdir' | 'rename' | 'chmod';
+    label: string;
+    value: string;
+    entry?: RemoteFileEntry;
+    directory?: string;
+}
+
+/**
+ * Browse a server's files over SFTP as a lazily loaded tree
+ */
+export default function RemoteFileBrowser({ server }: RemoteFileBrowserProps) {
+    const [rootPath, setRootPath] = useState<string | null>(null);
+    const [pathInput, setPathInput] = useState('');
+    // Loaded directory contents by path; directories in the set are expanded
+    const [children, setChildren] = useState<Record<string, RemoteFileEntry[]>>({});
+    const [expanded, setExpanded] = useState<Set<string>>(new Set());
+    const [loadingPaths, setLoadingPaths] = useState<Set<string>>(new Set());
+    const [selected, setSelected] = useState<RemoteFileEntry | null>(null);
+    const [editingPath, setEditingPath] = useState<string | null>(null);
+    const [busy, setBusy] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+    const [message, setMessage] = useState<string | null>(null);
+    const [pendingInput, setPendingInput] = useState<PendingInput | null>(null);
+
+    const isConnected = server.status === 'connected';
+
+    const loadDirectory = async (dirPath: string): Promise<string | null> => {
+        setLoadingPaths(prev => new Set(prev).add(dirPath));
+        const response = await window.electronAPI.sftp.list(server.id, dirPath);
+        setLoadingPaths(prev => {
+            const next = new Set(prev);
+            next.delete(dirPath);
+            return next;
+        });
+
+        if (!response.success || !response.data) {
+            setError(response.error || `Failed to list ${dirPath || 'home directory'}`);
+            return null;
+        }
+        const listing = response.data;
+        setChildren(prev => ({ ...prev, [listing.path]: listing.entries }));
+        setError(null);
+        return listing.path;
+    };
+
+    const openRoot = async (dirPath: string) => {
+        const resolved = await loadDirectory(dirPath);
+        if (resolved) {
+            setRootPath(resolved);
+            setPathInput(resolved);
+            setExpanded(new Set([resolved]));
+            setSelected(null);
+        }
+    };
+
+    useEffect(() => {
+        setChildren({});
+        setRootPath(null);
+        if (isConnected) {
+            openRoot('');
+        }
+        // Reload only when switching servers or reconnecting
+    }, [server.id, isConnected]);
+
+    const toggleDirectory = async (entry: RemoteFileEntry) => {
+        if (expanded.has(entry.path)) {
+            setExpanded(prev => {
+                const next = new Set(prev);
+                next.delete(entry.path);
+                return next;
+            });
+            return;
+        }
+        if (!children[entry.path] && !(await loadDirectory(entry.path))) {
+            return;
+        }
+        setExpanded(prev => new Set(prev).add(entry.path));
+    };
+
+    const refresh = (dirPath: string) => {
+        loadDirectory(dirPath);
+    };
+
+    // The directory that new folders and uploads go into
+    const targetDirectory = selected ? (selected.isDirectory ? selected.path : parentPath(selected.path)) : rootPath;
+
+    const runAction = async (action: () => Promise<{ success: boolean; error?: string }>, success: string, reloadPath: string) => {
+        setBusy(true);
+        setMessage(null);
+        const response = await action();
+        setBusy(false);
+        if (!response.success) {
+            setError(response.error || 'Operation failed');
+            return false;
+        }
+        setMessage(success);
+        await loadDirectory(reloadPath);
+        return true;
+    };
+
+    const handleGo = (e: FormEvent) => {
+        e.preventDefault();
+        if (pathInput.trim()) {
+            openRoot(pathInput.trim());
+        }
+    };
+
+    const handleNewFolder = () => {
+        if (targetDirectory) {
+            setPendingInput({ kind: 'mkdir', label: `New folder in ${targetDirectory}`, value: '', directory: targetDirectory });
+        }
+    };
+
+    const handleUpload = async () => {
+        if (!targetDirectory) {
+            return;
+        }
+        setBusy(true);
+        setMessage(null);
+        const response = await window.electronAPI.sftp.upload(server.id, targetDirectory);
+        setBusy(false);
+        if (!response.success) {
+            setError(response.error || 'Upload failed');
+            return;
+        }
+        if (response.data && response.data.length > 0) {
+            setMessage(`Uploaded ${response.data.length} file${response.data.length === 1 ? '' : 's'} to ${targetDirectory}`);
+            await loadDirectory(targetDirectory);
+            setExpanded(prev => new Set(prev).add(targetDirectory));
+        }
+    };
+
+    const handleDownload = async (entry: RemoteFileEntry) => {
+        setBusy(true);
+        setMessage(null);
+        const response = await window.electronAPI.sftp.download(server.id, entry.path);
+        setBusy(false);
+        if (!response.success) {
+            setError(response.error || 'Download failed');
+        } else if (response.data) {
+            setMessage(`Downloaded to ${response.data}`);
+        }
+    };
+
+    const handleSubmitInput = async (e: FormEvent) => {
+        e.preventDefault();
+        if (!pendingInput) {
+            return;
+        }
+        const value = pendingInput.value.trim();
+        const { kind, entry, directory } = pendingInput;
+        if (!value) {
+            return;
+        }
+
+        if (kind === 'mkdir' && directory) {
+            if (await runAction(() => window.electronAPI.sftp.mkdir(server.id, joinPath(directory, value)), `Created ${value}`, directory)) {
+                setExpanded(prev => new Set(prev).add(directory));
+                setPendingInput(null);
+            }
+        } else if (kind === 'rename' && entry) {
+            const dir = parentPath(entry.path);
+            if (value === entry.name) {
+                setPendingInput(null);
+            } else if (await runAction(() => window.electronAPI.sftp.rename(server.id, entry.path, joinPath(dir, value)), `Renamed ${entry.name} to ${value}`, dir)) {
+                setSelected(null);
+                setPendingInput(null);
+            }
+        } else if (kind === 'chmod' && entry) {
+            if (await runAction(() => window.electronAPI.sftp.chmod(server.id, entry.path, value), `Changed permissions of ${entry.name} to ${value}`, parentPath(entry.path))) {
+                setSelected(null);
+                setPendingInput(null);
+            }
+        }
+    };
+
+    const handleDelete = async (entry: RemoteFileEntry) => {
+        const recursive = entry.type === 'directory';
+        const prompt = recursive
+            ? `Delete the directory ${entry.path} and everything in it? This cannot be undone.`
+            : `Delete ${entry.path}? This cannot be undone.`;
+        if (!window.confirm(prompt)) {
+            return;
+        }
+        const deleted = await runAction(() => window.electronAPI.sftp.delete(server.id, entry.path, recursive), `Deleted ${entry.name}`, parentPath(entry.path));
+        if (deleted) {
+            setSelected(null);
+        }
+    };
+
+    const renderEntries = (dirPath: string, depth: number): ReactElement[] => (children[dirPath] ?? []).flatMap(entry => {
+        const isOpen = entry.isDirectory && expanded.has(entry.path);
+        const row = (
+            <div
+                key={entry.path}
+                onClick={() => setSelected(entry)}
+                onDoubleClick={() => (entry.isDirectory ? toggleDirectory(entry) : entry.type === 'file' && setEditingPath(entry.path))}
+                className={`flex items-center justify-between px-2 py-1 text-sm cursor-pointer rounded ${selected?.path === entry.path ? 'bg-primary-50 text-primary-900' : 'hover:bg-gray-50 text-gray-800'}`}
+                style={{ paddingLeft: `${depth * 16 + 8}px` }}
+            >
+                <span className="flex items-center space-x-2 min-w-0">
+                    {entry.isDirectory ? (
+                        <button
+                            type="button"
+                            onClick={(e) => {
+                                e.stopPropagation();
+                                toggleDirectory(entry);
+                            }}
+                            className="w-4 text-gray-500"
+                        >
+                            {loadingPaths.has(entry.path) ? '…' : isOpen ? '▾' : '▸'}
+                        </button>
+                    ) : (
+                        <span className="w-4" />
+                    )}
+                    <span className={`truncate ${entry.isDirectory ? 'font-medium' : ''}`}>
+                        {entry.name}{entry.isDirectory ? '/' : ''}
+                    </span>
+                    {entry.type === 'symlink' && <span className="text-xs text-gray-400">link</span>}
+                </span>
+                <span className="flex items-center space-x-4 text-xs text-gray-500 flex-shrink-0">
+                    <span className="font-mono">{entry.permissions}</span>
+                    <span className="w-16 text-right">{entry.isDirectory ? '' : formatSize(entry.size)}</span>
+                    <span className="w-32 text-right">{new Date(entry.modifiedAt).toLocaleString()}</span>
+                </span>
+            </div>
+        );
+        return isOpen ? [row, ...renderEntries(entry.path, depth + 1)] : [row];
+    });
+
+    return (
+        <div className="card">
+            <div className="flex items-center justify-between mb-4">
+                <h3 className="text-lg font-semibold text-gray-900">Files</h3>
+                <div className="flex items-center space-x-2">
+                    <button
+                        onClick={handleNewFolder}
+                        disabled={!isConnected || busy || !targetDirectory}
+                        className="px-3 py-1.5 text-sm bg-gray-100 text-gray-700 rounded-lg hover:bg-gray-200 disabled:opacity-50 transition-colors"
+                    >
+                        New Folder
+                    </button>
+                    <button
+                        onClick={handleUpload}
+                        disabled={!isConnected || busy || !targetDirectory}
+                        className="px-3 py-1.5 text-sm bg-gray-100 text-gray-700 rounded-lg hover:bg-gray-200 disabled:opacity-50 transition-colors"
+                    >
+                        Upload
+                    </button>
+                    <button
+                        onClick={() => rootPath && refresh(rootPath)}
+                        disabled={!isConnected || !rootPath}
+                        className="px-3 py-1.5 text-sm bg-gray-100 text-gray-700 rounded-lg hover:bg-gray-200 disabled:opacity-50 transition-colors"
+                    >
+                        Refresh
+                    </button>
+                </div>
+            </div>
+
+            {!isConnected ? (
+                <p className="text-sm text-gray-500">Connect to the server to browse its files.</p>
+            ) : (
+                <div className="space-y-3">
+                    <form onSubmit={handleGo} className="flex items-center space-x-2">
+                        <button
+                            type="button"
+                            onClick={() => rootPath && openRoot(parentPath(rootPath))}
+                            disabled={!rootPath || rootPath === '/'}
+                            className="px-2 py-2 text-sm bg-gray-100 text-gray-700 rounded-lg hover:bg-gray-200 disabled:opacity-50"
+                            title="Parent directory"
+                        >
+                            ↑
+                        </button>
+                        <input
+                            value={pathInput}
+                            onChange={(e) => setPathInput(e.target.value)}
+                            placeholder="/var/www"
+                            className="flex-1 rounded-lg border border-gray-300 px-3 py-2 text-sm font-mono focus:outline-none focus:ring-2 focus:ring-primary-500 focus:border-transparent"
+                        />
+                        <button
+                            type="submit"
+                            className="px-3 py-2 text-sm bg-primary-600 text-white rounded-lg hover:bg-primary-700 transition-colors"
+                        >
+                            Go
+                        </button>
+                    </form>
+
+                    {error && <p className="text-sm text-red-600">{error}</p>}
+                    {message && <p className="text-sm text-green-600">{message}</p>}
+
+                    <div className="max-h-96 overflow-y-auto rounded-lg border border-gray-200 py-1">
+                        {rootPath && children[rootPath]?.length === 0 && (
+                            <p className="px-3 py-2 text-sm text-gray-500">This directory is empty.</p>
+                        )}
+                        {rootPath ? renderEntries(rootPath, 0) : (
+                            <p className="px-3 py-2 text-sm text-gray-500">{loadingPaths.size > 0 ? 'Loading...' : 'No directory loaded.'}</p>
+                        )}
+                    </div>
+
+                    {pendingInput && (
+                        <form onSubmit={handleSubmitInput} className="flex items-center space-x-2 rounded-lg bg-gray-50 px-3 py-2">
+                            <label className="text-sm text-gray-700 flex-shrink-0">{pendingInput.label}</label>
+                            <input
+                                autoFocus
+                                value={pendingInput.value}
+                                onChange={(e) => setPendingInput({ ...pendingInput, value: e.target.value })}
+                                className="flex-1 rounded border border-gray-300 px-2 py-1 text-sm font-mono focus:outline-none focus:ring-2 focus:ring-primary-500 focus:border-transparent"
+                            />
+                            <button
+                                type="submit"
+                                disabled={busy || !pendingInput.value.trim()}
+                                className="px-2 py-1 text-xs bg-primary-600 text-white rounded hover:bg-primary-700 disabled:opacity-50"
+                            >
+                                OK
+                            </button>
+                            <button
+                                type="button"
+                                onClick={() => setPendingInput(null)}
+                                className="px-2 py-1 text-xs bg-white border border-gray-300 rounded hover:bg-gray-100"
+                            >
+                                Cancel
+                            </button>
+                        </form>
+                    )}
+
+                    {selected && !pendingInput && (
+                        <div className="flex items-center justify-between rounded-lg bg-gray-50 px-3 py-2">
+                            <span className="text-sm font-mono text-gray-700 truncate">{selected.path}</span>
+                            <div className="flex items-center space-x-2 flex-shrink-0">
+                                {selected.type === 'file' && (
+                                    <>
+                                        <button
+                                            onClick={() => setEditingPath(selected.path)}
+                                            className="px-2 py-1 text-xs bg-primary-600 text-white rounded hover:bg-primary-700"
+                                        >
+                                            Edit
+                                        </button>
+                                        <button
+                                            onClick={() => handleDownload(selected)}
+                                            disabled={busy}
+                                            className="px-2 py-1 text-xs bg-white border border-gray-300 rounded hover:bg-gray-100 disabled:opacity-50"
+                                        >
+                                            Download
+                                        </button>
+                                    </>
+                                )}
+                                <button
+                                    onClick={() => setPendingInput({ kind: 'rename', label: `Rename ${selected.name} to`, value: selected.name, entry: selected })}
+                                    disabled={busy}
+                                    className="px-2 py-1 text-xs bg-white border border-gray-300 rounded hover:bg-gray-100 disabled:opacity-50"
+                                >
+                                    Rename
+                                </button>
+                                <button
+                                    onClick={() => setPendingInput({ kind: 'chmod', label: `Permissions for ${selected.name} (octal)`, value: selected.permissions, entry: selected })}
+                                    disabled={busy}
+                                    className="px-2 py-1 text-xs bg-white border border-gray-300 rounded hover:bg-gray-100 disabled:opacity-50"
+                                >
+                                    Permissions
+                                </button>
+                                <button
+                                    onClick={() => handleDelete(selected)}
+                                    disabled={busy}
+                                    className="px-2 py-1 text-xs bg-red-50 text-red-700 rounded hover:bg-red-100 disabled:opacity-50"
+                                >
+                                    Delete
+                                </button>
+                            </div>
+                        </div>
+                    )}
+                </div>
+            )}
+
+            {editingPath && (
+                <RemoteFileEditor
+                    serverId={server.id}
+                    filePath={editingPath}
+                    onClose={() => setEditingPath(null)}
+                    onSaved={() => refresh(parentPath(editingPath))}
+                />
+            )}
+        </div>
+    );
+}
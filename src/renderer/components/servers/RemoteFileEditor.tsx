@@ -0,0 +1,194 @@
+import { useEffect, useState } from 'react';
+import Editor, { DiffEditor } from '@monaco-editor/react';
+import { RemoteFileContent } from '../../../shared/types';
+import { languageForPath } from '../../utils/monaco';
+
+interface RemoteFileEditorProps {
+    serverId: string;
+    filePath: string;
+    onClose: () => void;
+    onSaved?: () => void;
+}
+
+// What the save found on the server: changed content, or null when the file is gone
+type SaveConflict = { remote: RemoteFileContent | null };
+
+export default function RemoteFileEditor({ serverId, filePath, onClose, onSaved }: RemoteFileEditorProps) {
+    const [file, setFile] = useState<RemoteFileContent | null>(null);
+    const [content, setContent] = useState('');
+    const [loading, setLoading] = useState(true);
+    const [saving, setSaving] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+    const [conflict, setConflict] = useState<SaveConflict | null>(null);
+    const [showDiff, setShowDiff] = useState(false);
+    const [savedAt, setSavedAt] = useState<string | null>(null);
+
+    const isDirty = file !== null && content !== file.content;
+    const language = languageForPath(filePath);
+
+    const load = async () => {
+        setLoading(true);
+        setError(null);
+        const response = await window.electronAPI.sftp.readFile(serverId, filePath);
+        if (response.success && response.data) {
+            setFile(response.data);
+            setContent(response.data.content);
+            setConflict(null);
+            setShowDiff(false);
+        } else {
+            setError(response.error || 'Failed to open file');
+        }
+        setLoading(false);
+    };
+
+    useEffect(() => {
+        load();
+    }, [serverId, filePath]);
+
+    const save = async (overwrite: boolean) => {
+        if (!file) {
+            return;
+        }
+        setSaving(true);
+        setError(null);
+        const response = await window.electronAPI.sftp.writeFile(serverId, filePath, content, overwrite ? undefined : file.hash);
+        setSaving(false);
+
+        if (!response.success || !response.data) {
+            setError(response.error || 'Failed to save file');
+            return;
+        }
+        const result = response.data;
+        if (!result.saved) {
+            setConflict({ remote: result.conflict });
+            return;
+        }
+
+        setFile({ ...result.file, content });
+        setConflict(null);
+        setShowDiff(false);
+        setSavedAt(result.file.modifiedAt);
+        onSaved?.();
+    };
+
+    const handleClose = () => {
+        if (isDirty && !window.confirm('Discard unsaved changes?')) {
+            return;
+        }
+        onClose();
+    };
+
+    const handleReload = () => {
+        if (isDirty && !window.confirm('Reload the file from the server and discard your changes?')) {
+            return;
+        }
+        load();
+    };
+
+    return (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+            <div className="bg-white rounded-xl shadow-xl w-full max-w-6xl mx-4 h-[85vh] flex flex-col">
+                <div className="p-6 border-b border-gray-200">
+                    <div className="flex items-center justify-between">
+                        <div className="min-w-0">
+                            <h3 className="text-lg font-semibold text-gray-900 truncate">
+                                {filePath}
+                                {isDirty && <span className="ml-2 text-sm font-normal text-yellow-600">Modified</span>}
+                            </h3>
+                            <p className="text-sm text-gray-500 mt-1">
+                                {loading
+                                    ? 'Loading...'
+                                    : file
+                                        ? `${file.size.toLocaleString()} bytes · modified ${new Date(savedAt ?? file.modifiedAt).toLocaleString()}`
+                                        : 'Not loaded'}
+                            </p>
+                        </div>
+                        <div className="flex items-center space-x-2">
+                            <button
+                                onClick={handleReload}
+                                disabled={loading || saving}
+                                className="px-3 py-1.5 text-sm bg-gray-100 text-gray-700 rounded-lg hover:bg-gray-200 disabled:opacity-50 transition-colors"
+                            >
+                                Reload
+                            </button>
+                            <button
+                                onClick={() => save(false)}
+                                disabled={!file || !isDirty || saving || conflict !== null}
+                                className="px-3 py-1.5 text-sm bg-primary-600 text-white rounded-lg hover:bg-primary-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+                            >
+                                {saving ? 'Saving...' : 'Save'}
+                            </button>
+                            <button
+                                onClick={handleClose}
+                                className="text-gray-400 hover:text-gray-600"
+                            >
+                                <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+                                </svg>
+                            </button>
+                        </div>
+                    </div>
+                    {error && <p className="text-sm text-red-600 mt-3">{error}</p>}
+                    {conflict && (
+                        <div className="mt-3 rounded-lg border border-yellow-300 bg-yellow-50 p-3 text-sm text-yellow-800">
+                            <p className="font-medium">
+                                {conflict.remote
+                                    ? 'This file was changed on the server after you opened it.'
+                                    : 'This file was deleted on the server after you opened it.'}
+                            </p>
+                            <div className="flex items-center space-x-2 mt-2">
+                                {conflict.remote && (
+                                    <button
+                                        onClick={() => setShowDiff(!showDiff)}
+                                        className="px-3 py-1 text-xs bg-white border border-yellow-300 rounded hover:bg-yellow-100"
+                                    >
+                                        {showDiff ? 'Hide changes' : 'Compare with server'}
+                                    </button>
+                                )}
+                                <button
+                                    onClick={() => save(true)}
+                                    disabled={saving}
+                                    className="px-3 py-1 text-xs bg-white border border-yellow-300 rounded hover:bg-yellow-100 disabled:opacity-50"
+                                >
+                                    {conflict.remote ? 'Overwrite with my version' : 'Save anyway'}
+                                </button>
+                                <button
+                                    onClick={() => {
+                                        if (window.confirm('Discard your changes and load the server version?')) {
+                                            load();
+                                        }
+                                    }}
+                                    className="px-3 py-1 text-xs bg-white border border-yellow-300 rounded hover:bg-yellow-100"
+                                >
+                                    Discard my changes
+                                </button>
+                            </div>
+                        </div>
+                    )}
+                </div>
+                <div className="flex-1 overflow-hidden">
+                    {file && (showDiff && conflict?.remote ? (
+                        <DiffEditor
+                            original={conflict.remote.content}
+                            modified={content}
+                            language={language}
+                            onMount={(editor) => {
+                                editor.getModifiedEditor().onDidChangeModelContent(() => {
+                                    setContent(editor.getModifiedEditor().getValue());
+                                });
+                            }}
+                            options={{ renderSideBySide: true, minimap: { enabled: false } }}
+                        />
+                    ) : (
+                        <Editor
+                            value={content}
+                            language={language}
+                            onChange={(value) => setContent(value ?? '')}
+                            options={{ minimap: { enabled: false }, fontSize: 13, scrollBeyondLastLine: false }}
+                        />
+                    ))}
+                </div>
+            </div>
+        </div>
+    );
+}
@@ -0,0 +1,148 @@
+import { FormEvent, useEffect, useState } from 'react';
+import { SSHAuthPrompt } from '../../../shared/types';
+
+const describePrompt = (prompt: SSHAuthPrompt) => {
+    switch (prompt.kind) {
+        case 'passphrase':
+            return `Unlocking the private key for ${prompt.target}`;
+        case 'host-key':
+            return `Verifying ${prompt.target}`;
+        default:
+            return `Login for ${prompt.target}`;
+    }
+};
+
+/**
+ * Answers passphrase, keyboard-interactive and host key prompts raised while the main process
+ * logs in to a server. Prompts queue up and are shown one at a time.
+ */
+export default function SSHAuthPromptModal() {
+    const [prompts, setPrompts] = useState<SSHAuthPrompt[]>([]);
+    const [responses, setResponses] = useState<string[]>([]);
+    const [remember, setRemember] = useState(false);
+    const [submitting, setSubmitting] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+
+    const current = prompts[0];
+
+    useEffect(() => {
+        const handlePrompt = (prompt: SSHAuthPrompt) => {
+            setPrompts(prev => [...prev, prompt]);
+        };
+        // Answered or timed out in the main process
+        const handleClosed = (promptId: string) => {
+            setPrompts(prev => prev.filter(prompt => prompt.id !== promptId));
+        };
+
+        const offPrompt = window.electronAPI.on('servers:auth-prompt', handlePrompt);
+        const offClosed = window.electronAPI.on('servers:auth-prompt-closed', handleClosed);
+
+        return () => {
+            offPrompt();
+            offClosed();
+        };
+    }, []);
+
+    useEffect(() => {
+        setResponses(current ? current.prompts.map(() => '') : []);
+        setRemember(false);
+        setError(null);
+    }, [current?.id]);
+
+    if (!current) {
+        return null;
+    }
+
+    const answer = async (submit: boolean) => {
+        setSubmitting(true);
+        setError(null);
+        try {
+            const response = await window.electronAPI.servers.respondToAuthPrompt(
+                current.id,
+                submit ? { responses, remember: current.canRemember && remember } : null
+            );
+            if (!response.success) {
+                throw new Error(response.error || 'Failed to send the answer');
+            }
+            setPrompts(prev => prev.filter(prompt => prompt.id !== current.id));
+        } catch (err) {
+            setError((err as Error).message);
+        } finally {
+            setSubmitting(false);
+        }
+    };
+
+    const handleSubmit = (e: FormEvent) => {
+        e.preventDefault();
+        answer(true);
+    };
+
+    return (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+            <form onSubmit={handleSubmit} className="bg-white rounded-xl shadow-xl w-full max-w-md mx-4">
+                <div className="p-6 border-b border-gray-200">
+                    <h3 className="text-lg font-semibold text-gray-900">{current.title}</h3>
+                    <p className="text-sm text-gray-500 mt-1">{describePrompt(current)}</p>
+                    {current.instructions && (
+                        <p className="text-sm text-gray-700 mt-3 whitespace-pre-wrap">{current.instructions}</p>
+                    )}
+                </div>
+                <div className="p-6 space-y-4">
+                    {current.error && <p className="text-sm text-red-600">{current.error}</p>}
+                    {current.hostKey && (
+                        <div className={`rounded-lg p-3 text-sm ${current.hostKey.previousFingerprint ? 'bg-red-50 border border-red-200' : 'bg-gray-50 border border-gray-200'}`}>
+                            {current.hostKey.previousFingerprint && (
+                                <>
+                                    <p className="text-xs font-medium text-red-700">Previously trusted</p>
+                                    <p className="font-mono text-xs text-red-700 break-all mb-2">{current.hostKey.previousFingerprint}</p>
+                                </>
+                            )}
+                            <p className="text-xs font-medium text-gray-700">Presented ({current.hostKey.keyType})</p>
+                            <p className="font-mono text-xs text-gray-900 break-all">{current.hostKey.fingerprint}</p>
+                        </div>
+                    )}
+                    {current.prompts.map((prompt, index) => (
+                        <div key={index}>
+                            <label className="block text-sm font-medium text-gray-700 mb-1">{prompt.prompt}</label>
+                            <input
+                                type={prompt.echo ? 'text' : 'password'}
+                                value={responses[index] ?? ''}
+                                onChange={(e) => setResponses(prev => prev.map((value, i) => (i === index ? e.target.value : value)))}
+                                autoFocus={index === 0}
+                                autoComplete="off"
+                                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-primary-500 focus:border-transparent"
+                            />
+                        </div>
+                    ))}
+                    {current.canRemember && (
+                        <label className="flex items-center space-x-2 text-sm text-gray-700">
+                            <input type="checkbox" checked={remember} onChange={(e) => setRemember(e.target.checked)} />
+                            <span>Remember for 15 minutes</span>
+                        </label>
+                    )}
+                    {error && <p className="text-sm text-red-600">{error}</p>}
+                    {prompts.length > 1 && (
+                        <p className="text-xs text-gray-500">{prompts.length - 1} more prompt(s) waiting</p>
+                    )}
+                </div>
+                <div className="p-6 border-t border-gray-200 flex justify-end space-x-3">
+                    <button
+                        type="button"
+                        onClick={() => answer(false)}
+                        disabled={submitting}
+                        className="px-4 py-2 text-gray-700 bg-gray-100 rounded-lg hover:bg-gray-200 transition-colors disabled:opacity-50"
+                    >
+                        Cancel
+                    </button>
+                    <button
+                        type="submit"
+                        disabled={submitting}
+                        className="px-4 py-2 bg-primary-600 text-white rounded-lg hover:bg-primary-700 transition-colors disabled:opacity-50"
+                    >
+                        {submitting ? 'Sending...' : current.kind === 'host-key' ? 'Trust Key' : 'Continue'}
+                    </button>
+                </div>
+            </form>
+        </div>
+    );
+}
@@ -0,0 +1,307 @@
+import { useEffect, useRef, useState } from 'react';
+import { Terminal } from '@xterm/xterm';
+import { FitAddon } from '@xterm/addon-fit';
+import '@xterm/xterm/css/xterm.css';
+import { TerminalData, TerminalExit, VPSServer } from '../../../shared/types';
+
+interface ServerTerminalProps {
+    server: VPSServer;
+}
+
+interface TerminalTabState {
+    key: number;
+    sessionId: string | null;
+    status: 'connecting' | 'open' | 'closed';
+    message?: string;
+}
+
+type SessionListener = {
+    onData: (data: string) => void;
+    onExit: (payload: TerminalExit) => void;
+};
+
+interface TerminalTabProps {
+    serverId: string;
+    active: boolean;
+    register: (sessionId: string, listener: SessionListener) => void;
+    onChange: (update: Partial<TerminalTabState>) => void;
+}
+
+const describeExit = (payload: TerminalExit): string => {
+    if (payload.error) {
+        return payload.error;
+    }
+    if (payload.signal) {
+        return `Session ended (signal ${payload.signal})`;
+    }
+    return `Session ended${payload.code !== undefined && payload.code !== null ? ` (exit code ${payload.code})` : ''}`;
+};
+
+function TerminalTab({ serverId, active, register, onChange }: TerminalTabProps) {
+    const containerRef = useRef<HTMLDivElement>(null);
+    const terminalRef = useRef<Terminal | null>(null);
+    const fitRef = useRef<FitAddon | null>(null);
+    const sessionIdRef = useRef<string | null>(null);
+
+    useEffect(() => {
+        if (!containerRef.current) {
+            return;
+        }
+        let cancelled = false;
+
+        const terminal = new Terminal({
+            cursorBlink: true,
+            fontFamily: 'Menlo, Monaco, "Courier New", monospace',
+            fontSize: 13,
+            scrollback: 5000,
+            theme: { background: '#111827' }
+        });
+        const fit = new FitAddon();
+        terminal.loadAddon(fit);
+        terminal.open(containerRef.current);
+        fit.fit();
+        terminalRef.current = terminal;
+        fitRef.current = fit;
+
+        const input = terminal.onData(data => {
+            if (sessionIdRef.current) {
+                window.electronAPI.terminal.write(sessionIdRef.current, data);
+            }
+        });
+        const resize = terminal.onResize(({ cols, rows }) => {
+            if (sessionIdRef.current) {
+                window.electronAPI.terminal.resize(sessionIdRef.current, cols, rows);
+            }
+        });
+
+        window.electronAPI.terminal.open(serverId, { cols: terminal.cols, rows: terminal.rows })
+            .then(response => {
+                if (!response.success || !response.data) {
+                    throw new Error(response.error || 'Failed to open terminal');
+                }
+                if (cancelled) {
+                    window.electronAPI.terminal.close(response.data.id);
+                    return;
+                }
+                sessionIdRef.current = response.data.id;
+                register(response.data.id, {
+                    onData: data => terminal.write(data),
+                    onExit: payload => {
+                        terminal.write(`\r\n\x1b[90m[${describeExit(payload)}]\x1b[0m\r\n`);
+                        onChange({ status: 'closed', message: describeExit(payload) });
+                    }
+                });
+                onChange({ sessionId: response.data.id, status: 'open' });
+                terminal.focus();
+            })
+            .catch(err => {
+                if (!cancelled) {
+                    const message = err instanceof Error ? err.message : 'Failed to open terminal';
+                    terminal.write(`\x1b[31m${message}\x1b[0m\r\n`);
+                    onChange({ status: 'closed', message });
+                }
+            });
+
+        return () => {
+            cancelled = true;
+            input.dispose();
+            resize.dispose();
+            terminal.dispose();
+            terminalRef.current = null;
+            fitRef.current = null;
+            if (sessionIdRef.current) {
+                window.electronAPI.terminal.close(sessionIdRef.current);
+                sessionIdRef.current = null;
+            }
+        };
+        // The tab opens exactly one shell for its lifetime
+    }, [serverId]);
+
+    // Follow the panel size; hidden tabs are refitted when they become visible again
+    useEffect(() => {
+        if (!active || !containerRef.current) {
+            return;
+        }
+        const refit = () => {
+            try {
+                fitRef.current?.fit();
+            } catch {
+                // The terminal may already be disposed while the tab closes
+            }
+        };
+        refit();
+        terminalRef.current?.focus();
+
+        const observer = new ResizeObserver(refit);
+        observer.observe(containerRef.current);
+        return () => observer.disconnect();
+    }, [active]);
+
+    return (
+        <div className={`h-96 bg-gray-900 rounded-b-lg p-2 ${active ? '' : 'hidden'}`}>
+            <div ref={containerRef} className="h-full w-full" />
+        </div>
+    );
+}
+
+/**
+ * Interactive shells on a server, one PTY-backed SSH session per tab.
+ * Sessions belong to this panel and are closed when it unmounts.
+ */
+export default function ServerTerminal({ server }: ServerTerminalProps) {
+    const [tabs, setTabs] = useState<TerminalTabState[]>([]);
+    const [activeKey, setActiveKey] = useState<number | null>(null);
+    const [saveMessage, setSaveMessage] = useState<string | null>(null);
+    const nextKeyRef = useRef(1);
+    const listenersRef = useRef<Map<string, SessionListener>>(new Map());
+    // Output that arrives before a tab has registered its session
+    const pendingRef = useRef<Map<string, string[]>>(new Map());
+
+    useEffect(() => {
+        const listeners = listenersRef.current;
+        const pending = pendingRef.current;
+
+        const handleData = (payload: TerminalData) => {
+            const listener = listeners.get(payload.sessionId);
+            if (listener) {
+                listener.onData(payload.data);
+            } else {
+                pending.set(payload.sessionId, [...(pending.get(payload.sessionId) ?? []), payload.data]);
+            }
+        };
+        const handleExit = (payload: TerminalExit) => {
+            listeners.get(payload.sessionId)?.onExit(payload);
+            pending.delete(payload.sessionId);
+        };
+
+        window.electronAPI.on('terminal:data', handleData);
+        window.electronAPI.on('terminal:exit', handleExit);
+
+        return () => {
+            window.electronAPI.removeAllListeners('terminal:data');
+            window.electronAPI.removeAllListeners('terminal:exit');
+            listeners.clear();
+            pending.clear();
+        };
+    }, []);
+
+    const register = (sessionId: string, listener: SessionListener) => {
+        listenersRef.current.set(sessionId, listener);
+        const buffered = pendingRef.current.get(sessionId);
+        if (buffered) {
+            pendingRef.current.delete(sessionId);
+            buffered.forEach(listener.onData);
+        }
+    };
+
+    const updateTab = (key: number, update: Partial<TerminalTabState>) => {
+        setTabs(prev => prev.map(tab => (tab.key === key ? { ...tab, ...update } : tab)));
+    };
+
+    const handleNewTab = () => {
+        const key = nextKeyRef.current++;
+        setTabs(prev => [...prev, { key, sessionId: null, status: 'connecting' }]);
+        setActiveKey(key);
+        setSaveMessage(null);
+    };
+
+    const handleCloseTab = (tab: TerminalTabState) => {
+        if (tab.status === 'open' && !window.confirm('Close this terminal? The remote shell will be ended.')) {
+            return;
+        }
+        if (tab.sessionId) {
+            listenersRef.current.delete(tab.sessionId);
+        }
+        const remaining = tabs.filter(item => item.key !== tab.key);
+        setTabs(remaining);
+        if (activeKey === tab.key) {
+            setActiveKey(remaining.length > 0 ? remaining[remaining.length - 1].key : null);
+        }
+    };
+
+    const activeTab = tabs.find(tab => tab.key === activeKey) ?? null;
+
+    const handleSaveTranscript = async () => {
+        if (!activeTab?.sessionId) {
+            return;
+        }
+        const response = await window.electronAPI.terminal.saveTranscript(activeTab.sessionId);
+        if (!response.success) {
+            setSaveMessage(response.error || 'Failed to save transcript');
+        } else if (response.data) {
+            setSaveMessage(`Transcript saved to ${response.data}`);
+        }
+    };
+
+    return (
+        <div className="card">
+            <div className="flex items-center justify-between mb-4">
+                <h3 className="text-lg font-semibold text-gray-900">Terminal</h3>
+                <div className="flex items-center space-x-2">
+                    {activeTab?.sessionId && (
+                        <button
+                            onClick={handleSaveTranscript}
+                            className="px-3 py-1.5 text-sm bg-gray-100 text-gray-700 rounded-lg hover:bg-gray-200 transition-colors"
+                        >
+                            Save Transcript
+                        </button>
+                    )}
+                    <button
+                        onClick={handleNewTab}
+                        disabled={server.status !== 'connected'}
+                        className="px-3 py-1.5 text-sm bg-primary-600 text-white rounded-lg hover:bg-primary-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+                    >
+                        New Terminal
+                    </button>
+                </div>
+            </div>
+
+            {tabs.length === 0 ? (
+                <p className="text-sm text-gray-500">
+                    {server.status === 'connected'
+                        ? 'Open a terminal to start an interactive shell on this server.'
+                        : 'Connect to the server to open a terminal.'}
+                </p>
+            ) : (
+                <div>
+                    <div className="flex items-center space-x-1 bg-gray-800 rounded-t-lg px-2 pt-2 overflow-x-auto">
+                        {tabs.map((tab, index) => (
+                            <div
+                                key={tab.key}
+                                className={`flex items-center space-x-2 px-3 py-1.5 rounded-t text-xs cursor-pointer ${tab.key === activeKey ? 'bg-gray-900 text-gray-100' : 'text-gray-400 hover:text-gray-200'}`}
+                                onClick={() => setActiveKey(tab.key)}
+                            >
+                                <span className={`w-2 h-2 rounded-full ${tab.status === 'open' ? 'bg-green-400' : tab.status === 'connecting' ? 'bg-yellow-400' : 'bg-gray-500'}`} />
+                                <span>{server.username}@{server.name} #{index + 1}</span>
+                                <button
+                                    onClick={(e) => {
+                                        e.stopPropagation();
+                                        handleCloseTab(tab);
+                                    }}
+                                    className="text-gray-500 hover:text-gray-200"
+                                    title="Close terminal"
+                                >
+                                    ×
+                                </button>
+                            </div>
+                        ))}
+                    </div>
+                    {tabs.map(tab => (
+                        <TerminalTab
+                            key={tab.key}
+                            serverId={server.id}
+                            active={tab.key === activeKey}
+                            register={register}
+                            onChange={(update) => updateTab(tab.key, update)}
+                        />
+                    ))}
+                    {activeTab?.status === 'closed' && activeTab.message && (
+                        <p className="text-xs text-gray-500 mt-2">{activeTab.message}</p>
+                    )}
+                </div>
+            )}
+
+            {saveMessage && <p className="text-xs text-gray-500 mt-2">{saveMessage}</p>}
+        </div>
+    );
+}
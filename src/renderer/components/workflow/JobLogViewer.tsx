@@ -0,0 +1,187 @@
+import { useEffect, useMemo, useRef, useState } from 'react';
+import { WorkflowJob } from '../../../shared/types';
+import { JobLogLine, parseAnsi, parseJobLog, splitLogBySteps, stripAnsi } from '../../utils/jobLogs';
+
+interface JobLogViewerProps {
+    owner: string;
+    repo: string;
+    job: WorkflowJob;
+    stepNumber: number;
+    // Latest job state fetched with the log, for step statuses shown outside the viewer
+    onJobUpdate?: (job: WorkflowJob) => void;
+}
+
+// How often the log of a running job is fetched again
+const LOG_POLL_INTERVAL_MS = 5000;
+// Failed fetches of a running job's log are retried with a doubling delay up to this
+const MAX_LOG_RETRY_DELAY_MS = 60 * 1000;
+
+const lineClassName = (line: JobLogLine, matched: boolean) => {
+    const base = matched ? 'bg-yellow-900/60' : '';
+    switch (line.kind) {
+        case 'error': return `${base || 'bg-red-900/40'} text-red-300`;
+        case 'warning': return `${base || 'bg-yellow-900/30'} text-yellow-300`;
+        case 'command': return `${base} text-cyan-300`;
+        case 'group': return `${base} text-gray-100 font-semibold`;
+        default: return base;
+    }
+};
+
+function LogText({ text }: { text: string }) {
+    return (
+        <>
+            {parseAnsi(text).map((segment, index) => (
+                <span key={index} style={{ color: segment.color, fontWeight: segment.bold ? 600 : undefined }}>
+                    {segment.text}
+                </span>
+            ))}
+        </>
+    );
+}
+
+export default function JobLogViewer({ owner, repo, job, stepNumber, onJobUpdate }: JobLogViewerProps) {
+    const [content, setContent] = useState('');
+    const [liveJob, setLiveJob] = useState(job);
+    const [loading, setLoading] = useState(true);
+    const [error, setError] = useState<string | null>(null);
+    const [search, setSearch] = useState('');
+    const [wholeJob, setWholeJob] = useState(false);
+    const [errorsOnly, setErrorsOnly] = useState(false);
+    const sizeRef = useRef(0);
+    const outputRef = useRef<HTMLDivElement>(null);
+    const onJobUpdateRef = useRef(onJobUpdate);
+    onJobUpdateRef.current = onJobUpdate;
+
+    useEffect(() => {
+        let cancelled = false;
+        let timer: ReturnType<typeof setTimeout> | undefined;
+        sizeRef.current = 0;
+        setContent('');
+        setLoading(true);
+
+        let running = job.status !== 'completed';
+        let retryDelay = LOG_POLL_INTERVAL_MS;
+
+        const load = async () => {
+            let failure: string | null = null;
+            try {
+                const response = await window.electronAPI.workflows.getJobLogs(owner, repo, job.id, sizeRef.current);
+                if (cancelled) {
+                    return;
+                }
+
+                if (response.success && response.data) {
+                    const logs = response.data;
+                    setContent(prev => (logs.reset ? logs.text : prev + logs.text));
+                    sizeRef.current = logs.size;
+                    running = logs.job.status !== 'completed';
+                    retryDelay = LOG_POLL_INTERVAL_MS;
+                    setLiveJob(logs.job);
+                    setError(null);
+                    onJobUpdateRef.current?.(logs.job);
+                } else {
+                    failure = response.error || 'Failed to load job logs';
+                }
+            } catch (err) {
+                if (cancelled) {
+                    return;
+                }
+                failure = err instanceof Error ? err.message : 'Failed to load job logs';
+            }
+
+            if (failure) {
+                setError(failure);
+            }
+            if (running) {
+                timer = setTimeout(load, failure ? retryDelay : LOG_POLL_INTERVAL_MS);
+                if (failure) {
+                    retryDelay = Math.min(retryDelay * 2, MAX_LOG_RETRY_DELAY_MS);
+                }
+            }
+            setLoading(false);
+        };
+
+        load();
+
+        return () => {
+            cancelled = true;
+            clearTimeout(timer);
+        };
+    }, [owner, repo, job.id]);
+
+    const lines = useMemo(() => parseJobLog(content), [content]);
+    const linesByStep = useMemo(() => splitLogBySteps(lines, liveJob.steps), [lines, liveJob.steps]);
+
+    const shownLines = useMemo(() => {
+        const scoped = wholeJob ? lines : linesByStep.get(stepNumber) ?? [];
+        return errorsOnly ? scoped.filter(line => line.kind === 'error' || line.kind === 'warning') : scoped;
+    }, [lines, linesByStep, stepNumber, wholeJob, errorsOnly]);
+
+    const term = search.trim().toLowerCase();
+    const matches = useMemo(
+        () => new Set(term ? shownLines.filter(line => stripAnsi(line.text).toLowerCase().includes(term)).map(line => line.index) : []),
+        [shownLines, term]
+    );
+
+    // Follow the end of the log while the job is still writing it
+    useEffect(() => {
+        if (liveJob.status !== 'completed' && outputRef.current && !term) {
+            outputRef.current.scrollTop = outputRef.current.scrollHeight;
+        }
+    }, [shownLines, liveJob.status, term]);
+
+    const scrollToFirstMatch = () => {
+        const first = shownLines.find(line => matches.has(line.index));
+        if (first) {
+            outputRef.current?.querySelector(`[data-line="${first.index}"]`)?.scrollIntoView({ block: 'center' });
+        }
+    };
+
+    return (
+        <div className="flex flex-col h-full">
+            <div className="flex items-center space-x-3 mb-3">
+                <input
+                    type="text"
+                    value={search}
+                    onChange={(e) => setSearch(e.target.value)}
+                    onKeyDown={(e) => e.key === 'Enter' && scrollToFirstMatch()}
+                    placeholder="Search logs..."
+                    className="flex-1 px-3 py-2 border border-gray-300 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-primary-500 focus:border-transparent"
+                />
+                {term && <span className="text-xs text-gray-500">{matches.size} matching line(s)</span>}
+                <label className="flex items-center text-sm text-gray-600">
+                    <input type="checkbox" checked={errorsOnly} onChange={(e) => setErrorsOnly(e.target.checked)} className="mr-1" />
+                    Errors only
+                </label>
+                <label className="flex items-center text-sm text-gray-600">
+                    <input type="checkbox" checked={wholeJob} onChange={(e) => setWholeJob(e.target.checked)} className="mr-1" />
+                    Whole job
+                </label>
+                {liveJob.status !== 'completed' && (
+                    <span className="text-xs text-blue-600 animate-pulse">Live</span>
+                )}
+            </div>
+            <div ref={outputRef} className="bg-gray-900 text-gray-300 rounded-lg p-4 flex-1 overflow-y-auto font-mono text-xs">
+                {loading ? (
+                    <div className="text-gray-400">Loading logs...</div>
+                ) : error ? (
+                    <div className="text-red-400">{error}</div>
+                ) : shownLines.length === 0 ? (
+                    <div className="text-gray-400">
+                        {liveJob.status === 'completed' ? 'No log output for this step.' : 'Waiting for log output...'}
+                    </div>
+                ) : (
+                    shownLines.map(line => (
+                        <div key={line.index} data-line={line.index} className={`flex whitespace-pre-wrap break-all ${lineClassName(line, matches.has(line.index))}`}>
+                            <span className="w-12 flex-shrink-0 pr-3 text-right text-gray-600 select-none">{line.index + 1}</span>
+                            <span className="flex-1">
+                                {line.kind === 'group' && '▸ '}
+                                <LogText text={line.text} />
+                            </span>
+                        </div>
+                    ))
+                )}
+            </div>
+        </div>
+    );
+}
@@ -1,21 +1,11 @@
-import { useState, useRef, useCallback, useEffect } from 'react';
-
-interface WorkflowNode {
-    id: string;
-    type: 'trigger' | 'action' | 'condition' | 'deploy';
-    title: string;
-    description: string;
-    position: { x: number; y: number };
-    config: Record<string, any>;
-    connections: string[];
-}
-
-interface Connection {
-    from: string;
-    to: string;
-    fromPort: string;
-    toPort: string;
-}
+import { useState, useRef, useCallback, useEffect, useMemo } from 'react';
+import {
+    WorkflowDiagnostic,
+    WorkflowGraphConnection as Connection,
+    WorkflowGraphNode as WorkflowNode,
+    WorkflowProject
+} from '../../../shared/types';
+import { TRIGGER_EVENTS, compileWorkflowGraph } from '../../utils/workflowGraph';
 
 interface NodeType {
     color: string;
@@ -49,16 +39,41 @@ const NODE_TYPES: Record<string, NodeType> = {
     }
 };
 
-const PREDEFINED_NODES = [
-    { type: 'trigger', title: 'Git Push', description: 'Triggered on git push' },
-    { type: 'trigger', title: 'PR Created', description: 'Triggered on pull request' },
-    { type: 'action', title: 'Run Tests', description: 'Execute test suite' },
-    { type: 'action', title: 'Build Docker', description: 'Build Docker image' },
-    { type: 'condition', title: 'Branch Check', description: 'Check branch name' },
-    { type: 'deploy', title: 'Deploy to Production', description: 'Deploy to production environment' },
-    { type: 'deploy', title: 'Deploy to Staging', description: 'Deploy to staging environment' },
+const PREDEFINED_NODES: Pick<WorkflowNode, 'type' | 'title' | 'description' | 'config'>[] = [
+    { type: 'trigger', title: 'Git Push', description: 'Triggered on git push', config: { event: 'push', branches: 'main' } },
+    { type: 'trigger', title: 'PR Created', description: 'Triggered on pull request', config: { event: 'pull_request' } },
+    { type: 'action', title: 'Run Tests', description: 'Execute test suite', config: { run: 'npm ci && npm test' } },
+    { type: 'action', title: 'Build Docker', description: 'Build Docker image', config: { run: 'docker build -t app .' } },
+    { type: 'condition', title: 'Branch Check', description: 'Check branch name', config: { expression: "github.ref == 'refs/heads/main'" } },
+    { type: 'deploy', title: 'Deploy to Production', description: 'Deploy to production environment', config: { environment: 'production', run: './deploy.sh production' } },
+    { type: 'deploy', title: 'Deploy to Staging', description: 'Deploy to staging environment', config: { environment: 'staging', run: './deploy.sh staging' } },
 ];
 
+// Settings shown in the properties panel for each node type
+const CONFIG_FIELDS: Record<WorkflowNode['type'], { key: string; label: string; placeholder?: string; multiline?: boolean }[]> = {
+    trigger: [
+        { key: 'branches', label: 'Branches', placeholder: 'main, release/*' },
+        { key: 'cron', label: 'Cron schedule', placeholder: '0 3 * * 1' }
+    ],
+    action: [
+        { key: 'run', label: 'Command', placeholder: 'npm test', multiline: true },
+        { key: 'uses', label: 'Or use an action', placeholder: 'owner/action@v1' },
+        { key: 'runsOn', label: 'Runner', placeholder: 'ubuntu-latest' }
+    ],
+    condition: [
+        { key: 'expression', label: 'Expression', placeholder: "github.ref == 'refs/heads/main'", multiline: true }
+    ],
+    deploy: [
+        { key: 'environment', label: 'Environment', placeholder: 'production' },
+        { key: 'run', label: 'Command', placeholder: './deploy.sh', multiline: true },
+        { key: 'uses', label: 'Or use an action', placeholder: 'owner/action@v1' },
+        { key: 'runsOn', label: 'Runner', placeholder: 'ubuntu-latest' }
+    ]
+};
+
+// Pause after an edit before the compiled YAML is checked again
+const VALIDATE_DELAY_MS = 500;
+
 export default function VisualWorkflowBuilder() {
     const [nodes, setNodes] = useState<WorkflowNode[]>([]);
     const [connections, setConnections] = useState<Connection[]>([]);
@@ -68,21 +83,120 @@ export default function VisualWorkflowBuilder() {
     const [connectionStart, setConnectionStart] = useState<{ nodeId: string; port: string } | null>(null);
     const [zoom, setZoom] = useState(1);
     const [pan, setPan] = useState({ x: 0, y: 0 });
+    const [projects, setProjects] = useState<WorkflowProject[]>([]);
+    const [projectId, setProjectId] = useState<string | null>(null);
+    const [projectName, setProjectName] = useState('');
+    const [projectMessage, setProjectMessage] = useState<{ type: 'success' | 'error'; text: string } | null>(null);
+    const [showPreview, setShowPreview] = useState(false);
+    const [diagnostics, setDiagnostics] = useState<WorkflowDiagnostic[]>([]);
     const canvasRef = useRef<HTMLDivElement>(null);
 
-    const addNode = (nodeType: any, position: { x: number; y: number }) => {
+    const compiled = useMemo(
+        () => compileWorkflowGraph(nodes, connections, { name: projectName || 'Workflow' }),
+        [nodes, connections, projectName]
+    );
+    const nodesWithErrors = useMemo(
+        () => new Set(compiled.problems.filter(problem => problem.severity === 'error').map(problem => problem.nodeId)),
+        [compiled]
+    );
+
+    useEffect(() => {
+        window.electronAPI.workflows.listProjects().then(response => {
+            if (response.success && response.data) {
+                setProjects(response.data);
+            }
+        });
+    }, []);
+
+    // Check the compiled YAML with the same validator the workflow editor uses
+    useEffect(() => {
+        if (!showPreview) {
+            return;
+        }
+        let cancelled = false;
+        const timer = setTimeout(async () => {
+            const response = await window.electronAPI.workflows.validate(compiled.yaml);
+            if (!cancelled && response.success && response.data) {
+                setDiagnostics(response.data);
+            }
+        }, VALIDATE_DELAY_MS);
+
+        return () => {
+            cancelled = true;
+            clearTimeout(timer);
+        };
+    }, [compiled.yaml, showPreview]);
+
+    const addNode = (nodeType: typeof PREDEFINED_NODES[number], position: { x: number; y: number }) => {
         const newNode: WorkflowNode = {
             id: `node_${Date.now()}`,
             type: nodeType.type,
             title: nodeType.title,
             description: nodeType.description,
             position,
-            config: {},
-            connections: []
+            config: { ...nodeType.config }
         };
         setNodes(prev => [...prev, newNode]);
     };
 
+    const updateNodeConfig = (nodeId: string, key: string, value: string) => {
+        setNodes(prev => prev.map(node =>
+            node.id === nodeId ? { ...node, config: { ...node.config, [key]: value } } : node
+        ));
+    };
+
+    const saveProject = async () => {
+        const response = await window.electronAPI.workflows.saveProject({
+            id: projectId ?? undefined,
+            name: projectName,
+            nodes,
+            connections
+        });
+        if (response.success && response.data) {
+            const saved = response.data;
+            setProjectId(saved.id);
+            setProjects(prev => [saved, ...prev.filter(project => project.id !== saved.id)]);
+            setProjectMessage({ type: 'success', text: `Saved ${saved.name}` });
+        } else {
+            setProjectMessage({ type: 'error', text: response.error || 'Failed to save project' });
+        }
+    };
+
+    const openProject = (id: string) => {
+        const project = projects.find(item => item.id === id);
+        if (!project) {
+            return;
+        }
+        setProjectId(project.id);
+        setProjectName(project.name);
+        setNodes(project.nodes);
+        setConnections(project.connections);
+        setSelectedNode(null);
+        setProjectMessage(null);
+    };
+
+    const newProject = () => {
+        setProjectId(null);
+        setProjectName('');
+        setNodes([]);
+        setConnections([]);
+        setSelectedNode(null);
+        setProjectMessage(null);
+    };
+
+    const deleteProject = async () => {
+        if (!projectId || !confirm(`Delete the project ${projectName}?`)) {
+            return;
+        }
+        const response = await window.electronAPI.workflows.deleteProject(projectId);
+        if (response.success) {
+            setProjects(prev => prev.filter(project => project.id !== projectId));
+            newProject();
+        } else {
+            setProjectMessage({ type: 'error', text: response.error || 'Failed to delete project' });
+        }
+    };
+
     const updateNodePosition = (nodeId: string, position: { x: number; y: number }) => {
         setNodes(prev => prev.map(node =>
             node.id === nodeId ? { ...node, position } : node
@@ -155,7 +269,7 @@ export default function VisualWorkflowBuilder() {
 
         return (
             <div
-                className={`absolute cursor-move select-none ${selectedNode === node.id ? 'ring-2 ring-blue-400' : ''
+                className={`absolute cursor-move select-none ${selectedNode === node.id ? 'ring-2 ring-blue-400' : nodesWithErrors.has(node.id) ? 'ring-2 ring-red-400' : ''
                     }`}
                 style={{
                     left: node.position.x * zoom + pan.x,
@@ -260,29 +374,56 @@ export default function VisualWorkflowBuilder() {
         );
     };
 
-    const generateYAML = () => {
-        // Convert visual workflow to YAML
-        const yaml = `name: Generated Workflow
-
-on:
-  push:
-    branches: [ main ]
-
-jobs:
-  workflow:
-    runs-on: ubuntu-latest
-    steps:
-${nodes.map(node => `    - name: ${node.title}
-      run: echo "Executing ${node.title}"`).join('\n')}`;
-
-        navigator.clipboard.writeText(yaml);
-        alert('Workflow YAML copied to clipboard!');
+    const copyYAML = () => {
+        navigator.clipboard.writeText(compiled.yaml);
+        setProjectMessage({ type: 'success', text: 'Workflow YAML copied to clipboard' });
     };
 
     return (
         <div className="h-full flex">
             {/* Toolbar */}
             <div className="w-64 bg-white border-r border-gray-200 p-4">
+                <div className="mb-6 space-y-2">
+                    <h3 className="font-semibold">Project</h3>
+                    <select
+                        value={projectId ?? ''}
+                        onChange={(e) => (e.target.value ? openProject(e.target.value) : newProject())}
+                        className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm"
+                    >
+                        <option value="">New project</option>
+                        {projects.map(project => (
+                            <option key={project.id} value={project.id}>{project.name}</option>
+                        ))}
+                    </select>
+                    <input
+                        type="text"
+                        value={projectName}
+                        onChange={(e) => setProjectName(e.target.value)}
+                        placeholder="Project name"
+                        className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm"
+                    />
+                    <div className="flex gap-2">
+                        <button
+                            onClick={saveProject}
+                            disabled={!projectName.trim()}
+                            className="flex-1 px-3 py-2 bg-blue-600 text-white rounded-lg text-sm hover:bg-blue-700 disabled:opacity-50"
+                        >
+                            Save
+                        </button>
+                        {projectId && (
+                            <button
+                                onClick={deleteProject}
+                                className="px-3 py-2 border border-gray-300 text-red-600 rounded-lg text-sm hover:bg-red-50"
+                            >
+                                Delete
+                            </button>
+                        )}
+                    </div>
+                    {projectMessage && (
+                        <p className={`text-xs ${projectMessage.type === 'success' ? 'text-green-600' : 'text-red-600'}`}>{projectMessage.text}</p>
+                    )}
+                </div>
+
                 <h3 className="font-semibold mb-4">Workflow Nodes</h3>
 
                 <div className="space-y-2 mb-6">
@@ -302,7 +443,7 @@ ${nodes.map(node => `    - name: ${node.title}
                             }}
                         >
                             <div className="flex items-center gap-2">
-                                <div className={`w-3 h-3 rounded-full ${NODE_TYPES[nodeType.type as keyof typeof NODE_TYPES].color}`} />
+                                <div className={`w-3 h-3 rounded-full ${NODE_TYPES[nodeType.type].color}`} />
                                 <div>
                                     <div className="font-medium text-sm">{nodeType.title}</div>
                                     <div className="text-xs text-gray-500">{nodeType.description}</div>
@@ -314,10 +455,10 @@ ${nodes.map(node => `    - name: ${node.title}
 
                 <div className="space-y-2">
                     <button
-                        onClick={generateYAML}
+                        onClick={() => setShowPreview(prev => !prev)}
                         className="w-full px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700"
                     >
-                        Generate YAML
+                        {showPreview ? 'Hide YAML' : 'Preview YAML'}
                     </button>
 
                     <button
@@ -433,11 +574,84 @@ ${nodes.map(node => `    - name: ${node.title}
                                         {NODE_TYPES[node.type].icon} {node.type.charAt(0).toUpperCase() + node.type.slice(1)}
                                     </div>
                                 </div>
+
+                                {node.type === 'trigger' && (
+                                    <div>
+                                        <label className="block text-sm font-medium mb-1">Event</label>
+                                        <select
+                                            value={node.config.event || 'push'}
+                                            onChange={(e) => updateNodeConfig(node.id, 'event', e.target.value)}
+                                            className="w-full px-3 py-2 border border-gray-300 rounded-lg"
+                                        >
+                                            {TRIGGER_EVENTS.map(event => (
+                                                <option key={event} value={event}>{event}</option>
+                                            ))}
+                                        </select>
+                                    </div>
+                                )}
+
+                                {CONFIG_FIELDS[node.type].map(field => (
+                                    <div key={field.key}>
+                                        <label className="block text-sm font-medium mb-1">{field.label}</label>
+                                        {field.multiline ? (
+                                            <textarea
+                                                value={node.config[field.key] ?? ''}
+                                                onChange={(e) => updateNodeConfig(node.id, field.key, e.target.value)}
+                                                placeholder={field.placeholder}
+                                                className="w-full px-3 py-2 border border-gray-300 rounded-lg h-20 font-mono text-xs"
+                                            />
+                                        ) : (
+                                            <input
+                                                type="text"
+                                                value={node.config[field.key] ?? ''}
+                                                onChange={(e) => updateNodeConfig(node.id, field.key, e.target.value)}
+                                                placeholder={field.placeholder}
+                                                className="w-full px-3 py-2 border border-gray-300 rounded-lg"
+                                            />
+                                        )}
+                                    </div>
+                                ))}
+
+                                {compiled.problems.filter(problem => problem.nodeId === node.id).map((problem, index) => (
+                                    <p key={index} className={`text-xs ${problem.severity === 'error' ? 'text-red-600' : 'text-yellow-600'}`}>
+                                        {problem.message}
+                                    </p>
+                                ))}
                             </div>
                         );
                     })()}
                 </div>
             )}
+
+            {/* YAML preview */}
+            {showPreview && (
+                <div className="w-96 bg-white border-l border-gray-200 flex flex-col">
+                    <div className="flex items-center justify-between p-4 border-b border-gray-200">
+                        <h3 className="font-semibold">Workflow YAML</h3>
+                        <button
+                            onClick={copyYAML}
+                            className="px-3 py-1 text-sm border border-gray-300 rounded-lg hover:bg-gray-50"
+                        >
+                            Copy
+                        </button>
+                    </div>
+                    {(compiled.problems.length > 0 || diagnostics.length > 0) && (
+                        <div className="p-4 border-b border-gray-200 space-y-1 max-h-48 overflow-y-auto">
+                            {compiled.problems.map((problem, index) => (
+                                <p key={`graph-${index}`} className={`text-xs ${problem.severity === 'error' ? 'text-red-600' : 'text-yellow-600'}`}>
+                                    {problem.message}
+                                </p>
+                            ))}
+                            {diagnostics.map((diagnostic, index) => (
+                                <p key={`yaml-${index}`} className={`text-xs ${diagnostic.severity === 'error' ? 'text-red-600' : 'text-yellow-600'}`}>
+                                    Line {diagnostic.line}: {diagnostic.message}
+                                </p>
+                            ))}
+                        </div>
+                    )}
+                    <pre className="flex-1 overflow-auto p-4 bg-gray-900 text-green-400 font-mono text-xs whitespace-pre">{compiled.yaml}</pre>
+                </div>
+            )}
         </div>
     );
 }
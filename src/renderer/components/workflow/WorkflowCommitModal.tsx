@@ -0,0 +1,144 @@
+import { useMemo, useState } from 'react';
+import { useAppDispatch } from '../../hooks/redux';
+import { saveWorkflowFile } from '../../store/slices/workflowsSlice';
+import { WorkflowFile, WorkflowFileSaveResult } from '../../../shared/types';
+import { diffLines, toHunks } from '../../utils/lineDiff';
+
+interface WorkflowCommitModalProps {
+    owner: string;
+    repo: string;
+    file: WorkflowFile;
+    content: string;
+    onClose: () => void;
+    onCommitted: (result: WorkflowFileSaveResult) => void;
+}
+
+const inputClassName = 'w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-primary-500 focus:border-transparent';
+
+const fileName = (filePath: string) => filePath.split('/').pop() ?? filePath;
+
+export default function WorkflowCommitModal({ owner, repo, file, content, onClose, onCommitted }: WorkflowCommitModalProps) {
+    const dispatch = useAppDispatch();
+    const [message, setMessage] = useState(`Update ${fileName(file.path)}`);
+    const [mode, setMode] = useState<'commit' | 'pull-request'>('pull-request');
+    const [branch, setBranch] = useState(`update-${fileName(file.path).replace(/\.ya?ml$/, '')}-${Date.now().toString(36)}`);
+    const [description, setDescription] = useState('');
+    const [saving, setSaving] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+
+    const hunks = useMemo(() => toHunks(diffLines(file.content, content)), [file.content, content]);
+
+    const handleCommit = async () => {
+        setSaving(true);
+        setError(null);
+        try {
+            const result = await dispatch(saveWorkflowFile({
+                owner,
+                repo,
+                request: {
+                    path: file.path,
+                    content,
+                    sha: file.sha,
+                    baseBranch: file.branch,
+                    message: message.trim(),
+                    mode,
+                    branch: mode === 'pull-request' ? branch.trim() : undefined,
+                    pullRequestBody: mode === 'pull-request' ? description.trim() || undefined : undefined
+                }
+            })).unwrap();
+            onCommitted(result);
+        } catch (err) {
+            setError(typeof err === 'string' ? err : 'Failed to save workflow file');
+        } finally {
+            setSaving(false);
+        }
+    };
+
+    return (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+            <div className="bg-white rounded-xl shadow-xl w-full max-w-4xl mx-4 max-h-[90vh] flex flex-col">
+                <div className="p-6 border-b border-gray-200">
+                    <h3 className="text-lg font-semibold text-gray-900">Commit {file.path}</h3>
+                    <p className="text-sm text-gray-500 mt-1">{owner}/{repo} • based on {file.branch}</p>
+                </div>
+
+                <div className="flex-1 overflow-y-auto p-6 space-y-4">
+                    <div>
+                        <h4 className="text-sm font-medium text-gray-900 mb-2">Changes</h4>
+                        {hunks.length === 0 ? (
+                            <p className="text-sm text-gray-500">No changes to commit.</p>
+                        ) : (
+                            <div className="border border-gray-200 rounded-lg overflow-hidden font-mono text-xs">
+                                {hunks.map((hunk, hunkIndex) => (
+                                    <div key={hunkIndex} className={hunkIndex > 0 ? 'border-t border-gray-200' : ''}>
+                                        {hunk.lines.map((line, lineIndex) => (
+                                            <div
+                                                key={lineIndex}
+                                                className={`flex whitespace-pre ${line.type === 'added' ? 'bg-green-50 text-green-800' : line.type === 'removed' ? 'bg-red-50 text-red-800' : 'text-gray-600'}`}
+                                            >
+                                                <span className="w-10 flex-shrink-0 text-right pr-2 text-gray-400 select-none">{line.oldNumber ?? ''}</span>
+                                                <span className="w-10 flex-shrink-0 text-right pr-2 text-gray-400 select-none">{line.newNumber ?? ''}</span>
+                                                <span className="w-4 flex-shrink-0 select-none">{line.type === 'added' ? '+' : line.type === 'removed' ? '-' : ' '}</span>
+                                                <span className="flex-1">{line.text}</span>
+                                            </div>
+                                        ))}
+                                    </div>
+                                ))}
+                            </div>
+                        )}
+                    </div>
+
+                    <div>
+                        <label className="block text-sm font-medium text-gray-700 mb-1">Commit message</label>
+                        <input type="text" value={message} onChange={(e) => setMessage(e.target.value)} className={inputClassName} />
+                    </div>
+
+                    <div className="space-y-2">
+                        <label className="flex items-center text-sm text-gray-700">
+                            <input type="radio" checked={mode === 'commit'} onChange={() => setMode('commit')} className="mr-2" />
+                            Commit directly to {file.branch}
+                        </label>
+                        <label className="flex items-center text-sm text-gray-700">
+                            <input type="radio" checked={mode === 'pull-request'} onChange={() => setMode('pull-request')} className="mr-2" />
+                            Create a new branch and open a pull request
+                        </label>
+                    </div>
+
+                    {mode === 'pull-request' && (
+                        <div className="space-y-3 pl-6">
+                            <div>
+                                <label className="block text-sm font-medium text-gray-700 mb-1">Branch name</label>
+                                <input type="text" value={branch} onChange={(e) => setBranch(e.target.value)} className={inputClassName} />
+                            </div>
+                            <div>
+                                <label className="block text-sm font-medium text-gray-700 mb-1">Pull request description</label>
+                                <textarea value={description} onChange={(e) => setDescription(e.target.value)} rows={3} className={inputClassName} />
+                            </div>
+                        </div>
+                    )}
+
+                    {error && (
+                        <div className="rounded-md border border-red-200 bg-red-50 p-3 text-sm text-red-700">{error}</div>
+                    )}
+                </div>
+
+                <div className="p-4 border-t border-gray-200 flex justify-end space-x-3">
+                    <button
+                        onClick={onClose}
+                        disabled={saving}
+                        className="px-4 py-2 text-gray-700 border border-gray-300 rounded-lg hover:bg-gray-50 disabled:opacity-50 transition-colors"
+                    >
+                        Cancel
+                    </button>
+                    <button
+                        onClick={handleCommit}
+                        disabled={saving || hunks.length === 0 || !message.trim() || (mode === 'pull-request' && !branch.trim())}
+                        className="px-4 py-2 bg-primary-600 text-white rounded-lg hover:bg-primary-700 disabled:opacity-50 transition-colors"
+                    >
+                        {saving ? 'Committing...' : mode === 'pull-request' ? 'Commit and Open Pull Request' : 'Commit Changes'}
+                    </button>
+                </div>
+            </div>
+        </div>
+    );
+}
@@ -0,0 +1,124 @@
+import { useEffect, useRef, useState } from 'react';
+import Editor, { Monaco } from '@monaco-editor/react';
+import type { editor } from 'monaco-editor';
+import { WorkflowDiagnostic } from '../../../shared/types';
+import { languageForPath } from '../../utils/monaco';
+
+// The outcome of checking one version of the text; error is set when it could not be checked
+export interface WorkflowValidation {
+    text: string;
+    diagnostics: WorkflowDiagnostic[];
+    error?: string;
+}
+
+interface WorkflowYamlEditorProps {
+    path: string;
+    value: string;
+    onChange: (value: string) => void;
+    // Called after each check with the text it ran on, which may already be behind value
+    onValidated?: (validation: WorkflowValidation) => void;
+}
+
+// Pause after typing before the workflow is checked again
+const VALIDATE_DELAY_MS = 400;
+const MARKER_OWNER = 'workflow-validation';
+
+export default function WorkflowYamlEditor({ path, value, onChange, onValidated }: WorkflowYamlEditorProps) {
+    const [diagnostics, setDiagnostics] = useState<WorkflowDiagnostic[]>([]);
+    const [validationError, setValidationError] = useState<string | null>(null);
+    const [mounted, setMounted] = useState(false);
+    const editorRef = useRef<editor.IStandaloneCodeEditor | null>(null);
+    const monacoRef = useRef<Monaco | null>(null);
+    const onValidatedRef = useRef(onValidated);
+    onValidatedRef.current = onValidated;
+
+    useEffect(() => {
+        let cancelled = false;
+        const timer = setTimeout(async () => {
+            let validation: WorkflowValidation;
+            try {
+                const response = await window.electronAPI.workflows.validate(value);
+                validation = response.success && response.data
+                    ? { text: value, diagnostics: response.data }
+                    : { text: value, diagnostics: [], error: response.error || 'Failed to validate workflow' };
+            } catch (error) {
+                validation = { text: value, diagnostics: [], error: error instanceof Error ? error.message : 'Failed to validate workflow' };
+            }
+            if (cancelled) {
+                return;
+            }
+            if (!validation.error) {
+                setDiagnostics(validation.diagnostics);
+            }
+            setValidationError(validation.error ?? null);
+            onValidatedRef.current?.(validation);
+        }, VALIDATE_DELAY_MS);
+
+        return () => {
+            cancelled = true;
+            clearTimeout(timer);
+        };
+    }, [value]);
+
+    useEffect(() => {
+        const model = editorRef.current?.getModel();
+        const monaco = monacoRef.current;
+        if (!model || !monaco) {
+            return;
+        }
+        monaco.editor.setModelMarkers(model, MARKER_OWNER, diagnostics.map(diagnostic => ({
+            severity: diagnostic.severity === 'error' ? monaco.MarkerSeverity.Error : monaco.MarkerSeverity.Warning,
+            message: diagnostic.message,
+            startLineNumber: diagnostic.line,
+            startColumn: diagnostic.column,
+            endLineNumber: diagnostic.endLine,
+            endColumn: diagnostic.endColumn
+        })));
+    }, [diagnostics, mounted]);
+
+    const revealDiagnostic = (diagnostic: WorkflowDiagnostic) => {
+        editorRef.current?.revealLineInCenter(diagnostic.line);
+        editorRef.current?.setPosition({ lineNumber: diagnostic.line, column: diagnostic.column });
+        editorRef.current?.focus();
+    };
+
+    return (
+        <div className="flex flex-col h-[36rem]">
+            <div className="flex-1 min-h-0">
+                <Editor
+                    value={value}
+                    language={languageForPath(path)}
+                    theme="vs-dark"
+                    onChange={(next) => onChange(next ?? '')}
+                    onMount={(instance, monaco) => {
+                        editorRef.current = instance;
+                        monacoRef.current = monaco;
+                        setMounted(true);
+                    }}
+                    options={{ minimap: { enabled: false }, fontSize: 13, scrollBeyondLastLine: false, tabSize: 2 }}
+                />
+            </div>
+            <div className="max-h-40 overflow-y-auto border-t border-gray-700 bg-gray-800 text-xs">
+                {validationError ? (
+                    <div className="px-4 py-2 text-red-400">{validationError}</div>
+                ) : diagnostics.length === 0 ? (
+                    <div className="px-4 py-2 text-green-400">No problems found</div>
+                ) : (
+                    diagnostics.map((diagnostic, index) => (
+                        <button
+                            key={index}
+                            onClick={() => revealDiagnostic(diagnostic)}
+                            className="flex w-full items-start px-4 py-1 text-left hover:bg-gray-700"
+                        >
+                            <span className={`w-16 flex-shrink-0 font-medium ${diagnostic.severity === 'error' ? 'text-red-400' : 'text-yellow-400'}`}>
+                                {diagnostic.severity}
+                            </span>
+                            <span className="w-20 flex-shrink-0 text-gray-400">Ln {diagnostic.line}, Col {diagnostic.column}</span>
+                            <span className="text-gray-200">{diagnostic.message}</span>
+                        </button>
+                    ))
+                )}
+            </div>
+        </div>
+    );
+}
@@ -5,6 +5,8 @@ import serversSlice from './slices/serversSlice';
 import workflowsSlice from './slices/workflowsSlice';
 import dashboardSlice from './slices/dashboardSlice';
 import databaseSlice from './slices/databaseSlice';
+import dockerSlice from './slices/dockerSlice';
+import deploymentsSlice from './slices/deploymentsSlice';
 
 export const store = configureStore({
     reducer: {
@@ -14,6 +16,8 @@ export const store = configureStore({
         workflows: workflowsSlice,
         dashboard: dashboardSlice,
         database: databaseSlice,
+        docker: dockerSlice,
+        deployments: deploymentsSlice,
     },
     devTools: true,
 });
@@ -11,6 +11,8 @@ interface DatabaseConnection {
     status: 'connected' | 'disconnected' | 'connecting' | 'error';
     lastConnected?: string;
     ssl: boolean;
+    // Reach host:port from this saved server instead of directly
+    sshTunnel?: { serverId: string };
     connectionString?: string;
     metadata?: any;
     createdAt: string;
@@ -35,6 +37,7 @@ interface QueryResult {
     query: string;
     timestamp: string;
     error?: string;
+    inTransaction?: boolean;
 }
 
 interface DatabaseMetrics {
@@ -249,13 +252,13 @@ export const exportData = createAsyncThunk(
 
 export const openExternalDatabase = createAsyncThunk(
     'database/openExternal',
-    async (connectionId: string, { rejectWithValue }) => {
+    async ({ connectionId, includePassword = true }: { connectionId: string; includePassword?: boolean }, { rejectWithValue }) => {
         try {
-            const response = await window.electronAPI.database.openExternal(connectionId);
+            const response = await window.electronAPI.database.openExternal(connectionId, { includePassword });
             if (!response.success) {
                 throw new Error(response.error);
             }
-            return connectionId;
+            return response.data as { copied: boolean; clearAfterMs?: number };
         } catch (error) {
             return rejectWithValue(error instanceof Error ? error.message : 'Failed to open external database tool');
         }
@@ -0,0 +1,409 @@
+import { createSlice, createAsyncThunk, PayloadAction } from '@reduxjs/toolkit';
+import {
+    DeploymentConfig,
+    DeploymentConfigInput,
+    DeploymentHistoryFilter,
+    DirectDeploymentResult,
+    GroupDeploymentProgress,
+    GroupDeploymentRequest,
+    GroupDeploymentResult,
+    GroupDeploymentStrategy,
+    ProjectStackDetection,
+    StackDetectionTarget
+} from '../../../shared/types';
+import { serverDeploymentFinished } from './serversSlice';
+
+// Live view of a group rollout, built from the progress events of the main process
+export interface GroupDeploymentState {
+    id: string;
+    strategy: GroupDeploymentStrategy;
+    batches: string[][];
+    // Index of the batch being deployed, -1 until the first one starts
+    currentBatch: number;
+    pausedUntil?: string;
+    // Finished deployments by server id
+    results: Record<string, DirectDeploymentResult>;
+    status: 'running' | 'succeeded' | 'failed';
+    result?: GroupDeploymentResult;
+    cancelling?: boolean;
+}
+
+interface DeploymentsState {
+    history: DirectDeploymentResult[];
+    historyFilter: DeploymentHistoryFilter;
+    historyLoading: boolean;
+    historyError: string | null;
+    // Id of the deployment currently being rolled back to
+    rollingBack: string | null;
+    rollbackError: string | null;
+    configs: DeploymentConfig[];
+    configsLoading: boolean;
+    configsError: string | null;
+    // Id of the saved configuration currently being deployed
+    runningConfigId: string | null;
+    runError: string | null;
+    stackDetection: ProjectStackDetection | null;
+    detectingStack: boolean;
+    stackDetectionError: string | null;
+    groupDeployment: GroupDeploymentState | null;
+    groupDeploying: boolean;
+    groupError: string | null;
+}
+
+const initialState: DeploymentsState = {
+    history: [],
+    historyFilter: {},
+    historyLoading: false,
+    historyError: null,
+    rollingBack: null,
+    rollbackError: null,
+    configs: [],
+    configsLoading: false,
+    configsError: null,
+    runningConfigId: null,
+    runError: null,
+    stackDetection: null,
+    detectingStack: false,
+    stackDetectionError: null,
+    groupDeployment: null,
+    groupDeploying: false,
+    groupError: null,
+};
+
+const matchesFilter = (result: DirectDeploymentResult, filter: DeploymentHistoryFilter) =>
+    (!filter.serverId || result.serverId === filter.serverId) &&
+    (!filter.repository || result.repository.fullName === filter.repository);
+
+// Async thunks
+export const fetchDeploymentHistory = createAsyncThunk(
+    'deployments/fetchHistory',
+    async (filter: DeploymentHistoryFilter, { rejectWithValue }) => {
+        try {
+            const response = await window.electronAPI.deploy.history(filter);
+            if (!response.success) {
+                throw new Error(response.error);
+            }
+            return response.data || [];
+        } catch (error) {
+            return rejectWithValue(error instanceof Error ? error.message : 'Failed to load deployment history');
+        }
+    }
+);
+
+export const rollbackDeployment = createAsyncThunk(
+    'deployments/rollback',
+    async (deploymentId: string, { rejectWithValue }) => {
+        try {
+            const response = await window.electronAPI.deploy.rollback(deploymentId);
+            if (!response.success) {
+                throw new Error(response.error);
+            }
+            return response.data as DirectDeploymentResult;
+        } catch (error) {
+            return rejectWithValue(error instanceof Error ? error.message : 'Rollback failed');
+        }
+    }
+);
+
+export const fetchDeploymentConfigs = createAsyncThunk(
+    'deployments/fetchConfigs',
+    async (serverId: string | undefined, { rejectWithValue }) => {
+        try {
+            const response = await window.electronAPI.deploy.list(serverId);
+            if (!response.success) {
+                throw new Error(response.error);
+            }
+            return response.data || [];
+        } catch (error) {
+            return rejectWithValue(error instanceof Error ? error.message : 'Failed to load deployment configurations');
+        }
+    }
+);
+
+export const createDeploymentConfig = createAsyncThunk(
+    'deployments/createConfig',
+    async (config: DeploymentConfigInput, { rejectWithValue }) => {
+        try {
+            const response = await window.electronAPI.deploy.create(config);
+            if (!response.success) {
+                throw new Error(response.error);
+            }
+            return response.data as DeploymentConfig;
+        } catch (error) {
+            return rejectWithValue(error instanceof Error ? error.message : 'Failed to save deployment configuration');
+        }
+    }
+);
+
+export const updateDeploymentConfig = createAsyncThunk(
+    'deployments/updateConfig',
+    async ({ id, updates }: { id: string; updates: Partial<DeploymentConfigInput> }, { rejectWithValue }) => {
+        try {
+            const response = await window.electronAPI.deploy.update(id, updates);
+            if (!response.success) {
+                throw new Error(response.error);
+            }
+            return response.data as DeploymentConfig;
+        } catch (error) {
+            return rejectWithValue(error instanceof Error ? error.message : 'Failed to update deployment configuration');
+        }
+    }
+);
+
+export const deleteDeploymentConfig = createAsyncThunk(
+    'deployments/deleteConfig',
+    async (configId: string, { rejectWithValue }) => {
+        try {
+            const response = await window.electronAPI.deploy.delete(configId);
+            if (!response.success) {
+                throw new Error(response.error);
+            }
+            return configId;
+        } catch (error) {
+            return rejectWithValue(error instanceof Error ? error.message : 'Failed to delete deployment configuration');
+        }
+    }
+);
+
+export const runDeploymentConfig = createAsyncThunk(
+    'deployments/runConfig',
+    async (configId: string, { rejectWithValue }) => {
+        try {
+            const response = await window.electronAPI.deploy.run(configId);
+            if (!response.success) {
+                throw new Error(response.error);
+            }
+            return response.data as DirectDeploymentResult;
+        } catch (error) {
+            return rejectWithValue(error instanceof Error ? error.message : 'Deployment failed');
+        }
+    }
+);
+
+export const detectProjectStack = createAsyncThunk(
+    'deployments/detectStack',
+    async (target: StackDetectionTarget, { rejectWithValue }) => {
+        try {
+            const response = await window.electronAPI.deploy.detectStack(target);
+            if (!response.success) {
+                throw new Error(response.error);
+            }
+            return response.data as ProjectStackDetection;
+        } catch (error) {
+            return rejectWithValue(error instanceof Error ? error.message : 'Failed to detect project stack');
+        }
+    }
+);
+
+export const deployToServerGroup = createAsyncThunk(
+    'deployments/deployGroup',
+    async (request: GroupDeploymentRequest, { rejectWithValue }) => {
+        try {
+            const response = await window.electronAPI.deploy.deployGroup(request);
+            if (!response.success) {
+                throw new Error(response.error);
+            }
+            return response.data as GroupDeploymentResult;
+        } catch (error) {
+            return rejectWithValue(error instanceof Error ? error.message : 'Group deployment failed');
+        }
+    }
+);
+
+export const cancelGroupDeployment = createAsyncThunk(
+    'deployments/cancelGroup',
+    async (groupId: string, { rejectWithValue }) => {
+        try {
+            const response = await window.electronAPI.deploy.cancelGroup(groupId);
+            if (!response.success) {
+                throw new Error(response.error);
+            }
+            return groupId;
+        } catch (error) {
+            return rejectWithValue(error instanceof Error ? error.message : 'Failed to cancel group deployment');
+        }
+    }
+);
+
+const upsertConfig = (configs: DeploymentConfig[], config: DeploymentConfig) =>
+    [...configs.filter(entry => entry.id !== config.id), config].sort((a, b) => a.name.localeCompare(b.name));
+
+const deploymentsSlice = createSlice({
+    name: 'deployments',
+    initialState,
+    reducers: {
+        clearRollbackError: (state) => {
+            state.rollbackError = null;
+        },
+        clearConfigErrors: (state) => {
+            state.configsError = null;
+            state.runError = null;
+        },
+        clearStackDetection: (state) => {
+            state.stackDetection = null;
+            state.stackDetectionError = null;
+        },
+        clearGroupDeployment: (state) => {
+            state.groupDeployment = null;
+            state.groupError = null;
+        },
+        groupDeploymentProgress: (state, action: PayloadAction<GroupDeploymentProgress>) => {
+            const progress = action.payload;
+            if (progress.type === 'started') {
+                state.groupDeployment = {
+                    id: progress.groupId,
+                    strategy: progress.strategy,
+                    batches: progress.batches,
+                    currentBatch: -1,
+                    results: {},
+                    status: 'running'
+                };
+                return;
+            }
+
+            const group = state.groupDeployment;
+            if (!group || group.id !== progress.groupId) {
+                return;
+            }
+            switch (progress.type) {
+                case 'batch-start':
+                    group.currentBatch = progress.batch;
+                    group.pausedUntil = undefined;
+                    break;
+                case 'paused':
+                    group.pausedUntil = progress.until;
+                    break;
+                case 'server-finished':
+                    group.results[progress.result.serverId] = progress.result;
+                    break;
+                case 'finished':
+                    group.status = progress.result.success ? 'succeeded' : 'failed';
+                    group.result = progress.result;
+                    group.pausedUntil = undefined;
+                    group.cancelling = false;
+                    break;
+            }
+        },
+    },
+    extraReducers: (builder) => {
+        builder
+            .addCase(fetchDeploymentHistory.pending, (state, action) => {
+                state.historyLoading = true;
+                state.historyError = null;
+                state.historyFilter = action.meta.arg;
+            })
+            .addCase(fetchDeploymentHistory.fulfilled, (state, action) => {
+                state.historyLoading = false;
+                state.history = action.payload;
+            })
+            .addCase(fetchDeploymentHistory.rejected, (state, action) => {
+                state.historyLoading = false;
+                state.historyError = action.payload as string;
+            })
+            .addCase(rollbackDeployment.pending, (state, action) => {
+                state.rollingBack = action.meta.arg;
+                state.rollbackError = null;
+            })
+            .addCase(rollbackDeployment.fulfilled, (state) => {
+                state.rollingBack = null;
+            })
+            .addCase(rollbackDeployment.rejected, (state, action) => {
+                state.rollingBack = null;
+                state.rollbackError = action.payload as string;
+            })
+            .addCase(fetchDeploymentConfigs.pending, (state) => {
+                state.configsLoading = true;
+                state.configsError = null;
+            })
+            .addCase(fetchDeploymentConfigs.fulfilled, (state, action) => {
+                state.configsLoading = false;
+                state.configs = action.payload;
+            })
+            .addCase(fetchDeploymentConfigs.rejected, (state, action) => {
+                state.configsLoading = false;
+                state.configsError = action.payload as string;
+            })
+            .addCase(createDeploymentConfig.fulfilled, (state, action) => {
+                state.configs = upsertConfig(state.configs, action.payload);
+            })
+            .addCase(updateDeploymentConfig.fulfilled, (state, action) => {
+                state.configs = upsertConfig(state.configs, action.payload);
+            })
+            .addCase(deleteDeploymentConfig.fulfilled, (state, action) => {
+                state.configs = state.configs.filter(config => config.id !== action.payload);
+            })
+            .addCase(createDeploymentConfig.rejected, (state, action) => {
+                state.configsError = action.payload as string;
+            })
+            .addCase(updateDeploymentConfig.rejected, (state, action) => {
+                state.configsError = action.payload as string;
+            })
+            .addCase(deleteDeploymentConfig.rejected, (state, action) => {
+                state.configsError = action.payload as string;
+            })
+            .addCase(runDeploymentConfig.pending, (state, action) => {
+                state.runningConfigId = action.meta.arg;
+                state.runError = null;
+            })
+            .addCase(runDeploymentConfig.fulfilled, (state) => {
+                state.runningConfigId = null;
+            })
+            .addCase(runDeploymentConfig.rejected, (state, action) => {
+                state.runningConfigId = null;
+                state.runError = action.payload as string;
+            })
+            .addCase(detectProjectStack.pending, (state) => {
+                state.detectingStack = true;
+                state.stackDetection = null;
+                state.stackDetectionError = null;
+            })
+            .addCase(detectProjectStack.fulfilled, (state, action) => {
+                state.detectingStack = false;
+                state.stackDetection = action.payload;
+            })
+            .addCase(detectProjectStack.rejected, (state, action) => {
+                state.detectingStack = false;
+                state.stackDetectionError = action.payload as string;
+            })
+            .addCase(deployToServerGroup.pending, (state) => {
+                state.groupDeploying = true;
+                state.groupDeployment = null;
+                state.groupError = null;
+            })
+            .addCase(deployToServerGroup.fulfilled, (state) => {
+                state.groupDeploying = false;
+            })
+            .addCase(deployToServerGroup.rejected, (state, action) => {
+                state.groupDeploying = false;
+                state.groupError = action.payload as string;
+            })
+            .addCase(cancelGroupDeployment.pending, (state) => {
+                if (state.groupDeployment) {
+                    state.groupDeployment.cancelling = true;
+                }
+            })
+            .addCase(cancelGroupDeployment.rejected, (state, action) => {
+                if (state.groupDeployment) {
+                    state.groupDeployment.cancelling = false;
+                }
+                state.groupError = action.payload as string;
+            })
+            // Every finished deployment (including rollbacks) is broadcast by the main process
+            .addCase(serverDeploymentFinished, (state, action) => {
+                const result = action.payload;
+                if (!result.id || !matchesFilter(result, state.historyFilter)) {
+                    return;
+                }
+                state.history = [result, ...state.history.filter(entry => entry.id !== result.id)];
+            });
+    },
+});
+
+export const {
+    clearRollbackError,
+    clearConfigErrors,
+    clearStackDetection,
+    clearGroupDeployment,
+    groupDeploymentProgress
+} = deploymentsSlice.actions;
+export default deploymentsSlice.reducer;
@@ -0,0 +1,203 @@
+import { createSlice, createAsyncThunk, PayloadAction } from '@reduxjs/toolkit';
+import {
+    DockerContainer,
+    DockerEndpoint,
+    DockerEngineInfo,
+    DockerImage,
+    DockerInspectDocument,
+    DockerNetwork,
+    DockerResourceKind,
+    DockerVolume
+} from '../../../shared/types';
+
+type ContainerAction = 'start' | 'stop' | 'restart';
+
+interface DockerState {
+    endpoint: DockerEndpoint;
+    engine: DockerEngineInfo | null;
+    containers: DockerContainer[];
+    images: DockerImage[];
+    networks: DockerNetwork[];
+    volumes: DockerVolume[];
+    loading: boolean;
+    error: string | null;
+    lastUpdated: string | null;
+    // Ids of resources with an action in flight
+    pendingActions: string[];
+    inspect: {
+        kind: DockerResourceKind;
+        id: string;
+        data: DockerInspectDocument;
+    } | null;
+}
+
+const initialState: DockerState = {
+    endpoint: { type: 'local' },
+    engine: null,
+    containers: [],
+    images: [],
+    networks: [],
+    volumes: [],
+    loading: false,
+    error: null,
+    lastUpdated: null,
+    pendingActions: [],
+    inspect: null,
+};
+
+// Async thunks
+export const fetchDockerResources = createAsyncThunk(
+    'docker/fetchResources',
+    async (endpoint: DockerEndpoint, { rejectWithValue }) => {
+        try {
+            const engineResponse = await window.electronAPI.docker.ping(endpoint);
+            if (!engineResponse.success) {
+                throw new Error(engineResponse.error);
+            }
+
+            const kinds: DockerResourceKind[] = ['container', 'image', 'network', 'volume'];
+            const responses = await Promise.all(kinds.map(kind => window.electronAPI.docker.list(endpoint, kind)));
+            const failed = responses.find(response => !response.success);
+            if (failed) {
+                throw new Error(failed.error);
+            }
+
+            const [containers, images, networks, volumes] = responses.map(response => response.data || []);
+            return {
+                engine: engineResponse.data as DockerEngineInfo,
+                containers: containers as DockerContainer[],
+                images: images as DockerImage[],
+                networks: networks as DockerNetwork[],
+                volumes: volumes as DockerVolume[],
+                fetchedAt: new Date().toISOString()
+            };
+        } catch (error) {
+            return rejectWithValue(error instanceof Error ? error.message : 'Failed to reach Docker Engine');
+        }
+    }
+);
+
+export const runContainerAction = createAsyncThunk(
+    'docker/runContainerAction',
+    async (params: { endpoint: DockerEndpoint; id: string; action: ContainerAction }, { dispatch, rejectWithValue }) => {
+        try {
+            const { endpoint, id, action } = params;
+            const response = action === 'start'
+                ? await window.electronAPI.docker.startContainer(endpoint, id)
+                : action === 'stop'
+                    ? await window.electronAPI.docker.stopContainer(endpoint, id)
+                    : await window.electronAPI.docker.restartContainer(endpoint, id);
+            if (!response.success) {
+                throw new Error(response.error);
+            }
+            dispatch(fetchDockerResources(endpoint));
+            return id;
+        } catch (error) {
+            return rejectWithValue(error instanceof Error ? error.message : `Failed to ${params.action} container`);
+        }
+    }
+);
+
+export const removeDockerResource = createAsyncThunk(
+    'docker/removeResource',
+    async (params: { endpoint: DockerEndpoint; kind: DockerResourceKind; id: string; force?: boolean }, { dispatch, rejectWithValue }) => {
+        try {
+            const response = await window.electronAPI.docker.remove(params.endpoint, params.kind, params.id, params.force);
+            if (!response.success) {
+                throw new Error(response.error);
+            }
+            dispatch(fetchDockerResources(params.endpoint));
+            return params.id;
+        } catch (error) {
+            return rejectWithValue(error instanceof Error ? error.message : `Failed to remove ${params.kind}`);
+        }
+    }
+);
+
+export const inspectDockerResource = createAsyncThunk(
+    'docker/inspectResource',
+    async (params: { endpoint: DockerEndpoint; kind: DockerResourceKind; id: string }, { rejectWithValue }) => {
+        try {
+            const response = await window.electronAPI.docker.inspect(params.endpoint, params.kind, params.id);
+            if (!response.success || !response.data) {
+                throw new Error(response.error || `Failed to inspect ${params.kind}`);
+            }
+            return { kind: params.kind, id: params.id, data: response.data };
+        } catch (error) {
+            return rejectWithValue(error instanceof Error ? error.message : `Failed to inspect ${params.kind}`);
+        }
+    }
+);
+
+const dockerSlice = createSlice({
+    name: 'docker',
+    initialState,
+    reducers: {
+        setEndpoint: (state, action: PayloadAction<DockerEndpoint>) => {
+            state.endpoint = action.payload;
+            state.engine = null;
+            state.containers = [];
+            state.images = [];
+            state.networks = [];
+            state.volumes = [];
+            state.error = null;
+            state.lastUpdated = null;
+        },
+        clearInspect: (state) => {
+            state.inspect = null;
+        },
+        clearError: (state) => {
+            state.error = null;
+        },
+    },
+    extraReducers: (builder) => {
+        builder
+            .addCase(fetchDockerResources.pending, (state) => {
+                state.loading = true;
+                state.error = null;
+            })
+            .addCase(fetchDockerResources.fulfilled, (state, action) => {
+                state.loading = false;
+                state.engine = action.payload.engine;
+                state.containers = action.payload.containers;
+                state.images = action.payload.images;
+                state.networks = action.payload.networks;
+                state.volumes = action.payload.volumes;
+                state.lastUpdated = action.payload.fetchedAt;
+            })
+            .addCase(fetchDockerResources.rejected, (state, action) => {
+                state.loading = false;
+                state.engine = null;
+                state.error = action.payload as string || 'Failed to reach Docker Engine';
+            })
+            .addCase(runContainerAction.pending, (state, action) => {
+                state.pendingActions.push(action.meta.arg.id);
+            })
+            .addCase(runContainerAction.fulfilled, (state, action) => {
+                state.pendingActions = state.pendingActions.filter(id => id !== action.payload);
+            })
+            .addCase(runContainerAction.rejected, (state, action) => {
+                state.pendingActions = state.pendingActions.filter(id => id !== action.meta.arg.id);
+                state.error = action.payload as string;
+            })
+            .addCase(removeDockerResource.pending, (state, action) => {
+                state.pendingActions.push(action.meta.arg.id);
+            })
+            .addCase(removeDockerResource.fulfilled, (state, action) => {
+                state.pendingActions = state.pendingActions.filter(id => id !== action.payload);
+            })
+            .addCase(removeDockerResource.rejected, (state, action) => {
+                state.pendingActions = state.pendingActions.filter(id => id !== action.meta.arg.id);
+                state.error = action.payload as string;
+            })
+            .addCase(inspectDockerResource.fulfilled, (state, action) => {
+                state.inspect = action.payload;
+            })
+            .addCase(inspectDockerResource.rejected, (state, action) => {
+                state.error = action.payload as string;
+            });
+    },
+});
+
+export const { setEndpoint, clearInspect, clearError } = dockerSlice.actions;
+export default dockerSlice.reducer;
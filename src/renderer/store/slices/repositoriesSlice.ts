@@ -1,20 +1,35 @@
 import { createSlice, createAsyncThunk, PayloadAction } from '@reduxjs/toolkit';
 import { GitHubRepository } from '../../../shared/types';
 
-interface RepositoryAnalytics {
+export interface TrafficSeries {
+    count: number;
+    uniques: number;
+    days: { date: string; count: number; uniques: number }[];
+}
+
+export interface RepositoryAnalytics {
     totalCommits: number;
     contributors: number;
     lastActivity: string;
     fileCount: number;
+    fileCountTruncated: boolean;
     size: string;
     mainLanguage: string;
     languages: Record<string, number>;
+    commitActivity: { week: string; commits: number }[];
+    codeFrequency: { week: string; additions: number; deletions: number }[];
+    participation: { all: number[]; owner: number[] };
+    traffic: { views: TrafficSeries; clones: TrafficSeries } | null;
+    statsPending: boolean;
+    fetchedAt: string;
 }
 
 interface RepositoriesState {
     repositories: GitHubRepository[];
     selectedRepository: GitHubRepository | null;
+    // By repository full name
     analytics: Record<string, RepositoryAnalytics>;
+    analyticsLoading: Record<string, boolean>;
     loading: boolean;
     cloning: Record<string, boolean>;
     searchLoading: boolean;
@@ -29,6 +44,7 @@ const initialState: RepositoriesState = {
     repositories: [],
     selectedRepository: null,
     analytics: {},
+    analyticsLoading: {},
     loading: false,
     cloning: {},
     searchLoading: false,
@@ -102,9 +118,9 @@ export const cloneRepository = createAsyncThunk(
 
 export const fetchRepositoryAnalytics = createAsyncThunk(
     'repositories/fetchAnalytics',
-    async (repoName: string, { rejectWithValue }) => {
+    async ({ repoName, refresh }: { repoName: string; refresh?: boolean }, { rejectWithValue }) => {
         try {
-            const response = await window.electronAPI.repos.analytics(repoName);
+            const response = await window.electronAPI.repos.analytics(repoName, refresh);
             if (!response.success) {
                 throw new Error(response.error);
             }
@@ -215,10 +231,15 @@ const repositoriesSlice = createSlice({
             })
 
             // Fetch repository analytics
+            .addCase(fetchRepositoryAnalytics.pending, (state, action) => {
+                state.analyticsLoading[action.meta.arg.repoName] = true;
+            })
             .addCase(fetchRepositoryAnalytics.fulfilled, (state, action) => {
                 state.analytics[action.payload.repoName] = action.payload.analytics;
+                state.analyticsLoading[action.payload.repoName] = false;
             })
             .addCase(fetchRepositoryAnalytics.rejected, (state, action) => {
+                state.analyticsLoading[action.meta.arg.repoName] = false;
                 state.error = action.payload as string;
             })
 
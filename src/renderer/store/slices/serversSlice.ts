@@ -1,5 +1,7 @@
 import { createSlice, createAsyncThunk, PayloadAction } from '@reduxjs/toolkit';
 import {
+    DeployPathHint,
+    DirectDeploymentProgress,
     DirectDeploymentRequest,
     DirectDeploymentResult,
     ServerStats,
@@ -12,6 +14,20 @@ import {
     GitHubDeployKey
 } from '../../../shared/types';
 
+export interface DeploymentLiveStep {
+    id: string;
+    name: string;
+    output: { stream: 'stdout' | 'stderr'; data: string }[];
+    status: 'running' | 'succeeded' | 'failed';
+    code?: number;
+    timedOut?: boolean;
+    startedAt: string;
+    finishedAt?: string;
+}
+
+// Live output kept per step; older chunks are dropped so a chatty build cannot exhaust renderer memory
+const MAX_LIVE_OUTPUT_CHUNKS = 2000;
+
 interface ServersState {
     servers: VPSServer[];
     loading: boolean;
@@ -26,6 +42,9 @@ interface ServersState {
         error?: string;
         startedAt?: string;
         finishedAt?: string;
+        deploymentId?: string;
+        liveSteps?: DeploymentLiveStep[];
+        cancelling?: boolean;
     }>;
     // SSH Key management state
     sshKeys: SSHKeyInfo[];
@@ -132,6 +151,21 @@ export const deleteServer = createAsyncThunk(
     }
 );
 
+export const updateServer = createAsyncThunk(
+    'servers/updateServer',
+    async ({ serverId, updates }: { serverId: string; updates: Partial<VPSServer> }, { rejectWithValue }) => {
+        try {
+            const response = await window.electronAPI.servers.update(serverId, updates);
+            if (!response.success) {
+                throw new Error(response.error);
+            }
+            return response.data as VPSServer;
+        } catch (error) {
+            return rejectWithValue(error instanceof Error ? error.message : 'Failed to update server');
+        }
+    }
+);
+
 export const fetchServerStatsById = createAsyncThunk(
     'servers/fetchServerStats',
     async (serverId: string, { rejectWithValue }) => {
@@ -205,6 +239,21 @@ export const directDeployToServer = createAsyncThunk(
     }
 );
 
+export const cancelServerDeployment = createAsyncThunk(
+    'servers/cancelDeployment',
+    async ({ deploymentId }: { serverId: string; deploymentId: string }, { rejectWithValue }) => {
+        try {
+            const response = await window.electronAPI.deploy.cancel(deploymentId);
+            if (!response.success) {
+                throw new Error(response.error);
+            }
+            return deploymentId;
+        } catch (error) {
+            return rejectWithValue(error instanceof Error ? error.message : 'Failed to cancel deployment');
+        }
+    }
+);
+
 // =============================================================================
 // SSH Key Management Thunks
 // =============================================================================
@@ -305,9 +354,9 @@ export const uploadPublicKeyToServer = createAsyncThunk(
 
 export const detectDeployPaths = createAsyncThunk(
     'servers/detectDeployPaths',
-    async (serverId: string, { rejectWithValue }) => {
+    async ({ serverId, hint }: { serverId: string; hint?: DeployPathHint }, { rejectWithValue }) => {
         try {
-            const response = await window.electronAPI.servers.detectDeployPaths(serverId);
+            const response = await window.electronAPI.servers.detectDeployPaths(serverId, hint);
             if (!response.success) {
                 throw new Error(response.error);
             }
@@ -485,13 +534,55 @@ const serversSlice = createSlice({
             state.commandOutputs[action.payload.serverId] = action.payload;
         },
         serverDeploymentFinished: (state, action: PayloadAction<DirectDeploymentResult>) => {
+            const previous = state.deployments[action.payload.serverId];
             state.deployments[action.payload.serverId] = {
                 status: action.payload.success ? 'succeeded' : 'failed',
                 result: action.payload,
                 error: action.payload.success ? undefined : action.payload.error,
                 startedAt: action.payload.startedAt,
-                finishedAt: action.payload.finishedAt
+                finishedAt: action.payload.finishedAt,
+                deploymentId: action.payload.id,
+                liveSteps: previous?.deploymentId === action.payload.id ? previous.liveSteps : undefined
             };
+        },
+        serverDeploymentProgress: (state, action: PayloadAction<DirectDeploymentProgress>) => {
+            const progress = action.payload;
+            if (progress.type === 'started') {
+                state.deployments[progress.serverId] = {
+                    status: 'running',
+                    startedAt: progress.startedAt,
+                    deploymentId: progress.deploymentId,
+                    liveSteps: []
+                };
+                return;
+            }
+
+            const deployment = state.deployments[progress.serverId];
+            if (!deployment || deployment.deploymentId !== progress.deploymentId) {
+                return;
+            }
+            const steps = deployment.liveSteps ?? (deployment.liveSteps = []);
+
+            if (progress.type === 'step-start') {
+                steps.push({ id: progress.stepId, name: progress.name, output: [], status: 'running', startedAt: progress.startedAt });
+                return;
+            }
+
+            const step = steps.find(entry => entry.id === progress.stepId);
+            if (!step) {
+                return;
+            }
+            if (progress.type === 'step-output') {
+                step.output.push({ stream: progress.stream, data: progress.data });
+                if (step.output.length > MAX_LIVE_OUTPUT_CHUNKS) {
+                    step.output.splice(0, step.output.length - MAX_LIVE_OUTPUT_CHUNKS);
+                }
+            } else {
+                step.status = progress.success ? 'succeeded' : 'failed';
+                step.code = progress.code;
+                step.timedOut = progress.timedOut;
+                step.finishedAt = progress.finishedAt;
+            }
         }
     },
     extraReducers: (builder) => {
@@ -548,6 +639,15 @@ const serversSlice = createSlice({
                 delete state.commandOutputs[action.payload];
                 delete state.deployments[action.payload];
             })
+            .addCase(updateServer.fulfilled, (state, action) => {
+                const index = state.servers.findIndex(s => s.id === action.payload.id);
+                if (index !== -1) {
+                    state.servers[index] = action.payload;
+                }
+            })
+            .addCase(updateServer.rejected, (state, action) => {
+                state.error = action.payload as string || action.error.message || 'Failed to update server';
+            })
             .addCase(deleteServer.rejected, (state, action) => {
                 state.error = action.payload as string || action.error.message || 'Failed to delete server';
             })
@@ -603,22 +703,28 @@ const serversSlice = createSlice({
                 };
             })
             .addCase(directDeployToServer.fulfilled, (state, action) => {
+                const previous = state.deployments[action.payload.serverId];
                 state.deployments[action.payload.serverId] = {
                     status: 'succeeded',
                     result: action.payload,
                     startedAt: action.payload.startedAt,
-                    finishedAt: action.payload.finishedAt
+                    finishedAt: action.payload.finishedAt,
+                    deploymentId: action.payload.id,
+                    liveSteps: previous?.deploymentId === action.payload.id ? previous.liveSteps : undefined
                 };
             })
             .addCase(directDeployToServer.rejected, (state, action) => {
                 if (action.payload && typeof action.payload === 'object' && 'serverId' in (action.payload as DirectDeploymentResult)) {
                     const result = action.payload as DirectDeploymentResult;
+                    const previous = state.deployments[result.serverId];
                     state.deployments[result.serverId] = {
                         status: 'failed',
                         result,
                         error: result.error,
                         startedAt: result.startedAt,
-                        finishedAt: result.finishedAt
+                        finishedAt: result.finishedAt,
+                        deploymentId: result.id,
+                        liveSteps: previous?.deploymentId === result.id ? previous.liveSteps : undefined
                     };
                 } else if (action.meta?.arg?.serverId) {
                     state.deployments[action.meta.arg.serverId] = {
@@ -630,6 +736,19 @@ const serversSlice = createSlice({
                 }
                 state.error = action.payload as string || action.error.message || 'Direct deployment failed';
             })
+            .addCase(cancelServerDeployment.pending, (state, action) => {
+                const deployment = state.deployments[action.meta.arg.serverId];
+                if (deployment?.deploymentId === action.meta.arg.deploymentId) {
+                    deployment.cancelling = true;
+                }
+            })
+            .addCase(cancelServerDeployment.rejected, (state, action) => {
+                const deployment = state.deployments[action.meta.arg.serverId];
+                if (deployment) {
+                    deployment.cancelling = false;
+                }
+                state.error = action.payload as string || action.error.message || 'Failed to cancel deployment';
+            })
             // =========================================================================
             // SSH Key Management
             // =========================================================================
@@ -698,7 +817,7 @@ const serversSlice = createSlice({
             // Deploy Path Detection
             // =========================================================================
             .addCase(detectDeployPaths.pending, (state, action) => {
-                state.deployPaths[action.meta.arg] = { paths: [], loading: true };
+                state.deployPaths[action.meta.arg.serverId] = { paths: [], loading: true };
             })
             .addCase(detectDeployPaths.fulfilled, (state, action) => {
                 state.deployPaths[action.payload.serverId] = {
@@ -708,7 +827,7 @@ const serversSlice = createSlice({
             })
             .addCase(detectDeployPaths.rejected, (state, action) => {
                 const payload = action.payload as { serverId: string; error: string };
-                state.deployPaths[payload?.serverId || action.meta.arg] = {
+                state.deployPaths[payload?.serverId || action.meta.arg.serverId] = {
                     paths: [],
                     loading: false,
                     error: payload?.error || 'Failed to detect deploy paths'
@@ -765,6 +884,7 @@ export const {
     serverStatsReceived,
     serverLogsReceived,
     serverCommandResult,
-    serverDeploymentFinished
+    serverDeploymentFinished,
+    serverDeploymentProgress
 } = serversSlice.actions;
 export default serversSlice.reducer;
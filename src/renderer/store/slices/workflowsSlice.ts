@@ -1,10 +1,12 @@
 import { createSlice, createAsyncThunk, PayloadAction } from '@reduxjs/toolkit';
-import { WorkflowRun, WorkflowJob } from '../../../shared/types';
+import { WorkflowRun, WorkflowJob, WorkflowFile, WorkflowFileSaveRequest, WorkflowFileSaveResult } from '../../../shared/types';
 
 interface WorkflowState {
     workflows: WorkflowRun[];
     selectedWorkflow: WorkflowRun | null;
     workflowYAML: string | null;
+    // Path, branch and SHA of the loaded YAML, needed to commit edits
+    workflowFile: WorkflowFile | null;
     workflowJobs: WorkflowJob[];
     loading: boolean;
     yamlLoading: boolean;
@@ -21,6 +23,7 @@ const initialState: WorkflowState = {
     workflows: [],
     selectedWorkflow: null,
     workflowYAML: null,
+    workflowFile: null,
     workflowJobs: [],
     loading: false,
     yamlLoading: false,
@@ -72,13 +75,28 @@ export const fetchWorkflowYAML = createAsyncThunk(
             if (!response.success) {
                 throw new Error(response.error);
             }
-            return response.data;
+            return response.data as WorkflowFile;
         } catch (error) {
             return rejectWithValue(error instanceof Error ? error.message : 'Failed to fetch workflow YAML');
         }
     }
 );
 
+export const saveWorkflowFile = createAsyncThunk(
+    'workflows/saveWorkflowFile',
+    async (params: { owner: string; repo: string; request: WorkflowFileSaveRequest }, { rejectWithValue }) => {
+        try {
+            const response = await window.electronAPI.workflows.saveFile(params.owner, params.repo, params.request);
+            if (!response.success) {
+                throw new Error(response.error);
+            }
+            return response.data as WorkflowFileSaveResult;
+        } catch (error) {
+            return rejectWithValue(error instanceof Error ? error.message : 'Failed to save workflow file');
+        }
+    }
+);
+
 export const fetchWorkflowJobs = createAsyncThunk(
     'workflows/fetchWorkflowJobs',
     async (params: { owner: string; repo: string; runId: number }, { rejectWithValue }) => {
@@ -160,6 +178,7 @@ const workflowsSlice = createSlice({
         },
         clearWorkflowYAML: (state) => {
             state.workflowYAML = null;
+            state.workflowFile = null;
         },
         clearWorkflowJobs: (state) => {
             state.workflowJobs = [];
@@ -207,13 +226,22 @@ const workflowsSlice = createSlice({
             })
             .addCase(fetchWorkflowYAML.fulfilled, (state, action) => {
                 state.yamlLoading = false;
-                state.workflowYAML = action.payload;
+                state.workflowYAML = action.payload.content;
+                state.workflowFile = action.payload;
             })
             .addCase(fetchWorkflowYAML.rejected, (state, action) => {
                 state.yamlLoading = false;
                 state.error = action.payload as string;
             })
 
+            // Save workflow YAML; a pull request leaves the default branch as it was
+            .addCase(saveWorkflowFile.fulfilled, (state, action) => {
+                if (!action.payload.pullRequest) {
+                    state.workflowYAML = action.payload.file.content;
+                    state.workflowFile = action.payload.file;
+                }
+            })
+
             // Fetch workflow jobs
             .addCase(fetchWorkflowJobs.pending, (state) => {
                 state.jobsLoading = true;
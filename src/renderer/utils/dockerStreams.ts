@@ -0,0 +1,51 @@
+import { DockerStreamData, DockerStreamEnd } from '../../shared/types';
+
+type StreamFrame = { end: false; payload: DockerStreamData } | { end: true; payload: DockerStreamEnd };
+
+export interface DockerStreamListener {
+    // Start passing on the frames of this stream, including those that arrived before its id was known
+    attach: (streamId: string) => void;
+    dispose: () => void;
+}
+
+/**
+ * Listen for the frames of one Docker stream. Its id is only known once the IPC call starting it
+ * resolves, and the main process may already be sending frames by then, so frames are held until
+ * attach() and the ones for other streams dropped.
+ */
+export function listenToDockerStream(handlers: {
+    onData: (payload: DockerStreamData) => void;
+    onEnd: (payload: DockerStreamEnd) => void;
+}): DockerStreamListener {
+    let streamId: string | null = null;
+    let early: StreamFrame[] = [];
+
+    const receive = (frame: StreamFrame) => {
+        if (streamId === null) {
+            early.push(frame);
+        } else if (frame.payload.streamId === streamId) {
+            if (frame.end) {
+                handlers.onEnd(frame.payload);
+            } else {
+                handlers.onData(frame.payload);
+            }
+        }
+    };
+
+    const offData = window.electronAPI.on('docker:stream-data', (payload: DockerStreamData) => receive({ end: false, payload }));
+    const offEnd = window.electronAPI.on('docker:stream-end', (payload: DockerStreamEnd) => receive({ end: true, payload }));
+
+    return {
+        attach: (id: string) => {
+            streamId = id;
+            const frames = early;
+            early = [];
+            frames.forEach(receive);
+        },
+        dispose: () => {
+            offData();
+            offEnd();
+            early = [];
+        }
+    };
+}
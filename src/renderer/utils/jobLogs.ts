@@ -0,0 +1,147 @@
+import { WorkflowStep } from '../../shared/types';
+
+export type JobLogLineKind = 'normal' | 'command' | 'group' | 'error' | 'warning';
+
+export interface JobLogLine {
+    // Position in the whole job log, stable across incremental updates
+    index: number;
+    timestamp?: string;
+    kind: JobLogLineKind;
+    text: string;
+}
+
+export interface AnsiSegment {
+    text: string;
+    color?: string;
+    bold?: boolean;
+}
+
+// Runner lines start with an ISO timestamp with 7 fractional digits
+const TIMESTAMP = /^(\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}(?:\.\d+)?Z) ?/;
+const COMMAND = /^##\[(group|endgroup|error|warning|command|debug|notice)\]/;
+const ERROR_TEXT = /^\s*(error|fatal)\b[:\s]/i;
+const SGR = /\x1b\[([0-9;]*)m/g;
+const OTHER_ESCAPES = /\x1b\[[0-9;?]*[A-La-ln-z]/g;
+
+const ANSI_COLORS: Record<number, string> = {
+    30: '#9CA3AF', 31: '#F87171', 32: '#4ADE80', 33: '#FACC15',
+    34: '#60A5FA', 35: '#E879F9', 36: '#22D3EE', 37: '#F3F4F6',
+    90: '#6B7280', 91: '#FCA5A5', 92: '#86EFAC', 93: '#FDE047',
+    94: '#93C5FD', 95: '#F0ABFC', 96: '#67E8F9', 97: '#FFFFFF'
+};
+
+/**
+ * Split a job log into lines, reading the runner's timestamps and ##[...] commands.
+ * ##[endgroup] lines only close a group and are dropped.
+ */
+export function parseJobLog(content: string): JobLogLine[] {
+    const lines: JobLogLine[] = [];
+
+    content.replace(/^\uFEFF/, '').split(/\r?\n/).forEach((raw, index) => {
+        const prefix = raw.match(TIMESTAMP);
+        const timestamp = prefix?.[1];
+        let text = prefix ? raw.slice(prefix[0].length) : raw;
+        let kind: JobLogLineKind = 'normal';
+
+        const command = text.match(COMMAND)?.[1];
+        if (command === 'endgroup') {
+            return;
+        }
+        if (command) {
+            text = text.slice(command.length + 4);
+            kind = command === 'group' || command === 'error' || command === 'warning' || command === 'command' ? command : 'normal';
+        }
+        if (kind === 'normal' && ERROR_TEXT.test(text.replace(SGR, ''))) {
+            kind = 'error';
+        }
+        if (!timestamp && !text && index > 0) {
+            return;
+        }
+
+        lines.push({ index, timestamp, kind, text });
+    });
+
+    return lines;
+}
+
+/**
+ * Assign log lines to the steps of the job. Steps report times to the second, so a line logged
+ * in the second the next step started moves to it only when it opens a ##[group] or the current
+ * step had already completed; later lines always do.
+ */
+export function splitLogBySteps(lines: JobLogLine[], steps: WorkflowStep[]): Map<number, JobLogLine[]> {
+    const started = steps
+        .filter(step => step.started_at && step.conclusion !== 'skipped')
+        .sort((a, b) => a.number - b.number);
+    const byStep = new Map<number, JobLogLine[]>(started.map(step => [step.number, []]));
+    if (started.length === 0) {
+        return byStep;
+    }
+
+    let current = 0;
+    for (const line of lines) {
+        const time = line.timestamp ? Date.parse(line.timestamp) : NaN;
+        while (current + 1 < started.length && !isNaN(time)) {
+            const nextStart = Date.parse(started[current + 1].started_at!);
+            const completed = started[current].completed_at ? Date.parse(started[current].completed_at!) : Infinity;
+            const currentDone = line.kind === 'group' || time >= completed + 1000;
+            if ((time >= nextStart && currentDone) || time >= nextStart + 1000) {
+                current++;
+            } else {
+                break;
+            }
+        }
+        byStep.get(started[current].number)!.push(line);
+    }
+
+    return byStep;
+}
+
+/**
+ * Colour and weight runs of text from SGR escape codes; other escape sequences are removed
+ */
+export function parseAnsi(text: string): AnsiSegment[] {
+    const segments: AnsiSegment[] = [];
+    const input = text.replace(OTHER_ESCAPES, '');
+    let color: string | undefined;
+    let bold = false;
+    let last = 0;
+
+    const push = (end: number) => {
+        if (end > last) {
+            segments.push({ text: input.slice(last, end), color, bold: bold || undefined });
+        }
+    };
+
+    for (const match of input.matchAll(SGR)) {
+        push(match.index!);
+        last = match.index! + match[0].length;
+
+        const codes = match[1] === '' ? [0] : match[1].split(';').map(Number);
+        for (let i = 0; i < codes.length; i++) {
+            const code = codes[i];
+            if (code === 0) {
+                color = undefined;
+                bold = false;
+            } else if (code === 1) {
+                bold = true;
+            } else if (code === 22) {
+                bold = false;
+            } else if (code === 39) {
+                color = undefined;
+            } else if (ANSI_COLORS[code]) {
+                color = ANSI_COLORS[code];
+            } else if (code === 38) {
+                // 256-colour and RGB foregrounds are not mapped; skip their arguments
+                i += codes[i + 1] === 5 ? 2 : 4;
+            }
+        }
+    }
+    push(input.length);
+
+    return segments;
+}
+
+export function stripAnsi(text: string): string {
+    return text.replace(SGR, '').replace(OTHER_ESCAPES, '');
+}
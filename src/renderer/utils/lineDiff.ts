@@ -0,0 +1,68 @@
+export interface DiffLine {
+    type: 'same' | 'added' | 'removed';
+    text: string;
+    oldNumber?: number;
+    newNumber?: number;
+}
+
+// A run of changed lines with the unchanged lines around them
+export interface DiffHunk {
+    lines: DiffLine[];
+}
+
+/**
+ * Line diff from the longest common subsequence. Quadratic, which is fine for files the size
+ * of a workflow definition.
+ */
+export function diffLines(before: string, after: string): DiffLine[] {
+    const a = before.split('\n');
+    const b = after.split('\n');
+    const common: number[][] = Array.from({ length: a.length + 1 }, () => new Array(b.length + 1).fill(0));
+
+    for (let i = a.length - 1; i >= 0; i--) {
+        for (let j = b.length - 1; j >= 0; j--) {
+            common[i][j] = a[i] === b[j] ? common[i + 1][j + 1] + 1 : Math.max(common[i + 1][j], common[i][j + 1]);
+        }
+    }
+
+    const lines: DiffLine[] = [];
+    let i = 0;
+    let j = 0;
+    while (i < a.length || j < b.length) {
+        if (i < a.length && j < b.length && a[i] === b[j]) {
+            lines.push({ type: 'same', text: a[i], oldNumber: i + 1, newNumber: j + 1 });
+            i++;
+            j++;
+        } else if (i < a.length && (j === b.length || common[i + 1][j] >= common[i][j + 1])) {
+            lines.push({ type: 'removed', text: a[i], oldNumber: i + 1 });
+            i++;
+        } else {
+            lines.push({ type: 'added', text: b[j], newNumber: j + 1 });
+            j++;
+        }
+    }
+    return lines;
+}
+
+/**
+ * Group changed lines into hunks with up to context unchanged lines on each side
+ */
+export function toHunks(lines: DiffLine[], context: number = 3): DiffHunk[] {
+    const ranges: [number, number][] = [];
+
+    lines.forEach((line, index) => {
+        if (line.type === 'same') {
+            return;
+        }
+        const start = Math.max(0, index - context);
+        const end = Math.min(lines.length - 1, index + context);
+        const last = ranges[ranges.length - 1];
+        if (last && start <= last[1] + 1) {
+            last[1] = end;
+        } else {
+            ranges.push([start, end]);
+        }
+    });
+
+    return ranges.map(([start, end]) => ({ lines: lines.slice(start, end + 1) }));
+}
@@ -0,0 +1,51 @@
+/// <reference types="vite/client" />
+import { loader } from '@monaco-editor/react';
+import * as monaco from 'monaco-editor';
+import EditorWorker from 'monaco-editor/esm/vs/editor/editor.worker?worker';
+import JsonWorker from 'monaco-editor/esm/vs/language/json/json.worker?worker';
+
+// The renderer CSP only allows local scripts, so use the bundled Monaco instead of the CDN copy
+self.MonacoEnvironment = {
+    getWorker: (_workerId: string, label: string) => (label === 'json' ? new JsonWorker() : new EditorWorker())
+};
+
+loader.config({ monaco });
+
+const LANGUAGES_BY_EXTENSION: Record<string, string> = {
+    conf: 'ini',
+    ini: 'ini',
+    env: 'ini',
+    json: 'json',
+    yml: 'yaml',
+    yaml: 'yaml',
+    sh: 'shell',
+    bash: 'shell',
+    php: 'php',
+    js: 'javascript',
+    mjs: 'javascript',
+    cjs: 'javascript',
+    ts: 'typescript',
+    py: 'python',
+    rb: 'ruby',
+    sql: 'sql',
+    xml: 'xml',
+    html: 'html',
+    css: 'css',
+    md: 'markdown',
+    dockerfile: 'dockerfile'
+};
+
+/**
+ * Pick a Monaco language for a remote file from its name
+ */
+export function languageForPath(filePath: string): string {
+    const name = filePath.split('/').pop()?.toLowerCase() ?? '';
+    if (name === 'dockerfile') {
+        return 'dockerfile';
+    }
+    if (name.startsWith('.env')) {
+        return 'ini';
+    }
+    const extension = name.includes('.') ? name.split('.').pop() ?? '' : '';
+    return LANGUAGES_BY_EXTENSION[extension] ?? 'plaintext';
+}
@@ -0,0 +1,283 @@
+import { WorkflowGraphConnection, WorkflowGraphNode } from '../../shared/types';
+
+export interface GraphProblem {
+    severity: 'error' | 'warning';
+    message: string;
+    nodeId?: string;
+}
+
+export interface CompiledWorkflow {
+    yaml: string;
+    problems: GraphProblem[];
+}
+
+export interface CompileOptions {
+    name: string;
+    // Runner for jobs that do not set their own
+    runsOn?: string;
+}
+
+type YamlValue = string | number | boolean | null | YamlValue[] | { [key: string]: YamlValue };
+
+// Events a trigger node can stand for; push and pull_request take a branch filter, schedule a cron
+export const TRIGGER_EVENTS = ['push', 'pull_request', 'workflow_dispatch', 'schedule', 'release'];
+const BRANCH_FILTER_EVENTS = ['push', 'pull_request'];
+
+const DEFAULT_RUNNER = 'ubuntu-latest';
+const CHECKOUT_ACTION = 'actions/checkout@v4';
+
+// Strings YAML would read as something else, or that need quoting to stay one scalar
+const NEEDS_QUOTES = /^[-?:,[\]{}#&*!|>'"%@`\s]|:\s|\s#|:$|\s$|^(true|false|yes|no|on|off|null|~|[-+]?(\d[\d_]*)?\.?\d+(e[-+]?\d+)?)$/i;
+
+const formatScalar = (value: string | number | boolean) =>
+    typeof value !== 'string' ? String(value) : value === '' || NEEDS_QUOTES.test(value) ? `'${value.replace(/'/g, "''")}'` : value;
+
+const isMap = (value: YamlValue): value is { [key: string]: YamlValue } =>
+    value !== null && typeof value === 'object' && !Array.isArray(value);
+
+function emitEntries(value: { [key: string]: YamlValue }, indent: number): string[] {
+    const pad = ' '.repeat(indent);
+    const lines: string[] = [];
+
+    for (const [key, item] of Object.entries(value)) {
+        if (item === null) {
+            lines.push(`${pad}${key}:`);
+        } else if (Array.isArray(item)) {
+            lines.push(item.length === 0 ? `${pad}${key}: []` : `${pad}${key}:`, ...emitItems(item, indent + 2));
+        } else if (isMap(item)) {
+            lines.push(Object.keys(item).length === 0 ? `${pad}${key}: {}` : `${pad}${key}:`, ...emitEntries(item, indent + 2));
+        } else if (typeof item === 'string' && item.includes('\n')) {
+            lines.push(`${pad}${key}: |${item.endsWith('\n') ? '' : '-'}`, ...item.replace(/\n$/, '').split('\n').map(line => (line ? `${pad}  ${line}` : '')));
+        } else {
+            lines.push(`${pad}${key}: ${formatScalar(item)}`);
+        }
+    }
+    return lines;
+}
+
+function emitItems(items: YamlValue[], indent: number): string[] {
+    const pad = ' '.repeat(indent);
+    return items.flatMap(item => {
+        if (isMap(item)) {
+            const [first, ...rest] = emitEntries(item, indent + 2);
+            return [`${pad}- ${first.trimStart()}`, ...rest];
+        }
+        return [`${pad}- ${item === null || typeof item === 'object' ? '' : formatScalar(item)}`];
+    });
+}
+
+/**
+ * Serialise plain data as block-style YAML in the layout workflow files are usually written in
+ */
+export function toYaml(value: { [key: string]: YamlValue }): string {
+    return emitEntries(value, 0).join('\n') + '\n';
+}
+
+const splitList = (text: string | undefined) => (text ?? '').split(',').map(item => item.trim()).filter(Boolean);
+
+const stripExpression = (text: string) => text.trim().replace(/^\$\{\{([\s\S]*)\}\}$/, '$1').trim();
+
+function jobIdFor(title: string, used: Set<string>): string {
+    const slug = title.toLowerCase().replace(/[^a-z0-9_-]+/g, '-').replace(/^-+|-+$/g, '') || 'job';
+    const base = /^[a-z_]/.test(slug) ? slug : `job-${slug}`;
+    let id = base;
+    for (let suffix = 2; used.has(id); suffix++) {
+        id = `${base}-${suffix}`;
+    }
+    used.add(id);
+    return id;
+}
+
+/**
+ * What has to happen before a job runs, gathered from its incoming connections. Condition nodes
+ * are passed through: their expression guards the job and their own inputs become the job's.
+ */
+interface JobRequirements {
+    needs: Set<string>;
+    guards: Set<string>;
+    triggers: Set<string>;
+    // Connected from the error port of another job
+    onFailure: boolean;
+}
+
+/**
+ * Compile a builder graph to workflow YAML. Trigger nodes become the on: events, action and
+ * deploy nodes become jobs, connections between jobs become needs, and condition nodes become
+ * the if: of the jobs after them (negated on their false port). A job runs only when all of its
+ * incoming connections allow it; one connected from an error port runs when that job failed.
+ */
+export function compileWorkflowGraph(nodes: WorkflowGraphNode[], connections: WorkflowGraphConnection[], options: CompileOptions): CompiledWorkflow {
+    const problems: GraphProblem[] = [];
+    const byId = new Map(nodes.map(node => [node.id, node]));
+    const incoming = (nodeId: string) => connections.filter(connection => connection.to === nodeId && byId.has(connection.from));
+    const triggers = nodes.filter(node => node.type === 'trigger');
+    const jobNodes = nodes.filter(node => node.type === 'action' || node.type === 'deploy');
+
+    if (triggers.length === 0) {
+        problems.push({ severity: 'error', message: 'Add a trigger node to say when the workflow runs' });
+    }
+    if (jobNodes.length === 0) {
+        problems.push({ severity: 'error', message: 'Add an action or deploy node to give the workflow a job' });
+    }
+
+    const on: { [key: string]: YamlValue } = {};
+    const eventOf = (trigger: WorkflowGraphNode) => trigger.config.event || 'push';
+    for (const trigger of triggers) {
+        const event = eventOf(trigger);
+        if (!TRIGGER_EVENTS.includes(event)) {
+            problems.push({ severity: 'error', message: `'${trigger.title}' uses an unsupported event '${event}'`, nodeId: trigger.id });
+        } else if (event === 'schedule') {
+            const cron = trigger.config.cron?.trim();
+            if (!cron) {
+                problems.push({ severity: 'error', message: `'${trigger.title}' needs a cron schedule`, nodeId: trigger.id });
+            } else {
+                on.schedule = [...((on.schedule as YamlValue[] | undefined) ?? []), { cron }];
+            }
+        } else if (BRANCH_FILTER_EVENTS.includes(event)) {
+            const branches = splitList(trigger.config.branches);
+            const existing = on[event];
+            if (existing === undefined) {
+                on[event] = branches.length > 0 ? { branches } : null;
+            } else if (isMap(existing) && branches.length > 0) {
+                // Two triggers for the same event run on the branches of either
+                existing.branches = [...new Set([...(existing.branches as string[]), ...branches])];
+            } else {
+                on[event] = null;
+            }
+        } else {
+            on[event] = null;
+        }
+    }
+
+    for (const condition of nodes.filter(node => node.type === 'condition')) {
+        if (!condition.config.expression?.trim()) {
+            problems.push({ severity: 'error', message: `'${condition.title}' needs an expression to check`, nodeId: condition.id });
+        }
+    }
+
+    const usedIds = new Set<string>();
+    const jobIds = new Map(jobNodes.map(node => [node.id, jobIdFor(node.title, usedIds)]));
+
+    const collect = (nodeId: string, requirements: JobRequirements, seen: Set<string>) => {
+        for (const connection of incoming(nodeId)) {
+            const from = byId.get(connection.from)!;
+            if (from.type === 'trigger') {
+                requirements.triggers.add(from.id);
+            } else if (from.type === 'condition') {
+                if (seen.has(from.id)) {
+                    continue;
+                }
+                seen.add(from.id);
+                const expression = stripExpression(from.config.expression ?? '');
+                if (expression) {
+                    requirements.guards.add(connection.fromPort === 'false' ? `!(${expression})` : `(${expression})`);
+                }
+                collect(from.id, requirements, seen);
+            } else {
+                requirements.needs.add(from.id);
+                if (connection.fromPort === 'error') {
+                    requirements.onFailure = true;
+                }
+            }
+        }
+    };
+
+    const allEvents = new Set(triggers.map(eventOf));
+    const requirementsById = new Map<string, JobRequirements>();
+    const jobs: { [key: string]: YamlValue } = {};
+
+    for (const node of jobNodes) {
+        const requirements: JobRequirements = { needs: new Set(), guards: new Set(), triggers: new Set(), onFailure: false };
+        collect(node.id, requirements, new Set());
+        requirementsById.set(node.id, requirements);
+
+        if (incoming(node.id).length === 0 && triggers.length > 0) {
+            problems.push({ severity: 'warning', message: `'${node.title}' is not connected and runs on every trigger`, nodeId: node.id });
+        }
+
+        const conditions: string[] = [];
+        if (requirements.onFailure) {
+            conditions.push('failure()');
+        }
+        // A first job reached from only some of the triggers checks which event started the run
+        const events = [...new Set([...requirements.triggers].map(id => eventOf(byId.get(id)!)))];
+        if (requirements.needs.size === 0 && events.length > 0 && events.length < allEvents.size) {
+            const check = events.map(event => `github.event_name == '${event}'`).join(' || ');
+            conditions.push(events.length > 1 ? `(${check})` : check);
+        }
+        conditions.push(...requirements.guards);
+
+        const job: { [key: string]: YamlValue } = { name: node.title };
+        const needs = [...requirements.needs].map(id => jobIds.get(id)!);
+        if (needs.length > 0) {
+            job.needs = needs.length === 1 ? needs[0] : needs;
+        }
+        if (conditions.length > 0) {
+            job.if = `\${{ ${conditions.join(' && ')} }}`;
+        }
+        job['runs-on'] = node.config.runsOn?.trim() || options.runsOn || DEFAULT_RUNNER;
+        if (node.type === 'deploy' && node.config.environment?.trim()) {
+            job.environment = node.config.environment.trim();
+        }
+
+        const uses = node.config.uses?.trim();
+        const run = node.config.run?.trim();
+        if (!uses && !run) {
+            problems.push({ severity: 'error', message: `'${node.title}' needs a command to run or an action to use`, nodeId: node.id });
+        }
+        job.steps = [
+            { uses: CHECKOUT_ACTION },
+            uses ? { name: node.title, uses } : { name: node.title, run: run || `echo "${node.title}"` }
+        ];
+
+        jobs[jobIds.get(node.id)!] = job;
+    }
+
+    const cycle = findCycle(jobNodes.map(node => node.id), id => [...(requirementsById.get(id)?.needs ?? [])]);
+    if (cycle) {
+        problems.push({
+            severity: 'error',
+            message: `Connections form a loop: ${cycle.map(id => byId.get(id)!.title).join(' → ')}`,
+            nodeId: cycle[0]
+        });
+    }
+
+    return {
+        yaml: toYaml({ name: options.name.trim() || 'Workflow', on, jobs }),
+        problems
+    };
+}
+
+function findCycle(ids: string[], dependencies: (id: string) => string[]): string[] | null {
+    const state = new Map<string, 'visiting' | 'done'>();
+    const path: string[] = [];
+
+    const visit = (id: string): string[] | null => {
+        state.set(id, 'visiting');
+        path.push(id);
+        for (const dependency of dependencies(id)) {
+            if (state.get(dependency) === 'visiting') {
+                return [...path.slice(path.indexOf(dependency)), dependency];
+            }
+            if (!state.has(dependency)) {
+                const cycle = visit(dependency);
+                if (cycle) {
+                    return cycle;
+                }
+            }
+        }
+        path.pop();
+        state.set(id, 'done');
+        return null;
+    };
+
+    for (const id of ids) {
+        if (!state.has(id)) {
+            const cycle = visit(id);
+            if (cycle) {
+                return cycle;
+            }
+        }
+    }
+    return null;
+}
@@ -18,6 +18,7 @@ import {
     clearError,
     clearQueryResult
 } from '../store/slices/databaseSlice';
+import { fetchServers } from '../store/slices/serversSlice';
 
 export default function Database() {
     const dispatch = useAppDispatch();
@@ -37,17 +38,20 @@ export default function Database() {
         activeTab,
         showAddModal
     } = useAppSelector((state) => state.database);
+    const servers = useAppSelector((state) => state.servers.servers);
 
     const [queryText, setQueryText] = useState('SELECT * FROM users LIMIT 10;');
+    const [clipboardNotice, setClipboardNotice] = useState<string | null>(null);
     const [connectionForm, setConnectionForm] = useState({
         name: '',
-        type: 'postgresql' as const,
+        type: 'postgresql' as 'postgresql' | 'mysql' | 'mongodb' | 'redis' | 'sqlite',
         host: '',
         port: 5432,
         database: '',
         username: '',
         password: '',
-        ssl: false
+        ssl: false,
+        sshTunnelServerId: ''
     });
 
     // Get example queries based on database type
@@ -87,6 +91,7 @@ export default function Database() {
     // Load connections and data on component mount
     useEffect(() => {
         dispatch(fetchConnections());
+        dispatch(fetchServers());
         dispatch(fetchMetrics());
         dispatch(fetchHealth());
         dispatch(fetchQueryHistory());
@@ -135,7 +140,11 @@ export default function Database() {
 
     const handleCreateConnection = async (e: React.FormEvent) => {
         e.preventDefault();
-        const result = await dispatch(createConnection(connectionForm));
+        const { sshTunnelServerId, ...connectionData } = connectionForm;
+        const result = await dispatch(createConnection({
+            ...connectionData,
+            sshTunnel: sshTunnelServerId ? { serverId: sshTunnelServerId } : undefined
+        }));
         if (createConnection.fulfilled.match(result)) {
             setConnectionForm({
                 name: '',
@@ -145,7 +154,8 @@ export default function Database() {
                 database: '',
                 username: '',
                 password: '',
-                ssl: false
+                ssl: false,
+                sshTunnelServerId: ''
             });
             dispatch(setShowAddModal(false));
         }
@@ -182,9 +192,17 @@ export default function Database() {
         }
     };
 
-    const handleOpenExternal = () => {
-        if (selectedConnection) {
-            dispatch(openExternalDatabase(selectedConnection.id));
+    const handleOpenExternal = async (includePassword: boolean) => {
+        if (!selectedConnection) {
+            return;
+        }
+        setClipboardNotice(null);
+        const resultAction = await dispatch(openExternalDatabase({ connectionId: selectedConnection.id, includePassword }));
+        if (openExternalDatabase.fulfilled.match(resultAction) && resultAction.payload?.copied) {
+            const { clearAfterMs } = resultAction.payload;
+            setClipboardNotice(clearAfterMs
+                ? `Connection string copied. The clipboard is cleared in ${Math.round(clearAfterMs / 1000)} seconds.`
+                : 'Connection string copied without the password.');
         }
     };
 
@@ -359,6 +377,7 @@ export default function Database() {
                                     </div>
                                     <p className="text-gray-600 mb-4">
                                         {selectedConnection.host}:{selectedConnection.port} • {selectedConnection.database}
+                                        {selectedConnection.sshTunnel && ` • via ${servers.find(server => server.id === selectedConnection.sshTunnel?.serverId)?.name ?? 'SSH tunnel'}`}
                                     </p>
                                     {selectedConnection.lastConnected && (
                                         <p className="text-sm text-gray-500">
@@ -374,13 +393,24 @@ export default function Database() {
                                         Export JSON
                                     </button>
                                     <button
-                                        onClick={handleOpenExternal}
+                                        onClick={() => handleOpenExternal(true)}
                                         className="bg-gray-100 text-gray-700 px-4 py-2 rounded-lg text-sm font-medium hover:bg-gray-200 transition-colors"
                                     >
                                         Open External
                                     </button>
+                                    {['mysql', 'postgresql', 'mongodb'].includes(selectedConnection.type) && (
+                                        <button
+                                            onClick={() => handleOpenExternal(false)}
+                                            className="bg-gray-100 text-gray-700 px-4 py-2 rounded-lg text-sm font-medium hover:bg-gray-200 transition-colors"
+                                        >
+                                            Copy without Password
+                                        </button>
+                                    )}
                                 </div>
                             </div>
+                            {clipboardNotice && (
+                                <p className="text-xs text-gray-500 mt-2">{clipboardNotice}</p>
+                            )}
 
                             {/* Tabs */}
                             <div className="flex border-b border-gray-200 mt-6">
@@ -518,6 +548,11 @@ export default function Database() {
                                                     <div className="flex flex-col h-full">
                                                         <div className="mb-4 text-sm text-gray-600 px-4 pt-4">
                                                             Query executed in {queryResult.executionTime}ms • {queryResult.rowsAffected} rows affected
+                                                            {queryResult.inTransaction && (
+                                                                <span className="ml-2 inline-flex px-2 py-0.5 text-xs font-semibold rounded-full bg-yellow-100 text-yellow-800">
+                                                                    Transaction open • run COMMIT or ROLLBACK to finish
+                                                                </span>
+                                                            )}
                                                         </div>
                                                         {queryResult.error ? (
                                                             <div className="bg-red-50 border border-red-200 rounded-lg p-4 mx-4">
@@ -815,6 +850,24 @@ export default function Database() {
                                         <option value="sqlite">SQLite</option>
                                     </select>
                                 </div>
+                                {connectionForm.type !== 'sqlite' && (
+                                    <div>
+                                        <label className="block text-sm font-medium text-gray-700 mb-1">SSH Tunnel</label>
+                                        <select
+                                            value={connectionForm.sshTunnelServerId}
+                                            onChange={(e) => setConnectionForm({ ...connectionForm, sshTunnelServerId: e.target.value })}
+                                            className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-primary-500 focus:border-transparent"
+                                        >
+                                            <option value="">Connect directly</option>
+                                            {servers.map(server => (
+                                                <option key={server.id} value={server.id}>Through {server.name} ({server.host})</option>
+                                            ))}
+                                        </select>
+                                        {connectionForm.sshTunnelServerId && (
+                                            <p className="mt-1 text-xs text-gray-500">Host and port are resolved on the server, e.g. 127.0.0.1 for a database that only listens locally.</p>
+                                        )}
+                                    </div>
+                                )}
                                 <div className="grid grid-cols-2 gap-4">
                                     <div>
                                         <label className="block text-sm font-medium text-gray-700 mb-1">Host</label>
@@ -139,7 +139,7 @@ export default function Database() {
 
     const handleOpenExternal = () => {
         if (selectedConnection) {
-            dispatch(openExternalDatabase(selectedConnection.id));
+            dispatch(openExternalDatabase({ connectionId: selectedConnection.id }));
         }
     };
 
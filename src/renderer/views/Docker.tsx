@@ -1,184 +1,96 @@
 import { useState, useEffect } from 'react';
+import { useAppDispatch, useAppSelector } from '../hooks/redux';
+import {
+    clearError,
+    clearInspect,
+    fetchDockerResources,
+    inspectDockerResource,
+    removeDockerResource,
+    runContainerAction,
+    setEndpoint
+} from '../store/slices/dockerSlice';
+import { fetchServers } from '../store/slices/serversSlice';
+import ContainerLogsModal from '../components/docker/ContainerLogsModal';
+import ContainerShellModal from '../components/docker/ContainerShellModal';
+import { DockerContainer, DockerResourceKind } from '../../shared/types';
 
-interface DockerContainer {
-    id: string;
-    name: string;
-    image: string;
-    status: 'running' | 'stopped' | 'paused' | 'restarting' | 'dead';
-    state: string;
-    ports: string[];
-    created: string;
-    uptime: string;
-    cpu: number;
-    memory: number;
-    networkRx: number;
-    networkTx: number;
-    volumes: string[];
-    environment: { [key: string]: string };
-}
-
-interface DockerImage {
-    id: string;
-    repository: string;
-    tag: string;
-    size: string;
-    created: string;
-}
-
-interface DockerNetwork {
-    id: string;
-    name: string;
-    driver: string;
-    scope: string;
-    containers: number;
-}
-
-interface DockerVolume {
-    name: string;
-    driver: string;
-    mountpoint: string;
-    size: string;
-    created: string;
-}
-
-// Mock Docker data
-const mockContainers: DockerContainer[] = [
-    {
-        id: 'web-app-prod',
-        name: 'web-app-production',
-        image: 'nginx:alpine',
-        status: 'running',
-        state: 'Up 2 days',
-        ports: ['80:80', '443:443'],
-        created: '2024-08-12T10:00:00Z',
-        uptime: '2d 4h 15m',
-        cpu: 5.2,
-        memory: 64.3,
-        networkRx: 125.6,
-        networkTx: 89.2,
-        volumes: ['/var/log/nginx:/var/log/nginx:rw'],
-        environment: {
-            'NGINX_HOST': 'localhost',
-            'NGINX_PORT': '80'
-        }
-    },
-    {
-        id: 'api-service',
-        name: 'api-backend',
-        image: 'node:18-alpine',
-        status: 'running',
-        state: 'Up 1 day',
-        ports: ['3000:3000'],
-        created: '2024-08-13T08:30:00Z',
-        uptime: '1d 7h 45m',
-        cpu: 12.8,
-        memory: 156.7,
-        networkRx: 89.3,
-        networkTx: 234.1,
-        volumes: ['/app:/usr/src/app:rw'],
-        environment: {
-            'NODE_ENV': 'production',
-            'PORT': '3000'
-        }
-    },
-    {
-        id: 'db-postgres',
-        name: 'postgres-db',
-        image: 'postgres:15',
-        status: 'running',
-        state: 'Up 5 days',
-        ports: ['5432:5432'],
-        created: '2024-08-09T15:20:00Z',
-        uptime: '5d 12h 20m',
-        cpu: 8.4,
-        memory: 312.5,
-        networkRx: 45.2,
-        networkTx: 23.8,
-        volumes: ['/var/lib/postgresql/data:/var/lib/postgresql/data:rw'],
-        environment: {
-            'POSTGRES_DB': 'appdb',
-            'POSTGRES_USER': 'admin'
-        }
-    },
-    {
-        id: 'redis-cache',
-        name: 'redis-server',
-        image: 'redis:7-alpine',
-        status: 'stopped',
-        state: 'Exited (0) 2 hours ago',
-        ports: ['6379:6379'],
-        created: '2024-08-14T06:00:00Z',
-        uptime: '-',
-        cpu: 0,
-        memory: 0,
-        networkRx: 0,
-        networkTx: 0,
-        volumes: ['/data:/data:rw'],
-        environment: {
-            'REDIS_PASSWORD': '***'
-        }
+const formatBytes = (bytes?: number): string => {
+    if (!bytes || bytes <= 0) {
+        return '0 B';
     }
-];
-
-const mockImages: DockerImage[] = [
-    { id: 'nginx-alpine', repository: 'nginx', tag: 'alpine', size: '23.5MB', created: '2024-08-10' },
-    { id: 'node-18', repository: 'node', tag: '18-alpine', size: '165MB', created: '2024-08-11' },
-    { id: 'postgres-15', repository: 'postgres', tag: '15', size: '379MB', created: '2024-08-09' },
-    { id: 'redis-7', repository: 'redis', tag: '7-alpine', size: '29.8MB', created: '2024-08-12' }
-];
+    const units = ['B', 'KB', 'MB', 'GB', 'TB'];
+    let size = bytes;
+    let unitIndex = 0;
+    while (size >= 1024 && unitIndex < units.length - 1) {
+        size /= 1024;
+        unitIndex += 1;
+    }
+    const precision = size >= 10 || unitIndex === 0 ? 0 : 1;
+    return `${size.toFixed(precision)} ${units[unitIndex]}`;
+};
 
-const mockNetworks: DockerNetwork[] = [
-    { id: 'bridge', name: 'bridge', driver: 'bridge', scope: 'local', containers: 4 },
-    { id: 'host', name: 'host', driver: 'host', scope: 'local', containers: 0 },
-    { id: 'none', name: 'none', driver: 'null', scope: 'local', containers: 0 },
-    { id: 'app-network', name: 'app-network', driver: 'bridge', scope: 'local', containers: 2 }
-];
+const formatDate = (value?: string): string => {
+    if (!value) {
+        return '-';
+    }
+    return new Date(value).toLocaleString();
+};
 
-const mockVolumes: DockerVolume[] = [
-    { name: 'postgres_data', driver: 'local', mountpoint: '/var/lib/docker/volumes/postgres_data/_data', size: '2.3GB', created: '2024-08-09' },
-    { name: 'nginx_logs', driver: 'local', mountpoint: '/var/lib/docker/volumes/nginx_logs/_data', size: '156MB', created: '2024-08-12' },
-    { name: 'redis_data', driver: 'local', mountpoint: '/var/lib/docker/volumes/redis_data/_data', size: '45MB', created: '2024-08-14' }
-];
+const formatPorts = (container: DockerContainer): string => {
+    if (container.ports.length === 0) {
+        return 'None';
+    }
+    return container.ports
+        .map(port => port.publicPort ? `${port.publicPort}:${port.privatePort}/${port.type}` : `${port.privatePort}/${port.type}`)
+        .join(', ');
+};
 
 export default function Docker() {
+    const dispatch = useAppDispatch();
+    const { endpoint, engine, containers, images, networks, volumes, loading, error, lastUpdated, pendingActions, inspect } =
+        useAppSelector((state) => state.docker);
+    const servers = useAppSelector((state) => state.servers.servers);
     const [activeTab, setActiveTab] = useState<'containers' | 'images' | 'networks' | 'volumes'>('containers');
-    const [containers, setContainers] = useState<DockerContainer[]>(mockContainers);
-    const [selectedContainer, setSelectedContainer] = useState<DockerContainer | null>(null);
-    const [showCreateModal, setShowCreateModal] = useState(false);
-    const [showLogsModal, setShowLogsModal] = useState(false);
+    const [logsContainer, setLogsContainer] = useState<DockerContainer | null>(null);
+    const [shellContainer, setShellContainer] = useState<DockerContainer | null>(null);
 
-    // Simulate real-time container updates
     useEffect(() => {
-        const interval = setInterval(() => {
-            setContainers(prev => prev.map(container => ({
-                ...container,
-                cpu: container.status === 'running' ? Math.random() * 20 : 0,
-                memory: container.status === 'running' ? container.memory + (Math.random() - 0.5) * 10 : 0,
-                networkRx: container.status === 'running' ? container.networkRx + Math.random() * 5 : 0,
-                networkTx: container.status === 'running' ? container.networkTx + Math.random() * 3 : 0
-            })));
-        }, 3000);
+        if (servers.length === 0) {
+            dispatch(fetchServers());
+        }
+    }, [dispatch, servers.length]);
+
+    useEffect(() => {
+        dispatch(fetchDockerResources(endpoint));
+    }, [dispatch, endpoint]);
+
+    const endpointKey = endpoint.type === 'local' ? 'local' : endpoint.serverId;
 
-        return () => clearInterval(interval);
-    }, []);
+    const handleEndpointChange = (value: string) => {
+        if (value === 'local') {
+            dispatch(setEndpoint({ type: 'local' }));
+        } else {
+            dispatch(setEndpoint({ type: 'ssh', serverId: value }));
+        }
+    };
 
-    const getStatusColor = (status: DockerContainer['status']) => {
-        switch (status) {
+    const getStatusColor = (state: DockerContainer['state']) => {
+        switch (state) {
             case 'running': return 'text-green-600 bg-green-100';
-            case 'stopped': return 'text-gray-600 bg-gray-100';
+            case 'exited':
+            case 'created': return 'text-gray-600 bg-gray-100';
             case 'paused': return 'text-yellow-600 bg-yellow-100';
             case 'restarting': return 'text-blue-600 bg-blue-100';
-            case 'dead': return 'text-red-600 bg-red-100';
+            case 'dead':
+            case 'removing': return 'text-red-600 bg-red-100';
             default: return 'text-gray-600 bg-gray-100';
         }
     };
 
-    const getStatusIcon = (status: DockerContainer['status']) => {
-        switch (status) {
+    const getStatusIcon = (state: DockerContainer['state']) => {
+        switch (state) {
             case 'running':
                 return <div className="w-2 h-2 bg-green-500 rounded-full animate-pulse"></div>;
-            case 'stopped':
-                return <div className="w-2 h-2 bg-gray-500 rounded-full"></div>;
             case 'paused':
                 return <div className="w-2 h-2 bg-yellow-500 rounded-full"></div>;
             case 'restarting':
@@ -190,83 +102,110 @@ export default function Docker() {
         }
     };
 
-    const handleContainerAction = (action: string, containerId: string) => {
-        console.log(`${action} container: ${containerId}`);
-        // In real implementation, would send IPC message to main process
+    const handleContainerAction = (action: 'start' | 'stop' | 'restart', containerId: string) => {
+        dispatch(runContainerAction({ endpoint, id: containerId, action }));
     };
 
-    const ContainerCard = ({ container }: { container: DockerContainer }) => (
-        <div className="bg-white rounded-lg border border-gray-200 p-4 hover:border-gray-300 transition-colors">
-            <div className="flex items-center justify-between mb-3">
-                <div className="flex items-center space-x-3">
-                    {getStatusIcon(container.status)}
-                    <div>
-                        <h3 className="font-medium text-gray-900">{container.name}</h3>
-                        <p className="text-sm text-gray-500">{container.image}</p>
-                    </div>
-                </div>
-                <span className={`inline-flex items-center px-2 py-1 rounded-full text-xs font-medium ${getStatusColor(container.status)}`}>
-                    {container.status}
-                </span>
-            </div>
+    const handleRemove = (kind: DockerResourceKind, id: string, label: string) => {
+        if (!window.confirm(`Remove ${kind} "${label}"?`)) {
+            return;
+        }
+        dispatch(removeDockerResource({ endpoint, kind, id, force: kind === 'container' }));
+    };
 
-            <div className="grid grid-cols-2 gap-4 mb-3">
-                <div>
-                    <div className="text-xs text-gray-500 mb-1">CPU</div>
-                    <div className="text-sm font-medium">{container.cpu.toFixed(1)}%</div>
-                    <div className="w-full bg-gray-200 rounded-full h-1">
-                        <div
-                            className="bg-blue-500 h-1 rounded-full transition-all duration-300"
-                            style={{ width: `${Math.min(container.cpu, 100)}%` }}
-                        ></div>
-                    </div>
-                </div>
-                <div>
-                    <div className="text-xs text-gray-500 mb-1">Memory</div>
-                    <div className="text-sm font-medium">{container.memory.toFixed(1)}MB</div>
-                    <div className="w-full bg-gray-200 rounded-full h-1">
-                        <div
-                            className="bg-green-500 h-1 rounded-full transition-all duration-300"
-                            style={{ width: `${Math.min(container.memory / 5, 100)}%` }}
-                        ></div>
+    const handleInspect = (kind: DockerResourceKind, id: string) => {
+        dispatch(inspectDockerResource({ endpoint, kind, id }));
+    };
+
+    const ContainerCard = ({ container }: { container: DockerContainer }) => {
+        const busy = pendingActions.includes(container.id);
+        return (
+            <div className="bg-white rounded-lg border border-gray-200 p-4 hover:border-gray-300 transition-colors">
+                <div className="flex items-center justify-between mb-3">
+                    <div className="flex items-center space-x-3 min-w-0">
+                        {getStatusIcon(container.state)}
+                        <div className="min-w-0">
+                            <h3 className="font-medium text-gray-900 truncate">{container.name}</h3>
+                            <p className="text-sm text-gray-500 truncate">{container.image}</p>
+                        </div>
                     </div>
+                    <span className={`inline-flex items-center px-2 py-1 rounded-full text-xs font-medium ${getStatusColor(container.state)}`}>
+                        {container.state}
+                    </span>
                 </div>
-            </div>
 
-            <div className="text-xs text-gray-500 mb-3">
-                <div>Ports: {container.ports.join(', ') || 'None'}</div>
-                <div>Uptime: {container.uptime}</div>
-            </div>
+                <div className="text-xs text-gray-500 mb-3 space-y-1">
+                    <div>{container.status}</div>
+                    <div>Ports: {formatPorts(container)}</div>
+                    <div>Networks: {container.networks.join(', ') || 'None'}</div>
+                </div>
 
-            <div className="flex space-x-2">
-                <button
-                    onClick={() => setSelectedContainer(container)}
-                    className="flex-1 px-3 py-1 text-xs bg-gray-100 text-gray-700 rounded hover:bg-gray-200 transition-colors"
-                >
-                    Details
-                </button>
-                {container.status === 'running' ? (
+                <div className="flex space-x-2">
                     <button
-                        onClick={() => handleContainerAction('stop', container.id)}
-                        className="flex-1 px-3 py-1 text-xs bg-red-100 text-red-700 rounded hover:bg-red-200 transition-colors"
+                        onClick={() => handleInspect('container', container.id)}
+                        className="flex-1 px-3 py-1 text-xs bg-gray-100 text-gray-700 rounded hover:bg-gray-200 transition-colors"
                     >
-                        Stop
+                        Details
                     </button>
-                ) : (
+                    {container.state === 'running' ? (
+                        <>
+                            <button
+                                onClick={() => handleContainerAction('stop', container.id)}
+                                disabled={busy}
+                                className="flex-1 px-3 py-1 text-xs bg-red-100 text-red-700 rounded hover:bg-red-200 transition-colors disabled:opacity-50"
+                            >
+                                Stop
+                            </button>
+                            <button
+                                onClick={() => handleContainerAction('restart', container.id)}
+                                disabled={busy}
+                                className="flex-1 px-3 py-1 text-xs bg-blue-100 text-blue-700 rounded hover:bg-blue-200 transition-colors disabled:opacity-50"
+                            >
+                                Restart
+                            </button>
+                        </>
+                    ) : (
+                        <>
+                            <button
+                                onClick={() => handleContainerAction('start', container.id)}
+                                disabled={busy}
+                                className="flex-1 px-3 py-1 text-xs bg-green-100 text-green-700 rounded hover:bg-green-200 transition-colors disabled:opacity-50"
+                            >
+                                Start
+                            </button>
+                            <button
+                                onClick={() => handleRemove('container', container.id, container.name)}
+                                disabled={busy}
+                                className="flex-1 px-3 py-1 text-xs bg-red-100 text-red-700 rounded hover:bg-red-200 transition-colors disabled:opacity-50"
+                            >
+                                Remove
+                            </button>
+                        </>
+                    )}
+                </div>
+                <div className="flex space-x-2 mt-2">
                     <button
-                        onClick={() => handleContainerAction('start', container.id)}
-                        className="flex-1 px-3 py-1 text-xs bg-green-100 text-green-700 rounded hover:bg-green-200 transition-colors"
+                        onClick={() => setLogsContainer(container)}
+                        className="flex-1 px-3 py-1 text-xs bg-blue-100 text-blue-700 rounded hover:bg-blue-200 transition-colors"
                     >
-                        Start
+                        Logs
                     </button>
-                )}
-                <button
-                    onClick={() => setShowLogsModal(true)}
-                    className="px-3 py-1 text-xs bg-blue-100 text-blue-700 rounded hover:bg-blue-200 transition-colors"
-                >
-                    Logs
-                </button>
+                    {container.state === 'running' && (
+                        <button
+                            onClick={() => setShellContainer(container)}
+                            className="flex-1 px-3 py-1 text-xs bg-gray-800 text-gray-100 rounded hover:bg-gray-700 transition-colors"
+                        >
+                            Shell
+                        </button>
+                    )}
+                </div>
             </div>
+        );
+    };
+
+    const EmptyState = ({ label }: { label: string }) => (
+        <div className="bg-white rounded-lg border border-gray-200 p-8 text-center text-sm text-gray-500">
+            {loading ? 'Loading...' : `No ${label} found`}
         </div>
     );
 
@@ -278,30 +217,56 @@ export default function Docker() {
                     <div className="flex items-center justify-between">
                         <div>
                             <h1 className="text-2xl font-bold text-gray-900">Docker Management</h1>
-                            <p className="text-gray-600 mt-1">Manage containers, images, networks, and volumes</p>
+                            <p className="text-gray-600 mt-1">
+                                {engine
+                                    ? `Docker ${engine.version} (API ${engine.apiVersion}) on ${engine.os}/${engine.arch}`
+                                    : 'Manage containers, images, networks, and volumes'}
+                            </p>
                         </div>
-                        <div className="flex space-x-2">
+                        <div className="flex items-center space-x-2">
+                            <select
+                                value={endpointKey}
+                                onChange={(e) => handleEndpointChange(e.target.value)}
+                                className="border border-gray-300 rounded-lg px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-primary-500"
+                            >
+                                <option value="local">Local daemon</option>
+                                {servers.map(server => (
+                                    <option key={server.id} value={server.id}>
+                                        {server.name} ({server.host})
+                                    </option>
+                                ))}
+                            </select>
                             <button
-                                onClick={() => setShowCreateModal(true)}
-                                className="bg-primary-600 text-white px-4 py-2 rounded-lg text-sm font-medium hover:bg-primary-700 transition-colors"
+                                onClick={() => dispatch(fetchDockerResources(endpoint))}
+                                disabled={loading}
+                                className="bg-gray-100 text-gray-700 px-4 py-2 rounded-lg text-sm font-medium hover:bg-gray-200 transition-colors disabled:opacity-50"
                             >
-                                Create Container
-                            </button>
-                            <button className="bg-gray-100 text-gray-700 px-4 py-2 rounded-lg text-sm font-medium hover:bg-gray-200 transition-colors">
-                                Pull Image
+                                {loading ? 'Refreshing...' : 'Refresh'}
                             </button>
                         </div>
                     </div>
+                    {lastUpdated && (
+                        <p className="text-xs text-gray-400 mt-2">Last updated {formatDate(lastUpdated)}</p>
+                    )}
                 </div>
 
+                {error && (
+                    <div className="mx-6 mt-4 p-3 bg-red-50 border border-red-200 rounded-lg flex items-center justify-between">
+                        <span className="text-sm text-red-700">{error}</span>
+                        <button onClick={() => dispatch(clearError())} className="text-sm text-red-600 hover:text-red-800">
+                            Dismiss
+                        </button>
+                    </div>
+                )}
+
                 {/* Tabs */}
                 <div className="bg-white border-b border-gray-200">
                     <nav className="flex space-x-8 px-6">
                         {[
                             { key: 'containers', label: 'Containers', count: containers.length },
-                            { key: 'images', label: 'Images', count: mockImages.length },
-                            { key: 'networks', label: 'Networks', count: mockNetworks.length },
-                            { key: 'volumes', label: 'Volumes', count: mockVolumes.length }
+                            { key: 'images', label: 'Images', count: images.length },
+                            { key: 'networks', label: 'Networks', count: networks.length },
+                            { key: 'volumes', label: 'Volumes', count: volumes.length }
                         ].map((tab) => (
                             <button
                                 key={tab.key}
@@ -320,222 +285,182 @@ export default function Docker() {
                 {/* Content */}
                 <div className="flex-1 overflow-y-auto p-6">
                     {activeTab === 'containers' && (
-                        <div className="grid grid-cols-1 lg:grid-cols-2 xl:grid-cols-3 gap-4">
-                            {containers.map((container) => (
-                                <ContainerCard key={container.id} container={container} />
-                            ))}
-                        </div>
+                        containers.length === 0 ? <EmptyState label="containers" /> : (
+                            <div className="grid grid-cols-1 lg:grid-cols-2 xl:grid-cols-3 gap-4">
+                                {containers.map((container) => (
+                                    <ContainerCard key={container.id} container={container} />
+                                ))}
+                            </div>
+                        )
                     )}
 
                     {activeTab === 'images' && (
-                        <div className="bg-white rounded-lg border border-gray-200">
-                            <div className="overflow-x-auto">
-                                <table className="min-w-full divide-y divide-gray-200">
-                                    <thead className="bg-gray-50">
-                                        <tr>
-                                            <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
-                                                Repository
-                                            </th>
-                                            <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
-                                                Tag
-                                            </th>
-                                            <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
-                                                Size
-                                            </th>
-                                            <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
-                                                Created
-                                            </th>
-                                            <th className="relative px-6 py-3">
-                                                <span className="sr-only">Actions</span>
-                                            </th>
-                                        </tr>
-                                    </thead>
-                                    <tbody className="bg-white divide-y divide-gray-200">
-                                        {mockImages.map((image) => (
-                                            <tr key={image.id} className="hover:bg-gray-50">
-                                                <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-gray-900">
-                                                    {image.repository}
-                                                </td>
-                                                <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
-                                                    {image.tag}
-                                                </td>
-                                                <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
-                                                    {image.size}
-                                                </td>
-                                                <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
-                                                    {image.created}
-                                                </td>
-                                                <td className="px-6 py-4 whitespace-nowrap text-right text-sm font-medium">
-                                                    <button className="text-primary-600 hover:text-primary-900 mr-3">
-                                                        Run
-                                                    </button>
-                                                    <button className="text-red-600 hover:text-red-900">
-                                                        Delete
-                                                    </button>
-                                                </td>
+                        images.length === 0 ? <EmptyState label="images" /> : (
+                            <div className="bg-white rounded-lg border border-gray-200">
+                                <div className="overflow-x-auto">
+                                    <table className="min-w-full divide-y divide-gray-200">
+                                        <thead className="bg-gray-50">
+                                            <tr>
+                                                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                                                    Repository
+                                                </th>
+                                                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                                                    Tag
+                                                </th>
+                                                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                                                    Size
+                                                </th>
+                                                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                                                    Created
+                                                </th>
+                                                <th className="relative px-6 py-3">
+                                                    <span className="sr-only">Actions</span>
+                                                </th>
                                             </tr>
-                                        ))}
-                                    </tbody>
-                                </table>
+                                        </thead>
+                                        <tbody className="bg-white divide-y divide-gray-200">
+                                            {images.map((image) => (
+                                                <tr key={image.id} className="hover:bg-gray-50">
+                                                    <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-gray-900">
+                                                        {image.repository}
+                                                    </td>
+                                                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                                                        {image.tag}
+                                                    </td>
+                                                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                                                        {formatBytes(image.size)}
+                                                    </td>
+                                                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                                                        {formatDate(image.created)}
+                                                    </td>
+                                                    <td className="px-6 py-4 whitespace-nowrap text-right text-sm font-medium">
+                                                        <button
+                                                            onClick={() => handleInspect('image', image.id)}
+                                                            className="text-primary-600 hover:text-primary-900 mr-3"
+                                                        >
+                                                            Inspect
+                                                        </button>
+                                                        <button
+                                                            onClick={() => handleRemove('image', image.id, image.repoTags[0] || image.id.slice(7, 19))}
+                                                            disabled={pendingActions.includes(image.id)}
+                                                            className="text-red-600 hover:text-red-900 disabled:opacity-50"
+                                                        >
+                                                            Delete
+                                                        </button>
+                                                    </td>
+                                                </tr>
+                                            ))}
+                                        </tbody>
+                                    </table>
+                                </div>
                             </div>
-                        </div>
+                        )
                     )}
 
                     {activeTab === 'networks' && (
-                        <div className="grid grid-cols-1 lg:grid-cols-2 gap-4">
-                            {mockNetworks.map((network) => (
-                                <div key={network.id} className="bg-white rounded-lg border border-gray-200 p-4">
-                                    <div className="flex items-center justify-between mb-3">
-                                        <h3 className="font-medium text-gray-900">{network.name}</h3>
-                                        <span className="text-sm text-gray-500">{network.driver}</span>
-                                    </div>
-                                    <div className="text-sm text-gray-600 space-y-1">
-                                        <div>Scope: {network.scope}</div>
-                                        <div>Containers: {network.containers}</div>
-                                    </div>
-                                    <div className="flex space-x-2 mt-3">
-                                        <button className="flex-1 px-3 py-1 text-xs bg-gray-100 text-gray-700 rounded hover:bg-gray-200 transition-colors">
-                                            Inspect
-                                        </button>
-                                        <button className="flex-1 px-3 py-1 text-xs bg-red-100 text-red-700 rounded hover:bg-red-200 transition-colors">
-                                            Remove
-                                        </button>
-                                    </div>
-                                </div>
-                            ))}
-                        </div>
-                    )}
-
-                    {activeTab === 'volumes' && (
-                        <div className="grid grid-cols-1 lg:grid-cols-2 gap-4">
-                            {mockVolumes.map((volume) => (
-                                <div key={volume.name} className="bg-white rounded-lg border border-gray-200 p-4">
-                                    <div className="flex items-center justify-between mb-3">
-                                        <h3 className="font-medium text-gray-900">{volume.name}</h3>
-                                        <span className="text-sm text-gray-500">{volume.size}</span>
-                                    </div>
-                                    <div className="text-sm text-gray-600 space-y-1">
-                                        <div>Driver: {volume.driver}</div>
-                                        <div>Created: {volume.created}</div>
-                                        <div className="text-xs text-gray-500 truncate" title={volume.mountpoint}>
-                                            {volume.mountpoint}
+                        networks.length === 0 ? <EmptyState label="networks" /> : (
+                            <div className="grid grid-cols-1 lg:grid-cols-2 gap-4">
+                                {networks.map((network) => (
+                                    <div key={network.id} className="bg-white rounded-lg border border-gray-200 p-4">
+                                        <div className="flex items-center justify-between mb-3">
+                                            <h3 className="font-medium text-gray-900">{network.name}</h3>
+                                            <span className="text-sm text-gray-500">{network.driver}</span>
+                                        </div>
+                                        <div className="text-sm text-gray-600 space-y-1">
+                                            <div>Scope: {network.scope}</div>
+                                            <div>Containers: {network.containers}</div>
+                                            {network.internal && <div>Internal network</div>}
+                                        </div>
+                                        <div className="flex space-x-2 mt-3">
+                                            <button
+                                                onClick={() => handleInspect('network', network.id)}
+                                                className="flex-1 px-3 py-1 text-xs bg-gray-100 text-gray-700 rounded hover:bg-gray-200 transition-colors"
+                                            >
+                                                Inspect
+                                            </button>
+                                            <button
+                                                onClick={() => handleRemove('network', network.id, network.name)}
+                                                disabled={pendingActions.includes(network.id)}
+                                                className="flex-1 px-3 py-1 text-xs bg-red-100 text-red-700 rounded hover:bg-red-200 transition-colors disabled:opacity-50"
+                                            >
+                                                Remove
+                                            </button>
                                         </div>
                                     </div>
-                                    <div className="flex space-x-2 mt-3">
-                                        <button className="flex-1 px-3 py-1 text-xs bg-gray-100 text-gray-700 rounded hover:bg-gray-200 transition-colors">
-                                            Inspect
-                                        </button>
-                                        <button className="flex-1 px-3 py-1 text-xs bg-red-100 text-red-700 rounded hover:bg-red-200 transition-colors">
-                                            Remove
-                                        </button>
-                                    </div>
-                                </div>
-                            ))}
-                        </div>
+                                ))}
+                            </div>
+                        )
                     )}
-                </div>
-            </div>
 
-            {/* Container Details Modal */}
-            {selectedContainer && (
-                <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
-                    <div className="bg-white rounded-xl shadow-xl w-full max-w-4xl mx-4 max-h-[90vh] overflow-y-auto">
-                        <div className="p-6 border-b border-gray-200">
-                            <div className="flex items-center justify-between">
-                                <div>
-                                    <h3 className="text-lg font-semibold text-gray-900">{selectedContainer.name}</h3>
-                                    <p className="text-sm text-gray-500 mt-1">{selectedContainer.image}</p>
-                                </div>
-                                <button
-                                    onClick={() => setSelectedContainer(null)}
-                                    className="text-gray-400 hover:text-gray-600"
-                                >
-                                    <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                                        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
-                                    </svg>
-                                </button>
-                            </div>
-                        </div>
-                        <div className="p-6">
-                            <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
-                                <div>
-                                    <h4 className="font-medium text-gray-900 mb-3">Container Info</h4>
-                                    <div className="space-y-2 text-sm">
-                                        <div className="flex justify-between">
-                                            <span className="text-gray-500">Status:</span>
-                                            <span className={`px-2 py-1 rounded-full text-xs ${getStatusColor(selectedContainer.status)}`}>
-                                                {selectedContainer.status}
-                                            </span>
-                                        </div>
-                                        <div className="flex justify-between">
-                                            <span className="text-gray-500">State:</span>
-                                            <span>{selectedContainer.state}</span>
-                                        </div>
-                                        <div className="flex justify-between">
-                                            <span className="text-gray-500">Created:</span>
-                                            <span>{new Date(selectedContainer.created).toLocaleDateString()}</span>
-                                        </div>
-                                        <div className="flex justify-between">
-                                            <span className="text-gray-500">Uptime:</span>
-                                            <span>{selectedContainer.uptime}</span>
+                    {activeTab === 'volumes' && (
+                        volumes.length === 0 ? <EmptyState label="volumes" /> : (
+                            <div className="grid grid-cols-1 lg:grid-cols-2 gap-4">
+                                {volumes.map((volume) => (
+                                    <div key={volume.name} className="bg-white rounded-lg border border-gray-200 p-4">
+                                        <div className="flex items-center justify-between mb-3">
+                                            <h3 className="font-medium text-gray-900 truncate">{volume.name}</h3>
+                                            <span className="text-sm text-gray-500">{volume.scope}</span>
                                         </div>
-                                    </div>
-                                </div>
-                                <div>
-                                    <h4 className="font-medium text-gray-900 mb-3">Resource Usage</h4>
-                                    <div className="space-y-3">
-                                        <div>
-                                            <div className="flex justify-between text-sm mb-1">
-                                                <span>CPU</span>
-                                                <span>{selectedContainer.cpu.toFixed(1)}%</span>
-                                            </div>
-                                            <div className="w-full bg-gray-200 rounded-full h-2">
-                                                <div
-                                                    className="bg-blue-500 h-2 rounded-full"
-                                                    style={{ width: `${Math.min(selectedContainer.cpu, 100)}%` }}
-                                                ></div>
+                                        <div className="text-sm text-gray-600 space-y-1">
+                                            <div>Driver: {volume.driver}</div>
+                                            <div>Created: {formatDate(volume.created)}</div>
+                                            <div className="text-xs text-gray-500 truncate" title={volume.mountpoint}>
+                                                {volume.mountpoint}
                                             </div>
                                         </div>
-                                        <div>
-                                            <div className="flex justify-between text-sm mb-1">
-                                                <span>Memory</span>
-                                                <span>{selectedContainer.memory.toFixed(1)}MB</span>
-                                            </div>
-                                            <div className="w-full bg-gray-200 rounded-full h-2">
-                                                <div
-                                                    className="bg-green-500 h-2 rounded-full"
-                                                    style={{ width: `${Math.min(selectedContainer.memory / 5, 100)}%` }}
-                                                ></div>
-                                            </div>
+                                        <div className="flex space-x-2 mt-3">
+                                            <button
+                                                onClick={() => handleInspect('volume', volume.name)}
+                                                className="flex-1 px-3 py-1 text-xs bg-gray-100 text-gray-700 rounded hover:bg-gray-200 transition-colors"
+                                            >
+                                                Inspect
+                                            </button>
+                                            <button
+                                                onClick={() => handleRemove('volume', volume.name, volume.name)}
+                                                disabled={pendingActions.includes(volume.name)}
+                                                className="flex-1 px-3 py-1 text-xs bg-red-100 text-red-700 rounded hover:bg-red-200 transition-colors disabled:opacity-50"
+                                            >
+                                                Remove
+                                            </button>
                                         </div>
                                     </div>
-                                </div>
+                                ))}
                             </div>
-
-                            <div className="mt-6">
-                                <h4 className="font-medium text-gray-900 mb-3">Environment Variables</h4>
-                                <div className="bg-gray-50 rounded-lg p-3 max-h-32 overflow-y-auto">
-                                    {Object.entries(selectedContainer.environment).map(([key, value]) => (
-                                        <div key={key} className="text-sm font-mono">
-                                            <span className="text-blue-600">{key}</span>=<span className="text-gray-700">{value}</span>
-                                        </div>
-                                    ))}
-                                </div>
-                            </div>
-                        </div>
-                    </div>
+                        )
+                    )}
                 </div>
-            )}
+            </div>
 
             {/* Logs Modal */}
-            {showLogsModal && (
+            {logsContainer && (
+                <ContainerLogsModal
+                    endpoint={endpoint}
+                    container={logsContainer}
+                    onClose={() => setLogsContainer(null)}
+                />
+            )}
+
+            {/* Shell Modal */}
+            {shellContainer && (
+                <ContainerShellModal
+                    endpoint={endpoint}
+                    container={shellContainer}
+                    onClose={() => setShellContainer(null)}
+                />
+            )}
+
+            {/* Inspect Modal */}
+            {inspect && (
                 <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
                     <div className="bg-white rounded-xl shadow-xl w-full max-w-4xl mx-4 max-h-[90vh] flex flex-col">
                         <div className="p-6 border-b border-gray-200">
                             <div className="flex items-center justify-between">
-                                <h3 className="text-lg font-semibold text-gray-900">Container Logs</h3>
+                                <div className="min-w-0">
+                                    <h3 className="text-lg font-semibold text-gray-900 capitalize">{inspect.kind} details</h3>
+                                    <p className="text-sm text-gray-500 mt-1 truncate">{inspect.data?.Name || inspect.id}</p>
+                                </div>
                                 <button
-                                    onClick={() => setShowLogsModal(false)}
+                                    onClick={() => dispatch(clearInspect())}
                                     className="text-gray-400 hover:text-gray-600"
                                 >
                                     <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24">
@@ -545,18 +470,9 @@ export default function Docker() {
                             </div>
                         </div>
                         <div className="flex-1 p-6 overflow-hidden">
-                            <div className="bg-gray-900 text-gray-100 rounded-lg p-4 h-full overflow-y-auto font-mono text-sm">
-                                <div className="text-green-400">[2024-08-14 14:15:30] Container started</div>
-                                <div className="text-white">[2024-08-14 14:15:31] Initializing application...</div>
-                                <div className="text-blue-400">[2024-08-14 14:15:32] Loading configuration</div>
-                                <div className="text-white">[2024-08-14 14:15:33] Starting HTTP server on port 3000</div>
-                                <div className="text-green-400">[2024-08-14 14:15:34] ✓ Server ready</div>
-                                <div className="text-white">[2024-08-14 14:16:15] GET /api/health - 200</div>
-                                <div className="text-white">[2024-08-14 14:16:45] GET /api/users - 200</div>
-                                <div className="text-yellow-400">[2024-08-14 14:17:23] Warning: High memory usage detected</div>
-                                <div className="text-white">[2024-08-14 14:18:01] POST /api/auth/login - 200</div>
-                                <div className="text-white animate-pulse">[2024-08-14 14:18:30] GET /api/dashboard - 200</div>
-                            </div>
+                            <pre className="bg-gray-900 text-gray-100 rounded-lg p-4 h-full max-h-[65vh] overflow-auto font-mono text-xs">
+                                {JSON.stringify(inspect.data, null, 2)}
+                            </pre>
                         </div>
                     </div>
                 </div>
@@ -11,6 +11,7 @@ import {
     clearWorkflowJobs
 } from '../store/slices/workflowsSlice';
 import { WorkflowRun, WorkflowJob, WorkflowStep } from '../../shared/types';
+import JobLogViewer from '../components/workflow/JobLogViewer';
 
 export default function Pipelines() {
     const dispatch = useAppDispatch();
@@ -132,6 +133,12 @@ export default function Pipelines() {
         setShowLogsModal(true);
     };
 
+    // Keep the modal header in step with the job state polled by the log viewer
+    const handleJobUpdate = (job: WorkflowJob) => {
+        setSelectedJob(job);
+        setSelectedStep(current => job.steps.find(step => step.number === current?.number) ?? current);
+    };
+
     const getStatusFromWorkflow = (workflow: WorkflowRun): 'success' | 'failed' | 'running' | 'pending' | 'cancelled' => {
         if (workflow.status === 'in_progress' || workflow.status === 'queued') {
             return workflow.status === 'in_progress' ? 'running' : 'pending';
@@ -569,45 +576,18 @@ export default function Pipelines() {
                                 </button>
                             </div>
                         </div>
-                        <div className="flex-1 p-6 overflow-hidden">
-                            <div className="bg-gray-900 text-gray-100 rounded-lg p-4 h-full overflow-y-auto font-mono text-sm">
-                                {getStepStatus(selectedStep) === 'pending' ? (
-                                    <div className="text-gray-400">Step has not started yet...</div>
-                                ) : getStepStatus(selectedStep) === 'running' ? (
-                                    <div>
-                                        <div className="text-green-400">[{selectedStep.started_at}] Starting {selectedStep.name}...</div>
-                                        <div className="text-yellow-400 animate-pulse">Running...</div>
-                                        <div className="text-gray-400 mt-4">
-                                            View detailed logs on GitHub for real-time output.
-                                        </div>
-                                    </div>
-                                ) : (
-                                    <div>
-                                        <div className="text-blue-400">[{selectedStep.started_at}] Started {selectedStep.name}</div>
-                                        {getStepStatus(selectedStep) === 'success' ? (
-                                            <>
-                                                <div className="text-green-400">[{selectedStep.completed_at}] Completed {selectedStep.name} successfully</div>
-                                                <div className="text-gray-400 mt-4">
-                                                    Detailed logs are available on GitHub Actions.
-                                                    <br />
-                                                    Click "View Logs on GitHub" to see full output.
-                                                </div>
-                                            </>
-                                        ) : getStepStatus(selectedStep) === 'failed' ? (
-                                            <>
-                                                <div className="text-red-400">[{selectedStep.completed_at}] {selectedStep.name} failed</div>
-                                                <div className="text-gray-400 mt-4">
-                                                    View detailed error logs on GitHub Actions for troubleshooting.
-                                                    <br />
-                                                    Click "View Logs on GitHub" to see full error output.
-                                                </div>
-                                            </>
-                                        ) : (
-                                            <div className="text-yellow-400">[{selectedStep.completed_at}] - {selectedStep.name} was skipped</div>
-                                        )}
-                                    </div>
-                                )}
-                            </div>
+                        <div className="flex-1 p-6 overflow-hidden min-h-[24rem]">
+                            {selectedWorkflow?.repository ? (
+                                <JobLogViewer
+                                    owner={selectedWorkflow.repository.owner}
+                                    repo={selectedWorkflow.repository.name}
+                                    job={selectedJob}
+                                    stepNumber={selectedStep.number}
+                                    onJobUpdate={handleJobUpdate}
+                                />
+                            ) : (
+                                <div className="text-gray-500 text-sm">Logs are not available for this run.</div>
+                            )}
                         </div>
                         <div className="p-4 border-t border-gray-200 flex justify-end space-x-3">
                             <button
@@ -13,6 +13,7 @@ import {
     clearError
 } from '../store/slices/repositoriesSlice';
 import { GitHubRepository } from '../../shared/types';
+import RepositoryActivityCharts from '../components/repositories/RepositoryActivityCharts';
 
 export default function Repositories() {
     const dispatch = useAppDispatch();
@@ -20,6 +21,7 @@ export default function Repositories() {
         repositories,
         selectedRepository,
         analytics,
+        analyticsLoading,
         loading,
         cloning,
         error,
@@ -50,10 +52,12 @@ export default function Repositories() {
 
     // Load analytics for selected repository
     useEffect(() => {
-        if (selectedRepository && !analytics[selectedRepository.name]) {
-            dispatch(fetchRepositoryAnalytics(selectedRepository.name));
+        if (selectedRepository && !analytics[selectedRepository.full_name] && !analyticsLoading[selectedRepository.full_name]) {
+            dispatch(fetchRepositoryAnalytics({ repoName: selectedRepository.full_name }));
         }
-    }, [selectedRepository, analytics, dispatch]);
+    }, [selectedRepository, analytics, analyticsLoading, dispatch]);
+
+    const selectedAnalytics = selectedRepository ? analytics[selectedRepository.full_name] : undefined;
 
     // Filter and sort repositories
     const filteredRepositories = useMemo(() => {
@@ -439,25 +443,34 @@ export default function Repositories() {
                                     </div>
 
                                     {/* Analytics */}
-                                    {analytics[selectedRepository.name] && (
+                                    {selectedAnalytics && (
                                         <div className="card">
-                                            <h3 className="text-lg font-semibold text-gray-900 mb-4">Repository Analytics</h3>
+                                            <div className="flex items-center justify-between mb-4">
+                                                <h3 className="text-lg font-semibold text-gray-900">Repository Analytics</h3>
+                                                <button
+                                                    onClick={() => dispatch(fetchRepositoryAnalytics({ repoName: selectedRepository.full_name, refresh: true }))}
+                                                    disabled={analyticsLoading[selectedRepository.full_name]}
+                                                    className="text-sm text-primary-600 hover:text-primary-700 disabled:opacity-50"
+                                                >
+                                                    {analyticsLoading[selectedRepository.full_name] ? 'Refreshing...' : 'Refresh'}
+                                                </button>
+                                            </div>
                                             <div className="space-y-3">
                                                 <div className="flex justify-between">
                                                     <span className="text-sm text-gray-500">Total Commits:</span>
-                                                    <span className="text-sm font-medium">{analytics[selectedRepository.name].totalCommits}</span>
+                                                    <span className="text-sm font-medium">{selectedAnalytics.totalCommits}</span>
                                                 </div>
                                                 <div className="flex justify-between">
                                                     <span className="text-sm text-gray-500">Contributors:</span>
-                                                    <span className="text-sm font-medium">{analytics[selectedRepository.name].contributors}</span>
+                                                    <span className="text-sm font-medium">{selectedAnalytics.contributors}</span>
                                                 </div>
                                                 <div className="flex justify-between">
                                                     <span className="text-sm text-gray-500">File Count:</span>
-                                                    <span className="text-sm font-medium">{analytics[selectedRepository.name].fileCount}</span>
+                                                    <span className="text-sm font-medium">{selectedAnalytics.fileCount}{selectedAnalytics.fileCountTruncated ? '+' : ''}</span>
                                                 </div>
                                                 <div className="flex justify-between">
                                                     <span className="text-sm text-gray-500">Repository Size:</span>
-                                                    <span className="text-sm font-medium">{formatFileSize(analytics[selectedRepository.name].size)}</span>
+                                                    <span className="text-sm font-medium">{formatFileSize(selectedAnalytics.size)}</span>
                                                 </div>
                                             </div>
 
@@ -465,7 +478,7 @@ export default function Repositories() {
                                             <div className="mt-4">
                                                 <h4 className="text-sm font-medium text-gray-900 mb-2">Language Breakdown</h4>
                                                 <div className="space-y-2">
-                                                    {Object.entries(analytics[selectedRepository.name].languages).map(([lang, percentage]) => (
+                                                    {Object.entries(selectedAnalytics.languages).map(([lang, percentage]) => (
                                                         <div key={lang} className="flex items-center">
                                                             <span className={`w-3 h-3 rounded-full ${getLanguageColor(lang)} mr-2`}></span>
                                                             <span className="text-xs text-gray-600 flex-1">{lang}</span>
@@ -474,6 +487,10 @@ export default function Repositories() {
                                                     ))}
                                                 </div>
                                             </div>
+
+                                            <div className="mt-6">
+                                                <RepositoryActivityCharts analytics={selectedAnalytics} />
+                                            </div>
                                         </div>
                                     )}
 
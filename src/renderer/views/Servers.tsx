@@ -6,6 +6,7 @@ import {
     connectToServer,
     disconnectFromServer,
     deleteServer,
+    updateServer,
     fetchServerStatsById,
     fetchServerLogs,
     executeServerCommand,
@@ -16,6 +17,7 @@ import {
     serverUpdated,
     serverDeleted,
     serverDeploymentFinished,
+    serverDeploymentProgress,
     // SSH Key Management
     generateSSHKey,
     fetchSSHKeys,
@@ -30,7 +32,42 @@ import {
     deleteDeployKey
 } from '../store/slices/serversSlice';
 import { fetchRepositories } from '../store/slices/repositoriesSlice';
-import { DirectDeploymentRequest, DirectDeploymentResult, ServerStats, VPSServer, SuggestedDeployPath, GitHubDeployKey } from '../../shared/types';
+import {
+    clearGroupDeployment,
+    clearStackDetection,
+    createDeploymentConfig,
+    deployToServerGroup,
+    detectProjectStack,
+    groupDeploymentProgress,
+    updateDeploymentConfig
+} from '../store/slices/deploymentsSlice';
+import DeploymentConfigs from '../components/deployments/DeploymentConfigs';
+import DeploymentConsole from '../components/deployments/DeploymentConsole';
+import DeploymentHistory from '../components/deployments/DeploymentHistory';
+import GroupDeploymentStatus from '../components/deployments/GroupDeploymentStatus';
+import JumpHostsEditor, { isJumpHostListComplete } from '../components/servers/JumpHostsEditor';
+import RemoteFileBrowser from '../components/servers/RemoteFileBrowser';
+import ServerTerminal from '../components/servers/ServerTerminal';
+import {
+    DeployPathHint,
+    DeploymentConfig,
+    DeploymentConfigInput,
+    DeploymentStrategy,
+    DirectDeploymentProgress,
+    DirectDeploymentRequest,
+    DirectDeploymentResult,
+    GroupDeploymentProgress,
+    GroupDeploymentStrategy,
+    HealthCheckConfig,
+    HealthCheckProbe,
+    JumpHost,
+    PermissionConfig,
+    ProjectStackDetection,
+    ServerStats,
+    VPSServer,
+    SuggestedDeployPath,
+    GitHubDeployKey
+} from '../../shared/types';
 
 type EnvVarRow = { id: string; key: string; value: string };
 
@@ -48,17 +85,81 @@ const initialNewServerState = {
     keyInputType: 'content' as 'path' | 'content',
     environment: 'development' as VPSServer['environment'],
     tags: '',
-    authType: 'password' as 'password' | 'key'
+    authType: 'password' as 'password' | 'key' | 'agent',
+    jumpHosts: [] as JumpHost[]
 };
 
 const initialDeployConfig = {
+    name: '',
     repositoryFullName: '',
     branch: '',
     targetPath: '',
     clean: false,
     useGitHubPat: true,
+    installDependencies: false,
+    reuseUnchangedDependencies: true,
+    buildCommand: '',
+    migrateCommand: '',
+    cacheClearCommand: '',
     preDeployScript: '',
-    postDeployScript: ''
+    postDeployScript: '',
+    strategy: 'in-place' as DeploymentStrategy,
+    sharedPaths: '',
+    keepReleases: 5,
+    stepTimeoutMinutes: 30,
+    timeoutMinutes: 120,
+    setPermissions: false,
+    permissionOwner: '',
+    permissionGroup: '',
+    permissionDirMode: '755',
+    permissionFileMode: '644',
+    permissionPaths: '',
+    healthCheckEnabled: false,
+    healthCheckUrl: '',
+    healthCheckStatus: '',
+    healthCheckBody: '',
+    healthCheckCommand: '',
+    healthCheckAttempts: 5,
+    healthCheckDelaySeconds: 5,
+    autoRollback: true,
+    deployTarget: 'server' as 'server' | 'group',
+    groupEnvironment: '' as VPSServer['environment'] | '',
+    groupTag: '',
+    groupStrategy: 'rolling' as GroupDeploymentStrategy,
+    groupBatchSize: 1,
+    groupPauseSeconds: 30,
+    canaryServerId: ''
+};
+
+const splitLines = (value: string): string[] => value
+    .split('\n')
+    .map(line => line.trim())
+    .filter(Boolean);
+
+const permissionFields = (permissions?: PermissionConfig) => ({
+    setPermissions: Boolean(permissions),
+    permissionOwner: permissions?.owner || '',
+    permissionGroup: permissions?.group || '',
+    permissionDirMode: permissions?.dirMode || initialDeployConfig.permissionDirMode,
+    permissionFileMode: permissions?.fileMode || initialDeployConfig.permissionFileMode,
+    permissionPaths: (permissions?.paths || []).join('\n')
+});
+
+const healthCheckFields = (healthCheck?: HealthCheckConfig) => {
+    const httpProbe = healthCheck?.probes.find(probe => probe.type === 'http');
+    const commandProbe = healthCheck?.probes.find(probe => probe.type === 'command');
+    return {
+        healthCheckEnabled: Boolean(healthCheck),
+        healthCheckUrl: httpProbe?.type === 'http' ? httpProbe.url : '',
+        healthCheckStatus: httpProbe?.type === 'http' && httpProbe.expectedStatus ? String(httpProbe.expectedStatus) : '',
+        healthCheckBody: httpProbe?.type === 'http' ? httpProbe.bodyContains || '' : '',
+        healthCheckCommand: commandProbe?.type === 'command' ? commandProbe.command : '',
+        healthCheckAttempts: healthCheck?.attempts ?? initialDeployConfig.healthCheckAttempts,
+        healthCheckDelaySeconds: healthCheck?.initialDelayMs !== undefined
+            ? Math.round(healthCheck.initialDelayMs / 1000)
+            : initialDeployConfig.healthCheckDelaySeconds,
+        autoRollback: healthCheck?.autoRollback ?? true
+    };
 };
 
 const generateRowId = (): string => {
@@ -201,6 +302,9 @@ export default function Servers() {
     const [selectedServerId, setSelectedServerId] = useState<string | null>(null);
     const [searchTerm, setSearchTerm] = useState('');
     const [showAddModal, setShowAddModal] = useState(false);
+    const [editingJumpHosts, setEditingJumpHosts] = useState<JumpHost[] | null>(null);
+    const [jumpHostsError, setJumpHostsError] = useState<string | null>(null);
+    const [hostKeyError, setHostKeyError] = useState<string | null>(null);
     const [showConnectModal, setShowConnectModal] = useState(false);
     const [showDeployModal, setShowDeployModal] = useState(false);
     const [showSSHKeyModal, setShowSSHKeyModal] = useState(false);
@@ -232,6 +336,16 @@ export default function Servers() {
     const [newServer, setNewServer] = useState({ ...initialNewServerState });
     const [deployConfig, setDeployConfig] = useState({ ...initialDeployConfig });
     const [envVars, setEnvVars] = useState<EnvVarRow[]>([]);
+    const [editingConfigId, setEditingConfigId] = useState<string | null>(null);
+    const [isSavingConfig, setIsSavingConfig] = useState(false);
+    const {
+        stackDetection,
+        detectingStack,
+        stackDetectionError,
+        groupDeployment,
+        groupDeploying,
+        groupError
+    } = useAppSelector((state) => state.deployments);
 
     const selectedServer = useMemo(() => servers.find(server => server.id === selectedServerId) ?? null, [servers, selectedServerId]);
     const selectedServerIdentifier = selectedServer?.id;
@@ -241,6 +355,25 @@ export default function Servers() {
     const commandResult = selectedServerIdentifier ? commandOutputs[selectedServerIdentifier] : undefined;
     const deploymentInfo = selectedServerIdentifier ? deployments[selectedServerIdentifier] : undefined;
     const isDeploymentRunning = deploymentInfo?.status === 'running';
+    const serverTags = useMemo(() => Array.from(new Set(servers.flatMap(server => server.tags))).sort(), [servers]);
+    // Mirrors the main process selection so the modal can preview the rollout order
+    const groupServers = useMemo(() => {
+        const tag = deployConfig.groupTag.toLowerCase();
+        if (!deployConfig.groupEnvironment && !tag) {
+            return [];
+        }
+        return servers
+            .filter(server =>
+                (!deployConfig.groupEnvironment || server.environment === deployConfig.groupEnvironment) &&
+                (!tag || server.tags.some(serverTag => serverTag.toLowerCase() === tag))
+            )
+            .sort((a, b) => a.name.localeCompare(b.name));
+    }, [servers, deployConfig.groupEnvironment, deployConfig.groupTag]);
+
+    // Rolling and canary rollouts gate each batch on the health check, so they cannot run without one
+    const groupHealthCheckMissing = deployConfig.groupStrategy !== 'all' &&
+        !(deployConfig.healthCheckEnabled && (deployConfig.healthCheckUrl.trim() || deployConfig.healthCheckCommand.trim()));
+
     const connectionTestResult = selectedServerIdentifier ? connectionTests[selectedServerIdentifier] : undefined;
 
     const filteredServers = useMemo(() => {
@@ -289,6 +422,12 @@ export default function Servers() {
         const deploymentHandler = (result: DirectDeploymentResult) => {
             dispatch(serverDeploymentFinished(result));
         };
+        const deploymentProgressHandler = (progress: DirectDeploymentProgress) => {
+            dispatch(serverDeploymentProgress(progress));
+        };
+        const groupProgressHandler = (progress: GroupDeploymentProgress) => {
+            dispatch(groupDeploymentProgress(progress));
+        };
 
         window.electronAPI.on('servers:status-changed', statusHandler);
         window.electronAPI.on('servers:stats', statsHandler);
@@ -296,6 +435,8 @@ export default function Servers() {
         window.electronAPI.on('servers:updated', updatedHandler);
         window.electronAPI.on('servers:deleted', deletedHandler);
         window.electronAPI.on('servers:deployment-finished', deploymentHandler);
+        window.electronAPI.on('servers:deployment-progress', deploymentProgressHandler);
+        window.electronAPI.on('deploy:group-progress', groupProgressHandler);
 
         return () => {
             window.electronAPI.removeAllListeners('servers:status-changed');
@@ -304,6 +445,8 @@ export default function Servers() {
             window.electronAPI.removeAllListeners('servers:updated');
             window.electronAPI.removeAllListeners('servers:deleted');
             window.electronAPI.removeAllListeners('servers:deployment-finished');
+            window.electronAPI.removeAllListeners('servers:deployment-progress');
+            window.electronAPI.removeAllListeners('deploy:group-progress');
         };
     }, [dispatch]);
 
@@ -347,6 +490,9 @@ export default function Servers() {
         } else {
             setDeployConfig({ ...initialDeployConfig });
             setEnvVars([]);
+            setEditingConfigId(null);
+            setDetectedPaths([]);
+            dispatch(clearStackDetection());
         }
     }, [showDeployModal, envVars.length, repositoriesState.repositories.length, repositoriesState.loading, dispatch]);
 
@@ -389,9 +535,11 @@ export default function Servers() {
             password: newServer.authType === 'password' && trimmedPassword ? trimmedPassword : undefined,
             privateKeyPath: newServer.authType === 'key' && newServer.keyInputType === 'path' && trimmedPrivateKeyPath ? trimmedPrivateKeyPath : undefined,
             privateKey: newServer.authType === 'key' && newServer.keyInputType === 'content' && trimmedPrivateKey ? trimmedPrivateKey : undefined,
+            useAgent: newServer.authType === 'agent' || undefined,
             environment: newServer.environment,
             os: 'Unknown',
-            tags: newServer.tags.split(',').map(tag => tag.trim()).filter(tag => tag.length > 0)
+            tags: newServer.tags.split(',').map(tag => tag.trim()).filter(tag => tag.length > 0),
+            jumpHosts: newServer.jumpHosts.length > 0 ? newServer.jumpHosts : undefined
         };
 
         const resultAction = await dispatch(addServer(serverData));
@@ -402,6 +550,45 @@ export default function Servers() {
         }
     };
 
+    const handleSaveJumpHosts = async () => {
+        if (!selectedServerIdentifier || !editingJumpHosts) {
+            return;
+        }
+        setJumpHostsError(null);
+        const resultAction = await dispatch(updateServer({ serverId: selectedServerIdentifier, updates: { jumpHosts: editingJumpHosts } }));
+        if (updateServer.fulfilled.match(resultAction)) {
+            setEditingJumpHosts(null);
+        } else {
+            setJumpHostsError(resultAction.payload as string || 'Failed to save jump hosts');
+        }
+    };
+
+    const handleImportHostKey = async () => {
+        if (!selectedServerIdentifier) {
+            return;
+        }
+        setHostKeyError(null);
+        const response = await window.electronAPI.servers.importKnownHostKey(selectedServerIdentifier);
+        if (!response.success) {
+            setHostKeyError(response.error || 'Failed to import host key');
+        }
+    };
+
+    const handleForgetHostKey = async () => {
+        if (!selectedServerIdentifier || !window.confirm('Forget the pinned host key? The next connection will ask you to trust the key the server presents.')) {
+            return;
+        }
+        setHostKeyError(null);
+        const response = await window.electronAPI.servers.forgetHostKey(selectedServerIdentifier);
+        if (!response.success) {
+            setHostKeyError(response.error || 'Failed to forget host key');
+        }
+    };
+
+    const describeJumpHost = (hop: JumpHost) => hop.type === 'server'
+        ? servers.find(server => server.id === hop.serverId)?.name ?? 'Missing server'
+        : `${hop.username}@${hop.host}${hop.port !== 22 ? `:${hop.port}` : ''}`;
+
     const handleConnectServer = async () => {
         if (!selectedServerIdentifier) {
             return;
@@ -461,17 +648,17 @@ export default function Servers() {
         setEnvVars((prev) => prev.filter(row => row.id !== id));
     };
 
-    const handleDirectDeploy = async () => {
+    const buildDeploymentRequest = (): DirectDeploymentRequest | null => {
         if (!selectedServerIdentifier) {
-            return;
+            return null;
         }
         const repository = repositoriesState.repositories.find(repo => repo.full_name === deployConfig.repositoryFullName);
         if (!repository) {
-            return;
+            return null;
         }
         const targetPath = deployConfig.targetPath.trim();
         if (!targetPath) {
-            return;
+            return null;
         }
 
         const environmentVariables = envVars.reduce<Record<string, string>>((acc, row) => {
@@ -481,7 +668,42 @@ export default function Servers() {
             return acc;
         }, {});
 
-        const payload: DirectDeploymentRequest = {
+        const isReleases = deployConfig.strategy === 'releases';
+        const sharedPaths = splitLines(deployConfig.sharedPaths);
+        const permissionPaths = splitLines(deployConfig.permissionPaths);
+        const permissions: PermissionConfig | undefined = deployConfig.setPermissions
+            ? {
+                owner: deployConfig.permissionOwner.trim() || undefined,
+                group: deployConfig.permissionGroup.trim() || undefined,
+                dirMode: deployConfig.permissionDirMode.trim() || undefined,
+                fileMode: deployConfig.permissionFileMode.trim() || undefined,
+                recursive: true,
+                paths: permissionPaths.length ? permissionPaths : undefined
+            }
+            : undefined;
+
+        const probes: HealthCheckProbe[] = [];
+        if (deployConfig.healthCheckUrl.trim()) {
+            probes.push({
+                type: 'http',
+                url: deployConfig.healthCheckUrl.trim(),
+                expectedStatus: parseInt(deployConfig.healthCheckStatus, 10) || undefined,
+                bodyContains: deployConfig.healthCheckBody || undefined
+            });
+        }
+        if (deployConfig.healthCheckCommand.trim()) {
+            probes.push({ type: 'command', command: deployConfig.healthCheckCommand });
+        }
+        const healthCheck: HealthCheckConfig | undefined = deployConfig.healthCheckEnabled && probes.length
+            ? {
+                probes,
+                attempts: deployConfig.healthCheckAttempts,
+                initialDelayMs: deployConfig.healthCheckDelaySeconds * 1000,
+                autoRollback: deployConfig.autoRollback
+            }
+            : undefined;
+
+        return {
             serverId: selectedServerIdentifier,
             repository: {
                 name: repository.name,
@@ -491,12 +713,48 @@ export default function Servers() {
             },
             branch: deployConfig.branch || repository.default_branch,
             targetPath,
-            clean: deployConfig.clean,
+            clean: !isReleases && deployConfig.clean,
             useGitHubPat: deployConfig.useGitHubPat,
+            strategy: deployConfig.strategy,
+            sharedPaths: isReleases && sharedPaths.length ? sharedPaths : undefined,
+            keepReleases: isReleases ? deployConfig.keepReleases : undefined,
+            installDependencies: deployConfig.installDependencies,
+            reuseUnchangedDependencies: deployConfig.reuseUnchangedDependencies,
+            buildCommand: deployConfig.buildCommand.trim() ? deployConfig.buildCommand : undefined,
+            migrateCommand: deployConfig.migrateCommand.trim() ? deployConfig.migrateCommand : undefined,
+            cacheClearCommand: deployConfig.cacheClearCommand.trim() ? deployConfig.cacheClearCommand : undefined,
             preDeployScript: deployConfig.preDeployScript.trim() ? deployConfig.preDeployScript : undefined,
             postDeployScript: deployConfig.postDeployScript.trim() ? deployConfig.postDeployScript : undefined,
-            environmentVariables: Object.keys(environmentVariables).length ? environmentVariables : undefined
+            environmentVariables: Object.keys(environmentVariables).length ? environmentVariables : undefined,
+            permissions,
+            healthCheck,
+            stepTimeoutMs: deployConfig.stepTimeoutMinutes * 60000,
+            timeoutMs: deployConfig.timeoutMinutes * 60000
         };
+    };
+
+    const handleDirectDeploy = async () => {
+        const payload = buildDeploymentRequest();
+        if (!payload) {
+            return;
+        }
+
+        if (deployConfig.deployTarget === 'group') {
+            const { serverId: _serverId, commitSha: _commitSha, rollbackOf: _rollbackOf, existingRelease: _release, groupId: _groupId, ...deployment } = payload;
+            // The modal stays open so the rollout can be followed batch by batch
+            await dispatch(deployToServerGroup({
+                group: {
+                    environment: deployConfig.groupEnvironment || undefined,
+                    tag: deployConfig.groupTag || undefined
+                },
+                strategy: deployConfig.groupStrategy,
+                batchSize: deployConfig.groupStrategy === 'all' ? undefined : deployConfig.groupBatchSize,
+                pauseMs: deployConfig.groupPauseSeconds * 1000,
+                canaryServerId: deployConfig.groupStrategy === 'canary' && deployConfig.canaryServerId ? deployConfig.canaryServerId : undefined,
+                deployment
+            }));
+            return;
+        }
 
         const result = await dispatch(directDeployToServer(payload));
         if (directDeployToServer.fulfilled.match(result)) {
@@ -504,6 +762,80 @@ export default function Servers() {
         }
     };
 
+    const handleSaveDeployConfig = async () => {
+        const request = buildDeploymentRequest();
+        const repository = repositoriesState.repositories.find(repo => repo.full_name === deployConfig.repositoryFullName);
+        if (!request || !repository || !deployConfig.name.trim()) {
+            return;
+        }
+
+        const config: DeploymentConfigInput = {
+            name: deployConfig.name.trim(),
+            repositoryId: repository.id,
+            repository: request.repository,
+            serverId: request.serverId,
+            branch: request.branch,
+            deployPath: request.targetPath,
+            installDependencies: request.installDependencies,
+            reuseUnchangedDependencies: request.reuseUnchangedDependencies,
+            buildCommand: request.buildCommand,
+            migrateCommand: request.migrateCommand,
+            cacheClearCommand: request.cacheClearCommand,
+            preDeployScript: request.preDeployScript,
+            postDeployScript: request.postDeployScript,
+            envVars: request.environmentVariables || {},
+            useGitHubPat: request.useGitHubPat,
+            strategy: request.strategy,
+            sharedPaths: request.sharedPaths,
+            keepReleases: request.keepReleases,
+            permissions: request.permissions,
+            healthCheck: request.healthCheck,
+            stepTimeoutMs: request.stepTimeoutMs,
+            timeoutMs: request.timeoutMs,
+            isActive: true
+        };
+
+        setIsSavingConfig(true);
+        try {
+            const result = editingConfigId
+                ? await dispatch(updateDeploymentConfig({ id: editingConfigId, updates: config }))
+                : await dispatch(createDeploymentConfig(config));
+            if (createDeploymentConfig.fulfilled.match(result) || updateDeploymentConfig.fulfilled.match(result)) {
+                setShowDeployModal(false);
+            }
+        } finally {
+            setIsSavingConfig(false);
+        }
+    };
+
+    const handleEditDeployConfig = (config: DeploymentConfig) => {
+        setDeployConfig({
+            ...initialDeployConfig,
+            name: config.name,
+            repositoryFullName: config.repository.fullName,
+            branch: config.branch,
+            targetPath: config.deployPath,
+            useGitHubPat: config.useGitHubPat ?? true,
+            installDependencies: config.installDependencies ?? false,
+            reuseUnchangedDependencies: config.reuseUnchangedDependencies ?? true,
+            buildCommand: config.buildCommand || '',
+            migrateCommand: config.migrateCommand || '',
+            cacheClearCommand: config.cacheClearCommand || '',
+            preDeployScript: config.preDeployScript || '',
+            postDeployScript: config.postDeployScript || '',
+            strategy: config.strategy || 'in-place',
+            sharedPaths: (config.sharedPaths || []).join('\n'),
+            keepReleases: config.keepReleases || initialDeployConfig.keepReleases,
+            stepTimeoutMinutes: config.stepTimeoutMs ? Math.round(config.stepTimeoutMs / 60000) : initialDeployConfig.stepTimeoutMinutes,
+            timeoutMinutes: config.timeoutMs ? Math.round(config.timeoutMs / 60000) : initialDeployConfig.timeoutMinutes,
+            ...permissionFields(config.permissions),
+            ...healthCheckFields(config.healthCheck)
+        });
+        setEnvVars(Object.entries(config.envVars).map(([key, value]) => ({ id: generateRowId(), key, value })));
+        setEditingConfigId(config.id);
+        setShowDeployModal(true);
+    };
+
     // SSH Key Management handlers
     const handleGenerateSSHKey = async () => {
         if (!newKeyName.trim()) {
@@ -550,13 +882,13 @@ export default function Servers() {
         }
     };
 
-    const handleDetectDeployPaths = async () => {
+    const handleDetectDeployPaths = async (hint?: DeployPathHint) => {
         if (!selectedServerIdentifier) {
             return;
         }
         setIsDetectingPaths(true);
         try {
-            const result = await dispatch(detectDeployPaths(selectedServerIdentifier));
+            const result = await dispatch(detectDeployPaths({ serverId: selectedServerIdentifier, hint }));
             if (detectDeployPaths.fulfilled.match(result)) {
                 setDetectedPaths(result.payload.paths);
             }
@@ -565,6 +897,53 @@ export default function Servers() {
         }
     };
 
+    const handleDetectStack = () => {
+        const repository = repositoriesState.repositories.find(repo => repo.full_name === deployConfig.repositoryFullName);
+        if (!repository) {
+            return;
+        }
+        dispatch(detectProjectStack({
+            source: 'github',
+            repository: repository.full_name,
+            ref: deployConfig.branch.trim() || repository.default_branch
+        }));
+    };
+
+    const handleDetectStackOnServer = () => {
+        const targetPath = deployConfig.targetPath.trim();
+        if (!selectedServerIdentifier || !targetPath) {
+            return;
+        }
+        // Releases deployments keep the live tree behind the current symlink
+        const path = deployConfig.strategy === 'releases' ? `${targetPath.replace(/\/+$/, '')}/current` : targetPath;
+        dispatch(detectProjectStack({ source: 'server', serverId: selectedServerIdentifier, path }));
+    };
+
+    const handleApplyStackPreset = (detection: ProjectStackDetection) => {
+        const { preset } = detection;
+        const repository = repositoriesState.repositories.find(repo => repo.full_name === deployConfig.repositoryFullName);
+        setDeployConfig(prev => ({
+            ...prev,
+            strategy: preset.strategy ?? prev.strategy,
+            sharedPaths: preset.sharedPaths ? preset.sharedPaths.join('\n') : prev.sharedPaths,
+            installDependencies: preset.installDependencies ?? prev.installDependencies,
+            buildCommand: preset.buildCommand ?? prev.buildCommand,
+            migrateCommand: preset.migrateCommand ?? prev.migrateCommand,
+            cacheClearCommand: preset.cacheClearCommand ?? prev.cacheClearCommand,
+            preDeployScript: preset.preDeployScript ?? prev.preDeployScript,
+            postDeployScript: preset.postDeployScript ?? prev.postDeployScript,
+            ...(preset.permissions ? permissionFields(preset.permissions) : {})
+        }));
+        if (selectedServerStatus === 'connected') {
+            handleDetectDeployPaths({
+                stack: detection.stack,
+                projectName: repository?.name,
+                webRoot: preset.webRoot,
+                strategy: preset.strategy ?? deployConfig.strategy
+            });
+        }
+    };
+
     const handleSelectDetectedPath = (path: SuggestedDeployPath) => {
         setDeployConfig(prev => ({
             ...prev,
@@ -627,9 +1006,11 @@ export default function Servers() {
         newServer.name.trim() &&
         newServer.hostname.trim() &&
         newServer.username.trim() &&
-        (newServer.authType === 'password' 
-            ? newServer.password?.trim() 
-            : (newServer.keyInputType === 'path' ? newServer.privateKeyPath?.trim() : newServer.privateKey?.trim()))
+        (newServer.authType === 'agent' ||
+            (newServer.authType === 'password'
+                ? newServer.password?.trim()
+                : (newServer.keyInputType === 'path' ? newServer.privateKeyPath?.trim() : newServer.privateKey?.trim()))) &&
+        isJumpHostListComplete(newServer.jumpHosts)
     );
 
     return (
@@ -854,6 +1235,49 @@ export default function Servers() {
                                                 <span className="text-gray-500">Last Connected</span>
                                                 <span className="font-medium text-gray-900">{formatDateTime(selectedServer.lastConnected)}</span>
                                             </div>
+                                            <div className="flex justify-between items-start">
+                                                <span className="text-gray-500">Jump Hosts</span>
+                                                <span className="text-right">
+                                                    <span className="block font-medium text-gray-900">
+                                                        {selectedServer.jumpHosts && selectedServer.jumpHosts.length > 0
+                                                            ? selectedServer.jumpHosts.map(describeJumpHost).join(' → ')
+                                                            : 'Direct'}
+                                                    </span>
+                                                    <button
+                                                        onClick={() => {
+                                                            setJumpHostsError(null);
+                                                            setEditingJumpHosts(selectedServer.jumpHosts ?? []);
+                                                        }}
+                                                        className="text-xs text-primary-600 hover:text-primary-700"
+                                                    >
+                                                        Edit
+                                                    </button>
+                                                </span>
+                                            </div>
+                                            <div className="flex justify-between items-start">
+                                                <span className="text-gray-500">Host Key</span>
+                                                <span className="text-right min-w-0 ml-4">
+                                                    {selectedServer.hostKey ? (
+                                                        <>
+                                                            <span className="block font-mono text-xs text-gray-900 break-all">{selectedServer.hostKey.fingerprint}</span>
+                                                            <span className="block text-xs text-gray-500">
+                                                                {selectedServer.hostKey.keyType}, {selectedServer.hostKey.source === 'known_hosts' ? 'from known_hosts' : 'trusted'} {formatDateTime(selectedServer.hostKey.trustedAt)}
+                                                            </span>
+                                                            <button onClick={handleForgetHostKey} className="text-xs text-red-600 hover:text-red-700">
+                                                                Forget
+                                                            </button>
+                                                        </>
+                                                    ) : (
+                                                        <>
+                                                            <span className="block font-medium text-gray-900">Not pinned yet</span>
+                                                            <button onClick={handleImportHostKey} className="text-xs text-primary-600 hover:text-primary-700">
+                                                                Import from known_hosts
+                                                            </button>
+                                                        </>
+                                                    )}
+                                                    {hostKeyError && <span className="block text-xs text-red-600">{hostKeyError}</span>}
+                                                </span>
+                                            </div>
                                         </div>
                                     </div>
 
@@ -996,9 +1420,9 @@ export default function Servers() {
                                                 Configure
                                             </button>
                                         </div>
-                                        {isDeploymentRunning && (
-                                            <div className="mb-3 rounded-md border border-blue-200 bg-blue-50 p-3 text-sm text-blue-700">
-                                                Deployment in progress...
+                                        {isDeploymentRunning && !showDeployModal && (
+                                            <div className="mb-3">
+                                                <DeploymentConsole serverId={selectedServer.id} />
                                             </div>
                                         )}
                                         {deploymentInfo?.status === 'failed' && deploymentInfo.error && (
@@ -1029,7 +1453,7 @@ export default function Servers() {
                                                         <div className="flex items-center justify-between">
                                                             <span className="font-medium text-gray-900">{step.name}</span>
                                                             <span className={`text-xs font-semibold ${step.success ? 'text-green-600' : 'text-red-600'}`}>
-                                                                {step.success ? 'Success' : 'Failed'}
+                                                                {step.success ? 'Success' : step.timedOut ? 'Timed out' : step.cancelled ? 'Cancelled' : 'Failed'}
                                                             </span>
                                                         </div>
                                                         <p className="mt-1 text-xs text-gray-500 break-all">
@@ -1049,6 +1473,31 @@ export default function Servers() {
                                         </div>
                                     </div>
 
+                                    <DeploymentConfigs
+                                        serverId={selectedServer.id}
+                                        disabled={isDeploymentRunning}
+                                        onEdit={handleEditDeployConfig}
+                                    />
+
+                                    {groupDeployment && !showDeployModal && (
+                                        <div className="card space-y-3">
+                                            <div className="flex items-center justify-between">
+                                                <h3 className="text-lg font-semibold text-gray-900">Group Deployment</h3>
+                                                {groupDeployment.status !== 'running' && (
+                                                    <button
+                                                        onClick={() => dispatch(clearGroupDeployment())}
+                                                        className="px-3 py-1 text-sm bg-gray-100 text-gray-700 rounded-lg hover:bg-gray-200 transition-colors"
+                                                    >
+                                                        Dismiss
+                                                    </button>
+                                                )}
+                                            </div>
+                                            <GroupDeploymentStatus />
+                                        </div>
+                                    )}
+
+                                    <DeploymentHistory serverId={selectedServer.id} />
+
                                     <div className="card">
                                         <h3 className="text-lg font-semibold text-gray-900 mb-4">Run Command</h3>
                                         <div className="space-y-3">
@@ -1094,6 +1543,10 @@ export default function Servers() {
                                         </div>
                                     </div>
 
+                                    <ServerTerminal key={selectedServer.id} server={selectedServer} />
+
+                                    <RemoteFileBrowser server={selectedServer} />
+
                                     <div className="card">
                                         <div className="flex items-center justify-between mb-4">
                                             <h3 className="text-lg font-semibold text-gray-900">Recent Logs</h3>
@@ -1234,9 +1687,21 @@ export default function Servers() {
                                         />
                                         <span>Private Key</span>
                                     </label>
+                                    <label className="inline-flex items-center space-x-2 text-sm text-gray-700">
+                                        <input
+                                            type="radio"
+                                            checked={newServer.authType === 'agent'}
+                                            onChange={() => setNewServer({ ...newServer, authType: 'agent' })}
+                                        />
+                                        <span>SSH Agent</span>
+                                    </label>
                                 </div>
                             </div>
-                            {newServer.authType === 'password' ? (
+                            {newServer.authType === 'agent' ? (
+                                <p className="text-xs text-gray-500">
+                                    Keys loaded in the system SSH agent (SSH_AUTH_SOCK) are offered when connecting. Nothing is stored in the app.
+                                </p>
+                            ) : newServer.authType === 'password' ? (
                                 <div>
                                     <label className="block text-sm font-medium text-gray-700 mb-1">SSH Password</label>
                                     <input
@@ -1303,6 +1768,14 @@ export default function Servers() {
                                     className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-primary-500 focus:border-transparent"
                                 />
                             </div>
+                            <div>
+                                <label className="block text-sm font-medium text-gray-700 mb-1">Jump Hosts</label>
+                                <JumpHostsEditor
+                                    value={newServer.jumpHosts}
+                                    onChange={(jumpHosts) => setNewServer({ ...newServer, jumpHosts })}
+                                    servers={servers}
+                                />
+                            </div>
                         </div>
                         <div className="p-6 border-t border-gray-200 flex justify-end space-x-3">
                             <button
@@ -1326,6 +1799,42 @@ export default function Servers() {
                 </div>
             )}
 
+            {editingJumpHosts && selectedServer && (
+                <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+                    <div className="bg-white rounded-xl shadow-xl w-full max-w-lg mx-4 max-h-[90vh] overflow-y-auto">
+                        <div className="p-6 border-b border-gray-200">
+                            <h3 className="text-lg font-semibold text-gray-900">Jump Hosts</h3>
+                            <p className="text-sm text-gray-500 mt-1">
+                                {selectedServer.name} is reached through these hosts in order. Reconnect for changes to take effect.
+                            </p>
+                        </div>
+                        <div className="p-6 space-y-3">
+                            <JumpHostsEditor
+                                value={editingJumpHosts}
+                                onChange={setEditingJumpHosts}
+                                servers={servers.filter(server => server.id !== selectedServer.id)}
+                            />
+                            {jumpHostsError && <p className="text-sm text-red-600">{jumpHostsError}</p>}
+                        </div>
+                        <div className="p-6 border-t border-gray-200 flex justify-end space-x-3">
+                            <button
+                                onClick={() => setEditingJumpHosts(null)}
+                                className="px-4 py-2 text-gray-700 border border-gray-300 rounded-lg hover:bg-gray-50 transition-colors"
+                            >
+                                Cancel
+                            </button>
+                            <button
+                                onClick={handleSaveJumpHosts}
+                                disabled={!isJumpHostListComplete(editingJumpHosts)}
+                                className="px-4 py-2 bg-primary-600 text-white rounded-lg hover:bg-primary-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+                            >
+                                Save
+                            </button>
+                        </div>
+                    </div>
+                </div>
+            )}
+
             {showConnectModal && selectedServer && (
                 <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
                     <div className="bg-white rounded-xl shadow-xl w-full max-w-lg mx-4">
@@ -1389,7 +1898,9 @@ export default function Servers() {
                     <div className="bg-white rounded-xl shadow-xl w-full max-w-3xl mx-4">
                         <div className="p-6 border-b border-gray-200 flex items-center justify-between">
                             <div>
-                                <h3 className="text-lg font-semibold text-gray-900">Direct Deploy to {selectedServer.name}</h3>
+                                <h3 className="text-lg font-semibold text-gray-900">
+                                    {editingConfigId ? `Edit Deployment "${deployConfig.name}"` : `Direct Deploy to ${selectedServer.name}`}
+                                </h3>
                                 <p className="text-sm text-gray-500 mt-1">Clone and update a repository directly on the server.</p>
                             </div>
                             <button onClick={() => setShowDeployModal(false)} className="text-gray-500 hover:text-gray-700">
@@ -1399,7 +1910,150 @@ export default function Servers() {
                         </div>
                         <div className="p-6 space-y-5 max-h-[70vh] overflow-y-auto">
                             <div>
-                                <label className="block text-sm font-medium text-gray-700 mb-1">Repository</label>
+                                <label className="block text-sm font-medium text-gray-700 mb-1">Configuration Name</label>
+                                <input
+                                    type="text"
+                                    value={deployConfig.name}
+                                    onChange={(e) => setDeployConfig({ ...deployConfig, name: e.target.value })}
+                                    placeholder="Production web (only needed to save this deployment)"
+                                    className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-primary-500 focus:border-transparent"
+                                />
+                            </div>
+                            {!editingConfigId && (
+                                <div className="space-y-3">
+                                    <div>
+                                        <label className="block text-sm font-medium text-gray-700 mb-1">Deploy to</label>
+                                        <select
+                                            value={deployConfig.deployTarget}
+                                            onChange={(e) => setDeployConfig({ ...deployConfig, deployTarget: e.target.value as 'server' | 'group' })}
+                                            className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-primary-500 focus:border-transparent"
+                                        >
+                                            <option value="server">{selectedServer.name} only</option>
+                                            <option value="group">A group of servers</option>
+                                        </select>
+                                    </div>
+                                    {deployConfig.deployTarget === 'group' && (
+                                        <>
+                                            <div className="grid grid-cols-2 gap-4">
+                                                <div>
+                                                    <label className="block text-sm font-medium text-gray-700 mb-1">Environment</label>
+                                                    <select
+                                                        value={deployConfig.groupEnvironment}
+                                                        onChange={(e) => setDeployConfig({ ...deployConfig, groupEnvironment: e.target.value as VPSServer['environment'] | '' })}
+                                                        className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-primary-500 focus:border-transparent"
+                                                    >
+                                                        <option value="">Any environment</option>
+                                                        <option value="development">Development</option>
+                                                        <option value="staging">Staging</option>
+                                                        <option value="production">Production</option>
+                                                    </select>
+                                                </div>
+                                                <div>
+                                                    <label className="block text-sm font-medium text-gray-700 mb-1">Tag</label>
+                                                    <select
+                                                        value={deployConfig.groupTag}
+                                                        onChange={(e) => setDeployConfig({ ...deployConfig, groupTag: e.target.value })}
+                                                        className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-primary-500 focus:border-transparent"
+                                                    >
+                                                        <option value="">Any tag</option>
+                                                        {serverTags.map(tag => (
+                                                            <option key={tag} value={tag}>{tag}</option>
+                                                        ))}
+                                                    </select>
+                                                </div>
+                                            </div>
+                                            <div className="grid grid-cols-3 gap-4">
+                                                <div>
+                                                    <label className="block text-sm font-medium text-gray-700 mb-1">Rollout</label>
+                                                    <select
+                                                        value={deployConfig.groupStrategy}
+                                                        onChange={(e) => setDeployConfig({ ...deployConfig, groupStrategy: e.target.value as GroupDeploymentStrategy })}
+                                                        className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-primary-500 focus:border-transparent"
+                                                    >
+                                                        <option value="all">All at once</option>
+                                                        <option value="rolling">Rolling batches</option>
+                                                        <option value="canary">Canary first</option>
+                                                    </select>
+                                                </div>
+                                                {deployConfig.groupStrategy !== 'all' && (
+                                                    <div>
+                                                        <label className="block text-sm font-medium text-gray-700 mb-1">
+                                                            {deployConfig.groupStrategy === 'canary' ? 'Batch size after canary' : 'Batch size'}
+                                                        </label>
+                                                        <input
+                                                            type="number"
+                                                            min={1}
+                                                            value={deployConfig.groupBatchSize}
+                                                            onChange={(e) => setDeployConfig({ ...deployConfig, groupBatchSize: Math.max(1, parseInt(e.target.value, 10) || 1) })}
+                                                            className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-primary-500 focus:border-transparent"
+                                                        />
+                                                    </div>
+                                                )}
+                                                {deployConfig.groupStrategy !== 'all' && (
+                                                    <div>
+                                                        <label className="block text-sm font-medium text-gray-700 mb-1">Pause between batches (s)</label>
+                                                        <input
+                                                            type="number"
+                                                            min={0}
+                                                            value={deployConfig.groupPauseSeconds}
+                                                            onChange={(e) => setDeployConfig({ ...deployConfig, groupPauseSeconds: Math.max(0, parseInt(e.target.value, 10) || 0) })}
+                                                            className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-primary-500 focus:border-transparent"
+                                                        />
+                                                    </div>
+                                                )}
+                                            </div>
+                                            {deployConfig.groupStrategy === 'canary' && (
+                                                <div>
+                                                    <label className="block text-sm font-medium text-gray-700 mb-1">Canary server</label>
+                                                    <select
+                                                        value={deployConfig.canaryServerId}
+                                                        onChange={(e) => setDeployConfig({ ...deployConfig, canaryServerId: e.target.value })}
+                                                        className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-primary-500 focus:border-transparent"
+                                                    >
+                                                        <option value="">First server in the group</option>
+                                                        {groupServers.map(server => (
+                                                            <option key={server.id} value={server.id}>{server.name}</option>
+                                                        ))}
+                                                    </select>
+                                                </div>
+                                            )}
+                                            <p className="text-xs text-gray-500">
+                                                {groupServers.length === 0
+                                                    ? 'Choose an environment or tag to select servers.'
+                                                    : `${groupServers.length} server${groupServers.length === 1 ? '' : 's'}: ${groupServers.map(server => server.name).join(', ')}.`}
+                                                {' '}The rollout stops at the first failed server.
+                                            </p>
+                                            {groupHealthCheckMissing && (
+                                                <p className="text-xs text-yellow-700">
+                                                    Rolling and canary rollouts need a health check below to gate each batch on it.
+                                                </p>
+                                            )}
+                                        </>
+                                    )}
+                                </div>
+                            )}
+                            <div>
+                                <div className="flex items-center justify-between mb-1">
+                                    <label className="block text-sm font-medium text-gray-700">Repository</label>
+                                    <div className="flex items-center space-x-3">
+                                        <button
+                                            type="button"
+                                            onClick={handleDetectStack}
+                                            disabled={detectingStack || !deployConfig.repositoryFullName}
+                                            className="text-xs text-primary-600 hover:text-primary-700 disabled:text-gray-400 disabled:cursor-not-allowed"
+                                        >
+                                            {detectingStack ? 'Detecting...' : 'Detect stack'}
+                                        </button>
+                                        <button
+                                            type="button"
+                                            onClick={handleDetectStackOnServer}
+                                            disabled={detectingStack || !deployConfig.targetPath.trim() || selectedServerStatus !== 'connected'}
+                                            className="text-xs text-primary-600 hover:text-primary-700 disabled:text-gray-400 disabled:cursor-not-allowed"
+                                        >
+                                            Detect from server
+                                        </button>
+                                    </div>
+                                </div>
                                 <select
                                     value={deployConfig.repositoryFullName}
                                     onChange={(e) => setDeployConfig({ ...deployConfig, repositoryFullName: e.target.value })}
@@ -1415,6 +2069,42 @@ export default function Servers() {
                                 {repositoriesState.loading && (
                                     <p className="mt-1 text-xs text-gray-500">Loading repositories...</p>
                                 )}
+                                {stackDetectionError && (
+                                    <p className="mt-2 text-xs text-red-600">Stack detection failed: {stackDetectionError}</p>
+                                )}
+                                {stackDetection && (
+                                    <div className="mt-2 rounded-md border border-blue-200 bg-blue-50 p-3 text-xs text-blue-800 flex items-start justify-between">
+                                        <div className="space-y-1">
+                                            <p>
+                                                <span className="font-semibold">
+                                                    {stackDetection.stack === 'unknown' ? 'No known stack detected' : `Detected ${stackDetection.framework || stackDetection.stack}`}
+                                                </span>
+                                                {stackDetection.source === 'server' && ' on the server'}
+                                                {stackDetection.evidence.length > 0 && (
+                                                    <span> from <span className="font-mono">{stackDetection.evidence.join(', ')}</span></span>
+                                                )}
+                                            </p>
+                                            {stackDetection.hasDockerfile && stackDetection.stack !== 'docker' && (
+                                                <p>A Dockerfile is also present.</p>
+                                            )}
+                                            {stackDetection.preset.webRoot && (
+                                                <p>
+                                                    Point the web server at <span className="font-mono">{stackDetection.preset.webRoot}/</span> inside the deployment
+                                                    {stackDetection.preset.strategy === 'releases' ? ' (under current)' : ''}.
+                                                </p>
+                                            )}
+                                        </div>
+                                        {stackDetection.stack !== 'unknown' && (
+                                            <button
+                                                type="button"
+                                                onClick={() => handleApplyStackPreset(stackDetection)}
+                                                className="ml-3 flex-shrink-0 px-3 py-1 bg-blue-600 text-white rounded hover:bg-blue-700 transition-colors"
+                                            >
+                                                Apply preset
+                                            </button>
+                                        )}
+                                    </div>
+                                )}
                             </div>
                             <div className="grid grid-cols-2 gap-4">
                                 <div>
@@ -1432,7 +2122,7 @@ export default function Servers() {
                                         <label className="block text-sm font-medium text-gray-700">Deployment Path</label>
                                         <button
                                             type="button"
-                                            onClick={handleDetectDeployPaths}
+                                            onClick={() => handleDetectDeployPaths()}
                                             disabled={isDetectingPaths || selectedServerStatus !== 'connected'}
                                             className="text-xs text-primary-600 hover:text-primary-700 disabled:text-gray-400 disabled:cursor-not-allowed"
                                         >
@@ -1465,15 +2155,80 @@ export default function Servers() {
                                     )}
                                 </div>
                             </div>
-                            <div className="flex items-center space-x-6">
-                                <label className="inline-flex items-center space-x-2 text-sm text-gray-700">
+                            <div className="grid grid-cols-2 gap-4">
+                                <div>
+                                    <label className="block text-sm font-medium text-gray-700 mb-1">Strategy</label>
+                                    <select
+                                        value={deployConfig.strategy}
+                                        onChange={(e) => setDeployConfig({ ...deployConfig, strategy: e.target.value as DeploymentStrategy })}
+                                        className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-primary-500 focus:border-transparent"
+                                    >
+                                        <option value="in-place">In place (update the checkout)</option>
+                                        <option value="releases">Atomic releases (switch a current symlink)</option>
+                                    </select>
+                                </div>
+                                {deployConfig.strategy === 'releases' && (
+                                    <div>
+                                        <label className="block text-sm font-medium text-gray-700 mb-1">Releases to keep</label>
+                                        <input
+                                            type="number"
+                                            min={1}
+                                            value={deployConfig.keepReleases}
+                                            onChange={(e) => setDeployConfig({ ...deployConfig, keepReleases: Math.max(1, parseInt(e.target.value, 10) || 1) })}
+                                            className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-primary-500 focus:border-transparent"
+                                        />
+                                    </div>
+                                )}
+                            </div>
+                            {deployConfig.strategy === 'releases' && (
+                                <div>
+                                    <label className="block text-sm font-medium text-gray-700 mb-1">Shared paths</label>
+                                    <textarea
+                                        rows={3}
+                                        value={deployConfig.sharedPaths}
+                                        onChange={(e) => setDeployConfig({ ...deployConfig, sharedPaths: e.target.value })}
+                                        placeholder={'.env\nstorage/\npublic/uploads/'}
+                                        className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm font-mono focus:outline-none focus:ring-2 focus:ring-primary-500 focus:border-transparent"
+                                    />
+                                    <p className="mt-1 text-xs text-gray-500">
+                                        One path per line, relative to the project root; end directories with /. Point your web server at{' '}
+                                        <span className="font-mono">{(deployConfig.targetPath.trim() || '/var/www/project').replace(/\/+$/, '')}/current</span>.
+                                    </p>
+                                </div>
+                            )}
+                            <div className="grid grid-cols-2 gap-4">
+                                <div>
+                                    <label className="block text-sm font-medium text-gray-700 mb-1">Step timeout (minutes)</label>
                                     <input
-                                        type="checkbox"
-                                        checked={deployConfig.clean}
-                                        onChange={(e) => setDeployConfig({ ...deployConfig, clean: e.target.checked })}
+                                        type="number"
+                                        min={1}
+                                        value={deployConfig.stepTimeoutMinutes}
+                                        onChange={(e) => setDeployConfig({ ...deployConfig, stepTimeoutMinutes: Math.max(1, parseInt(e.target.value, 10) || 1) })}
+                                        className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-primary-500 focus:border-transparent"
                                     />
-                                    <span>Clean target directory before deploy</span>
-                                </label>
+                                </div>
+                                <div>
+                                    <label className="block text-sm font-medium text-gray-700 mb-1">Overall timeout (minutes)</label>
+                                    <input
+                                        type="number"
+                                        min={1}
+                                        value={deployConfig.timeoutMinutes}
+                                        onChange={(e) => setDeployConfig({ ...deployConfig, timeoutMinutes: Math.max(1, parseInt(e.target.value, 10) || 1) })}
+                                        className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-primary-500 focus:border-transparent"
+                                    />
+                                </div>
+                            </div>
+                            <div className="flex items-center space-x-6">
+                                {deployConfig.strategy === 'in-place' && (
+                                    <label className="inline-flex items-center space-x-2 text-sm text-gray-700">
+                                        <input
+                                            type="checkbox"
+                                            checked={deployConfig.clean}
+                                            onChange={(e) => setDeployConfig({ ...deployConfig, clean: e.target.checked })}
+                                        />
+                                        <span>Clean target directory before deploy</span>
+                                    </label>
+                                )}
                                 <label className="inline-flex items-center space-x-2 text-sm text-gray-700">
                                     <input
                                         type="checkbox"
@@ -1483,6 +2238,65 @@ export default function Servers() {
                                     <span>Use stored GitHub PAT</span>
                                 </label>
                             </div>
+                            <div className="space-y-3">
+                                <div className="flex items-center space-x-6">
+                                    <label className="inline-flex items-center space-x-2 text-sm text-gray-700">
+                                        <input
+                                            type="checkbox"
+                                            checked={deployConfig.installDependencies}
+                                            onChange={(e) => setDeployConfig({ ...deployConfig, installDependencies: e.target.checked })}
+                                        />
+                                        <span>Install dependencies from lockfiles</span>
+                                    </label>
+                                    {deployConfig.installDependencies && (
+                                        <label className="inline-flex items-center space-x-2 text-sm text-gray-700">
+                                            <input
+                                                type="checkbox"
+                                                checked={deployConfig.reuseUnchangedDependencies}
+                                                onChange={(e) => setDeployConfig({ ...deployConfig, reuseUnchangedDependencies: e.target.checked })}
+                                            />
+                                            <span>Skip when the lockfile is unchanged</span>
+                                        </label>
+                                    )}
+                                </div>
+                                {deployConfig.installDependencies && (
+                                    <p className="text-xs text-gray-500">
+                                        Detects package-lock.json, yarn.lock, pnpm-lock.yaml, composer.lock and requirements.txt in the checked-out tree.
+                                    </p>
+                                )}
+                                <div>
+                                    <label className="block text-sm font-medium text-gray-700 mb-1">Build Command</label>
+                                    <input
+                                        type="text"
+                                        value={deployConfig.buildCommand}
+                                        onChange={(e) => setDeployConfig({ ...deployConfig, buildCommand: e.target.value })}
+                                        placeholder="npm run build"
+                                        className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm font-mono focus:outline-none focus:ring-2 focus:ring-primary-500 focus:border-transparent"
+                                    />
+                                </div>
+                                <div className="grid grid-cols-2 gap-4">
+                                    <div>
+                                        <label className="block text-sm font-medium text-gray-700 mb-1">Migration Command</label>
+                                        <input
+                                            type="text"
+                                            value={deployConfig.migrateCommand}
+                                            onChange={(e) => setDeployConfig({ ...deployConfig, migrateCommand: e.target.value })}
+                                            placeholder="php artisan migrate --force"
+                                            className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm font-mono focus:outline-none focus:ring-2 focus:ring-primary-500 focus:border-transparent"
+                                        />
+                                    </div>
+                                    <div>
+                                        <label className="block text-sm font-medium text-gray-700 mb-1">Cache Clear Command</label>
+                                        <input
+                                            type="text"
+                                            value={deployConfig.cacheClearCommand}
+                                            onChange={(e) => setDeployConfig({ ...deployConfig, cacheClearCommand: e.target.value })}
+                                            placeholder="php artisan optimize:clear"
+                                            className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm font-mono focus:outline-none focus:ring-2 focus:ring-primary-500 focus:border-transparent"
+                                        />
+                                    </div>
+                                </div>
+                            </div>
                             <div className="grid grid-cols-2 gap-4">
                                 <div>
                                     <label className="block text-sm font-medium text-gray-700 mb-1">Pre-deploy Script</label>
@@ -1505,6 +2319,167 @@ export default function Servers() {
                                     />
                                 </div>
                             </div>
+                            <div className="space-y-3">
+                                <label className="inline-flex items-center space-x-2 text-sm text-gray-700">
+                                    <input
+                                        type="checkbox"
+                                        checked={deployConfig.setPermissions}
+                                        onChange={(e) => setDeployConfig({ ...deployConfig, setPermissions: e.target.checked })}
+                                    />
+                                    <span>Set ownership and permissions after deploy</span>
+                                </label>
+                                {deployConfig.setPermissions && (
+                                    <>
+                                        <div className="grid grid-cols-4 gap-4">
+                                            <div>
+                                                <label className="block text-sm font-medium text-gray-700 mb-1">Owner</label>
+                                                <input
+                                                    type="text"
+                                                    value={deployConfig.permissionOwner}
+                                                    onChange={(e) => setDeployConfig({ ...deployConfig, permissionOwner: e.target.value })}
+                                                    placeholder="www-data"
+                                                    className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-primary-500 focus:border-transparent"
+                                                />
+                                            </div>
+                                            <div>
+                                                <label className="block text-sm font-medium text-gray-700 mb-1">Group</label>
+                                                <input
+                                                    type="text"
+                                                    value={deployConfig.permissionGroup}
+                                                    onChange={(e) => setDeployConfig({ ...deployConfig, permissionGroup: e.target.value })}
+                                                    placeholder="www-data"
+                                                    className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-primary-500 focus:border-transparent"
+                                                />
+                                            </div>
+                                            <div>
+                                                <label className="block text-sm font-medium text-gray-700 mb-1">Directory mode</label>
+                                                <input
+                                                    type="text"
+                                                    value={deployConfig.permissionDirMode}
+                                                    onChange={(e) => setDeployConfig({ ...deployConfig, permissionDirMode: e.target.value })}
+                                                    placeholder="755"
+                                                    className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm font-mono focus:outline-none focus:ring-2 focus:ring-primary-500 focus:border-transparent"
+                                                />
+                                            </div>
+                                            <div>
+                                                <label className="block text-sm font-medium text-gray-700 mb-1">File mode</label>
+                                                <input
+                                                    type="text"
+                                                    value={deployConfig.permissionFileMode}
+                                                    onChange={(e) => setDeployConfig({ ...deployConfig, permissionFileMode: e.target.value })}
+                                                    placeholder="644"
+                                                    className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm font-mono focus:outline-none focus:ring-2 focus:ring-primary-500 focus:border-transparent"
+                                                />
+                                            </div>
+                                        </div>
+                                        <div>
+                                            <label className="block text-sm font-medium text-gray-700 mb-1">Paths</label>
+                                            <textarea
+                                                rows={2}
+                                                value={deployConfig.permissionPaths}
+                                                onChange={(e) => setDeployConfig({ ...deployConfig, permissionPaths: e.target.value })}
+                                                placeholder={'storage/\nbootstrap/cache/'}
+                                                className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm font-mono focus:outline-none focus:ring-2 focus:ring-primary-500 focus:border-transparent"
+                                            />
+                                            <p className="mt-1 text-xs text-gray-500">
+                                                One path per line, relative to the project root. Leave empty to apply to the whole deployment. Uses sudo when it is available without a password.
+                                            </p>
+                                        </div>
+                                    </>
+                                )}
+                            </div>
+                            <div className="space-y-3">
+                                <label className="inline-flex items-center space-x-2 text-sm text-gray-700">
+                                    <input
+                                        type="checkbox"
+                                        checked={deployConfig.healthCheckEnabled}
+                                        onChange={(e) => setDeployConfig({ ...deployConfig, healthCheckEnabled: e.target.checked })}
+                                    />
+                                    <span>Verify the deployment with a health check</span>
+                                </label>
+                                {deployConfig.healthCheckEnabled && (
+                                    <>
+                                        <div className="grid grid-cols-4 gap-4">
+                                            <div className="col-span-2">
+                                                <label className="block text-sm font-medium text-gray-700 mb-1">URL</label>
+                                                <input
+                                                    type="text"
+                                                    value={deployConfig.healthCheckUrl}
+                                                    onChange={(e) => setDeployConfig({ ...deployConfig, healthCheckUrl: e.target.value })}
+                                                    placeholder="https://example.com/health"
+                                                    className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-primary-500 focus:border-transparent"
+                                                />
+                                            </div>
+                                            <div>
+                                                <label className="block text-sm font-medium text-gray-700 mb-1">Expected status</label>
+                                                <input
+                                                    type="number"
+                                                    min={100}
+                                                    max={599}
+                                                    value={deployConfig.healthCheckStatus}
+                                                    onChange={(e) => setDeployConfig({ ...deployConfig, healthCheckStatus: e.target.value })}
+                                                    placeholder="2xx/3xx"
+                                                    className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-primary-500 focus:border-transparent"
+                                                />
+                                            </div>
+                                            <div>
+                                                <label className="block text-sm font-medium text-gray-700 mb-1">Body contains</label>
+                                                <input
+                                                    type="text"
+                                                    value={deployConfig.healthCheckBody}
+                                                    onChange={(e) => setDeployConfig({ ...deployConfig, healthCheckBody: e.target.value })}
+                                                    placeholder="ok"
+                                                    className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-primary-500 focus:border-transparent"
+                                                />
+                                            </div>
+                                        </div>
+                                        <div>
+                                            <label className="block text-sm font-medium text-gray-700 mb-1">Command</label>
+                                            <input
+                                                type="text"
+                                                value={deployConfig.healthCheckCommand}
+                                                onChange={(e) => setDeployConfig({ ...deployConfig, healthCheckCommand: e.target.value })}
+                                                placeholder="curl -fsS http://127.0.0.1:3000/health"
+                                                className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm font-mono focus:outline-none focus:ring-2 focus:ring-primary-500 focus:border-transparent"
+                                            />
+                                            <p className="mt-1 text-xs text-gray-500">
+                                                The URL is requested from this computer; the command runs on the server in the deployed directory and must exit with 0.
+                                            </p>
+                                        </div>
+                                        <div className="grid grid-cols-3 gap-4 items-end">
+                                            <div>
+                                                <label className="block text-sm font-medium text-gray-700 mb-1">Attempts</label>
+                                                <input
+                                                    type="number"
+                                                    min={1}
+                                                    max={20}
+                                                    value={deployConfig.healthCheckAttempts}
+                                                    onChange={(e) => setDeployConfig({ ...deployConfig, healthCheckAttempts: Math.min(20, Math.max(1, parseInt(e.target.value, 10) || 1)) })}
+                                                    className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-primary-500 focus:border-transparent"
+                                                />
+                                            </div>
+                                            <div>
+                                                <label className="block text-sm font-medium text-gray-700 mb-1">Initial delay (seconds)</label>
+                                                <input
+                                                    type="number"
+                                                    min={0}
+                                                    value={deployConfig.healthCheckDelaySeconds}
+                                                    onChange={(e) => setDeployConfig({ ...deployConfig, healthCheckDelaySeconds: Math.max(0, parseInt(e.target.value, 10) || 0) })}
+                                                    className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-primary-500 focus:border-transparent"
+                                                />
+                                            </div>
+                                            <label className="inline-flex items-center space-x-2 text-sm text-gray-700 pb-2">
+                                                <input
+                                                    type="checkbox"
+                                                    checked={deployConfig.autoRollback}
+                                                    onChange={(e) => setDeployConfig({ ...deployConfig, autoRollback: e.target.checked })}
+                                                />
+                                                <span>Roll back automatically on failure</span>
+                                            </label>
+                                        </div>
+                                    </>
+                                )}
+                            </div>
                             <div>
                                 <div className="flex items-center justify-between mb-2">
                                     <label className="block text-sm font-medium text-gray-700">Environment Variables</label>
@@ -1546,6 +2521,16 @@ export default function Servers() {
                                     ))}
                                 </div>
                             </div>
+                            {deployConfig.deployTarget === 'group' ? (
+                                <>
+                                    {groupError && !groupDeployment?.result && (
+                                        <div className="rounded-md border border-red-200 bg-red-50 p-3 text-sm text-red-700">{groupError}</div>
+                                    )}
+                                    <GroupDeploymentStatus />
+                                </>
+                            ) : deploymentInfo?.deploymentId && deploymentInfo.status !== 'succeeded' && (
+                                <DeploymentConsole serverId={selectedServer.id} />
+                            )}
                             <div className="rounded-md border border-yellow-200 bg-yellow-50 p-3 text-xs text-yellow-700">
                                 Make sure the server has Git installed and network access to GitHub. Using the stored PAT avoids interactive prompts during clone and fetch operations.
                             </div>
@@ -1558,12 +2543,31 @@ export default function Servers() {
                                 Cancel
                             </button>
                             <button
-                                onClick={handleDirectDeploy}
-                                disabled={isDeploymentRunning || !deployConfig.repositoryFullName || !deployConfig.targetPath.trim()}
-                                className="px-4 py-2 bg-primary-600 text-white rounded-lg hover:bg-primary-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+                                onClick={handleSaveDeployConfig}
+                                disabled={isSavingConfig || !deployConfig.name.trim() || !deployConfig.repositoryFullName || !deployConfig.targetPath.trim()}
+                                title={deployConfig.name.trim() ? undefined : 'Enter a configuration name to save'}
+                                className="px-4 py-2 text-primary-700 border border-primary-300 rounded-lg hover:bg-primary-50 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
                             >
-                                {isDeploymentRunning ? 'Deploying...' : 'Start Deployment'}
+                                {isSavingConfig ? 'Saving...' : editingConfigId ? 'Update Configuration' : 'Save Configuration'}
                             </button>
+                            {deployConfig.deployTarget === 'group' ? (
+                                <button
+                                    onClick={handleDirectDeploy}
+                                    disabled={groupDeploying || groupServers.length === 0 || groupHealthCheckMissing || !deployConfig.repositoryFullName || !deployConfig.targetPath.trim()}
+                                    title={groupHealthCheckMissing ? 'Enable a health check to deploy in batches' : undefined}
+                                    className="px-4 py-2 bg-primary-600 text-white rounded-lg hover:bg-primary-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+                                >
+                                    {groupDeploying ? 'Rolling out...' : `Deploy to ${groupServers.length} server${groupServers.length === 1 ? '' : 's'}`}
+                                </button>
+                            ) : (
+                                <button
+                                    onClick={handleDirectDeploy}
+                                    disabled={isDeploymentRunning || !deployConfig.repositoryFullName || !deployConfig.targetPath.trim()}
+                                    className="px-4 py-2 bg-primary-600 text-white rounded-lg hover:bg-primary-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+                                >
+                                    {isDeploymentRunning ? 'Deploying...' : 'Start Deployment'}
+                                </button>
+                            )}
                         </div>
                     </div>
                 </div>
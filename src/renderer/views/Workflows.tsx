@@ -13,7 +13,9 @@ import {
     clearError,
     clearWorkflowYAML
 } from '../store/slices/workflowsSlice';
-import { WorkflowRun } from '../../shared/types';
+import { WorkflowDiagnostic, WorkflowFileSaveResult, WorkflowRun } from '../../shared/types';
+import WorkflowCommitModal from '../components/workflow/WorkflowCommitModal';
+import WorkflowYamlEditor, { WorkflowValidation } from '../components/workflow/WorkflowYamlEditor';
 
 export default function Workflows() {
     const dispatch = useAppDispatch();
@@ -21,6 +23,7 @@ export default function Workflows() {
         workflows,
         selectedWorkflow,
         workflowYAML,
+        workflowFile,
         loading,
         yamlLoading,
         actionLoading,
@@ -33,6 +36,11 @@ export default function Workflows() {
 
     const [isEditing, setIsEditing] = useState(false);
     const [editedYAML, setEditedYAML] = useState('');
+    const [showCommitModal, setShowCommitModal] = useState(false);
+    const [diagnostics, setDiagnostics] = useState<WorkflowDiagnostic[]>([]);
+    // The last check of the edited workflow; committing waits until it covers the current text
+    const [validation, setValidation] = useState<WorkflowValidation | null>(null);
+    const [commitNotice, setCommitNotice] = useState<{ message: string; url: string } | null>(null);
     const [searchTerm, setSearchTerm] = useState('');
 
     // Load workflows on component mount
@@ -118,6 +126,7 @@ export default function Workflows() {
         dispatch(setSelectedWorkflow(workflow));
         dispatch(clearWorkflowYAML()); // Clear previous YAML
         setIsEditing(false);
+        setCommitNotice(null);
     };
 
     const handleRefresh = () => {
@@ -167,19 +176,45 @@ export default function Workflows() {
 
     const handleEditWorkflow = () => {
         setEditedYAML(workflowYAML || '');
+        setDiagnostics([]);
+        setValidation(null);
         setIsEditing(true);
     };
 
+    const handleValidated = (result: WorkflowValidation) => {
+        setValidation(result);
+        if (!result.error) {
+            setDiagnostics(result.diagnostics);
+        }
+    };
+
+    const errorCount = diagnostics.filter(diagnostic => diagnostic.severity === 'error').length;
+    const warningCount = diagnostics.length - errorCount;
+    const validated = validation?.text === editedYAML && !validation.error;
+    const saveBlockedReason = validation?.error
+        ? 'The workflow could not be checked'
+        : !validated
+            ? 'Checking the workflow'
+            : errorCount > 0 ? 'Fix the errors in the workflow before committing' : undefined;
+
     const handleSaveWorkflow = () => {
-        // For now, just exit edit mode
-        // In a real implementation, you'd save the YAML back to GitHub
+        setCommitNotice(null);
+        setShowCommitModal(true);
+    };
+
+    const handleWorkflowCommitted = (result: WorkflowFileSaveResult) => {
+        setShowCommitModal(false);
         setIsEditing(false);
         setEditedYAML('');
+        setCommitNotice(result.pullRequest
+            ? { message: `Opened pull request #${result.pullRequest.number}`, url: result.pullRequest.url }
+            : { message: `Committed to ${result.file.branch}`, url: result.commitUrl });
     };
 
     const handleCancelEdit = () => {
         setIsEditing(false);
         setEditedYAML('');
+        setValidation(null);
     };
 
     const getStatusColor = (status: string, conclusion?: string) => {
@@ -457,6 +492,11 @@ export default function Workflows() {
                                                 </button>
                                             ) : (
                                                 <>
+                                                    {diagnostics.length > 0 && (
+                                                        <span className={`self-center text-xs ${errorCount > 0 ? 'text-red-600' : 'text-yellow-600'}`}>
+                                                            {errorCount} error(s), {warningCount} warning(s)
+                                                        </span>
+                                                    )}
                                                     <button
                                                         onClick={handleCancelEdit}
                                                         className="bg-gray-100 text-gray-700 px-3 py-1 rounded text-sm font-medium hover:bg-gray-200 transition-colors"
@@ -465,7 +505,9 @@ export default function Workflows() {
                                                     </button>
                                                     <button
                                                         onClick={handleSaveWorkflow}
-                                                        className="bg-primary-600 text-white px-3 py-1 rounded text-sm font-medium hover:bg-primary-700 transition-colors"
+                                                        disabled={!workflowFile || editedYAML === workflowFile.content || saveBlockedReason !== undefined}
+                                                        title={saveBlockedReason}
+                                                        className="bg-primary-600 text-white px-3 py-1 rounded text-sm font-medium hover:bg-primary-700 disabled:opacity-50 transition-colors"
                                                     >
                                                         Save
                                                     </button>
@@ -473,17 +515,34 @@ export default function Workflows() {
                                             )}
                                         </div>
                                     </div>
-                                    <div className="h-full p-4 bg-gray-900 text-green-400 font-mono text-sm overflow-auto">
-                                        <pre className="whitespace-pre-wrap">{isEditing ? editedYAML : workflowYAML}</pre>
-                                        {isEditing && (
-                                            <textarea
-                                                value={editedYAML}
-                                                onChange={(e) => setEditedYAML(e.target.value)}
-                                                className="w-full h-96 mt-4 p-2 bg-gray-800 text-green-400 font-mono text-sm border border-gray-700 rounded"
-                                                placeholder="Edit workflow YAML..."
-                                            />
-                                        )}
-                                    </div>
+                                    {commitNotice && (
+                                        <div className="flex items-center justify-between px-4 py-2 bg-green-50 border-b border-green-200 text-sm text-green-800">
+                                            <span>{commitNotice.message}</span>
+                                            <div className="flex space-x-3">
+                                                <button
+                                                    onClick={() => dispatch(openWorkflowInBrowser(commitNotice.url))}
+                                                    className="font-medium hover:underline"
+                                                >
+                                                    View on GitHub
+                                                </button>
+                                                <button onClick={() => setCommitNotice(null)} className="text-green-600 hover:text-green-800">
+                                                    Dismiss
+                                                </button>
+                                            </div>
+                                        </div>
+                                    )}
+                                    {isEditing ? (
+                                        <WorkflowYamlEditor
+                                            path={workflowFile?.path ?? 'workflow.yml'}
+                                            value={editedYAML}
+                                            onChange={setEditedYAML}
+                                            onValidated={handleValidated}
+                                        />
+                                    ) : (
+                                        <div className="h-full p-4 bg-gray-900 text-green-400 font-mono text-sm overflow-auto">
+                                            <pre className="whitespace-pre-wrap">{workflowYAML}</pre>
+                                        </div>
+                                    )}
                                 </div>
                             ) : (
                                 <div className="flex h-full items-center justify-center">
@@ -510,6 +569,17 @@ export default function Workflows() {
                     </div>
                 )}
             </div>
+
+            {showCommitModal && workflowFile && selectedWorkflow?.repository && (
+                <WorkflowCommitModal
+                    owner={selectedWorkflow.repository.owner}
+                    repo={selectedWorkflow.repository.name}
+                    file={workflowFile}
+                    content={editedYAML}
+                    onClose={() => setShowCommitModal(false)}
+                    onCommitted={handleWorkflowCommitted}
+                />
+            )}
         </div>
     );
 }
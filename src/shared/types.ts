@@ -40,6 +40,31 @@ export interface AuthConfig {
     expiresAt?: Date;
 }
 
+// A host key trusted for a server, checked on every connection
+export interface HostKeyPin {
+    // Key format from the key blob, e.g. ssh-ed25519
+    keyType: string;
+    // OpenSSH style SHA256:<base64> fingerprint
+    fingerprint: string;
+    trustedAt: string;
+    source: 'user' | 'known_hosts';
+}
+
+// A hop on the way to a server: another saved server, or a host that is only used as a bastion
+export type JumpHost =
+    | { type: 'server'; serverId: string }
+    | {
+        type: 'inline';
+        host: string;
+        port: number;
+        username: string;
+        privateKeyPath?: string;
+        privateKey?: string;
+        password?: string;
+        useAgent?: boolean;
+        hostKey?: HostKeyPin;
+    };
+
 export interface VPSServer {
     id: string;
     name: string;
@@ -51,6 +76,12 @@ export interface VPSServer {
     privateKeyPath?: string;
     privateKey?: string;
     password?: string;
+    // Authenticate with the keys loaded in the system SSH agent (SSH_AUTH_SOCK)
+    useAgent?: boolean;
+    // Pinned on first connection; connections presenting a different key are refused
+    hostKey?: HostKeyPin;
+    // Bastions to tunnel through, outermost first
+    jumpHosts?: JumpHost[];
     status: 'connected' | 'disconnected' | 'connecting' | 'error';
     environment: 'development' | 'staging' | 'production';
     os?: string;
@@ -64,6 +95,34 @@ export interface VPSServer {
     loadAverage?: number[];
 }
 
+// Asked of the user while logging in: a key passphrase, keyboard-interactive (e.g. 2FA) prompts
+// or whether to trust a host key
+export interface SSHAuthPrompt {
+    id: string;
+    kind: 'passphrase' | 'keyboard-interactive' | 'host-key';
+    // The server or jump host being logged in to
+    target: string;
+    title: string;
+    instructions?: string;
+    prompts: { prompt: string; echo: boolean }[];
+    // Set when a previous answer was rejected
+    error?: string;
+    // Whether the answer may be kept in memory for a while
+    canRemember: boolean;
+    // The key presented by the server, for host-key prompts
+    hostKey?: {
+        keyType: string;
+        fingerprint: string;
+        // Set when the server used to present a different key
+        previousFingerprint?: string;
+    };
+}
+
+export interface SSHAuthPromptResponse {
+    responses: string[];
+    remember?: boolean;
+}
+
 // SSH Key Management Types
 export interface SSHKeyGenerationOptions {
     name: string;
@@ -91,7 +150,7 @@ export interface SSHConnectionTestResult {
     success: boolean;
     host: string;
     username: string;
-    authenticationType: 'key' | 'password';
+    authenticationType: 'key' | 'password' | 'agent';
     osInfo?: string;
     kernelVersion?: string;
     homeDirectory?: string;
@@ -114,6 +173,8 @@ export interface PermissionConfig {
     fileMode?: string;
     dirMode?: string;
     recursive?: boolean;
+    // Paths relative to the target to apply to instead of the whole target; a trailing '/' follows symlinks
+    paths?: string[];
 }
 
 export interface GitHubDeployKey {
@@ -159,16 +220,101 @@ export interface DirectDeploymentRepository {
     defaultBranch: string;
 }
 
+export type DeploymentStrategy = 'in-place' | 'releases';
+
+export type DependencyManager = 'npm' | 'yarn' | 'pnpm' | 'composer' | 'pip';
+
+export type ProjectStackType = 'laravel' | 'wordpress' | 'node' | 'static' | 'docker' | 'unknown';
+
+// Deployment settings suggested for a detected stack
+export interface DeploymentPreset {
+    strategy?: DeploymentStrategy;
+    sharedPaths?: string[];
+    installDependencies?: boolean;
+    buildCommand?: string;
+    migrateCommand?: string;
+    cacheClearCommand?: string;
+    preDeployScript?: string;
+    postDeployScript?: string;
+    permissions?: PermissionConfig;
+    // Directory inside the deployment the web server should serve, e.g. 'public'
+    webRoot?: string;
+}
+
+export interface ProjectStackDetection {
+    stack: ProjectStackType;
+    framework?: string;
+    // Files that led to the detection
+    evidence: string[];
+    hasDockerfile: boolean;
+    preset: DeploymentPreset;
+    source: 'github' | 'server';
+}
+
+export type StackDetectionTarget =
+    | { source: 'github'; repository: string; ref?: string }
+    | { source: 'server'; serverId: string; path: string };
+
+export interface DeployPathHint {
+    stack: ProjectStackType;
+    projectName?: string;
+    webRoot?: string;
+    strategy?: DeploymentStrategy;
+}
+
+export type HealthCheckProbe =
+    // Requested from the desktop app; passes on expectedStatus (any 2xx/3xx by default) and an optional body match
+    | { type: 'http'; url: string; method?: 'GET' | 'HEAD'; expectedStatus?: number; bodyContains?: string; timeoutMs?: number }
+    // Run on the server in the deployed tree; passes on exit code 0
+    | { type: 'command'; command: string; timeoutMs?: number };
+
+export interface HealthCheckConfig {
+    probes: HealthCheckProbe[];
+    // Attempts before giving up, waiting initialDelayMs first and doubling backoffMs between attempts
+    attempts?: number;
+    initialDelayMs?: number;
+    backoffMs?: number;
+    // Put the previously deployed release or commit back when the check fails (default true)
+    autoRollback?: boolean;
+}
+
 export interface DirectDeploymentRequest {
     serverId: string;
     repository: DirectDeploymentRepository;
     branch: string;
     targetPath: string;
+    // 'releases' builds into targetPath/releases/<timestamp> and switches targetPath/current atomically
+    strategy?: DeploymentStrategy;
+    // Paths relative to the release that live in targetPath/shared; directories end with '/'
+    sharedPaths?: string[];
+    keepReleases?: number;
+    // Re-activate an existing release directory instead of building a new one
+    existingRelease?: string;
     clean?: boolean;
     useGitHubPat?: boolean;
+    // Install dependencies for every lockfile found in the checked-out tree
+    installDependencies?: boolean;
+    // Skip the install when the lockfile matches the one used by the last deploy (default true)
+    reuseUnchangedDependencies?: boolean;
+    // Build phases run in this order in the deployed tree after dependencies are installed
+    buildCommand?: string;
+    migrateCommand?: string;
+    cacheClearCommand?: string;
     preDeployScript?: string;
     postDeployScript?: string;
+    // Applied to the deployed tree after the post-deploy script
+    permissions?: PermissionConfig;
+    // Verifies the deployment once it is live
+    healthCheck?: HealthCheckConfig;
     environmentVariables?: Record<string, string>;
+    // Check out this exact commit instead of the branch head (used by rollbacks)
+    commitSha?: string;
+    rollbackOf?: string;
+    // Set for deployments that are part of a group rollout
+    groupId?: string;
+    // Each step is terminated after stepTimeoutMs and the whole deployment after timeoutMs
+    stepTimeoutMs?: number;
+    timeoutMs?: number;
 }
 
 export interface DirectDeploymentStepResult {
@@ -181,9 +327,13 @@ export interface DirectDeploymentStepResult {
     startedAt: string;
     finishedAt: string;
     success: boolean;
+    timeoutMs?: number;
+    timedOut?: boolean;
+    cancelled?: boolean;
 }
 
 export interface DirectDeploymentResult {
+    id: string;
     success: boolean;
     serverId: string;
     repository: DirectDeploymentRepository;
@@ -192,9 +342,82 @@ export interface DirectDeploymentResult {
     steps: DirectDeploymentStepResult[];
     startedAt: string;
     finishedAt: string;
+    durationMs: number;
+    strategy?: DeploymentStrategy;
+    release?: string;
+    commitSha?: string;
+    commitMessage?: string;
+    triggeredBy?: string;
+    rollbackOf?: string;
+    groupId?: string;
+    cancelled?: boolean;
+    timedOut?: boolean;
+    healthCheckPassed?: boolean;
+    // Set when a failed health check triggered a revert to what was live before
+    autoRollback?: {
+        success: boolean;
+        commitSha?: string;
+        release?: string;
+    };
+    error?: string;
+}
+
+// Real-time progress of a running direct deployment; output is redacted like the final step results
+export type DirectDeploymentProgress =
+    | { type: 'started'; deploymentId: string; serverId: string; repository: string; startedAt: string }
+    | { type: 'step-start'; deploymentId: string; serverId: string; stepId: string; name: string; startedAt: string }
+    | { type: 'step-output'; deploymentId: string; serverId: string; stepId: string; stream: 'stdout' | 'stderr'; data: string }
+    | { type: 'step-finish'; deploymentId: string; serverId: string; stepId: string; code: number; success: boolean; timedOut?: boolean; finishedAt: string };
+
+// 'all' deploys every server at once, 'rolling' in batches and 'canary' one server before the rest
+export type GroupDeploymentStrategy = 'all' | 'rolling' | 'canary';
+
+// Servers matching both environment and tag when set; an explicit list of ids takes precedence
+export interface ServerGroupSelector {
+    environment?: VPSServer['environment'];
+    tag?: string;
+    serverIds?: string[];
+}
+
+export interface GroupDeploymentRequest {
+    group: ServerGroupSelector;
+    strategy: GroupDeploymentStrategy;
+    // Servers per rolling batch (default 1); for canary rollouts, per batch after the canary (default all)
+    batchSize?: number;
+    // Wait between batches once the previous one deployed and passed its health checks
+    pauseMs?: number;
+    canaryServerId?: string;
+    deployment: Omit<DirectDeploymentRequest, 'serverId' | 'commitSha' | 'rollbackOf' | 'existingRelease' | 'groupId'>;
+}
+
+export interface GroupDeploymentResult {
+    id: string;
+    success: boolean;
+    strategy: GroupDeploymentStrategy;
+    batches: string[][];
+    results: DirectDeploymentResult[];
+    // Servers that were never deployed because the rollout stopped
+    skippedServerIds: string[];
+    startedAt: string;
+    finishedAt: string;
+    durationMs: number;
+    cancelled?: boolean;
     error?: string;
 }
 
+export type GroupDeploymentProgress =
+    | { type: 'started'; groupId: string; strategy: GroupDeploymentStrategy; batches: string[][]; startedAt: string }
+    | { type: 'batch-start'; groupId: string; batch: number; serverIds: string[] }
+    | { type: 'server-finished'; groupId: string; result: DirectDeploymentResult }
+    | { type: 'paused'; groupId: string; until: string }
+    | { type: 'finished'; groupId: string; result: GroupDeploymentResult };
+
+export interface DeploymentHistoryFilter {
+    serverId?: string;
+    repository?: string;
+    limit?: number;
+}
+
 export interface DeploymentConfig {
     id: string;
     name: string;
@@ -202,13 +425,186 @@ export interface DeploymentConfig {
     serverId: string;
     branch: string;
     buildCommand?: string;
+    installDependencies?: boolean;
+    reuseUnchangedDependencies?: boolean;
+    migrateCommand?: string;
+    cacheClearCommand?: string;
+    permissions?: PermissionConfig;
+    healthCheck?: HealthCheckConfig;
     deployPath: string;
     envVars: Record<string, string>;
     preDeployScript?: string;
     postDeployScript?: string;
     isActive: boolean;
+    // Snapshot of the repository so a saved configuration can run without a GitHub lookup
+    repository: DirectDeploymentRequest['repository'];
+    useGitHubPat?: boolean;
+    strategy?: DeploymentStrategy;
+    sharedPaths?: string[];
+    keepReleases?: number;
+    stepTimeoutMs?: number;
+    timeoutMs?: number;
+    createdAt?: string;
+    updatedAt?: string;
+}
+
+export type DeploymentConfigInput = Omit<DeploymentConfig, 'id' | 'createdAt' | 'updatedAt'>;
+
+// Docker Engine Types
+export type DockerEndpoint =
+    | { type: 'local'; socketPath?: string }
+    | { type: 'ssh'; serverId: string; socketPath?: string };
+
+export interface DockerEngineInfo {
+    version: string;
+    apiVersion: string;
+    os: string;
+    arch: string;
+    kernelVersion?: string;
 }
 
+export interface DockerPortBinding {
+    privatePort: number;
+    publicPort?: number;
+    type: string;
+    ip?: string;
+}
+
+export interface DockerContainer {
+    id: string;
+    name: string;
+    image: string;
+    imageId: string;
+    command: string;
+    state: 'created' | 'running' | 'paused' | 'restarting' | 'removing' | 'exited' | 'dead';
+    status: string;
+    ports: DockerPortBinding[];
+    labels: Record<string, string>;
+    mounts: string[];
+    networks: string[];
+    created: string;
+}
+
+export interface DockerImage {
+    id: string;
+    repoTags: string[];
+    repository: string;
+    tag: string;
+    size: number;
+    containers: number;
+    created: string;
+}
+
+export interface DockerNetwork {
+    id: string;
+    name: string;
+    driver: string;
+    scope: string;
+    internal: boolean;
+    containers: number;
+    created: string;
+}
+
+export interface DockerVolume {
+    name: string;
+    driver: string;
+    mountpoint: string;
+    scope: string;
+    labels: Record<string, string>;
+    created?: string;
+}
+
+export type DockerResourceKind = 'container' | 'image' | 'network' | 'volume';
+
+// The Engine API inspect document of a resource, shown as JSON; only the fields the app reads are typed
+export interface DockerInspectDocument {
+    Id?: string;
+    Name?: string;
+    Config?: { Tty?: boolean };
+    [field: string]: unknown;
+}
+
+export interface DockerLogOptions {
+    follow?: boolean;
+    tail?: number | 'all';
+    // Unix timestamp (seconds) or an RFC3339 date
+    since?: number | string;
+    timestamps?: boolean;
+}
+
+export interface DockerExecOptions {
+    cmd?: string[];
+    user?: string;
+    workingDir?: string;
+    cols?: number;
+    rows?: number;
+}
+
+export interface DockerStreamData {
+    streamId: string;
+    stream: 'stdout' | 'stderr';
+    data: string;
+}
+
+export interface DockerStreamEnd {
+    streamId: string;
+    exitCode?: number | null;
+    error?: string;
+}
+
+export interface TerminalOpenOptions {
+    cols: number;
+    rows: number;
+}
+
+export interface TerminalSession {
+    id: string;
+    serverId: string;
+    startedAt: string;
+}
+
+export interface TerminalData {
+    sessionId: string;
+    data: string;
+}
+
+export interface TerminalExit {
+    sessionId: string;
+    code?: number | null;
+    signal?: string;
+    error?: string;
+}
+
+export interface RemoteFileEntry {
+    name: string;
+    path: string;
+    type: 'file' | 'directory' | 'symlink' | 'other';
+    // Symlinks report whether their target is a directory so they can be browsed
+    isDirectory: boolean;
+    size: number;
+    // Octal permission bits, e.g. '644'
+    permissions: string;
+    modifiedAt: string;
+}
+
+export interface RemoteDirectoryListing {
+    path: string;
+    entries: RemoteFileEntry[];
+}
+
+export interface RemoteFileContent {
+    path: string;
+    content: string;
+    size: number;
+    modifiedAt: string;
+    // sha256 of the remote bytes, used to detect edits made since the file was opened
+    hash: string;
+}
+
+export type RemoteFileSaveResult =
+    | { saved: true; file: Omit<RemoteFileContent, 'content'> }
+    | { saved: false; conflict: RemoteFileContent | null };
+
 export interface WorkflowRun {
     id: number;
     name: string;
@@ -248,6 +644,85 @@ export interface WorkflowJob {
     steps: WorkflowStep[];
 }
 
+// A workflow definition as stored in the repository
+export interface WorkflowFile {
+    path: string;
+    // Blob SHA of this version; updates must name it so newer changes are not overwritten
+    sha: string;
+    content: string;
+    branch: string;
+}
+
+export interface WorkflowFileSaveRequest {
+    path: string;
+    content: string;
+    sha: string;
+    baseBranch: string;
+    message: string;
+    // Commit straight to baseBranch, or to a new branch with a pull request into it
+    mode: 'commit' | 'pull-request';
+    branch?: string;
+    pullRequestTitle?: string;
+    pullRequestBody?: string;
+}
+
+export interface WorkflowFileSaveResult {
+    file: WorkflowFile;
+    commitUrl: string;
+    pullRequest?: { number: number; url: string };
+}
+
+// A problem found in a workflow file, positioned for an editor marker (1-based, end exclusive)
+export interface WorkflowDiagnostic {
+    severity: 'error' | 'warning';
+    message: string;
+    line: number;
+    column: number;
+    endLine: number;
+    endColumn: number;
+}
+
+// Visual workflow builder graphs, saved as named projects and compiled to workflow YAML
+export type WorkflowGraphNodeType = 'trigger' | 'action' | 'condition' | 'deploy';
+
+export interface WorkflowGraphNode {
+    id: string;
+    type: WorkflowGraphNodeType;
+    title: string;
+    description: string;
+    position: { x: number; y: number };
+    // Trigger: event, branches, cron; action and deploy: run or uses, runsOn, environment; condition: expression
+    config: Record<string, string>;
+}
+
+export interface WorkflowGraphConnection {
+    from: string;
+    to: string;
+    fromPort: string;
+    toPort: string;
+}
+
+export interface WorkflowProject {
+    id: string;
+    name: string;
+    nodes: WorkflowGraphNode[];
+    connections: WorkflowGraphConnection[];
+    createdAt: string;
+    updatedAt: string;
+}
+
+export type WorkflowProjectInput = Pick<WorkflowProject, 'name' | 'nodes' | 'connections'> & { id?: string };
+
+// Log text of a job after a given offset, with the job's latest state for polling
+export interface WorkflowJobLogs {
+    text: string;
+    // Length of the whole log, the offset to ask for next
+    size: number;
+    // The log no longer extends what was fetched before (e.g. the job was re-run); text is the whole log
+    reset: boolean;
+    job: WorkflowJob;
+}
+
 export interface AppSettings {
     theme: 'light' | 'dark';
     autoRefresh: boolean;
@@ -322,7 +797,13 @@ export type IPCChannels =
     | 'repos:delete-deploy-key'
     | 'workflows:list-all'
     | 'workflows:list-repo'
+    | 'workflows:get-job-logs'
     | 'workflows:get-yaml'
+    | 'workflows:save-file'
+    | 'workflows:validate'
+    | 'workflows:list-projects'
+    | 'workflows:save-project'
+    | 'workflows:delete-project'
     | 'workflows:cancel'
     | 'workflows:rerun'
     | 'workflows:open-browser'
@@ -356,9 +837,47 @@ export type IPCChannels =
     | 'ssh-keys:get'
     | 'ssh-keys:delete'
     | 'ssh-keys:import'
+    | 'docker:ping'
+    | 'docker:list'
+    | 'docker:inspect'
+    | 'docker:remove'
+    | 'docker:start-container'
+    | 'docker:stop-container'
+    | 'docker:restart-container'
+    | 'docker:logs-subscribe'
+    | 'docker:exec-start'
+    | 'docker:stream-input'
+    | 'docker:stream-resize'
+    | 'docker:stream-unsubscribe'
+    | 'terminal:open'
+    | 'terminal:write'
+    | 'terminal:resize'
+    | 'terminal:close'
+    | 'terminal:save-transcript'
+    | 'servers:auth-prompt-response'
+    | 'servers:import-known-host-key'
+    | 'servers:forget-host-key'
+    | 'sftp:list'
+    | 'sftp:stat'
+    | 'sftp:read-file'
+    | 'sftp:write-file'
+    | 'sftp:download'
+    | 'sftp:upload'
+    | 'sftp:rename'
+    | 'sftp:delete'
+    | 'sftp:chmod'
+    | 'sftp:mkdir'
+    | 'deploy:list'
     | 'deploy:create'
+    | 'deploy:update'
+    | 'deploy:delete'
     | 'deploy:run'
+    | 'deploy:cancel'
+    | 'deploy:group'
+    | 'deploy:cancel-group'
+    | 'deploy:detect-stack'
     | 'deploy:history'
+    | 'deploy:rollback'
     | 'settings:get'
     | 'settings:set';
 
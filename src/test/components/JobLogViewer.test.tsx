@@ -0,0 +1,68 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { act } from '@testing-library/react';
+import { render, screen } from '../utils';
+import JobLogViewer from '../../renderer/components/workflow/JobLogViewer';
+import { WorkflowJob } from '../../shared/types';
+
+const createJob = (status: WorkflowJob['status']): WorkflowJob => ({
+    id: 7,
+    run_id: 3,
+    name: 'build',
+    status,
+    html_url: 'https://github.com/testuser/test-repo/actions/runs/3/job/7',
+    steps: []
+});
+
+const logsResponse = (text: string, status: WorkflowJob['status']) => ({
+    success: true,
+    data: { text, size: text.length, reset: false, job: createJob(status) }
+});
+
+describe('JobLogViewer', () => {
+    const getJobLogs = vi.mocked(window.electronAPI.workflows.getJobLogs);
+
+    const flush = (ms = 0) => act(async () => {
+        await vi.advanceTimersByTimeAsync(ms);
+    });
+
+    beforeEach(() => {
+        vi.useFakeTimers();
+        getJobLogs.mockReset();
+    });
+
+    afterEach(() => {
+        vi.useRealTimers();
+    });
+
+    it('should keep polling a running job after a failed fetch, backing off between retries', async () => {
+        getJobLogs
+            .mockRejectedValueOnce(new Error('socket hang up'))
+            .mockResolvedValueOnce({ success: false, error: 'Rate limited' })
+            .mockResolvedValueOnce(logsResponse('compiling', 'in_progress'));
+
+        render(<JobLogViewer owner="testuser" repo="test-repo" job={createJob('in_progress')} stepNumber={1} />);
+        await flush();
+        expect(screen.getByText('socket hang up')).toBeInTheDocument();
+
+        await flush(5000);
+        expect(getJobLogs).toHaveBeenCalledTimes(2);
+        expect(screen.getByText('Rate limited')).toBeInTheDocument();
+
+        // The second failure doubles the delay
+        await flush(5000);
+        expect(getJobLogs).toHaveBeenCalledTimes(2);
+        await flush(5000);
+        expect(getJobLogs).toHaveBeenCalledTimes(3);
+        expect(screen.queryByText('Rate limited')).not.toBeInTheDocument();
+    });
+
+    it('should not retry a failed fetch once the job has completed', async () => {
+        getJobLogs.mockRejectedValue(new Error('socket hang up'));
+
+        render(<JobLogViewer owner="testuser" repo="test-repo" job={createJob('completed')} stepNumber={1} />);
+        await flush(60 * 1000);
+
+        expect(getJobLogs).toHaveBeenCalledTimes(1);
+        expect(screen.getByText('socket hang up')).toBeInTheDocument();
+    });
+});
@@ -0,0 +1,56 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { render, screen } from '../utils';
+import WorkflowYamlEditor from '../../renderer/components/workflow/WorkflowYamlEditor';
+
+// Monaco does not run in jsdom; a textarea stands in for the editor
+vi.mock('@monaco-editor/react', () => ({
+    default: ({ value }: { value: string }) => <textarea aria-label="Workflow YAML" value={value} readOnly />
+}));
+
+vi.mock('../../renderer/utils/monaco', () => ({
+    languageForPath: () => 'yaml'
+}));
+
+const diagnostic = {
+    severity: 'error' as const,
+    message: 'Job "build" needs "runs-on"',
+    line: 3,
+    column: 3,
+    endLine: 3,
+    endColumn: 9
+};
+
+describe('WorkflowYamlEditor', () => {
+    const onValidated = vi.fn();
+
+    beforeEach(() => {
+        onValidated.mockClear();
+        vi.mocked(window.electronAPI.workflows.validate).mockReset();
+    });
+
+    it('should report the diagnostics together with the text they were found in', async () => {
+        vi.mocked(window.electronAPI.workflows.validate).mockResolvedValue({ success: true, data: [diagnostic] });
+
+        render(<WorkflowYamlEditor path=".github/workflows/ci.yml" value={'jobs:\n  build:\n'} onChange={vi.fn()} onValidated={onValidated} />);
+
+        await vi.waitFor(() => expect(onValidated).toHaveBeenCalledWith({ text: 'jobs:\n  build:\n', diagnostics: [diagnostic] }));
+        expect(await screen.findByText(diagnostic.message)).toBeInTheDocument();
+    });
+
+    it('should report a check that failed instead of keeping the last diagnostics', async () => {
+        vi.mocked(window.electronAPI.workflows.validate)
+            .mockResolvedValueOnce({ success: true, data: [] })
+            .mockResolvedValueOnce({ success: false, error: 'Validator crashed' })
+            .mockRejectedValueOnce(new Error('IPC channel closed'));
+
+        const { rerender } = render(<WorkflowYamlEditor path="ci.yml" value="on: push" onChange={vi.fn()} onValidated={onValidated} />);
+        await vi.waitFor(() => expect(onValidated).toHaveBeenCalledWith({ text: 'on: push', diagnostics: [] }));
+
+        rerender(<WorkflowYamlEditor path="ci.yml" value="on: pull_request" onChange={vi.fn()} onValidated={onValidated} />);
+        await vi.waitFor(() => expect(onValidated).toHaveBeenLastCalledWith({ text: 'on: pull_request', diagnostics: [], error: 'Validator crashed' }));
+        expect(await screen.findByText('Validator crashed')).toBeInTheDocument();
+
+        rerender(<WorkflowYamlEditor path="ci.yml" value="on: [push]" onChange={vi.fn()} onValidated={onValidated} />);
+        await vi.waitFor(() => expect(onValidated).toHaveBeenLastCalledWith({ text: 'on: [push]', diagnostics: [], error: 'IPC channel closed' }));
+    });
+});
@@ -0,0 +1,55 @@
+import { describe, it, expect, afterEach, vi } from 'vitest';
+import { AuthPromptService, PassphraseCache } from '../../main/services/authPrompts';
+import type { SSHAuthPrompt } from '../../shared/types';
+
+const passphrasePrompt: Omit<SSHAuthPrompt, 'id'> = {
+    kind: 'passphrase',
+    target: 'web-1',
+    title: 'Passphrase for ~/.ssh/id_ed25519',
+    prompts: [{ prompt: 'Passphrase', echo: false }],
+    canRemember: true
+};
+
+describe('PassphraseCache', () => {
+    it('should forget passphrases once they expire', () => {
+        let now = 0;
+        const cache = new PassphraseCache(1000, () => now);
+
+        cache.set('path:~/.ssh/id_ed25519', 'hunter2');
+        now = 999;
+        expect(cache.get('path:~/.ssh/id_ed25519')).toBe('hunter2');
+
+        now = 1000;
+        expect(cache.get('path:~/.ssh/id_ed25519')).toBeUndefined();
+    });
+});
+
+describe('AuthPromptService', () => {
+    const service = AuthPromptService.getInstance();
+
+    afterEach(() => {
+        service.removeAllListeners();
+        vi.useRealTimers();
+    });
+
+    it('should resolve with the answer sent for the emitted prompt', async () => {
+        const closed = vi.fn();
+        service.on('prompt', (prompt: SSHAuthPrompt) => service.respond(prompt.id, { responses: ['hunter2'], remember: true }));
+        service.on('closed', closed);
+
+        await expect(service.ask(passphrasePrompt)).resolves.toEqual({ responses: ['hunter2'], remember: true });
+        expect(closed).toHaveBeenCalledTimes(1);
+    });
+
+    it('should give up on prompts nobody answers', async () => {
+        vi.useFakeTimers();
+        let promptId = '';
+        service.on('prompt', (prompt: SSHAuthPrompt) => { promptId = prompt.id; });
+
+        const answer = service.ask(passphrasePrompt);
+        vi.advanceTimersByTime(2 * 60 * 1000);
+
+        await expect(answer).resolves.toBeNull();
+        expect(() => service.respond(promptId, { responses: ['late'] })).toThrow('Prompt is no longer waiting for an answer');
+    });
+});
@@ -0,0 +1,25 @@
+import { describe, it, expect } from 'vitest';
+import { transactionStatement } from '../../main/services/databaseSessions';
+
+describe('transactionStatement', () => {
+    it('should recognise statements that open a transaction', () => {
+        expect(transactionStatement('BEGIN')).toBe('begin');
+        expect(transactionStatement('begin transaction;')).toBe('begin');
+        expect(transactionStatement('START TRANSACTION READ ONLY')).toBe('begin');
+        expect(transactionStatement('-- move funds\nBEGIN;')).toBe('begin');
+    });
+
+    it('should recognise statements that finish a transaction', () => {
+        expect(transactionStatement('COMMIT')).toBe('end');
+        expect(transactionStatement('rollback;')).toBe('end');
+        expect(transactionStatement('END TRANSACTION')).toBe('end');
+        expect(transactionStatement('/* undo */ ABORT')).toBe('end');
+    });
+
+    it('should leave savepoints and other statements alone', () => {
+        expect(transactionStatement('ROLLBACK TO SAVEPOINT before_update')).toBeNull();
+        expect(transactionStatement('SELECT * FROM begin_dates')).toBeNull();
+        expect(transactionStatement('UPDATE accounts SET balance = 0')).toBeNull();
+        expect(transactionStatement('BEGIN; UPDATE accounts SET balance = 0; COMMIT;')).toBeNull();
+    });
+});
@@ -0,0 +1,188 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+
+type Row = Record<string, unknown>;
+
+const { tables, secrets } = vi.hoisted(() => ({
+    tables: {} as Record<string, Record<string, unknown>[]>,
+    secrets: new Map<string, unknown>()
+}));
+
+// Enough of sqlite3 for the single-table statements DeploymentService runs
+vi.mock('sqlite3', () => ({
+    default: {
+        Database: class {
+            run(query: string, params: unknown[], cb: (err: Error | null) => void) {
+                const insert = query.match(/INSERT INTO (\w+) \(([^)]*)\)/);
+                const update = query.match(/UPDATE (\w+)\s+SET ([\s\S]*?)\s+WHERE id = \?/);
+                const remove = query.match(/DELETE FROM (\w+) WHERE id = \?/);
+                if (insert) {
+                    const columns = insert[2].split(',').map(column => column.trim());
+                    (tables[insert[1]] ??= []).push(Object.fromEntries(columns.map((column, index) => [column, params[index]])));
+                } else if (update) {
+                    const columns = update[2].split(',').map(assignment => assignment.split('=')[0].trim());
+                    const row = (tables[update[1]] ?? []).find(candidate => candidate.id === params[columns.length]);
+                    columns.forEach((column, index) => {
+                        if (row) {
+                            row[column] = params[index];
+                        }
+                    });
+                } else if (remove) {
+                    tables[remove[1]] = (tables[remove[1]] ?? []).filter(row => row.id !== params[0]);
+                }
+                cb(null);
+            }
+
+            all(query: string, params: unknown[], cb: (err: Error | null, rows: unknown[]) => void) {
+                const select = query.match(/FROM (\w+)(?: WHERE (\w+) = \?)?/);
+                const rows = select ? tables[select[1]] ?? [] : [];
+                cb(null, rows.filter(row => !select?.[2] || row[select[2]] === params[0]).map(row => ({ ...row })));
+            }
+        }
+    }
+}));
+
+vi.mock('electron', () => ({
+    app: { getPath: () => '/tmp/dcc-deployment-test' }
+}));
+
+vi.mock('../../main/security/secureStorage', () => ({
+    SecureStorageService: {
+        getInstance: () => ({
+            retrieve: async (key: string) => secrets.get(key) ?? null,
+            store: async (key: string, data: unknown) => {
+                secrets.set(key, data);
+            },
+            exists: (key: string) => secrets.has(key),
+            delete: async (key: string) => {
+                secrets.delete(key);
+            }
+        })
+    }
+}));
+
+vi.mock('../../main/services/serverManagement', () => ({
+    serverManagementService: {
+        directDeploy: vi.fn()
+    }
+}));
+
+vi.mock('../../main/services/dashboard', () => ({
+    DashboardService: {
+        addActivity: vi.fn()
+    }
+}));
+
+import { DeploymentService } from '../../main/services/deployment';
+import { serverManagementService } from '../../main/services/serverManagement';
+import type { DeploymentConfigInput, DirectDeploymentRequest, DirectDeploymentResult, GroupDeploymentRequest } from '../../shared/types';
+
+const repository = {
+    id: 7,
+    name: 'shop',
+    fullName: 'octo/shop',
+    cloneUrl: 'https://github.com/octo/shop.git',
+    defaultBranch: 'main',
+    private: true
+};
+
+const configInput = {
+    name: 'Shop production',
+    serverId: 'server-1',
+    repositoryId: 7,
+    repository,
+    branch: 'main',
+    deployPath: '/var/www/shop',
+    isActive: true,
+    envVars: { APP_KEY: 'base64:secret' }
+} as unknown as DeploymentConfigInput;
+
+// A fresh service each time, rather than the app-wide instance
+const createService = () => new (DeploymentService as unknown as new () => DeploymentService)();
+
+const configRows = (): Row[] => tables.deployment_configs ?? [];
+
+const deployResult = (id: string, request: DirectDeploymentRequest) => ({
+    id,
+    success: true,
+    serverId: request.serverId,
+    repository,
+    branch: request.branch,
+    targetPath: request.targetPath,
+    commitSha: request.commitSha ?? 'abc1234def',
+    rollbackOf: request.rollbackOf,
+    startedAt: '2024-01-01T00:00:00.000Z',
+    finishedAt: '2024-01-01T00:01:00.000Z',
+    durationMs: 60000,
+    steps: []
+}) as unknown as DirectDeploymentResult;
+
+describe('DeploymentService', () => {
+    beforeEach(() => {
+        Object.keys(tables).forEach(table => delete tables[table]);
+        secrets.clear();
+    });
+
+    describe('deployment configurations', () => {
+        it('should keep environment variables in secure storage instead of config_json', async () => {
+            const service = createService();
+
+            const config = await service.createConfig(configInput);
+
+            expect(JSON.parse(configRows()[0].config_json as string)).not.toHaveProperty('envVars');
+            expect(secrets.get(`deployment-env-${config.id}`)).toEqual({ APP_KEY: 'base64:secret' });
+            expect((await service.getConfig(config.id)).envVars).toEqual({ APP_KEY: 'base64:secret' });
+            expect((await service.listConfigs())[0].envVars).toEqual({ APP_KEY: 'base64:secret' });
+
+            await service.updateConfig(config.id, { envVars: {} });
+            expect(secrets.has(`deployment-env-${config.id}`)).toBe(false);
+        });
+
+        it('should remove the environment variables of deleted configurations', async () => {
+            const service = createService();
+            const config = await service.createConfig(configInput);
+
+            await service.deleteConfig(config.id);
+
+            expect(configRows()).toEqual([]);
+            expect(secrets.size).toBe(0);
+        });
+    });
+
+    describe('rollback', () => {
+        it('should replay the recorded request with its environment variables', async () => {
+            vi.mocked(serverManagementService.directDeploy)
+                .mockImplementationOnce(async request => deployResult('deployment-1', request))
+                .mockImplementationOnce(async request => deployResult('deployment-2', request));
+            const service = createService();
+            await service.deploy({
+                serverId: 'server-1',
+                repository,
+                branch: 'main',
+                targetPath: '/var/www/shop',
+                environmentVariables: { APP_KEY: 'base64:secret' }
+            } as unknown as DirectDeploymentRequest);
+
+            expect(tables.deployment_history[0].request_json).not.toContain('base64:secret');
+
+            await service.rollback('deployment-1');
+
+            expect(serverManagementService.directDeploy).toHaveBeenLastCalledWith(expect.objectContaining({
+                commitSha: 'abc1234def',
+                rollbackOf: 'deployment-1',
+                clean: false,
+                environmentVariables: { APP_KEY: 'base64:secret' }
+            }));
+        });
+    });
+
+    describe('group deployments', () => {
+        it('should refuse rolling and canary rollouts without a health check', async () => {
+            const deployment = { repository, branch: 'main', targetPath: '/var/www/shop' } as unknown as GroupDeploymentRequest['deployment'];
+
+            await expect(createService().deployGroup({ group: { tag: 'web' }, strategy: 'rolling', deployment }))
+                .rejects.toThrow('Rolling and canary deployments require a health check');
+            await expect(createService().deployGroup({ group: { tag: 'web' }, strategy: 'canary', deployment }))
+                .rejects.toThrow('Rolling and canary deployments require a health check');
+        });
+    });
+});
@@ -0,0 +1,57 @@
+import { describe, it, expect } from 'vitest';
+import { planDeploymentBatches, selectGroupServers } from '../../main/services/deploymentGroups';
+import type { VPSServer } from '../../shared/types';
+
+const createServer = (id: string, environment: VPSServer['environment'], tags: string[]): VPSServer => ({
+    id,
+    name: `web-${id}`,
+    host: `${id}.example.com`,
+    hostname: `${id}.example.com`,
+    ip: '',
+    port: 22,
+    username: 'deploy',
+    status: 'connected',
+    environment,
+    tags
+});
+
+const servers = [
+    createServer('3', 'production', ['web', 'eu']),
+    createServer('1', 'production', ['Web']),
+    createServer('2', 'staging', ['web']),
+    createServer('4', 'production', ['worker'])
+];
+
+describe('selectGroupServers', () => {
+    it('should match environment and tag together, ordered by name', () => {
+        expect(selectGroupServers(servers, { environment: 'production', tag: 'web' }).map(server => server.id)).toEqual(['1', '3']);
+        expect(selectGroupServers(servers, { tag: 'WEB' }).map(server => server.id)).toEqual(['1', '2', '3']);
+    });
+
+    it('should prefer an explicit server list and require a selector', () => {
+        expect(selectGroupServers(servers, { environment: 'staging', serverIds: ['4', '1'] }).map(server => server.id)).toEqual(['1', '4']);
+        expect(() => selectGroupServers(servers, {})).toThrow('Select servers by environment, tag or id');
+    });
+});
+
+describe('planDeploymentBatches', () => {
+    const ids = ['a', 'b', 'c', 'd', 'e'];
+
+    it('should deploy everything at once or in rolling batches', () => {
+        expect(planDeploymentBatches(ids, { strategy: 'all' })).toEqual([ids]);
+        expect(planDeploymentBatches(ids, { strategy: 'rolling' })).toEqual([['a'], ['b'], ['c'], ['d'], ['e']]);
+        expect(planDeploymentBatches(ids, { strategy: 'rolling', batchSize: 2 })).toEqual([['a', 'b'], ['c', 'd'], ['e']]);
+    });
+
+    it('should put the canary in a batch of its own', () => {
+        expect(planDeploymentBatches(ids, { strategy: 'canary' })).toEqual([['a'], ['b', 'c', 'd', 'e']]);
+        expect(planDeploymentBatches(ids, { strategy: 'canary', canaryServerId: 'c', batchSize: 3 })).toEqual([['c'], ['a', 'b', 'd'], ['e']]);
+        expect(planDeploymentBatches(['a'], { strategy: 'canary' })).toEqual([['a']]);
+    });
+
+    it('should reject invalid plans', () => {
+        expect(() => planDeploymentBatches(ids, { strategy: 'rolling', batchSize: 0 })).toThrow('Batch size must be a positive integer');
+        expect(() => planDeploymentBatches(ids, { strategy: 'canary', canaryServerId: 'z' })).toThrow('not part of the selected group');
+        expect(() => planDeploymentBatches(ids, { strategy: 'blue-green' as never })).toThrow('Unknown rollout strategy');
+    });
+});
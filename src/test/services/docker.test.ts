@@ -0,0 +1,288 @@
+import { describe, it, expect, beforeAll, afterAll, beforeEach, vi } from 'vitest';
+import { EventEmitter } from 'events';
+import * as fs from 'fs';
+import * as http from 'http';
+import * as net from 'net';
+import * as os from 'os';
+import * as path from 'path';
+
+vi.mock('../../main/services/serverManagement', () => ({
+    serverManagementService: {
+        openStreamLocal: vi.fn()
+    }
+}));
+
+import { DockerService, createFrameDecoder } from '../../main/services/docker';
+import { serverManagementService } from '../../main/services/serverManagement';
+import type { DockerEndpoint, DockerStreamData, DockerStreamEnd } from '../../shared/types';
+
+interface RecordedRequest {
+    method: string;
+    url: string;
+}
+
+const frame = (stream: 1 | 2, text: string) => {
+    const payload = Buffer.from(text);
+    const header = Buffer.alloc(8);
+    header[0] = stream;
+    header.writeUInt32BE(payload.length, 4);
+    return Buffer.concat([header, payload]);
+};
+
+// Minimal stand-in for the Docker Engine API served on a unix socket
+const createEngineStub = (requests: RecordedRequest[]) => http.createServer((req, res) => {
+    requests.push({ method: req.method || 'GET', url: req.url || '' });
+    const url = new URL(req.url || '/', 'http://docker');
+    const send = (status: number, body?: unknown) => {
+        res.writeHead(status, { 'Content-Type': 'application/json' });
+        res.end(body === undefined ? '' : JSON.stringify(body));
+    };
+
+    if (url.pathname === '/version') {
+        return send(200, { Version: '24.0.7', ApiVersion: '1.43', Os: 'linux', Arch: 'amd64', KernelVersion: '6.1.0' });
+    }
+    if (url.pathname === '/containers/json') {
+        return send(200, [{
+            Id: 'abc123def4567890',
+            Names: ['/web'],
+            Image: 'nginx:alpine',
+            ImageID: 'sha256:feed',
+            Command: 'nginx -g daemon off;',
+            Created: 1700000000,
+            State: 'running',
+            Status: 'Up 2 hours',
+            Ports: [{ PrivatePort: 80, PublicPort: 8080, Type: 'tcp', IP: '0.0.0.0' }],
+            Labels: { app: 'web' },
+            Mounts: [{ Source: '/srv/logs', Destination: '/var/log/nginx', RW: false }],
+            NetworkSettings: { Networks: { bridge: {} } }
+        }]);
+    }
+    if (url.pathname === '/images/json') {
+        return send(200, [
+            { Id: 'sha256:feed', RepoTags: ['nginx:alpine'], Size: 23500000, Containers: 1, Created: 1700000000 },
+            { Id: 'sha256:dead', RepoTags: ['<none>:<none>'], Size: 100, Containers: -1, Created: 1700000000 }
+        ]);
+    }
+    if (url.pathname === '/networks') {
+        return send(200, [{ Id: 'net1', Name: 'bridge', Driver: 'bridge', Scope: 'local', Internal: false, Containers: { a: {}, b: {} }, Created: '2024-01-01T00:00:00Z' }]);
+    }
+    if (url.pathname === '/volumes') {
+        return send(200, { Volumes: [{ Name: 'data', Driver: 'local', Mountpoint: '/var/lib/docker/volumes/data/_data', Scope: 'local', Labels: null, CreatedAt: '2024-01-01T00:00:00Z' }] });
+    }
+    if (url.pathname === '/containers/abc123def4567890/json') {
+        return send(200, { Id: 'abc123def4567890', Name: '/web' });
+    }
+    if (url.pathname === '/containers/abc123def4567890/logs') {
+        res.writeHead(200, { 'Content-Type': 'application/vnd.docker.multiplexed-stream' });
+        res.write(Buffer.concat([frame(1, 'hello\n'), frame(2, 'oops\n')]).subarray(0, 10));
+        res.end(Buffer.concat([frame(1, 'hello\n'), frame(2, 'oops\n')]).subarray(10));
+        return;
+    }
+    if (url.pathname === '/containers/abc123def4567890/exec') {
+        return send(201, { Id: 'exec1' });
+    }
+    if (url.pathname === '/exec/exec1/json') {
+        return send(200, { ExitCode: 0 });
+    }
+    if (url.pathname === '/containers/missing/start') {
+        return send(404, { message: 'No such container: missing' });
+    }
+    if (req.method === 'POST' && /^\/containers\/[^/]+\/(start|stop|restart)$/.test(url.pathname)) {
+        return send(204);
+    }
+    if (req.method === 'DELETE') {
+        return send(204);
+    }
+    send(404, { message: 'page not found' });
+});
+
+// Exec start hijacks the connection; echo input back and exit on "exit"
+const handleUpgrade = (_req: http.IncomingMessage, socket: net.Socket) => {
+    socket.write('HTTP/1.1 101 UPGRADED\r\nContent-Type: application/vnd.docker.raw-stream\r\nConnection: Upgrade\r\nUpgrade: tcp\r\n\r\n');
+    socket.write('$ ');
+    socket.on('end', () => socket.end());
+    socket.on('data', (chunk: Buffer) => {
+        const text = chunk.toString();
+        if (text.startsWith('exit')) {
+            socket.end();
+            return;
+        }
+        socket.write(`echo:${text}`);
+    });
+};
+
+describe('DockerService', () => {
+    let tempDir: string;
+    let socketPath: string;
+    let server: http.Server;
+    let endpoint: DockerEndpoint;
+    const requests: RecordedRequest[] = [];
+    const docker = DockerService.getInstance();
+
+    beforeAll(async () => {
+        tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'docker-stub-'));
+        socketPath = path.join(tempDir, 'docker.sock');
+        server = createEngineStub(requests);
+        server.on('upgrade', handleUpgrade);
+        await new Promise<void>(resolve => server.listen(socketPath, resolve));
+        endpoint = { type: 'local', socketPath };
+    });
+
+    afterAll(async () => {
+        await new Promise<void>(resolve => server.close(() => resolve()));
+        fs.rmSync(tempDir, { recursive: true, force: true });
+    });
+
+    beforeEach(() => {
+        requests.length = 0;
+    });
+
+    it('reports engine version information', async () => {
+        const info = await docker.getEngineInfo(endpoint);
+        expect(info).toEqual({ version: '24.0.7', apiVersion: '1.43', os: 'linux', arch: 'amd64', kernelVersion: '6.1.0' });
+    });
+
+    it('lists all containers and maps them to the shared shape', async () => {
+        const containers = await docker.listContainers(endpoint);
+
+        expect(requests[0].url).toBe('/containers/json?all=true');
+        expect(containers).toHaveLength(1);
+        expect(containers[0]).toMatchObject({
+            id: 'abc123def4567890',
+            name: 'web',
+            state: 'running',
+            ports: [{ privatePort: 80, publicPort: 8080, type: 'tcp', ip: '0.0.0.0' }],
+            mounts: ['/srv/logs:/var/log/nginx:ro'],
+            networks: ['bridge'],
+            created: new Date(1700000000 * 1000).toISOString()
+        });
+    });
+
+    it('lists images, networks and volumes', async () => {
+        const images = await docker.list(endpoint, 'image');
+        const networks = await docker.list(endpoint, 'network');
+        const volumes = await docker.list(endpoint, 'volume');
+
+        expect(images).toEqual([
+            expect.objectContaining({ repository: 'nginx', tag: 'alpine', size: 23500000, containers: 1 }),
+            expect.objectContaining({ repository: '<none>', tag: '<none>', repoTags: [], containers: 0 })
+        ]);
+        expect(networks).toEqual([expect.objectContaining({ name: 'bridge', containers: 2, internal: false })]);
+        expect(volumes).toEqual([expect.objectContaining({ name: 'data', labels: {}, created: '2024-01-01T00:00:00.000Z' })]);
+    });
+
+    it('returns the raw inspect document', async () => {
+        const details = await docker.inspect(endpoint, 'container', 'abc123def4567890');
+        expect(details).toEqual({ Id: 'abc123def4567890', Name: '/web' });
+    });
+
+    it('sends container lifecycle and remove requests', async () => {
+        await docker.startContainer(endpoint, 'abc');
+        await docker.stopContainer(endpoint, 'abc');
+        await docker.restartContainer(endpoint, 'abc', 5);
+        await docker.remove(endpoint, 'container', 'abc', true);
+        await docker.remove(endpoint, 'volume', 'data');
+
+        expect(requests).toEqual([
+            { method: 'POST', url: '/containers/abc/start' },
+            { method: 'POST', url: '/containers/abc/stop' },
+            { method: 'POST', url: '/containers/abc/restart?t=5' },
+            { method: 'DELETE', url: '/containers/abc?force=true' },
+            { method: 'DELETE', url: '/volumes/data' }
+        ]);
+    });
+
+    it('surfaces Engine API error messages', async () => {
+        await expect(docker.startContainer(endpoint, 'missing')).rejects.toThrow('Docker API error (404): No such container: missing');
+    });
+
+    it('reports an unreachable daemon', async () => {
+        const missing: DockerEndpoint = { type: 'local', socketPath: path.join(tempDir, 'absent.sock') };
+        await expect(docker.getEngineInfo(missing)).rejects.toThrow(/not reachable/);
+    });
+
+    it('tunnels requests for remote servers over the SSH connection', async () => {
+        vi.mocked(serverManagementService.openStreamLocal).mockImplementation(async () => net.connect(socketPath) as any);
+
+        const containers = await docker.listContainers({ type: 'ssh', serverId: 'server-1' });
+
+        expect(serverManagementService.openStreamLocal).toHaveBeenCalledWith('server-1', '/var/run/docker.sock');
+        expect(containers[0].name).toBe('web');
+    });
+
+    it('streams demultiplexed container logs until unsubscribed', async () => {
+        const received: DockerStreamData[] = [];
+        const ended = new Promise<DockerStreamEnd>(resolve => docker.once('stream-end', resolve));
+        const onData = (payload: DockerStreamData) => received.push(payload);
+        docker.on('stream-data', onData);
+
+        const streamId = await docker.subscribeLogs(endpoint, 'abc123def4567890', { tail: 50, timestamps: true });
+        const end = await ended;
+        docker.off('stream-data', onData);
+
+        expect(requests.find(request => request.url.includes('/logs'))?.url)
+            .toBe('/containers/abc123def4567890/logs?follow=true&stdout=true&stderr=true&timestamps=true&tail=50');
+        expect(received).toEqual([
+            { streamId, stream: 'stdout', data: 'hello\n' },
+            { streamId, stream: 'stderr', data: 'oops\n' }
+        ]);
+        expect(end).toEqual({ streamId });
+    });
+
+    it('runs an interactive exec session over a hijacked connection', async () => {
+        const output: string[] = [];
+        const onData = (payload: DockerStreamData) => output.push(payload.data);
+        docker.on('stream-data', onData);
+        const ended = new Promise<DockerStreamEnd>(resolve => docker.once('stream-end', resolve));
+
+        const streamId = await docker.startExec(endpoint, 'abc123def4567890');
+        docker.writeStream(streamId, 'ls\r');
+        await vi.waitFor(() => expect(output.join('')).toContain('echo:ls'));
+        docker.writeStream(streamId, 'exit\r');
+
+        const end = await ended;
+        docker.off('stream-data', onData);
+
+        expect(output.join('')).toBe('$ echo:ls\r');
+        expect(end).toEqual({ streamId, exitCode: 0 });
+        expect(() => docker.writeStream(streamId, 'ls\r')).toThrow('Exec session not found');
+    });
+
+    it('stops watching the window that opened a stream once the stream ends', async () => {
+        const window = new EventEmitter();
+        const ended = new Promise<DockerStreamEnd>(resolve => docker.once('stream-end', resolve));
+
+        const streamId = await docker.startExec(endpoint, 'abc123def4567890');
+        docker.closeWhenDestroyed(streamId, window);
+        expect(window.listenerCount('destroyed')).toBe(1);
+        docker.writeStream(streamId, 'exit\r');
+        await ended;
+
+        expect(window.listenerCount('destroyed')).toBe(0);
+    });
+
+    it('closes a stream when the window that opened it is destroyed', async () => {
+        const window = new EventEmitter();
+        const ended = new Promise<DockerStreamEnd>(resolve => docker.once('stream-end', resolve));
+        const streamId = await docker.startExec(endpoint, 'abc123def4567890');
+        docker.closeWhenDestroyed(streamId, window);
+
+        window.emit('destroyed');
+
+        expect((await ended).streamId).toBe(streamId);
+        expect(() => docker.writeStream(streamId, 'ls\r')).toThrow('Exec session not found');
+        expect(window.listenerCount('destroyed')).toBe(0);
+    });
+
+    it('decodes frames split across chunks', () => {
+        const frames: string[] = [];
+        const decode = createFrameDecoder((stream, payload) => frames.push(`${stream}:${payload.toString()}`));
+        const data = Buffer.concat([frame(1, 'a'), frame(2, 'bc')]);
+
+        for (let i = 0; i < data.length; i++) {
+            decode(data.subarray(i, i + 1));
+        }
+
+        expect(frames).toEqual(['stdout:a', 'stderr:bc']);
+    });
+});
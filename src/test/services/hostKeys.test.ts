@@ -0,0 +1,58 @@
+import { describe, it, expect } from 'vitest';
+import { findKnownHostKeys, fingerprintHostKey, hostKeyAlgorithmsFor, matchesKnownHostPattern, readHostKeyType } from '../../main/services/hostKeys';
+
+const ED25519_KEY = 'AAAAC3NzaC1lZDI1NTE5AAAAII/n0zfoHlWHqVwqxpm5Lh3gkC66GLif65SFPiibkc5X';
+// As printed by `ssh-keygen -lf`
+const ED25519_FINGERPRINT = 'SHA256:6i1xnCibT0hbkDtNz928P5Xx33tIbzvXXf/nt0xOkjE';
+// web.example.com, hashed with `ssh-keygen -H`
+const HASHED_HOST = '|1|Fu8TQy4jX5W03cyGKszfCJltfAk=|CPAfCHyCzEQXNh+sWe5gxF9cjNA=';
+
+describe('host key helpers', () => {
+    it('should fingerprint key blobs like OpenSSH', () => {
+        const blob = Buffer.from(ED25519_KEY, 'base64');
+        expect(fingerprintHostKey(blob)).toBe(ED25519_FINGERPRINT);
+        expect(readHostKeyType(blob)).toBe('ssh-ed25519');
+        expect(readHostKeyType(Buffer.alloc(2))).toBe('unknown');
+    });
+
+    it('should allow every RSA signature algorithm for a pinned RSA key', () => {
+        expect(hostKeyAlgorithmsFor('ssh-rsa')).toEqual(['rsa-sha2-512', 'rsa-sha2-256', 'ssh-rsa']);
+        expect(hostKeyAlgorithmsFor('ssh-ed25519')).toEqual(['ssh-ed25519']);
+    });
+});
+
+describe('matchesKnownHostPattern', () => {
+    it('should match plain, wildcard and non-standard port entries', () => {
+        expect(matchesKnownHostPattern('web.example.com,10.0.0.5', '10.0.0.5', 22)).toBe(true);
+        expect(matchesKnownHostPattern('*.example.com,!db.example.com', 'WEB.example.com', 22)).toBe(true);
+        expect(matchesKnownHostPattern('*.example.com,!db.example.com', 'db.example.com', 22)).toBe(false);
+        expect(matchesKnownHostPattern('[web.example.com]:2222', 'web.example.com', 2222)).toBe(true);
+        expect(matchesKnownHostPattern('web.example.com', 'web.example.com', 2222)).toBe(false);
+    });
+
+    it('should match hashed host names', () => {
+        expect(matchesKnownHostPattern(HASHED_HOST, 'web.example.com', 22)).toBe(true);
+        expect(matchesKnownHostPattern(HASHED_HOST, 'api.example.com', 22)).toBe(false);
+    });
+});
+
+describe('findKnownHostKeys', () => {
+    it('should list keys for the host, flag revoked ones and skip CA entries', () => {
+        const content = [
+            '# comment',
+            '',
+            `${HASHED_HOST} ssh-ed25519 ${ED25519_KEY}`,
+            `@revoked old.example.com ssh-ed25519 ${ED25519_KEY}`,
+            `@cert-authority *.example.com ssh-ed25519 ${ED25519_KEY}`,
+            `api.example.com ssh-ed25519 ${ED25519_KEY} deploy@laptop`
+        ].join('\n');
+
+        expect(findKnownHostKeys(content, 'web.example.com', 22)).toEqual([
+            { keyType: 'ssh-ed25519', fingerprint: ED25519_FINGERPRINT, revoked: false }
+        ]);
+        expect(findKnownHostKeys(content, 'old.example.com', 22)).toEqual([
+            { keyType: 'ssh-ed25519', fingerprint: ED25519_FINGERPRINT, revoked: true }
+        ]);
+        expect(findKnownHostKeys(content, 'db.example.com', 22)).toEqual([]);
+    });
+});
@@ -0,0 +1,54 @@
+import { describe, it, expect } from 'vitest';
+import { resolveJumpChain } from '../../main/services/jumpHosts';
+import type { JumpHost, VPSServer } from '../../shared/types';
+
+const createServer = (id: string, jumpHosts?: JumpHost[]): VPSServer => ({
+    id,
+    name: id,
+    host: `${id}.internal`,
+    hostname: `${id}.internal`,
+    ip: '',
+    port: 22,
+    username: 'deploy',
+    privateKeyPath: '/keys/id_ed25519',
+    status: 'disconnected',
+    environment: 'production',
+    tags: [],
+    jumpHosts
+});
+
+const lookup = (servers: VPSServer[]) => (serverId: string) => servers.find(server => server.id === serverId);
+
+describe('resolveJumpChain', () => {
+    it('should connect directly without jump hosts', () => {
+        expect(resolveJumpChain(createServer('web'), lookup([]))).toEqual([]);
+    });
+
+    it('should expand saved bastions and their own jump hosts, outermost first', () => {
+        const edge = createServer('edge');
+        const bastion = createServer('bastion', [{ type: 'server', serverId: 'edge' }]);
+        const web = createServer('web', [
+            { type: 'server', serverId: 'bastion' },
+            { type: 'inline', host: ' 10.0.0.5 ', port: 2222, username: 'jump', password: 'secret' }
+        ]);
+
+        const chain = resolveJumpChain(web, lookup([edge, bastion, web]));
+
+        expect(chain.map(hop => hop.label)).toEqual(['edge', 'bastion', 'jump@10.0.0.5']);
+        expect(chain[1]).toMatchObject({ host: 'bastion.internal', port: 22, privateKeyPath: '/keys/id_ed25519' });
+        expect(chain[2]).toMatchObject({ host: '10.0.0.5', port: 2222, password: 'secret' });
+    });
+
+    it('should reject loops, missing servers and incomplete hosts', () => {
+        const a = createServer('a', [{ type: 'server', serverId: 'b' }]);
+        const b = createServer('b', [{ type: 'server', serverId: 'a' }]);
+        expect(() => resolveJumpChain(a, lookup([a, b]))).toThrow('Jump host chain loops back to a');
+
+        expect(() => resolveJumpChain(createServer('web', [{ type: 'server', serverId: 'gone' }]), lookup([])))
+            .toThrow('Jump host server not found');
+        expect(() => resolveJumpChain(createServer('web', [{ type: 'inline', host: 'bastion', port: 0, username: 'jump' }]), lookup([])))
+            .toThrow('Invalid port for jump host bastion');
+        expect(() => resolveJumpChain(createServer('web', [{ type: 'inline', host: '', port: 22, username: 'jump' }]), lookup([])))
+            .toThrow('Jump hosts need a host and a username');
+    });
+});
@@ -0,0 +1,61 @@
+import { describe, it, expect } from 'vitest';
+import {
+    AnalyticsCache,
+    fetchComputedStats,
+    languagePercentages,
+    lastPageFromLink,
+    toWeeklyCodeFrequency
+} from '../../main/services/repositoryStats';
+
+describe('repository statistics', () => {
+    it('should retry while GitHub is computing statistics', async () => {
+        const responses = [{ status: 202, data: [] }, { status: 202, data: [] }, { status: 200, data: [1, 2] }];
+        const waits: number[] = [];
+
+        const data = await fetchComputedStats(async () => responses.shift()!, 4, async ms => waits.push(ms));
+
+        expect(data).toEqual([1, 2]);
+        expect(waits).toHaveLength(2);
+    });
+
+    it('should give up when statistics are still being computed', async () => {
+        let calls = 0;
+
+        const data = await fetchComputedStats(async () => {
+            calls++;
+            return { status: 202, data: {} };
+        }, 3, async () => undefined);
+
+        expect(data).toBeNull();
+        expect(calls).toBe(3);
+    });
+
+    it('should count items from the last page link', () => {
+        const link = '<https://api.github.com/repositories/1/commits?per_page=1&page=2>; rel="next", ' +
+            '<https://api.github.com/repositories/1/commits?per_page=1&page=1342>; rel="last"';
+
+        expect(lastPageFromLink(link, 1)).toBe(1342);
+        expect(lastPageFromLink(undefined, 1)).toBe(1);
+        expect(lastPageFromLink(undefined, 0)).toBe(0);
+    });
+
+    it('should turn language bytes into percentages', () => {
+        expect(languagePercentages({ CSS: 250, TypeScript: 700, HTML: 50 })).toEqual({ TypeScript: 70, CSS: 25, HTML: 5 });
+        expect(Object.keys(languagePercentages({ CSS: 250, TypeScript: 700 }))[0]).toBe('TypeScript');
+        expect(languagePercentages({})).toEqual({});
+    });
+
+    it('should report deletions as positive weekly counts', () => {
+        expect(toWeeklyCodeFrequency([[1700352000, 120, -40]])).toEqual([{ week: '2023-11-19', additions: 120, deletions: 40 }]);
+    });
+
+    it('should expire cached analytics', () => {
+        let now = 0;
+        const cache = new AnalyticsCache<string>(1000, () => now);
+        cache.set('octo/app', 'stats');
+
+        expect(cache.get('octo/app')).toBe('stats');
+        now = 1000;
+        expect(cache.get('octo/app')).toBeUndefined();
+    });
+});
@@ -0,0 +1,64 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+
+const { electron } = vi.hoisted(() => ({
+    electron: { userData: '', ready: false, encryptionAvailable: true }
+}));
+
+vi.mock('electron', () => ({
+    app: {
+        getPath: () => electron.userData,
+        getVersion: () => '1.0.0',
+        isReady: () => electron.ready
+    },
+    safeStorage: {
+        isEncryptionAvailable: () => electron.ready && electron.encryptionAvailable,
+        encryptString: (text: string) => Buffer.from(text).reverse(),
+        decryptString: (buffer: Buffer) => Buffer.from(buffer).reverse().toString()
+    }
+}));
+
+import { SecureStorageService } from '../../main/security/secureStorage';
+
+const storedFile = (key: string) => JSON.parse(fs.readFileSync(path.join(electron.userData, 'secure-storage', `${key}.json`), 'utf8'));
+
+describe('SecureStorageService', () => {
+    let storage: SecureStorageService;
+
+    beforeEach(() => {
+        electron.userData = fs.mkdtempSync(path.join(os.tmpdir(), 'dcc-secure-'));
+        electron.ready = false;
+        electron.encryptionAvailable = true;
+        storage = new SecureStorageService();
+    });
+
+    afterEach(() => {
+        fs.rmSync(electron.userData, { recursive: true, force: true });
+    });
+
+    it('should refuse to store secrets in plain text before the app is ready', async () => {
+        await expect(storage.store('server-credentials', { password: 'secret' })).rejects.toThrow('Encryption not available');
+        expect(storage.exists('server-credentials')).toBe(false);
+    });
+
+    it('should encrypt once encryption becomes available', async () => {
+        electron.ready = true;
+
+        await storage.store('server-credentials', { password: 'secret' });
+
+        expect(storedFile('server-credentials').metadata.encrypted).toBe(true);
+        expect(JSON.stringify(storedFile('server-credentials'))).not.toContain('secret');
+        expect(await storage.retrieve('server-credentials')).toEqual({ password: 'secret' });
+    });
+
+    it('should refuse to store secrets when the system has no encryption', async () => {
+        electron.ready = true;
+        electron.encryptionAvailable = false;
+
+        await expect(storage.store('server-credentials', { password: 'secret' })).rejects.toThrow('Encryption not available');
+        await storage.store('preferences', { theme: 'dark' }, { encrypt: false });
+        expect(storedFile('preferences').metadata.encrypted).toBe(false);
+    });
+});
@@ -0,0 +1,704 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { execFileSync } from 'child_process';
+import { EventEmitter } from 'events';
+import * as fs from 'fs';
+import * as http from 'http';
+import { AddressInfo } from 'net';
+import * as os from 'os';
+import * as path from 'path';
+
+const { paths, storage } = vi.hoisted(() => ({
+    paths: { userData: '' },
+    storage: { retrieve: vi.fn(), store: vi.fn() }
+}));
+
+vi.mock('electron', () => ({
+    app: { getPath: () => paths.userData }
+}));
+
+vi.mock('../../main/security/secureStorage', () => ({
+    SecureStorageService: { getInstance: () => storage }
+}));
+
+vi.mock('../../main/services/auth', () => ({
+    AuthService: { getToken: async () => 'ghp_secret123' }
+}));
+
+import { ServerManagementService } from '../../main/services/serverManagement';
+import type { DirectDeploymentProgress, DirectDeploymentRequest, HealthCheckConfig } from '../../shared/types';
+
+const savedServer = { id: 'server-1', name: 'web-1', host: 'web-1.example.com', port: 22, username: 'deploy', authMethod: 'password' };
+
+const repository = {
+    id: 7,
+    name: 'shop',
+    fullName: 'octo/shop',
+    cloneUrl: 'https://github.com/octo/shop.git',
+    defaultBranch: 'main',
+    private: true
+};
+
+type RemoteReply = { stdout?: string; stderr?: string; code?: number };
+
+// Reverses the quoting of `bash -lc '<script>'`, so tests read the script the server would run
+const scriptOf = (command: string) => command.startsWith('bash -lc ')
+    ? command.slice("bash -lc '".length, -1).replace(/'\\''/g, "'")
+    : command;
+
+const runBash = (script: string, env: NodeJS.ProcessEnv = process.env) => execFileSync('bash', ['-c', script], { encoding: 'utf-8', env, stdio: 'pipe' });
+
+/**
+ * Stand in for the SSH connection: every command is recorded and answered by reply,
+ * which defaults to success with no output
+ */
+const stubRemote = (service: ServerManagementService, reply: (script: string) => RemoteReply = () => ({})) => {
+    const scripts: string[] = [];
+    vi.spyOn(service as unknown as { ensureConnected: () => Promise<void> }, 'ensureConnected').mockResolvedValue(undefined);
+    vi.spyOn(service, 'executeStreaming').mockImplementation(async (_serverId, command) => {
+        scripts.push(scriptOf(command));
+        return { stdout: '', stderr: '', code: 0, timedOut: false, ...reply(scriptOf(command)) };
+    });
+    vi.spyOn(service, 'executeCommand').mockImplementation(async (_serverId, command) => (
+        { stdout: '', stderr: '', code: 0, ...reply(scriptOf(command)) }
+    ));
+    return scripts;
+};
+
+// Channel of a fake ssh2 connection; closing it reports the exit code given to finish
+const createChannel = () => {
+    const channel = Object.assign(new EventEmitter(), {
+        stderr: new EventEmitter(),
+        signal: vi.fn(),
+        close: vi.fn(() => channel.finish(null)),
+        finish: (code: number | null) => {
+            setImmediate(() => channel.emit('close', code));
+        }
+    });
+    return channel;
+};
+
+/**
+ * Mark the saved server connected through a fake ssh2 client. Commands run through
+ * executeStreaming get channel; others (the kill sent on cancel) exit straight away.
+ */
+const connectFake = (service: ServerManagementService, channel: ReturnType<typeof createChannel>) => {
+    const commands: string[] = [];
+    const internals = service as unknown as { servers: Map<string, { status: string }>; connections: Map<string, unknown> };
+    internals.servers.get('server-1')!.status = 'connected';
+    internals.connections.set('server-1', {
+        end: vi.fn(),
+        exec: (command: string, cb: (err: Error | undefined, stream: unknown) => void) => {
+            commands.push(command);
+            if (command.startsWith('echo __DCC_PID__$$; ')) {
+                cb(undefined, channel);
+            } else {
+                const done = createChannel();
+                cb(undefined, done);
+                done.finish(0);
+            }
+        }
+    });
+    return commands;
+};
+
+describe('ServerManagementService', () => {
+    let service: ServerManagementService;
+    let serversFile: string;
+
+    beforeEach(() => {
+        paths.userData = fs.mkdtempSync(path.join(os.tmpdir(), 'dcc-servers-'));
+        serversFile = path.join(paths.userData, 'servers.json');
+        storage.retrieve.mockReset();
+        storage.store.mockReset();
+        vi.spyOn(console, 'log').mockImplementation(() => undefined);
+        service = new ServerManagementService();
+    });
+
+    afterEach(() => {
+        service.cleanup();
+        vi.useRealTimers();
+        vi.restoreAllMocks();
+        fs.rmSync(paths.userData, { recursive: true, force: true });
+    });
+
+    // Loads the saved server, so deployments have somewhere to go
+    const loadServer = async () => {
+        fs.writeFileSync(serversFile, JSON.stringify([savedServer]));
+        storage.retrieve.mockResolvedValueOnce({});
+        await service.initialize();
+    };
+
+    describe('initialize', () => {
+        it('should merge saved servers with their stored credentials', async () => {
+            fs.writeFileSync(serversFile, JSON.stringify([savedServer]));
+            storage.retrieve.mockResolvedValueOnce({ 'server-1': { password: 'secret' } });
+
+            await service.initialize();
+
+            expect(await service.getServers()).toEqual([{ ...savedServer, password: 'secret', status: 'disconnected' }]);
+            expect(storage.store).not.toHaveBeenCalled();
+        });
+
+        it('should refuse to save when stored credentials cannot be read', async () => {
+            fs.writeFileSync(serversFile, JSON.stringify([savedServer]));
+            storage.retrieve.mockRejectedValueOnce(new Error('Retrieval operation failed: Encryption not available on this system'));
+
+            await service.initialize();
+
+            await expect(service.getServers()).rejects.toThrow('Saved servers could not be loaded');
+            await expect(service.addServer({ ...savedServer, name: 'web-2' } as never)).rejects.toThrow('Saved servers could not be loaded');
+            expect(storage.store).not.toHaveBeenCalled();
+            expect(JSON.parse(fs.readFileSync(serversFile, 'utf-8'))).toEqual([savedServer]);
+        });
+
+        it('should keep plaintext credentials in place when moving them to secure storage fails', async () => {
+            fs.writeFileSync(serversFile, JSON.stringify([{ ...savedServer, password: 'secret' }]));
+            storage.retrieve.mockResolvedValueOnce(null);
+            storage.store.mockRejectedValueOnce(new Error('Storage operation failed: Encryption not available on this system'));
+
+            await service.initialize();
+
+            expect((await service.getServers())[0].password).toBe('secret');
+            expect(JSON.parse(fs.readFileSync(serversFile, 'utf-8'))[0].password).toBe('secret');
+        });
+    });
+
+    describe('directDeploy with releases', () => {
+        let target: string;
+
+        beforeEach(async () => {
+            await loadServer();
+            target = path.join(paths.userData, 'shop');
+            vi.useFakeTimers({ toFake: ['Date'] });
+            vi.setSystemTime(new Date('2024-05-01T12:30:45Z'));
+        });
+
+        const deploy = (request: Partial<DirectDeploymentRequest> = {}) => service.directDeploy({
+            serverId: 'server-1',
+            repository,
+            branch: 'main',
+            targetPath: target,
+            useGitHubPat: false,
+            strategy: 'releases',
+            ...request
+        });
+
+        it('should build into a timestamped release with shared links', async () => {
+            const scripts = stubRemote(service);
+
+            const result = await deploy({
+                sharedPaths: ['.env', 'storage/'],
+                preDeployScript: 'php artisan down',
+                environmentVariables: { APP_ENV: "it's production" }
+            });
+
+            expect(result.success).toBe(true);
+            expect(result.release).toMatch(/^20240501123045-[0-9a-f]{4}$/);
+            expect(result.steps.map(step => step.name)).toEqual([
+                `Create release ${result.release}`,
+                'Link shared files',
+                'Pre-deploy script',
+                'Activate release',
+                'Keep last 5 releases'
+            ]);
+            const [layout, links, preDeploy] = scripts;
+            expect(layout).toContain(`RELEASE='${target}/releases/${result.release}'`);
+            expect(layout).toContain('git clone --branch "$BRANCH" "$TARGET/repo" "$RELEASE"');
+            expect(links).toContain(`ln -s "$SHARED"/'.env' "$RELEASE"/'.env'`);
+            expect(links).toContain(`ln -s "$SHARED"/'storage' "$RELEASE"/'storage'`);
+            expect(preDeploy).toBe(`set -e\nexport APP_ENV='it'\\''s production'\ncd '${target}/releases/${result.release}'\nphp artisan down`);
+        });
+
+        it('should give deploys started in the same second their own release', async () => {
+            stubRemote(service);
+
+            const first = await deploy();
+            const second = await deploy();
+
+            expect(first.release).not.toBe(second.release);
+        });
+
+        it('should remove a release whose checkout failed', async () => {
+            const source = path.join(paths.userData, 'source');
+            runBash([
+                `git init -q -b main '${source}'`,
+                `git -C '${source}' -c user.name=test -c user.email=test@example.com commit -q --allow-empty -m initial`
+            ].join('\n'));
+            const scripts = stubRemote(service, () => ({ code: 1, stderr: 'fatal: reference is not a tree' }));
+
+            const result = await deploy({ repository: { ...repository, cloneUrl: source }, commitSha: 'deadbeef' });
+
+            expect(result.success).toBe(false);
+            expect(() => runBash(scripts[0])).toThrow();
+            expect(fs.readdirSync(path.join(target, 'releases'))).toEqual([]);
+        });
+
+        it('should switch current to the new release in one rename', async () => {
+            const scripts = stubRemote(service);
+            fs.mkdirSync(path.join(target, 'releases', '20240401000000'), { recursive: true });
+            fs.symlinkSync('releases/20240401000000', path.join(target, 'current'));
+
+            const { release } = await deploy();
+            fs.mkdirSync(path.join(target, 'releases', release!));
+            runBash(scripts.find(script => script.includes('mv -Tf current.tmp current'))!);
+
+            expect(fs.readlinkSync(path.join(target, 'current'))).toBe(`releases/${release}`);
+            expect(fs.existsSync(path.join(target, 'current.tmp'))).toBe(false);
+        });
+
+        it('should keep the newest releases and never remove the live one', async () => {
+            const scripts = stubRemote(service);
+            const releases = ['20240101000000-0a1b', '20240201000000-2c3d', '20240301000000-4e5f', '20240401000000-6a7b'];
+            releases.forEach(release => fs.mkdirSync(path.join(target, 'releases', release), { recursive: true }));
+            // Live on an old release, as after a rollback
+            fs.symlinkSync('releases/20240101000000-0a1b', path.join(target, 'current'));
+
+            const { release } = await deploy({ keepReleases: 2 });
+            fs.mkdirSync(path.join(target, 'releases', release!));
+            runBash(scripts.find(script => script.includes('tail -n +3'))!);
+
+            expect(fs.readdirSync(path.join(target, 'releases')).sort()).toEqual(['20240101000000-0a1b', '20240401000000-6a7b', release]);
+        });
+
+        it('should remove a release that failed before it went live', async () => {
+            const scripts = stubRemote(service, script => (script.includes('php artisan down') ? { code: 1, stderr: 'maintenance mode failed' } : {}));
+
+            const result = await deploy({ preDeployScript: 'php artisan down' });
+
+            expect(result).toMatchObject({ success: false, error: 'maintenance mode failed' });
+            expect(scripts.some(script => script.includes('mv -Tf'))).toBe(false);
+            expect(service.executeCommand).toHaveBeenLastCalledWith('server-1', `rm -rf '${target}/releases/${result.release}'`, expect.anything());
+        });
+    });
+
+    describe('directDeploy in place', () => {
+        it('should export environment variables to the pre- and post-deploy scripts', async () => {
+            await loadServer();
+            const scripts = stubRemote(service);
+
+            await service.directDeploy({
+                serverId: 'server-1',
+                repository,
+                branch: 'main',
+                targetPath: '/var/www/shop',
+                useGitHubPat: false,
+                preDeployScript: 'echo "$APP_ENV"',
+                postDeployScript: 'echo "$APP_ENV"',
+                environmentVariables: { APP_ENV: 'production' }
+            });
+
+            const scriptsRunning = (line: string) => scripts.filter(script => script.endsWith(line));
+            expect(scriptsRunning('echo "$APP_ENV"')).toEqual([
+                "set -e\nexport APP_ENV='production'\ncd '/var/www/shop'\necho \"$APP_ENV\"",
+                "set -e\nexport APP_ENV='production'\ncd '/var/www/shop'\necho \"$APP_ENV\""
+            ]);
+        });
+    });
+
+    describe('directDeploy output', () => {
+        // Streams the chunks as the output of the first step and returns what was forwarded for it
+        const forwardedOutput = async (chunks: string[]) => {
+            await loadServer();
+            stubRemote(service);
+            vi.mocked(service.executeStreaming).mockImplementationOnce(async (_serverId, _command, options) => {
+                chunks.forEach(chunk => options?.onData?.('stdout', chunk));
+                return { stdout: chunks.join(''), stderr: '', code: 0, timedOut: false };
+            });
+            const output: string[] = [];
+            service.on('server-deployment-progress', (progress: DirectDeploymentProgress) => {
+                if (progress.type === 'step-output') {
+                    output.push(progress.data);
+                }
+            });
+
+            await service.directDeploy({
+                serverId: 'server-1',
+                repository,
+                branch: 'main',
+                targetPath: '/var/www/shop',
+                useGitHubPat: true
+            });
+            return output;
+        };
+
+        it('should forward output at each carriage return', async () => {
+            expect(await forwardedOutput(['Installing 10%\r', 'Installing 50%\r', 'done\n'])).toEqual([
+                'Installing 10%\r',
+                'Installing 50%\r',
+                'done\n'
+            ]);
+        });
+
+        it('should forward a long line before it ends without splitting a secret', async () => {
+            const output = await forwardedOutput(['x'.repeat(20000) + 'ghp_sec', 'ret123 cloned']);
+
+            expect(output).toEqual(['x'.repeat(19995), 'xxxxx*** cloned']);
+        });
+    });
+
+    describe('executeStreaming', () => {
+        let channel: ReturnType<typeof createChannel>;
+        let commands: string[];
+
+        beforeEach(async () => {
+            await loadServer();
+            channel = createChannel();
+            commands = connectFake(service, channel);
+        });
+
+        it('should read the remote pid from the first line and keep it out of the output', async () => {
+            const onData = vi.fn();
+            const running = service.executeStreaming('server-1', 'npm ci', { onData });
+
+            channel.emit('data', Buffer.from('__DCC_PI'));
+            channel.emit('data', Buffer.from('D__4242\nadded 12'));
+            channel.emit('data', Buffer.from(' packages\n'));
+            channel.stderr.emit('data', Buffer.from('npm warn deprecated\n'));
+            channel.finish(0);
+
+            expect(await running).toEqual({ stdout: 'added 12 packages\n', stderr: 'npm warn deprecated\n', code: 0, timedOut: false });
+            expect(commands).toEqual(['echo __DCC_PID__$$; npm ci']);
+            expect(onData.mock.calls).toEqual([
+                ['stdout', 'added 12'],
+                ['stdout', ' packages\n'],
+                ['stderr', 'npm warn deprecated\n']
+            ]);
+        });
+
+        it('should pass the first line through when it carries no pid', async () => {
+            const running = service.executeStreaming('server-1', 'ls');
+
+            channel.emit('data', Buffer.from('README.md\n'));
+            channel.finish(0);
+
+            expect((await running).stdout).toBe('README.md\n');
+        });
+
+        it('should kill the remote process group on cancel and close the channel after a grace period', async () => {
+            vi.useFakeTimers({ toFake: ['setTimeout', 'clearTimeout'] });
+            const controller = new AbortController();
+            const running = service.executeStreaming('server-1', 'sleep 600', { signal: controller.signal });
+            channel.emit('data', Buffer.from('__DCC_PID__4242\n'));
+
+            controller.abort();
+
+            expect(commands[1]).toBe('kill -TERM -- -4242 2>/dev/null || kill -TERM 4242 2>/dev/null');
+            expect(channel.signal).toHaveBeenCalledWith('TERM');
+            vi.advanceTimersByTime(4999);
+            expect(channel.close).not.toHaveBeenCalled();
+            vi.advanceTimersByTime(1);
+            expect(await running).toMatchObject({ code: 1, timedOut: false });
+        });
+
+        it('should kill the process group once its pid arrives when cancelled before', async () => {
+            const controller = new AbortController();
+            const running = service.executeStreaming('server-1', 'sleep 600', { signal: controller.signal });
+
+            controller.abort();
+            expect(commands).toHaveLength(1);
+            channel.emit('data', Buffer.from('__DCC_PID__4242\n'));
+            channel.finish(143);
+
+            expect(commands[1]).toBe('kill -TERM -- -4242 2>/dev/null || kill -TERM 4242 2>/dev/null');
+            expect((await running).code).toBe(143);
+        });
+
+        it('should kill the remote process group when the step times out', async () => {
+            vi.useFakeTimers({ toFake: ['setTimeout', 'clearTimeout'] });
+            const running = service.executeStreaming('server-1', 'sleep 600', { timeoutMs: 60000 });
+            channel.emit('data', Buffer.from('__DCC_PID__4242\n'));
+
+            vi.advanceTimersByTime(60000);
+            expect(commands[1]).toBe('kill -TERM -- -4242 2>/dev/null || kill -TERM 4242 2>/dev/null');
+            channel.finish(143);
+
+            expect(await running).toEqual({ stdout: '', stderr: '', code: 143, timedOut: true });
+        });
+
+        it('should refuse to start once the signal is aborted', async () => {
+            const controller = new AbortController();
+            controller.abort();
+
+            await expect(service.executeStreaming('server-1', 'ls', { signal: controller.signal })).rejects.toThrow('Command cancelled');
+            expect(commands).toEqual([]);
+        });
+    });
+
+    describe('dependency installs', () => {
+        let target: string;
+        let bin: string;
+        let installLog: string;
+
+        beforeEach(async () => {
+            await loadServer();
+            target = path.join(paths.userData, 'shop');
+            bin = path.join(paths.userData, 'bin');
+            installLog = path.join(paths.userData, 'installs.log');
+            fs.mkdirSync(target);
+            fs.mkdirSync(bin);
+            // Package managers that only record that they ran and create their dependency directory
+            const fakeManager = (name: string, dir: string) => {
+                fs.writeFileSync(path.join(bin, name), `#!/bin/sh\necho "${name} $*" >> '${installLog}'\nmkdir -p ${dir}\n`, { mode: 0o755 });
+            };
+            fakeManager('npm', 'node_modules');
+            fakeManager('yarn', 'node_modules');
+            fakeManager('composer', 'vendor');
+        });
+
+        // Deploy in place with the given lockfiles present and return the install scripts
+        const installScripts = async (lockfiles: string[], request: Partial<DirectDeploymentRequest> = {}) => {
+            const scripts = stubRemote(service, script => (script.includes('for f in') ? { stdout: lockfiles.map(file => `${file}\n`).join('') } : {}));
+            const result = await service.directDeploy({
+                serverId: 'server-1',
+                repository,
+                branch: 'main',
+                targetPath: target,
+                useGitHubPat: false,
+                installDependencies: true,
+                ...request
+            });
+            return {
+                release: result.release,
+                steps: result.steps.map(step => step.name).filter(name => name.startsWith('Install')),
+                scripts: scripts.filter(script => script.includes('LOCK_HASH'))
+            };
+        };
+
+        const install = (script: string) => runBash(script, { ...process.env, PATH: `${bin}:${process.env.PATH}` });
+        const installs = () => (fs.existsSync(installLog) ? fs.readFileSync(installLog, 'utf-8').trim().split('\n') : []);
+
+        it('should skip the install while the lockfile is unchanged', async () => {
+            fs.writeFileSync(path.join(target, 'package-lock.json'), '{"lockfileVersion":3}');
+            const { scripts: [script] } = await installScripts(['package-lock.json']);
+
+            install(script);
+            const output = install(script);
+
+            expect(installs()).toEqual(['npm ci']);
+            expect(output).toContain('package-lock.json unchanged since the last deploy; skipping install');
+            expect(fs.readFileSync(path.join(target, 'node_modules', '.dcc-lock-sha256'), 'utf-8').trim()).toMatch(/^[0-9a-f]{64}$/);
+        });
+
+        it('should install again when the lockfile changed', async () => {
+            fs.writeFileSync(path.join(target, 'package-lock.json'), '{"lockfileVersion":3}');
+            const { scripts: [script] } = await installScripts(['package-lock.json']);
+
+            install(script);
+            fs.writeFileSync(path.join(target, 'package-lock.json'), '{"lockfileVersion":3,"packages":{}}');
+            install(script);
+
+            expect(installs()).toEqual(['npm ci', 'npm ci']);
+        });
+
+        it('should always install when reusing unchanged dependencies is off', async () => {
+            fs.writeFileSync(path.join(target, 'package-lock.json'), '{"lockfileVersion":3}');
+            const { scripts: [script] } = await installScripts(['package-lock.json'], { reuseUnchangedDependencies: false });
+
+            install(script);
+            install(script);
+
+            expect(installs()).toEqual(['npm ci', 'npm ci']);
+        });
+
+        it('should not install anything without a lockfile', async () => {
+            expect(await installScripts([])).toEqual({ steps: [], scripts: [] });
+        });
+
+        it('should run one JavaScript package manager next to other ecosystems', async () => {
+            const { steps, scripts } = await installScripts(['yarn.lock', 'package-lock.json', 'composer.lock']);
+
+            expect(steps).toEqual(['Install dependencies (yarn)', 'Install dependencies (composer)']);
+            expect(scripts[0]).toContain('yarn install --frozen-lockfile');
+            expect(scripts[1]).toContain(`if [ -d 'vendor' ]; then echo "$LOCK_HASH" > 'vendor'/.dcc-lock-sha256; fi`);
+        });
+
+        it('should copy dependencies from the live release when its lockfile matches', async () => {
+            const live = path.join(target, 'releases', '20240401000000-0a1b');
+            fs.mkdirSync(live, { recursive: true });
+            fs.symlinkSync('releases/20240401000000-0a1b', path.join(target, 'current'));
+            const { release: name, scripts: [script] } = await installScripts(['composer.lock'], { strategy: 'releases' });
+            const release = path.join(target, 'releases', name!);
+            [live, release].forEach(dir => {
+                fs.mkdirSync(dir, { recursive: true });
+                fs.writeFileSync(path.join(dir, 'composer.lock'), '{"packages":[]}');
+            });
+            install(script.replace(release, live));
+
+            const output = install(script);
+
+            expect(installs()).toEqual(['composer install --no-dev --prefer-dist --no-interaction --optimize-autoloader']);
+            expect(output).toContain('composer.lock unchanged; reused vendor from the live release');
+            expect(fs.existsSync(path.join(release, 'vendor', '.dcc-lock-sha256'))).toBe(true);
+        });
+    });
+
+    describe('health checks', () => {
+        const OLD_SHA = 'a'.repeat(40);
+        const NEW_SHA = 'b'.repeat(40);
+        const probe = { type: 'command' as const, command: 'curl -fsS http://localhost/health' };
+
+        beforeEach(loadServer);
+
+        const deploy = (healthCheck: HealthCheckConfig, request: Partial<DirectDeploymentRequest> = {}) => service.directDeploy({
+            serverId: 'server-1',
+            repository,
+            branch: 'main',
+            targetPath: '/var/www/shop',
+            useGitHubPat: false,
+            healthCheck: { initialDelayMs: 0, backoffMs: 0, ...healthCheck },
+            ...request
+        });
+
+        // Answers the health probe from results in turn, the last one repeating
+        const probeReplies = (...results: number[]) => {
+            let calls = 0;
+            return (script: string): RemoteReply | undefined => {
+                if (!script.endsWith(probe.command)) {
+                    return undefined;
+                }
+                const code = results[Math.min(calls++, results.length - 1)];
+                return code === 0 ? {} : { code, stderr: 'curl: (22) The requested URL returned error: 502' };
+            };
+        };
+
+        const healthStep = (result: { steps: { name: string; stdout: string; stderr: string }[] }) =>
+            result.steps.find(step => step.name === 'Health check')!;
+
+        it('should reject invalid health checks before deploying', async () => {
+            const scripts = stubRemote(service);
+
+            await expect(deploy({ probes: [] })).rejects.toThrow('Health check needs at least one probe');
+            await expect(deploy({ probes: [{ type: 'http', url: 'ftp://example.com' }] })).rejects.toThrow('Health check URL must use http or https');
+            await expect(deploy({ probes: [{ type: 'http', url: 'https://example.com', expectedStatus: 99 }] })).rejects.toThrow('Invalid expected status: 99');
+            await expect(deploy({ probes: [{ ...probe, command: ' ' }] })).rejects.toThrow('Health check command cannot be empty');
+            await expect(deploy({ probes: [{ ...probe, timeoutMs: 500 }] })).rejects.toThrow('Health check timeouts must be at least one second');
+            await expect(deploy({ probes: [probe], attempts: 21 })).rejects.toThrow('Health check attempts must be between 1 and 20');
+            await expect(deploy({ probes: [probe], backoffMs: -1 })).rejects.toThrow('Health check delays must be zero or more milliseconds');
+            expect(scripts).toEqual([]);
+        });
+
+        it('should retry failed probes until an attempt passes', async () => {
+            const replies = probeReplies(22, 22, 0);
+            stubRemote(service, script => replies(script) ?? {});
+
+            const result = await deploy({ probes: [probe], attempts: 3 });
+
+            expect(result).toMatchObject({ success: true, healthCheckPassed: true });
+            expect(healthStep(result).stdout).toContain('Health check passed on attempt 3');
+            expect(healthStep(result).stderr).toBe(`${probe.command} exited with code 22: curl: (22) The requested URL returned error: 502\n`.repeat(2));
+        });
+
+        it('should wait the initial delay and then a doubling backoff between attempts', async () => {
+            vi.useFakeTimers({ toFake: ['setTimeout', 'clearTimeout'] });
+            const replies = probeReplies(22);
+            stubRemote(service, script => replies(script) ?? {});
+
+            const deploying = deploy({ probes: [probe], attempts: 4, initialDelayMs: 1000, backoffMs: 2000 });
+            await vi.advanceTimersByTimeAsync(1000 + 2000 + 4000 + 8000);
+            const result = await deploying;
+
+            expect(result).toMatchObject({ success: false, healthCheckPassed: false, error: expect.stringMatching(/^Health check failed after 4 attempts: /) });
+            expect(healthStep(result).stdout.split('\n').filter(Boolean)).toEqual([
+                'Waiting 1s before attempt 1 of 4',
+                'Waiting 2s before attempt 2 of 4',
+                'Waiting 4s before attempt 3 of 4',
+                'Waiting 8s before attempt 4 of 4'
+            ]);
+        });
+
+        it('should time out HTTP probes that do not answer', async () => {
+            stubRemote(service);
+            const server = http.createServer(() => undefined);
+            await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+            const url = `http://127.0.0.1:${(server.address() as AddressInfo).port}/health`;
+
+            try {
+                const result = await deploy({ probes: [{ type: 'http', url, timeoutMs: 1000 }], attempts: 1 });
+
+                expect(result.error).toBe(`Health check failed after 1 attempt: GET ${url} timed out after 1s`);
+            } finally {
+                server.closeAllConnections();
+                server.close();
+            }
+        });
+
+        it('should check the status and body of HTTP probes', async () => {
+            stubRemote(service);
+            const server = http.createServer((req, res) => {
+                res.writeHead(req.url === '/ready' ? 200 : 503);
+                res.end(req.url === '/ready' ? 'status: ok' : 'starting');
+            });
+            await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+            const base = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+
+            try {
+                const passed = await deploy({ probes: [{ type: 'http', url: `${base}/ready`, expectedStatus: 200, bodyContains: 'ok' }], attempts: 1 });
+                const failed = await deploy({ probes: [{ type: 'http', url: `${base}/health` }], attempts: 1 });
+
+                expect(healthStep(passed).stdout).toContain(`GET ${base}/ready expect 200 containing "ok" returned 200`);
+                expect(failed.error).toBe(`Health check failed after 1 attempt: GET ${base}/health returned 503`);
+            } finally {
+                server.close();
+            }
+        });
+
+        it('should switch current back to the previous release when the check fails', async () => {
+            const replies = probeReplies(22);
+            const scripts = stubRemote(service, script => replies(script) ?? (script.startsWith('readlink') ? { stdout: 'releases/20240401000000\n' } : {}));
+
+            const result = await deploy({ probes: [probe], attempts: 1 }, { strategy: 'releases' });
+
+            expect(result).toMatchObject({
+                success: false,
+                healthCheckPassed: false,
+                autoRollback: { success: true, release: '20240401000000' }
+            });
+            expect(result.error).toMatch(/\. Rolled back to release 20240401000000$/);
+            expect(result.steps.map(step => step.name).slice(-2)).toEqual(['Health check', 'Roll back to release 20240401000000']);
+            expect(scripts[scripts.length - 1]).toBe([
+                'set -e',
+                "cd '/var/www/shop'",
+                "ln -sfn 'releases/20240401000000' current.tmp",
+                'mv -Tf current.tmp current',
+                `rm -rf -- 'releases/${result.release}'`
+            ].join('\n'));
+        });
+
+        it('should check out the previous commit and rerun the build when an in-place check fails', async () => {
+            const replies = probeReplies(22);
+            let commits = [OLD_SHA, NEW_SHA, OLD_SHA];
+            stubRemote(service, script => {
+                if (script.includes('log -1 --format=%H%n%s')) {
+                    const [sha, ...rest] = commits;
+                    commits = rest;
+                    return { stdout: `${sha}\nRelease\n` };
+                }
+                return replies(script) ?? {};
+            });
+
+            const result = await deploy({ probes: [probe], attempts: 1 }, { buildCommand: 'npm run build' });
+
+            expect(result.autoRollback).toEqual({ success: true, release: undefined, commitSha: OLD_SHA });
+            expect(result.error).toMatch(/\. Rolled back to aaaaaaa$/);
+            expect(result.steps.map(step => step.name)).toEqual([
+                'Ensure target directory',
+                'Synchronize repository',
+                'Build',
+                'Health check',
+                'Roll back to aaaaaaa',
+                'Build'
+            ]);
+        });
+
+        it('should leave the failed deployment live when automatic rollback is off', async () => {
+            const replies = probeReplies(22);
+            stubRemote(service, script => replies(script) ?? (script.startsWith('readlink') ? { stdout: 'releases/20240401000000\n' } : {}));
+
+            const result = await deploy({ probes: [probe], attempts: 1, autoRollback: false }, { strategy: 'releases' });
+
+            expect(result).toMatchObject({ success: false, healthCheckPassed: false });
+            expect(result.autoRollback).toBeUndefined();
+            expect(result.steps.some(step => step.name.startsWith('Roll back'))).toBe(false);
+        });
+    });
+});
@@ -0,0 +1,127 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { createHash } from 'crypto';
+
+vi.mock('../../main/services/serverManagement', () => ({
+    serverManagementService: {
+        openSftp: vi.fn()
+    }
+}));
+
+import { SftpService, toRemoteEntry } from '../../main/services/sftp';
+import { serverManagementService } from '../../main/services/serverManagement';
+
+const FILE = 0o100000;
+const DIR = 0o040000;
+const LINK = 0o120000;
+
+const attrs = (mode: number, size = 0) => ({ mode, uid: 0, gid: 0, size, atime: 0, mtime: 1700000000 });
+const sha256 = (text: string) => createHash('sha256').update(Buffer.from(text)).digest('hex');
+
+// Callback-style stand-in for ssh2's SFTPWrapper
+const createSftp = (files: Record<string, string>) => ({
+    realpath: vi.fn((_: string, cb: (err: Error | undefined, path: string) => void) => cb(undefined, '/home/deploy')),
+    readdir: vi.fn(),
+    stat: vi.fn((filePath: string, cb: (err: unknown, stats?: unknown) => void) => {
+        if (filePath in files) {
+            cb(undefined, attrs(FILE | 0o644, files[filePath].length));
+        } else {
+            cb(Object.assign(new Error('No such file'), { code: 2 }));
+        }
+    }),
+    lstat: vi.fn(),
+    readFile: vi.fn((filePath: string, cb: (err: Error | undefined, data: Buffer) => void) => cb(undefined, Buffer.from(files[filePath]))),
+    writeFile: vi.fn((filePath: string, data: Buffer, cb: (err?: Error) => void) => {
+        files[filePath] = data.toString();
+        cb();
+    }),
+    unlink: vi.fn((_: string, cb: (err?: Error) => void) => cb()),
+    rmdir: vi.fn((_: string, cb: (err?: Error) => void) => cb()),
+    chmod: vi.fn()
+});
+
+describe('toRemoteEntry', () => {
+    it('should describe files, directories and symlinks', () => {
+        expect(toRemoteEntry('/etc/nginx/nginx.conf', attrs(FILE | 0o644, 120))).toEqual({
+            name: 'nginx.conf',
+            path: '/etc/nginx/nginx.conf',
+            type: 'file',
+            isDirectory: false,
+            size: 120,
+            permissions: '644',
+            modifiedAt: new Date(1700000000 * 1000).toISOString()
+        });
+        expect(toRemoteEntry('/var/www', attrs(DIR | 0o2775)).permissions).toBe('2775');
+        expect(toRemoteEntry('/var/www/current', attrs(LINK | 0o777), true)).toMatchObject({ type: 'symlink', isDirectory: true });
+    });
+});
+
+describe('SftpService', () => {
+    let files: Record<string, string>;
+    let sftp: ReturnType<typeof createSftp>;
+
+    beforeEach(() => {
+        files = { '/srv/app/.env': 'APP_ENV=production\n' };
+        sftp = createSftp(files);
+        vi.mocked(serverManagementService.openSftp).mockResolvedValue(sftp as never);
+    });
+
+    it('should list the home directory with directories first', async () => {
+        sftp.readdir.mockImplementationOnce((_: string, cb: (err: Error | undefined, list: unknown[]) => void) => cb(undefined, [
+            { filename: 'notes.txt', attrs: attrs(FILE | 0o600, 5) },
+            { filename: 'app', attrs: attrs(DIR | 0o755) },
+            { filename: 'current', attrs: attrs(LINK | 0o777) }
+        ]));
+        sftp.stat.mockImplementationOnce((_: string, cb: (err: unknown, stats?: unknown) => void) => cb(undefined, attrs(DIR | 0o755)));
+
+        const listing = await SftpService.list('server-1', '');
+
+        expect(listing.path).toBe('/home/deploy');
+        expect(listing.entries.map(entry => entry.name)).toEqual(['app', 'current', 'notes.txt']);
+        expect(listing.entries[1]).toMatchObject({ path: '/home/deploy/current', type: 'symlink', isDirectory: true });
+    });
+
+    it('should save only when the remote file is unchanged', async () => {
+        const opened = await SftpService.readTextFile('server-1', '/srv/app/.env');
+        expect(opened.hash).toBe(sha256('APP_ENV=production\n'));
+
+        files['/srv/app/.env'] = 'APP_ENV=staging\n';
+        const conflict = await SftpService.writeTextFile('server-1', '/srv/app/.env', 'APP_DEBUG=false\n', opened.hash);
+        expect(conflict).toEqual({ saved: false, conflict: expect.objectContaining({ content: 'APP_ENV=staging\n' }) });
+        expect(sftp.writeFile).not.toHaveBeenCalled();
+
+        const saved = await SftpService.writeTextFile('server-1', '/srv/app/.env', 'APP_DEBUG=false\n');
+        expect(saved).toMatchObject({ saved: true, file: { path: '/srv/app/.env', hash: sha256('APP_DEBUG=false\n') } });
+        expect(files['/srv/app/.env']).toBe('APP_DEBUG=false\n');
+    });
+
+    it('should report a conflict when the file was deleted', async () => {
+        await expect(SftpService.writeTextFile('server-1', '/srv/app/missing.conf', 'x', 'hash')).resolves.toEqual({ saved: false, conflict: null });
+    });
+
+    it('should refuse binary files, relative paths and the root directory', async () => {
+        files['/srv/app/logo.png'] = '\u0000PNG';
+        await expect(SftpService.readTextFile('server-1', '/srv/app/logo.png')).rejects.toThrow('Binary files cannot be opened');
+        await expect(SftpService.readTextFile('server-1', 'srv/app/.env')).rejects.toThrow('Path must be absolute');
+        await expect(SftpService.delete('server-1', '/srv/../')).rejects.toThrow('Refusing to delete the root directory');
+        await expect(SftpService.chmod('server-1', '/srv/app/.env', 'rwx')).rejects.toThrow('Mode must be an octal value');
+    });
+
+    it('should refuse files that are not valid UTF-8', async () => {
+        files['/srv/app/legacy.conf'] = 'caf\u00e9\n';
+        sftp.readFile.mockImplementationOnce((_: string, cb: (err: Error | undefined, data: Buffer) => void) => cb(undefined, Buffer.from('caf\u00e9\n', 'latin1')));
+
+        await expect(SftpService.readTextFile('server-1', '/srv/app/legacy.conf')).rejects.toThrow('Only UTF-8 text files can be opened');
+    });
+
+    it('should delete directories recursively', async () => {
+        sftp.lstat.mockImplementation((filePath: string, cb: (err: unknown, stats?: unknown) => void) =>
+            cb(undefined, attrs(filePath === '/srv/old' ? DIR | 0o755 : FILE | 0o644)));
+        sftp.readdir.mockImplementationOnce((_: string, cb: (err: Error | undefined, list: unknown[]) => void) =>
+            cb(undefined, [{ filename: 'a.log' }, { filename: 'b.log' }]));
+
+        await SftpService.delete('server-1', '/srv/old/', true);
+
+        expect(sftp.unlink.mock.calls.map(call => call[0])).toEqual(['/srv/old/a.log', '/srv/old/b.log']);
+        expect(sftp.rmdir).toHaveBeenCalledWith('/srv/old', expect.any(Function));
+    });
+});
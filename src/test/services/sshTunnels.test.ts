@@ -0,0 +1,52 @@
+import { describe, it, expect, afterEach } from 'vitest';
+import * as net from 'net';
+import { LocalTunnel, openLocalTunnel } from '../../main/services/sshTunnels';
+
+// Stands in for the database behind the SSH server
+const startEchoServer = () => new Promise<net.Server>(resolve => {
+    const server = net.createServer(socket => socket.pipe(socket));
+    server.listen(0, '127.0.0.1', () => resolve(server));
+});
+
+const exchange = (port: number, message: string) => new Promise<string>((resolve, reject) => {
+    const socket = net.connect(port, '127.0.0.1', () => socket.write(message));
+    socket.once('data', data => {
+        socket.end();
+        resolve(data.toString());
+    });
+    socket.once('close', () => reject(new Error('closed')));
+    socket.once('error', reject);
+});
+
+describe('openLocalTunnel', () => {
+    let echoServer: net.Server | undefined;
+    let tunnel: LocalTunnel | undefined;
+
+    afterEach(async () => {
+        await tunnel?.close();
+        await new Promise(resolve => (echoServer ? echoServer.close(resolve) : resolve(undefined)));
+        tunnel = undefined;
+        echoServer = undefined;
+    });
+
+    it('should carry each local connection over its own channel', async () => {
+        echoServer = await startEchoServer();
+        const { port } = echoServer.address() as net.AddressInfo;
+        let channels = 0;
+        tunnel = await openLocalTunnel(async () => {
+            channels++;
+            return net.connect(port, '127.0.0.1');
+        });
+
+        expect(tunnel.host).toBe('127.0.0.1');
+        await expect(exchange(tunnel.port, 'SELECT 1')).resolves.toBe('SELECT 1');
+        await expect(exchange(tunnel.port, 'SELECT 2')).resolves.toBe('SELECT 2');
+        expect(channels).toBe(2);
+    });
+
+    it('should drop local connections when no channel can be opened', async () => {
+        tunnel = await openLocalTunnel(() => Promise.reject(new Error('Connection refused')));
+
+        await expect(exchange(tunnel.port, 'PING')).rejects.toThrow();
+    });
+});
@@ -0,0 +1,120 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+
+vi.mock('../../main/services/serverManagement', () => ({
+    serverManagementService: {
+        executeCommand: vi.fn()
+    }
+}));
+
+vi.mock('../../main/services/github', () => ({
+    GitHubService: {
+        listDirectory: vi.fn(),
+        getFileText: vi.fn()
+    }
+}));
+
+import { StackDetectionService, detectProjectStack } from '../../main/services/stackDetection';
+import { GitHubService } from '../../main/services/github';
+import { serverManagementService } from '../../main/services/serverManagement';
+
+describe('detectProjectStack', () => {
+    it('should detect Laravel and suggest a releases preset', () => {
+        const detection = detectProjectStack({
+            files: ['app/', 'artisan', 'composer.json', 'composer.lock', 'package.json', 'public/', 'storage/'],
+            composerJson: JSON.stringify({ require: { 'laravel/framework': '^11.0' } }),
+            packageJson: JSON.stringify({ scripts: { build: 'vite build' }, devDependencies: { vite: '^5.0.0' } })
+        });
+
+        expect(detection.stack).toBe('laravel');
+        expect(detection.evidence).toEqual(['artisan', 'composer.json']);
+        expect(detection.preset.strategy).toBe('releases');
+        expect(detection.preset.sharedPaths).toEqual(['.env', 'storage/']);
+        expect(detection.preset.buildCommand).toBe('npm run build');
+        expect(detection.preset.migrateCommand).toBe('php artisan migrate --force');
+        expect(detection.preset.permissions?.paths).toEqual(['storage/', 'bootstrap/cache/']);
+        expect(detection.preset.webRoot).toBe('public');
+    });
+
+    it('should detect WordPress from its root files', () => {
+        const detection = detectProjectStack({ files: ['index.php', 'wp-config-sample.php', 'wp-content/', 'wp-login.php'] });
+
+        expect(detection.stack).toBe('wordpress');
+        expect(detection.preset.strategy).toBe('in-place');
+        expect(detection.preset.permissions?.paths).toEqual(['wp-content/']);
+    });
+
+    it('should tell Node servers from static builds', () => {
+        const server = detectProjectStack({
+            files: ['package.json', 'pnpm-lock.yaml', 'Dockerfile'],
+            packageJson: JSON.stringify({
+                name: '@acme/api',
+                scripts: { build: 'tsc', start: 'node dist/index.js' },
+                dependencies: { express: '^4.19.0' }
+            })
+        });
+        expect(server.stack).toBe('node');
+        expect(server.framework).toBe('Express');
+        expect(server.hasDockerfile).toBe(true);
+        expect(server.preset.buildCommand).toBe('pnpm run build');
+        expect(server.preset.postDeployScript).toContain('pm2 reload api');
+
+        const site = detectProjectStack({
+            files: ['package.json', 'yarn.lock', 'index.html'],
+            packageJson: JSON.stringify({ scripts: { build: 'vite build' }, devDependencies: { vite: '^5.0.0' } })
+        });
+        expect(site.stack).toBe('static');
+        expect(site.framework).toBe('Vite');
+        expect(site.preset.buildCommand).toBe('yarn build');
+        expect(site.preset.webRoot).toBe('dist');
+    });
+
+    it('should fall back to Docker, plain static sites and unknown trees', () => {
+        const compose = detectProjectStack({ files: ['compose.yaml', 'Dockerfile'] });
+        expect(compose.stack).toBe('docker');
+        expect(compose.evidence).toEqual(['Dockerfile', 'compose.yaml']);
+        expect(compose.preset.postDeployScript).toBe('docker compose up -d --build --remove-orphans');
+
+        expect(detectProjectStack({ files: ['index.html', 'css/'] }).stack).toBe('static');
+
+        const unknown = detectProjectStack({ files: ['README.md', 'requirements.txt'], packageJson: 'not json' });
+        expect(unknown.stack).toBe('unknown');
+        expect(unknown.preset.installDependencies).toBe(true);
+    });
+});
+
+describe('StackDetectionService', () => {
+    beforeEach(() => {
+        vi.mocked(GitHubService.listDirectory).mockReset();
+        vi.mocked(GitHubService.getFileText).mockReset();
+        vi.mocked(serverManagementService.executeCommand).mockReset();
+    });
+
+    it('should only fetch manifests that exist in the repository', async () => {
+        vi.mocked(GitHubService.listDirectory).mockResolvedValueOnce(['composer.json', 'wp-content/']);
+        vi.mocked(GitHubService.getFileText).mockResolvedValueOnce('{}');
+
+        const detection = await StackDetectionService.detect({ source: 'github', repository: 'acme/blog', ref: 'main' });
+
+        expect(GitHubService.listDirectory).toHaveBeenCalledWith('acme/blog', '', 'main');
+        expect(GitHubService.getFileText).toHaveBeenCalledTimes(1);
+        expect(GitHubService.getFileText).toHaveBeenCalledWith('acme/blog', 'composer.json', 'main');
+        expect(detection).toMatchObject({ stack: 'wordpress', source: 'github' });
+    });
+
+    it('should read a checked-out tree on the server', async () => {
+        vi.mocked(serverManagementService.executeCommand)
+            .mockResolvedValueOnce({ stdout: 'artisan\ncomposer.json\nstorage/\n', stderr: '', code: 0 })
+            .mockResolvedValueOnce({ stdout: '{"require":{}}', stderr: '', code: 0 });
+
+        const detection = await StackDetectionService.detect({ source: 'server', serverId: 'server-1', path: "/var/www/it's/current" });
+
+        expect(serverManagementService.executeCommand).toHaveBeenNthCalledWith(1, 'server-1', `ls -1Ap '/var/www/it'\\''s/current'`, { timeoutMs: 30000 });
+        expect(detection).toMatchObject({ stack: 'laravel', source: 'server' });
+    });
+
+    it('should reject relative server paths', async () => {
+        await expect(StackDetectionService.detect({ source: 'server', serverId: 'server-1', path: 'www/app' }))
+            .rejects.toThrow('Path must be absolute');
+        expect(serverManagementService.executeCommand).not.toHaveBeenCalled();
+    });
+});
@@ -0,0 +1,114 @@
+import { describe, it, expect, vi } from 'vitest';
+import { EventEmitter } from 'events';
+
+vi.mock('../../main/services/serverManagement', () => ({
+    serverManagementService: {
+        openShell: vi.fn()
+    }
+}));
+
+import { TerminalService, TranscriptBuffer, toTranscriptText } from '../../main/services/terminal';
+import { serverManagementService } from '../../main/services/serverManagement';
+
+const createStream = () => Object.assign(new EventEmitter(), {
+    stderr: new EventEmitter(),
+    write: vi.fn(),
+    setWindow: vi.fn(),
+    close: vi.fn()
+});
+
+describe('toTranscriptText', () => {
+    it('should strip colours, titles and cursor movement', () => {
+        const raw = '\x1b]0;deploy@web-1: ~\x07\x1b[01;32mdeploy@web-1\x1b[00m:~$ ls\r\n\x1b[?2004lapp\x1b[K\r\n';
+        expect(toTranscriptText(raw)).toBe('deploy@web-1:~$ ls\napp\n');
+    });
+
+    it('should apply backspaces and keep the last redraw of a line', () => {
+        expect(toTranscriptText('lss\b \b -la\r\n')).toBe('ls -la\n');
+        expect(toTranscriptText('progress 10%\rprogress 100%\r\ndone')).toBe('progress 100%\ndone');
+    });
+});
+
+const transcriptOf = (maxLength: number, ...chunks: string[]) => {
+    const transcript = new TranscriptBuffer(maxLength);
+    chunks.forEach(chunk => transcript.append(chunk));
+    return transcript.toString();
+};
+
+describe('TranscriptBuffer', () => {
+    it('should drop the oldest output past the limit', () => {
+        expect(transcriptOf(4, 'abc', 'def')).toBe('cdef');
+        expect(transcriptOf(4, 'ab', 'c')).toBe('abc');
+        expect(transcriptOf(4, 'a', 'b', 'c', 'd', 'e', 'fg')).toBe('defg');
+        expect(transcriptOf(4, 'abcdefgh')).toBe('efgh');
+    });
+
+    it('should keep the most recent output across many small chunks', () => {
+        const transcript = new TranscriptBuffer(1024);
+        for (let i = 0; i < 100000; i++) {
+            transcript.append(`line ${i}\n`);
+        }
+        expect(transcript.toString()).toHaveLength(1024);
+        expect(transcript.toString().endsWith('line 99999\n')).toBe(true);
+    });
+});
+
+describe('TerminalService', () => {
+    it('should stream shell output and report the exit once', async () => {
+        const stream = createStream();
+        vi.mocked(serverManagementService.openShell).mockResolvedValueOnce(stream as never);
+        const terminal = TerminalService.getInstance();
+        const data = vi.fn();
+        const exit = vi.fn();
+        terminal.on('data', data);
+        terminal.on('exit', exit);
+
+        const session = await terminal.open('server-1', { cols: 120.7, rows: 30 });
+        expect(serverManagementService.openShell).toHaveBeenCalledWith('server-1', { cols: 120, rows: 30 });
+
+        stream.emit('data', Buffer.from('hello\r\n'));
+        terminal.write(session.id, 'exit\r');
+        terminal.resize(session.id, 100, 40);
+        stream.emit('exit', 0);
+        stream.emit('close');
+        stream.emit('close');
+
+        expect(data).toHaveBeenCalledWith({ sessionId: session.id, data: 'hello\r\n' });
+        expect(stream.write).toHaveBeenCalledWith('exit\r');
+        expect(stream.setWindow).toHaveBeenCalledWith(40, 100, 0, 0);
+        expect(exit).toHaveBeenCalledTimes(1);
+        expect(exit).toHaveBeenCalledWith({ sessionId: session.id, code: 0, signal: undefined });
+        expect(() => terminal.write(session.id, 'ls\r')).toThrow('Terminal session has ended');
+        expect(terminal.getSession(session.id).serverId).toBe('server-1');
+
+        terminal.close(session.id);
+        expect(() => terminal.getSession(session.id)).toThrow('Terminal session not found');
+        terminal.removeAllListeners();
+    });
+
+    it('should close a session when the window that opened it is destroyed', async () => {
+        const stream = createStream();
+        vi.mocked(serverManagementService.openShell).mockResolvedValueOnce(stream as never);
+        const terminal = TerminalService.getInstance();
+        const window = new EventEmitter();
+
+        const session = await terminal.open('server-1', { cols: 80, rows: 24 });
+        terminal.closeWhenDestroyed(session.id, window);
+        window.emit('destroyed');
+
+        expect(stream.close).toHaveBeenCalled();
+        expect(() => terminal.getSession(session.id)).toThrow('Terminal session not found');
+    });
+
+    it('should stop watching the window once the session is closed', async () => {
+        vi.mocked(serverManagementService.openShell).mockResolvedValueOnce(createStream() as never);
+        const terminal = TerminalService.getInstance();
+        const window = new EventEmitter();
+
+        const session = await terminal.open('server-1', { cols: 80, rows: 24 });
+        terminal.closeWhenDestroyed(session.id, window);
+        terminal.close(session.id);
+
+        expect(window.listenerCount('destroyed')).toBe(0);
+    });
+});
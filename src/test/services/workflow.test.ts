@@ -0,0 +1,125 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { WorkflowFileSaveRequest } from '../../shared/types';
+
+const octokit = vi.hoisted(() => ({
+    rest: {
+        git: { getRef: vi.fn(), createRef: vi.fn(), deleteRef: vi.fn() },
+        repos: { createOrUpdateFileContents: vi.fn() },
+        pulls: { create: vi.fn() }
+    }
+}));
+
+vi.mock('@octokit/rest', () => ({
+    Octokit: vi.fn(() => octokit)
+}));
+
+vi.mock('electron', () => ({
+    app: { getPath: () => '/tmp/dcc-workflow-test' }
+}));
+
+vi.mock('../../main/services/auth', () => ({
+    AuthService: { getToken: async () => 'ghp_secret123' }
+}));
+
+vi.mock('../../main/services/dashboard', () => ({
+    DashboardService: { addActivity: vi.fn() }
+}));
+
+import { WorkflowService } from '../../main/services/workflow';
+
+const WORKFLOW = 'name: CI\non: push\njobs:\n  build:\n    runs-on: ubuntu-latest\n    steps:\n      - run: npm test\n';
+
+const httpError = (status: number) => Object.assign(new Error(`HTTP ${status}`), { status });
+
+describe('WorkflowService.saveWorkflowFile', () => {
+    const service = WorkflowService.getInstance();
+
+    const request = (overrides: Partial<WorkflowFileSaveRequest> = {}): WorkflowFileSaveRequest => ({
+        path: '.github/workflows/ci.yml',
+        content: WORKFLOW,
+        sha: 'file-sha-1',
+        message: 'Run tests on push',
+        mode: 'commit',
+        baseBranch: 'main',
+        ...overrides
+    });
+
+    beforeEach(() => {
+        vi.clearAllMocks();
+        octokit.rest.git.getRef.mockResolvedValue({ data: { object: { sha: 'base-commit' } } });
+        octokit.rest.git.createRef.mockResolvedValue({ data: {} });
+        octokit.rest.git.deleteRef.mockResolvedValue({ data: {} });
+        octokit.rest.repos.createOrUpdateFileContents.mockResolvedValue({
+            data: { content: { sha: 'file-sha-2' }, commit: { html_url: 'https://github.com/octo/app/commit/abc' } }
+        });
+        octokit.rest.pulls.create.mockResolvedValue({ data: { number: 12, html_url: 'https://github.com/octo/app/pull/12' } });
+    });
+
+    it('should commit straight to the base branch against the loaded sha', async () => {
+        const result = await service.saveWorkflowFile('octo', 'app', request());
+
+        expect(octokit.rest.repos.createOrUpdateFileContents).toHaveBeenCalledWith(expect.objectContaining({
+            owner: 'octo',
+            repo: 'app',
+            path: '.github/workflows/ci.yml',
+            sha: 'file-sha-1',
+            branch: 'main',
+            content: Buffer.from(WORKFLOW, 'utf-8').toString('base64')
+        }));
+        expect(octokit.rest.git.createRef).not.toHaveBeenCalled();
+        expect(result.file).toEqual({ path: '.github/workflows/ci.yml', sha: 'file-sha-2', content: WORKFLOW, branch: 'main' });
+        expect(result.pullRequest).toBeUndefined();
+    });
+
+    it('should commit to a new branch from the base and open a pull request', async () => {
+        const result = await service.saveWorkflowFile('octo', 'app', request({ mode: 'pull-request', branch: 'ci/run-tests' }));
+
+        expect(octokit.rest.git.getRef).toHaveBeenCalledWith({ owner: 'octo', repo: 'app', ref: 'heads/main' });
+        expect(octokit.rest.git.createRef).toHaveBeenCalledWith({ owner: 'octo', repo: 'app', ref: 'refs/heads/ci/run-tests', sha: 'base-commit' });
+        expect(octokit.rest.repos.createOrUpdateFileContents).toHaveBeenCalledWith(expect.objectContaining({ branch: 'ci/run-tests' }));
+        expect(octokit.rest.pulls.create).toHaveBeenCalledWith(expect.objectContaining({ head: 'ci/run-tests', base: 'main', title: 'Run tests on push' }));
+        expect(result.pullRequest).toEqual({ number: 12, url: 'https://github.com/octo/app/pull/12' });
+    });
+
+    it('should delete the new branch when the commit to it fails', async () => {
+        octokit.rest.repos.createOrUpdateFileContents.mockRejectedValueOnce(httpError(500));
+
+        await expect(service.saveWorkflowFile('octo', 'app', request({ mode: 'pull-request', branch: 'ci/run-tests' })))
+            .rejects.toThrow('Failed to commit .github/workflows/ci.yml');
+        expect(octokit.rest.git.deleteRef).toHaveBeenCalledWith({ owner: 'octo', repo: 'app', ref: 'heads/ci/run-tests' });
+        expect(octokit.rest.pulls.create).not.toHaveBeenCalled();
+    });
+
+    it('should report a file changed since it was loaded', async () => {
+        octokit.rest.repos.createOrUpdateFileContents.mockRejectedValueOnce(httpError(409));
+
+        await expect(service.saveWorkflowFile('octo', 'app', request()))
+            .rejects.toThrow('.github/workflows/ci.yml was changed on main since it was loaded');
+        expect(octokit.rest.git.deleteRef).not.toHaveBeenCalled();
+    });
+
+    it('should refuse an existing branch name', async () => {
+        octokit.rest.git.createRef.mockRejectedValueOnce(httpError(422));
+
+        await expect(service.saveWorkflowFile('octo', 'app', request({ mode: 'pull-request', branch: 'main' })))
+            .rejects.toThrow('Branch main already exists');
+        expect(octokit.rest.repos.createOrUpdateFileContents).not.toHaveBeenCalled();
+    });
+
+    it('should refuse files outside .github/workflows and invalid branch names', async () => {
+        await expect(service.saveWorkflowFile('octo', 'app', request({ path: 'ci.yml' })))
+            .rejects.toThrow('Workflow files must be .yml or .yaml files in .github/workflows');
+        await expect(service.saveWorkflowFile('octo', 'app', request({ mode: 'pull-request', branch: 'feature..x' })))
+            .rejects.toThrow('Invalid branch name: feature..x');
+        expect(octokit.rest.repos.createOrUpdateFileContents).not.toHaveBeenCalled();
+    });
+
+    it('should refuse a workflow with validation errors before touching the repository', async () => {
+        const broken = WORKFLOW.replace('    runs-on: ubuntu-latest\n', '');
+
+        await expect(service.saveWorkflowFile('octo', 'app', request({ content: broken, mode: 'pull-request', branch: 'ci/run-tests' })))
+            .rejects.toThrow("The workflow has 1 error(s); line 4: Job 'build' is missing 'runs-on'");
+        expect(octokit.rest.git.createRef).not.toHaveBeenCalled();
+        expect(octokit.rest.repos.createOrUpdateFileContents).not.toHaveBeenCalled();
+    });
+});
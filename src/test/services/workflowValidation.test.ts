@@ -0,0 +1,120 @@
+import { describe, it, expect } from 'vitest';
+import { checkExpression, validateWorkflow } from '../../main/services/workflowValidation';
+import { parseYaml } from '../../main/services/yamlDocument';
+
+const workflow = [
+    'name: CI',
+    'on:',
+    '  push:',
+    '    branches: [main]',
+    '  pull_request:',
+    '',
+    'jobs:',
+    '  build:',
+    '    runs-on: ubuntu-latest',
+    '    steps:',
+    '      - uses: actions/checkout@v4',
+    '      - name: Test # run the suite',
+    '        run: |',
+    '          npm ci',
+    '          npm test -- --reporter ${{ matrix.reporter }}',
+    '  deploy:',
+    '    needs: build',
+    "    if: github.ref == 'refs/heads/main'",
+    '    runs-on: [self-hosted, linux]',
+    '    steps:',
+    "      - run: echo \"deploying ${{ github.sha }}\"",
+    ''
+].join('\n');
+
+const messages = (text: string) => validateWorkflow(text).map(diagnostic => diagnostic.message);
+
+describe('parseYaml', () => {
+    it('reads block mappings, sequences, flow collections and block scalars with positions', () => {
+        const { root, error } = parseYaml(workflow);
+
+        expect(error).toBeNull();
+        expect(root?.kind).toBe('map');
+        const jobs = root?.kind === 'map' ? root.pairs.find(pair => pair.key === 'jobs') : undefined;
+        const build = jobs?.value.kind === 'map' ? jobs.value.pairs[0] : undefined;
+        expect(build?.keyRange).toEqual({ line: 8, column: 3, endLine: 8, endColumn: 8 });
+
+        const steps = build?.value.kind === 'map' ? build.value.pairs.find(pair => pair.key === 'steps')?.value : undefined;
+        const run = steps?.kind === 'seq' && steps.items[1].kind === 'map' ? steps.items[1].pairs[1].value : undefined;
+        expect(run).toMatchObject({ kind: 'scalar', style: 'block', value: 'npm ci\nnpm test -- --reporter ${{ matrix.reporter }}\n' });
+    });
+
+    it('stops at the first syntax error with its position', () => {
+        expect(parseYaml('jobs:\n  build:\n     runs-on: x\n    steps: []\n').error?.range).toMatchObject({ line: 4 });
+        expect(parseYaml('on: push\non: pull_request\n').error?.message).toBe("Duplicate key 'on'");
+        expect(parseYaml("name: 'unterminated\n").error?.message).toBe('Unterminated quoted string');
+    });
+});
+
+describe('validateWorkflow', () => {
+    it('accepts a valid workflow', () => {
+        expect(validateWorkflow(workflow)).toEqual([]);
+    });
+
+    it('reports missing triggers, unknown keys and events', () => {
+        expect(messages('jobs:\n  a:\n    runs-on: x\n    steps:\n      - run: ls\n')).toContain("The workflow is missing the 'on' key that says when it runs");
+        expect(messages(workflow.replace('name: CI', 'title: CI'))).toEqual(["Unknown key 'title' in the workflow"]);
+        expect(messages(workflow.replace('  pull_request:', '  pull-request:'))).toEqual(["Unknown event 'pull-request'"]);
+    });
+
+    it('requires runs-on and steps unless the job calls a reusable workflow', () => {
+        expect(messages(workflow.replace('    runs-on: [self-hosted, linux]\n', ''))).toEqual(["Job 'deploy' is missing 'runs-on'"]);
+        expect(messages([
+            'on: push',
+            'jobs:',
+            '  call:',
+            '    uses: octo/shared/.github/workflows/build.yml',
+            '    runs-on: ubuntu-latest'
+        ].join('\n'))).toEqual([
+            "Reusable workflow 'octo/shared/.github/workflows/build.yml' is missing a version, e.g. octo/shared/.github/workflows/build.yml@main",
+            "Unknown key 'runs-on' in job 'call', which calls a reusable workflow"
+        ]);
+    });
+
+    it('checks the needs graph for unknown jobs and cycles', () => {
+        expect(messages(workflow.replace('needs: build', 'needs: [biuld]'))).toEqual(["Job 'deploy' needs 'biuld', which is not a job in this workflow"]);
+
+        const cyclic = workflow.replace('    runs-on: ubuntu-latest', '    needs: deploy\n    runs-on: ubuntu-latest');
+        const diagnostics = validateWorkflow(cyclic);
+        expect(diagnostics).toHaveLength(1);
+        expect(diagnostics[0]).toMatchObject({ severity: 'error', message: 'Circular job dependency: build → deploy → build', line: 18 });
+    });
+
+    it('flags actions without a version and warns about branch references', () => {
+        const [missing] = validateWorkflow(workflow.replace('actions/checkout@v4', 'actions/checkout'));
+        expect(missing).toMatchObject({ message: 'Action \'actions/checkout\' is missing a version, e.g. actions/checkout@v4', line: 11, column: 15 });
+
+        const [branch] = validateWorkflow(workflow.replace('actions/checkout@v4', 'actions/checkout@main'));
+        expect(branch.severity).toBe('warning');
+    });
+
+    it('points at invalid expressions inside strings and block scalars', () => {
+        const [context] = validateWorkflow(workflow.replace('matrix.reporter', 'matrx.reporter'));
+        expect(context).toMatchObject({ message: "Unknown context 'matrx'", line: 15, column: 34, endColumn: 55 });
+
+        const [unclosed] = validateWorkflow(workflow.replace('${{ github.sha }}', '${{ github.sha'));
+        expect(unclosed).toMatchObject({ message: "Expression is missing its closing '}}'", line: 21 });
+
+        expect(messages(workflow.replace("github.ref == 'refs/heads/main'", "github.ref = 'refs/heads/main'"))).toEqual(["Use '==' to compare values"]);
+    });
+});
+
+describe('checkExpression', () => {
+    it('accepts contexts, functions, literals and operators', () => {
+        expect(checkExpression("github.event_name == 'push' && !cancelled()")).toBeNull();
+        expect(checkExpression("contains(fromJSON('[\"a\"]'), matrix.os) || steps.build.outputs['it''s'] > 1.5")).toBeNull();
+        expect(checkExpression('needs.*.result')).toBeNull();
+    });
+
+    it('reports the first problem', () => {
+        expect(checkExpression('  ')).toBe('Empty expression');
+        expect(checkExpression('startsWith(github.ref, \'refs/')).toBe('Unterminated string in expression');
+        expect(checkExpression('format(github.ref')).toBe("Missing ')' in expression");
+        expect(checkExpression('lower(github.ref)')).toBe("Unknown function 'lower'");
+    });
+});
@@ -72,6 +72,9 @@ const mockDashboardStats = {
         getStats: vi.fn().mockResolvedValue(createSuccessResponse({})),
         getLogs: vi.fn().mockResolvedValue(createSuccessResponse('')),
         testConnection: vi.fn().mockResolvedValue(createSuccessResponse()),
+        respondToAuthPrompt: vi.fn().mockResolvedValue(createSuccessResponse()),
+        importKnownHostKey: vi.fn().mockResolvedValue(createSuccessResponse()),
+        forgetHostKey: vi.fn().mockResolvedValue(createSuccessResponse()),
         testConnectionDetailed: vi.fn().mockResolvedValue(createSuccessResponse({
             success: true,
             host: 'example.com',
@@ -103,10 +106,29 @@ const mockDashboardStats = {
         delete: vi.fn().mockResolvedValue(createSuccessResponse()),
         import: vi.fn().mockResolvedValue(createSuccessResponse())
     },
+    deploy: {
+        list: vi.fn().mockResolvedValue(createSuccessResponse([])),
+        create: vi.fn().mockResolvedValue(createSuccessResponse()),
+        update: vi.fn().mockResolvedValue(createSuccessResponse()),
+        delete: vi.fn().mockResolvedValue(createSuccessResponse()),
+        run: vi.fn().mockResolvedValue(createSuccessResponse()),
+        cancel: vi.fn().mockResolvedValue(createSuccessResponse()),
+        deployGroup: vi.fn().mockResolvedValue(createSuccessResponse()),
+        cancelGroup: vi.fn().mockResolvedValue(createSuccessResponse()),
+        history: vi.fn().mockResolvedValue(createSuccessResponse([])),
+        rollback: vi.fn().mockResolvedValue(createSuccessResponse()),
+        detectStack: vi.fn().mockResolvedValue(createSuccessResponse())
+    },
     workflows: {
         listAll: vi.fn().mockResolvedValue(createSuccessResponse([])),
         listRepo: vi.fn().mockResolvedValue(createSuccessResponse([])),
-        getYAML: vi.fn().mockResolvedValue(createSuccessResponse('')),
+        getJobLogs: vi.fn().mockResolvedValue(createSuccessResponse({ text: '', size: 0, reset: false, job: null })),
+        getYAML: vi.fn().mockResolvedValue(createSuccessResponse(null)),
+        saveFile: vi.fn().mockResolvedValue(createSuccessResponse(null)),
+        validate: vi.fn().mockResolvedValue(createSuccessResponse([])),
+        listProjects: vi.fn().mockResolvedValue(createSuccessResponse([])),
+        saveProject: vi.fn().mockResolvedValue(createSuccessResponse(null)),
+        deleteProject: vi.fn().mockResolvedValue(createSuccessResponse()),
         cancel: vi.fn().mockResolvedValue(createSuccessResponse()),
         rerun: vi.fn().mockResolvedValue(createSuccessResponse()),
         openBrowser: vi.fn().mockResolvedValue(createSuccessResponse())
@@ -132,10 +154,43 @@ const mockDashboardStats = {
         listDeployKeys: vi.fn().mockResolvedValue(createSuccessResponse([])),
         deleteDeployKey: vi.fn().mockResolvedValue(createSuccessResponse())
     },
+    docker: {
+        ping: vi.fn().mockResolvedValue(createSuccessResponse({ version: '24.0.7', apiVersion: '1.43', os: 'linux', arch: 'amd64' })),
+        list: vi.fn().mockResolvedValue(createSuccessResponse([])),
+        inspect: vi.fn().mockResolvedValue(createSuccessResponse({})),
+        remove: vi.fn().mockResolvedValue(createSuccessResponse()),
+        startContainer: vi.fn().mockResolvedValue(createSuccessResponse()),
+        stopContainer: vi.fn().mockResolvedValue(createSuccessResponse()),
+        restartContainer: vi.fn().mockResolvedValue(createSuccessResponse()),
+        subscribeLogs: vi.fn().mockResolvedValue(createSuccessResponse('stream-1')),
+        startExec: vi.fn().mockResolvedValue(createSuccessResponse('stream-2')),
+        writeStream: vi.fn().mockResolvedValue(createSuccessResponse()),
+        resizeStream: vi.fn().mockResolvedValue(createSuccessResponse()),
+        unsubscribe: vi.fn().mockResolvedValue(createSuccessResponse())
+    },
+    terminal: {
+        open: vi.fn().mockResolvedValue(createSuccessResponse({ id: 'terminal-1', serverId: 'server-1', startedAt: new Date().toISOString() })),
+        write: vi.fn().mockResolvedValue(createSuccessResponse()),
+        resize: vi.fn().mockResolvedValue(createSuccessResponse()),
+        close: vi.fn().mockResolvedValue(createSuccessResponse()),
+        saveTranscript: vi.fn().mockResolvedValue(createSuccessResponse(null))
+    },
+    sftp: {
+        list: vi.fn().mockResolvedValue(createSuccessResponse({ path: '/home/deploy', entries: [] })),
+        stat: vi.fn().mockResolvedValue(createSuccessResponse({})),
+        readFile: vi.fn().mockResolvedValue(createSuccessResponse({ path: '/home/deploy/.env', content: '', size: 0, modifiedAt: new Date().toISOString(), hash: 'hash-1' })),
+        writeFile: vi.fn().mockResolvedValue(createSuccessResponse({ saved: true, file: { path: '/home/deploy/.env', size: 0, modifiedAt: new Date().toISOString(), hash: 'hash-2' } })),
+        download: vi.fn().mockResolvedValue(createSuccessResponse(null)),
+        upload: vi.fn().mockResolvedValue(createSuccessResponse([])),
+        rename: vi.fn().mockResolvedValue(createSuccessResponse()),
+        delete: vi.fn().mockResolvedValue(createSuccessResponse()),
+        chmod: vi.fn().mockResolvedValue(createSuccessResponse()),
+        mkdir: vi.fn().mockResolvedValue(createSuccessResponse())
+    },
     notifications: {
         show: vi.fn().mockResolvedValue(createSuccessResponse())
     },
-    on: vi.fn(),
+    on: vi.fn(() => vi.fn()),
     removeAllListeners: vi.fn(),
     platform: 'test'
 };
@@ -187,5 +242,6 @@ Object.defineProperty(window, 'localStorage', {
 // Mock Monaco Editor
 vi.mock('@monaco-editor/react', () => ({
     default: vi.fn(() => null),
-    Editor: vi.fn(() => null)
+    Editor: vi.fn(() => null),
+    DiffEditor: vi.fn(() => null)
 }));
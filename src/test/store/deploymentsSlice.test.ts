@@ -0,0 +1,190 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { configureStore } from '@reduxjs/toolkit';
+import deploymentsSlice, {
+    clearRollbackError,
+    createDeploymentConfig,
+    deleteDeploymentConfig,
+    deployToServerGroup,
+    fetchDeploymentHistory,
+    groupDeploymentProgress,
+    rollbackDeployment,
+    runDeploymentConfig
+} from '../../renderer/store/slices/deploymentsSlice';
+import { serverDeploymentFinished } from '../../renderer/store/slices/serversSlice';
+import type { DeploymentConfig, DirectDeploymentResult, GroupDeploymentResult, IPCResponse } from '../../shared/types';
+
+interface RootState {
+    deployments: ReturnType<typeof deploymentsSlice>;
+}
+
+const createResult = (overrides: Partial<DirectDeploymentResult> = {}): DirectDeploymentResult => ({
+    id: 'deploy-1',
+    success: true,
+    serverId: 'server-1',
+    repository: {
+        name: 'app',
+        fullName: 'acme/app',
+        cloneUrl: 'https://github.com/acme/app.git',
+        defaultBranch: 'main'
+    },
+    branch: 'main',
+    targetPath: '/var/www/app',
+    steps: [],
+    startedAt: '2024-08-14T10:00:00.000Z',
+    finishedAt: '2024-08-14T10:01:00.000Z',
+    durationMs: 60000,
+    commitSha: 'a1b2c3d4e5f6a7b8c9d0a1b2c3d4e5f6a7b8c9d0',
+    commitMessage: 'Initial release',
+    triggeredBy: 'testuser',
+    ...overrides
+});
+
+const createConfig = (overrides: Partial<DeploymentConfig> = {}): DeploymentConfig => ({
+    id: 'config-1',
+    name: 'Production',
+    repositoryId: 42,
+    repository: {
+        name: 'app',
+        fullName: 'acme/app',
+        cloneUrl: 'https://github.com/acme/app.git',
+        defaultBranch: 'main'
+    },
+    serverId: 'server-1',
+    branch: 'main',
+    deployPath: '/var/www/app',
+    envVars: {},
+    isActive: true,
+    ...overrides
+});
+
+describe('deploymentsSlice', () => {
+    let store: ReturnType<typeof configureStore<RootState>>;
+
+    beforeEach(() => {
+        store = configureStore({
+            reducer: {
+                deployments: deploymentsSlice
+            }
+        });
+    });
+
+    it('should load history for the requested filter', async () => {
+        const history = [createResult()];
+        vi.mocked(window.electronAPI.deploy.history).mockResolvedValueOnce({ success: true, data: history });
+
+        await store.dispatch(fetchDeploymentHistory({ serverId: 'server-1' }));
+
+        const state = store.getState().deployments;
+        expect(window.electronAPI.deploy.history).toHaveBeenCalledWith({ serverId: 'server-1' });
+        expect(state.history).toEqual(history);
+        expect(state.historyFilter).toEqual({ serverId: 'server-1' });
+        expect(state.historyLoading).toBe(false);
+    });
+
+    it('should prepend finished deployments that match the current filter', async () => {
+        vi.mocked(window.electronAPI.deploy.history).mockResolvedValueOnce({ success: true, data: [createResult()] });
+        await store.dispatch(fetchDeploymentHistory({ serverId: 'server-1' }));
+
+        store.dispatch(serverDeploymentFinished(createResult({ id: 'deploy-2', rollbackOf: 'deploy-1' })));
+        store.dispatch(serverDeploymentFinished(createResult({ id: 'deploy-3', serverId: 'server-2' })));
+
+        const ids = store.getState().deployments.history.map(entry => entry.id);
+        expect(ids).toEqual(['deploy-2', 'deploy-1']);
+    });
+
+    it('should track rollback progress and errors', async () => {
+        vi.mocked(window.electronAPI.deploy.rollback).mockResolvedValueOnce({ success: false, error: 'Host unreachable' });
+
+        const pending = store.dispatch(rollbackDeployment('deploy-1'));
+        expect(store.getState().deployments.rollingBack).toBe('deploy-1');
+        await pending;
+
+        let state = store.getState().deployments;
+        expect(state.rollingBack).toBeNull();
+        expect(state.rollbackError).toBe('Host unreachable');
+
+        store.dispatch(clearRollbackError());
+        state = store.getState().deployments;
+        expect(state.rollbackError).toBeNull();
+    });
+
+    it('should keep saved configurations sorted and drop deleted ones', async () => {
+        const { id: _id, ...input } = createConfig({ name: 'Staging' });
+        vi.mocked(window.electronAPI.deploy.create)
+            .mockResolvedValueOnce({ success: true, data: createConfig({ id: 'config-2', name: 'Staging' }) })
+            .mockResolvedValueOnce({ success: true, data: createConfig() });
+
+        await store.dispatch(createDeploymentConfig(input));
+        await store.dispatch(createDeploymentConfig({ ...input, name: 'Production' }));
+        expect(store.getState().deployments.configs.map(config => config.name)).toEqual(['Production', 'Staging']);
+
+        await store.dispatch(deleteDeploymentConfig('config-2'));
+        expect(window.electronAPI.deploy.delete).toHaveBeenCalledWith('config-2');
+        expect(store.getState().deployments.configs.map(config => config.id)).toEqual(['config-1']);
+    });
+
+    it('should track which saved configuration is deploying', async () => {
+        vi.mocked(window.electronAPI.deploy.run).mockResolvedValueOnce({ success: false, error: 'Deployment configuration "Production" is disabled' });
+
+        const pending = store.dispatch(runDeploymentConfig('config-1'));
+        expect(store.getState().deployments.runningConfigId).toBe('config-1');
+        await pending;
+
+        const state = store.getState().deployments;
+        expect(window.electronAPI.deploy.run).toHaveBeenCalledWith('config-1');
+        expect(state.runningConfigId).toBeNull();
+        expect(state.runError).toBe('Deployment configuration "Production" is disabled');
+    });
+
+    it('should follow a group rollout from its progress events', async () => {
+        let finish: (response: IPCResponse<GroupDeploymentResult>) => void = () => undefined;
+        vi.mocked(window.electronAPI.deploy.deployGroup).mockReturnValueOnce(new Promise(resolve => { finish = resolve; }));
+
+        const pending = store.dispatch(deployToServerGroup({
+            group: { tag: 'web' },
+            strategy: 'canary',
+            deployment: { repository: createResult().repository, branch: 'main', targetPath: '/var/www/app' }
+        }));
+        expect(store.getState().deployments.groupDeploying).toBe(true);
+
+        const groupId = 'group-1';
+        store.dispatch(groupDeploymentProgress({ type: 'started', groupId, strategy: 'canary', batches: [['server-1'], ['server-2', 'server-3']], startedAt: '2024-08-14T10:00:00.000Z' }));
+        store.dispatch(groupDeploymentProgress({ type: 'batch-start', groupId, batch: 0, serverIds: ['server-1'] }));
+        store.dispatch(groupDeploymentProgress({ type: 'server-finished', groupId, result: createResult({ groupId }) }));
+        store.dispatch(groupDeploymentProgress({ type: 'paused', groupId, until: '2024-08-14T10:02:00.000Z' }));
+        // Events from another rollout are ignored
+        store.dispatch(groupDeploymentProgress({ type: 'batch-start', groupId: 'group-0', batch: 1, serverIds: ['server-2'] }));
+
+        let group = store.getState().deployments.groupDeployment;
+        expect(group?.currentBatch).toBe(0);
+        expect(group?.pausedUntil).toBe('2024-08-14T10:02:00.000Z');
+        expect(group?.results['server-1'].success).toBe(true);
+
+        const failed = createResult({ id: 'deploy-2', serverId: 'server-2', success: false, groupId, error: 'Health check failed' });
+        store.dispatch(groupDeploymentProgress({ type: 'batch-start', groupId, batch: 1, serverIds: ['server-2', 'server-3'] }));
+        store.dispatch(groupDeploymentProgress({ type: 'server-finished', groupId, result: failed }));
+        const result: GroupDeploymentResult = {
+            id: groupId,
+            success: false,
+            strategy: 'canary',
+            batches: [['server-1'], ['server-2', 'server-3']],
+            results: [createResult({ groupId }), failed],
+            skippedServerIds: ['server-3'],
+            startedAt: '2024-08-14T10:00:00.000Z',
+            finishedAt: '2024-08-14T10:05:00.000Z',
+            durationMs: 300000,
+            error: 'Rollout stopped: web-2 failed (Health check failed)'
+        };
+        store.dispatch(groupDeploymentProgress({ type: 'finished', groupId, result }));
+        finish({ success: false, data: result, error: result.error });
+        await pending;
+
+        const state = store.getState().deployments;
+        group = state.groupDeployment;
+        expect(group?.status).toBe('failed');
+        expect(group?.pausedUntil).toBeUndefined();
+        expect(group?.result?.skippedServerIds).toEqual(['server-3']);
+        expect(state.groupDeploying).toBe(false);
+        expect(state.groupError).toBe('Rollout stopped: web-2 failed (Health check failed)');
+    });
+});
@@ -0,0 +1,69 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { configureStore } from '@reduxjs/toolkit';
+import serversSlice, {
+    cancelServerDeployment,
+    serverDeploymentFinished,
+    serverDeploymentProgress
+} from '../../renderer/store/slices/serversSlice';
+import type { DirectDeploymentResult } from '../../shared/types';
+
+interface RootState {
+    servers: ReturnType<typeof serversSlice>;
+}
+
+const base = { deploymentId: 'deploy-1', serverId: 'server-1' };
+
+describe('serversSlice deployment progress', () => {
+    let store: ReturnType<typeof configureStore<RootState>>;
+
+    beforeEach(() => {
+        store = configureStore({
+            reducer: {
+                servers: serversSlice
+            }
+        });
+        store.dispatch(serverDeploymentProgress({ ...base, type: 'started', repository: 'acme/app', startedAt: '2024-08-14T10:00:00.000Z' }));
+    });
+
+    it('should collect live step output and keep it once the deployment finishes', () => {
+        store.dispatch(serverDeploymentProgress({ ...base, type: 'step-start', stepId: 'step-1', name: 'Synchronize repository', startedAt: '2024-08-14T10:00:01.000Z' }));
+        store.dispatch(serverDeploymentProgress({ ...base, type: 'step-output', stepId: 'step-1', stream: 'stdout', data: 'Cloning into app...\n' }));
+        store.dispatch(serverDeploymentProgress({ ...base, type: 'step-output', stepId: 'step-1', stream: 'stderr', data: 'warning: shallow\n' }));
+        // Events from another deployment are ignored
+        store.dispatch(serverDeploymentProgress({ ...base, deploymentId: 'deploy-0', type: 'step-output', stepId: 'step-1', stream: 'stdout', data: 'stale\n' }));
+        store.dispatch(serverDeploymentProgress({ ...base, type: 'step-finish', stepId: 'step-1', code: 0, success: true, finishedAt: '2024-08-14T10:00:05.000Z' }));
+
+        let deployment = store.getState().servers.deployments['server-1'];
+        expect(deployment.status).toBe('running');
+        expect(deployment.liveSteps).toHaveLength(1);
+        expect(deployment.liveSteps?.[0].status).toBe('succeeded');
+        expect(deployment.liveSteps?.[0].output.map(chunk => chunk.data).join('')).toBe('Cloning into app...\nwarning: shallow\n');
+
+        store.dispatch(serverDeploymentFinished({ id: 'deploy-1', serverId: 'server-1', success: true } as DirectDeploymentResult));
+        deployment = store.getState().servers.deployments['server-1'];
+        expect(deployment.status).toBe('succeeded');
+        expect(deployment.liveSteps).toHaveLength(1);
+    });
+
+    it('should flag the deployment while a cancel request is in flight', async () => {
+        vi.mocked(window.electronAPI.deploy.cancel).mockResolvedValueOnce({ success: false, error: 'Deployment is not running' });
+
+        const pending = store.dispatch(cancelServerDeployment({ serverId: 'server-1', deploymentId: 'deploy-1' }));
+        expect(store.getState().servers.deployments['server-1'].cancelling).toBe(true);
+        await pending;
+
+        const state = store.getState().servers;
+        expect(window.electronAPI.deploy.cancel).toHaveBeenCalledWith('deploy-1');
+        expect(state.deployments['server-1'].cancelling).toBe(false);
+        expect(state.error).toBe('Deployment is not running');
+    });
+
+    it('should mark steps that hit their timeout', () => {
+        store.dispatch(serverDeploymentProgress({ ...base, type: 'step-start', stepId: 'step-1', name: 'Build', startedAt: '2024-08-14T10:00:01.000Z' }));
+        store.dispatch(serverDeploymentProgress({ ...base, type: 'step-finish', stepId: 'step-1', code: 1, success: false, timedOut: true, finishedAt: '2024-08-14T10:30:01.000Z' }));
+
+        const [step] = store.getState().servers.deployments['server-1'].liveSteps ?? [];
+        expect(step.status).toBe('failed');
+        expect(step.timedOut).toBe(true);
+    });
+});
@@ -0,0 +1,55 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { EventEmitter } from 'events';
+import { listenToDockerStream } from '../../renderer/utils/dockerStreams';
+
+const ipc = new EventEmitter();
+
+const createHandlers = () => ({ onData: vi.fn(), onEnd: vi.fn() });
+
+describe('listenToDockerStream', () => {
+    beforeEach(() => {
+        ipc.removeAllListeners();
+        vi.mocked(window.electronAPI.on).mockImplementation((channel: string, func: (...args: any[]) => void) => {
+            ipc.on(channel, func);
+            return () => {
+                ipc.off(channel, func);
+            };
+        });
+    });
+
+    it('should replay frames that arrived before the stream id was known', () => {
+        const handlers = createHandlers();
+        const stream = listenToDockerStream(handlers);
+
+        ipc.emit('docker:stream-data', { streamId: 'logs-1', stream: 'stdout', data: 'first\n' });
+        ipc.emit('docker:stream-data', { streamId: 'shell-1', stream: 'stdout', data: '$ ' });
+        expect(handlers.onData).not.toHaveBeenCalled();
+
+        stream.attach('logs-1');
+        ipc.emit('docker:stream-data', { streamId: 'logs-1', stream: 'stderr', data: 'second\n' });
+        ipc.emit('docker:stream-end', { streamId: 'shell-1', exitCode: 0 });
+        ipc.emit('docker:stream-end', { streamId: 'logs-1' });
+
+        expect(handlers.onData.mock.calls.map(([payload]) => payload.data)).toEqual(['first\n', 'second\n']);
+        expect(handlers.onEnd).toHaveBeenCalledTimes(1);
+        expect(handlers.onEnd).toHaveBeenCalledWith({ streamId: 'logs-1' });
+    });
+
+    it('should only remove its own listeners when disposed', () => {
+        const logs = createHandlers();
+        const shell = createHandlers();
+        const logsStream = listenToDockerStream(logs);
+        const shellStream = listenToDockerStream(shell);
+        logsStream.attach('logs-1');
+        shellStream.attach('shell-1');
+
+        logsStream.dispose();
+        ipc.emit('docker:stream-data', { streamId: 'logs-1', stream: 'stdout', data: 'late\n' });
+        ipc.emit('docker:stream-data', { streamId: 'shell-1', stream: 'stdout', data: '$ ' });
+
+        expect(logs.onData).not.toHaveBeenCalled();
+        expect(shell.onData).toHaveBeenCalledWith({ streamId: 'shell-1', stream: 'stdout', data: '$ ' });
+        expect(ipc.listenerCount('docker:stream-data')).toBe(1);
+        expect(ipc.listenerCount('docker:stream-end')).toBe(1);
+    });
+});
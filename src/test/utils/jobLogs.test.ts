@@ -0,0 +1,62 @@
+import { describe, it, expect } from 'vitest';
+import { parseAnsi, parseJobLog, splitLogBySteps } from '../../renderer/utils/jobLogs';
+import type { WorkflowStep } from '../../shared/types';
+
+const log = [
+    '\uFEFF2024-05-01T10:00:01.1000000Z Current runner version: 2.316.0',
+    '2024-05-01T10:00:01.2000000Z ##[group]Operating System',
+    '2024-05-01T10:00:01.2100000Z Ubuntu 22.04',
+    '2024-05-01T10:00:01.2200000Z ##[endgroup]',
+    '2024-05-01T10:00:03.0100000Z ##[group]Run npm test',
+    '2024-05-01T10:00:03.0200000Z ##[command]npm test',
+    '2024-05-01T10:00:04.5000000Z \u001b[31mFAIL\u001b[0m src/app.test.ts',
+    '2024-05-01T10:00:04.6000000Z ##[error]Process completed with exit code 1.',
+    '2024-05-01T10:00:06.0000000Z Cleaning up orphan processes',
+    ''
+].join('\n');
+
+const step = (number: number, name: string, started_at: string, conclusion: WorkflowStep['conclusion'] = 'success'): WorkflowStep => ({
+    number,
+    name,
+    status: 'completed',
+    conclusion,
+    started_at,
+    completed_at: started_at
+});
+
+describe('job logs', () => {
+    it('should read timestamps and runner commands', () => {
+        const lines = parseJobLog(log);
+
+        expect(lines[0]).toMatchObject({ index: 0, timestamp: '2024-05-01T10:00:01.1000000Z', kind: 'normal', text: 'Current runner version: 2.316.0' });
+        expect(lines.find(line => line.text === 'Operating System')?.kind).toBe('group');
+        expect(lines.find(line => line.text === 'npm test')?.kind).toBe('command');
+        expect(lines.find(line => line.text.startsWith('Process completed'))?.kind).toBe('error');
+        expect(lines.some(line => line.text === '')).toBe(false);
+    });
+
+    it('should split the log at step starts and group markers', () => {
+        const steps = [
+            step(1, 'Set up job', '2024-05-01T10:00:01Z'),
+            step(2, 'Lint', '2024-05-01T10:00:02Z', 'skipped'),
+            step(3, 'Run npm test', '2024-05-01T10:00:03Z', 'failure'),
+            step(4, 'Complete job', '2024-05-01T10:00:06Z')
+        ];
+
+        const byStep = splitLogBySteps(parseJobLog(log), steps);
+
+        expect(byStep.get(1)?.map(line => line.text)).toEqual(['Current runner version: 2.316.0', 'Operating System', 'Ubuntu 22.04']);
+        expect(byStep.has(2)).toBe(false);
+        expect(byStep.get(3)?.[0].text).toBe('Run npm test');
+        expect(byStep.get(3)).toHaveLength(4);
+        expect(byStep.get(4)?.map(line => line.text)).toEqual(['Cleaning up orphan processes']);
+    });
+
+    it('should colour text from ANSI escape codes', () => {
+        expect(parseAnsi('\u001b[1;32mPASS\u001b[0m done')).toEqual([
+            { text: 'PASS', color: '#4ADE80', bold: true },
+            { text: ' done', color: undefined, bold: undefined }
+        ]);
+        expect(parseAnsi('\u001b[2Kplain')).toEqual([{ text: 'plain', color: undefined, bold: undefined }]);
+    });
+});
@@ -0,0 +1,47 @@
+import { describe, it, expect } from 'vitest';
+import { diffLines, toHunks } from '../../renderer/utils/lineDiff';
+
+describe('diffLines', () => {
+    it('marks unchanged, removed and added lines with their line numbers', () => {
+        const lines = diffLines('on: push\njobs:\n  build:\n', 'on: pull_request\njobs:\n  build:\n  test:\n');
+
+        expect(lines.map(line => [line.type, line.text])).toEqual([
+            ['removed', 'on: push'],
+            ['added', 'on: pull_request'],
+            ['same', 'jobs:'],
+            ['same', '  build:'],
+            ['added', '  test:'],
+            ['same', '']
+        ]);
+        expect(lines[0]).toEqual({ type: 'removed', text: 'on: push', oldNumber: 1 });
+        expect(lines[1]).toEqual({ type: 'added', text: 'on: pull_request', newNumber: 1 });
+        expect(lines[4]).toMatchObject({ newNumber: 4 });
+    });
+
+    it('reports identical content as unchanged', () => {
+        expect(diffLines('a\nb', 'a\nb').every(line => line.type === 'same')).toBe(true);
+    });
+});
+
+describe('toHunks', () => {
+    const before = Array.from({ length: 20 }, (_, i) => `line ${i + 1}`).join('\n');
+
+    it('returns no hunks when nothing changed', () => {
+        expect(toHunks(diffLines(before, before))).toEqual([]);
+    });
+
+    it('keeps context around changes and splits distant ones', () => {
+        const after = before.replace('line 2\n', 'line two\n').replace('line 18\n', 'line eighteen\n');
+        const hunks = toHunks(diffLines(before, after), 2);
+
+        expect(hunks).toHaveLength(2);
+        expect(hunks[0].lines.map(line => line.text)).toEqual(['line 1', 'line 2', 'line two', 'line 3', 'line 4']);
+        expect(hunks[1].lines[0].text).toBe('line 16');
+    });
+
+    it('merges changes whose context overlaps', () => {
+        const after = before.replace('line 5\n', 'line five\n').replace('line 9\n', 'line nine\n');
+
+        expect(toHunks(diffLines(before, after), 2)).toHaveLength(1);
+    });
+});
@@ -0,0 +1,116 @@
+import { describe, it, expect } from 'vitest';
+import { compileWorkflowGraph, toYaml } from '../../renderer/utils/workflowGraph';
+import { validateWorkflow } from '../../main/services/workflowValidation';
+import type { WorkflowGraphConnection, WorkflowGraphNode } from '../../shared/types';
+
+const node = (id: string, type: WorkflowGraphNode['type'], title: string, config: Record<string, string> = {}): WorkflowGraphNode => ({
+    id,
+    type,
+    title,
+    description: '',
+    position: { x: 0, y: 0 },
+    config
+});
+
+const connect = (from: string, to: string, fromPort: string = 'success'): WorkflowGraphConnection => ({ from, to, fromPort, toPort: 'input' });
+
+describe('toYaml', () => {
+    it('writes block mappings and lists, quoting strings YAML would misread', () => {
+        expect(toYaml({
+            on: { push: { branches: ['main'] }, workflow_dispatch: null },
+            env: { VERSION: '20', NAME: 'a: b', EMPTY: '' },
+            steps: [{ name: 'Test', run: 'npm ci\nnpm test' }]
+        })).toBe([
+            'on:',
+            '  push:',
+            '    branches:',
+            '      - main',
+            '  workflow_dispatch:',
+            'env:',
+            "  VERSION: '20'",
+            "  NAME: 'a: b'",
+            "  EMPTY: ''",
+            'steps:',
+            '  - name: Test',
+            '    run: |-',
+            '      npm ci',
+            '      npm test',
+            ''
+        ].join('\n'));
+    });
+});
+
+describe('compileWorkflowGraph', () => {
+    const nodes = [
+        node('push', 'trigger', 'Git Push', { event: 'push', branches: 'main, release/*' }),
+        node('pr', 'trigger', 'PR Created', { event: 'pull_request' }),
+        node('test', 'action', 'Run Tests', { run: 'npm test' }),
+        node('branch', 'condition', 'Branch Check', { expression: "${{ github.ref == 'refs/heads/main' }}" }),
+        node('prod', 'deploy', 'Deploy to Production', { run: './deploy.sh', environment: 'production' }),
+        node('notify', 'action', 'Notify', { uses: 'slackapi/slack-github-action@v1' })
+    ];
+    const connections = [
+        connect('push', 'test'),
+        connect('pr', 'test'),
+        connect('test', 'branch'),
+        connect('branch', 'prod', 'true'),
+        connect('prod', 'notify', 'error')
+    ];
+
+    it('turns triggers into events, jobs into needs and conditions into if', () => {
+        const { yaml, problems } = compileWorkflowGraph(nodes, connections, { name: 'Release' });
+
+        expect(problems).toEqual([]);
+        expect(yaml).toContain('on:\n  push:\n    branches:\n      - main\n      - release/*\n  pull_request:\n');
+        expect(yaml).toContain([
+            '  deploy-to-production:',
+            '    name: Deploy to Production',
+            '    needs: run-tests',
+            "    if: ${{ (github.ref == 'refs/heads/main') }}",
+            '    runs-on: ubuntu-latest',
+            '    environment: production'
+        ].join('\n'));
+        expect(yaml).toContain('    if: ${{ failure() }}');
+        expect(yaml).toContain('        uses: slackapi/slack-github-action@v1');
+        expect(validateWorkflow(yaml)).toEqual([]);
+    });
+
+    it('limits a first job to the events of the triggers connected to it', () => {
+        const { yaml } = compileWorkflowGraph(nodes, [connect('pr', 'test')], { name: 'CI' });
+
+        expect(yaml).toContain("    if: ${{ github.event_name == 'pull_request' }}");
+    });
+
+    it('negates the condition on its false port', () => {
+        const { yaml } = compileWorkflowGraph(nodes, [...connections.slice(0, 3), connect('branch', 'prod', 'false')], { name: 'CI' });
+
+        expect(yaml).toContain("if: ${{ !(github.ref == 'refs/heads/main') }}");
+    });
+
+    it('reports graphs that cannot become a working workflow', () => {
+        expect(compileWorkflowGraph([], [], { name: 'Empty' }).problems.map(problem => problem.message)).toEqual([
+            'Add a trigger node to say when the workflow runs',
+            'Add an action or deploy node to give the workflow a job'
+        ]);
+
+        const looped = compileWorkflowGraph(nodes, [...connections, connect('prod', 'test')], { name: 'CI' });
+        expect(looped.problems).toContainEqual(expect.objectContaining({ severity: 'error', message: expect.stringMatching(/^Connections form a loop: /) }));
+
+        const unconnected = compileWorkflowGraph([nodes[0], node('lint', 'action', 'Lint')], [], { name: 'CI' });
+        expect(unconnected.problems).toEqual([
+            { severity: 'warning', message: "'Lint' is not connected and runs on every trigger", nodeId: 'lint' },
+            { severity: 'error', message: "'Lint' needs a command to run or an action to use", nodeId: 'lint' }
+        ]);
+    });
+
+    it('gives jobs with the same title distinct IDs', () => {
+        const { yaml } = compileWorkflowGraph(
+            [nodes[0], node('a', 'action', 'Build', { run: 'make' }), node('b', 'action', 'Build', { run: 'make' })],
+            [connect('push', 'a'), connect('a', 'b')],
+            { name: 'CI' }
+        );
+
+        expect(yaml).toContain('  build:\n');
+        expect(yaml).toContain('  build-2:\n    name: Build\n    needs: build\n');
+    });
+});